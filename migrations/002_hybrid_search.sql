@@ -0,0 +1,91 @@
+-- Hybrid (vector + full-text) search over the search_index table
+
+-- Speed up replacing the index entries that belong to a single stored record
+CREATE INDEX idx_search_content_lookup ON search_index(content_id, content_type);
+
+-- Backfill runs that failed to embed an entry; entries that keep failing are retried last, then not at all
+ALTER TABLE search_index ADD COLUMN embedding_attempts INTEGER NOT NULL DEFAULT 0;
+
+-- Entries waiting for an embedding (indexed while the embedding API was unavailable)
+CREATE INDEX idx_search_missing_embedding ON search_index(embedding_attempts, created_at) WHERE embedding IS NULL;
+
+-- Rank search_index rows for a chat using Reciprocal Rank Fusion of
+-- full-text rank (ts_rank_cd) and cosine similarity. When query_embedding is
+-- NULL only the full-text ranking is used. The returned score is normalised
+-- to 0..1 against the best achievable fused score.
+CREATE OR REPLACE FUNCTION hybrid_search(
+    query_text TEXT,
+    query_embedding VECTOR(1536),
+    match_chat_id TEXT,
+    match_count INTEGER DEFAULT 20,
+    content_types TEXT[] DEFAULT NULL,
+    full_text_weight FLOAT DEFAULT 1.0,
+    semantic_weight FLOAT DEFAULT 1.0,
+    rrf_k INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+    id UUID,
+    content_id UUID,
+    content_type TEXT,
+    content TEXT,
+    metadata JSONB,
+    chat_id TEXT,
+    user_id UUID,
+    created_at BIGINT,
+    score FLOAT
+)
+LANGUAGE sql STABLE
+AS $$
+WITH candidates AS (
+    SELECT *
+    FROM search_index si
+    WHERE si.chat_id = match_chat_id
+      AND (content_types IS NULL OR si.content_type = ANY(content_types))
+),
+full_text AS (
+    SELECT
+        c.id,
+        ROW_NUMBER() OVER (
+            ORDER BY ts_rank_cd(to_tsvector('english', c.content), websearch_to_tsquery('english', query_text)) DESC
+        ) AS rank_ix
+    FROM candidates c
+    WHERE to_tsvector('english', c.content) @@ websearch_to_tsquery('english', query_text)
+    ORDER BY rank_ix
+    LIMIT LEAST(match_count, 50) * 2
+),
+semantic AS (
+    SELECT
+        c.id,
+        ROW_NUMBER() OVER (ORDER BY c.embedding <=> query_embedding) AS rank_ix
+    FROM candidates c
+    WHERE query_embedding IS NOT NULL
+      AND c.embedding IS NOT NULL
+    ORDER BY rank_ix
+    LIMIT LEAST(match_count, 50) * 2
+),
+fused AS (
+    SELECT
+        COALESCE(full_text.id, semantic.id) AS id,
+        COALESCE(1.0 / (rrf_k + full_text.rank_ix), 0.0) * full_text_weight +
+        COALESCE(1.0 / (rrf_k + semantic.rank_ix), 0.0) * semantic_weight AS raw_score
+    FROM full_text
+    FULL OUTER JOIN semantic ON full_text.id = semantic.id
+)
+SELECT
+    si.id,
+    si.content_id,
+    si.content_type,
+    si.content,
+    si.metadata,
+    si.chat_id,
+    si.user_id,
+    si.created_at,
+    COALESCE(fused.raw_score / NULLIF(
+        (full_text_weight + CASE WHEN query_embedding IS NULL THEN 0 ELSE semantic_weight END) / (rrf_k + 1),
+        0
+    ), 0) AS score
+FROM fused
+JOIN search_index si ON si.id = fused.id
+ORDER BY score DESC, si.created_at DESC
+LIMIT LEAST(match_count, 50);
+$$;
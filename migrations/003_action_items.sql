@@ -0,0 +1,39 @@
+-- First-class action items with a status lifecycle
+
+CREATE TABLE action_items (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    chat_id TEXT NOT NULL,
+    item_number INTEGER NOT NULL, -- Per-chat number shown to users (#12)
+    title TEXT NOT NULL,
+    description TEXT NOT NULL DEFAULT '',
+    fingerprint TEXT NOT NULL, -- Normalised title hash used for deduplication
+    assignee TEXT, -- Assignee as mentioned in the conversation
+    assignee_user_id UUID REFERENCES users(id),
+    created_by UUID REFERENCES users(id),
+    priority TEXT NOT NULL DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high')),
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'in_progress', 'completed', 'cancelled')),
+    due_date BIGINT,
+    related_messages TEXT[] NOT NULL DEFAULT '{}',
+    history JSONB NOT NULL DEFAULT '[]'::jsonb, -- Status transitions: [{from, to, by, at}]
+    created_at BIGINT NOT NULL,
+    modified_at BIGINT NOT NULL,
+    completed_at BIGINT,
+    created_at_ts TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE (chat_id, item_number)
+);
+
+-- Create indexes for action items
+CREATE INDEX idx_action_items_chat_id ON action_items(chat_id);
+CREATE INDEX idx_action_items_status ON action_items(status);
+CREATE INDEX idx_action_items_assignee_user_id ON action_items(assignee_user_id);
+CREATE INDEX idx_action_items_due_date ON action_items(due_date);
+
+-- Only one open item per normalised title in a chat
+CREATE UNIQUE INDEX idx_action_items_open_fingerprint ON action_items(chat_id, fingerprint)
+    WHERE status IN ('pending', 'in_progress');
+
+CREATE TRIGGER update_action_items_updated_at BEFORE UPDATE ON action_items FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE action_items ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Action items are viewable by chat participants" ON action_items FOR ALL USING (true); -- Simplified for now
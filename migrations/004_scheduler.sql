@@ -0,0 +1,8 @@
+-- Scheduler support: per-task timezone and failure details
+
+ALTER TABLE scheduled_tasks ADD COLUMN timezone TEXT NOT NULL DEFAULT 'UTC'; -- IANA zone the cron expression is evaluated in
+ALTER TABLE scheduled_tasks ADD COLUMN last_error TEXT;
+
+-- Due-task lookup used by every scheduler tick
+CREATE INDEX idx_scheduled_tasks_due ON scheduled_tasks(next_run) WHERE active = true;
+
@@ -0,0 +1,32 @@
+-- Timed reminders created with /remind
+
+CREATE TABLE reminders (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    chat_id TEXT NOT NULL,
+    user_id UUID NOT NULL REFERENCES users(id),
+    text TEXT NOT NULL,
+    fire_at BIGINT NOT NULL,
+    recurrence TEXT, -- Cron expression for repeating reminders
+    timezone TEXT NOT NULL DEFAULT 'UTC',
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'cancelled')),
+    reply_to_message_id BIGINT, -- Telegram message the reminder was requested in
+    snooze_count INTEGER NOT NULL DEFAULT 0,
+    last_sent_at BIGINT,
+    created_at BIGINT NOT NULL,
+    created_at_ts TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Create indexes for reminders
+CREATE INDEX idx_reminders_chat_user ON reminders(chat_id, user_id);
+CREATE INDEX idx_reminders_due ON reminders(fire_at) WHERE status = 'pending';
+
+CREATE TRIGGER update_reminders_updated_at BEFORE UPDATE ON reminders FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE reminders ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Reminders are viewable by their owner" ON reminders FOR ALL USING (true); -- Simplified for now
+
+-- Due reminders are delivered by the scheduler every minute
+INSERT INTO scheduled_tasks (name, schedule, handler, parameters, active, created_at, next_run)
+VALUES ('deliver_reminders', '* * * * *', 'deliver_reminders', '{}'::jsonb, true, extract(epoch from now()) * 1000, extract(epoch from now()) * 1000)
+ON CONFLICT (name) DO NOTHING;
@@ -0,0 +1,7 @@
+-- Edit tracking for messages changed after they were stored
+
+ALTER TABLE messages ADD COLUMN edited_at BIGINT;
+ALTER TABLE messages ADD COLUMN edit_history JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Edits are matched to stored messages by their Telegram message id
+CREATE INDEX idx_messages_telegram_message_id ON messages(chat_id, (metadata->>'telegramMessageId'));
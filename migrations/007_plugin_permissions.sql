@@ -0,0 +1,22 @@
+-- Per-chat plugin permission grants and plugin storage
+
+-- Rows are keyed by plugin id (stored in name); grants map chat id -> permissions,
+-- e.g. {"-100123": ["network.http", "storage.read"]}
+ALTER TABLE plugins ADD COLUMN permission_grants JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Key/value data plugins store for a chat through the storage API
+CREATE TABLE plugin_storage (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    plugin_id UUID NOT NULL REFERENCES plugins(id) ON DELETE CASCADE,
+    chat_id TEXT NOT NULL,
+    key TEXT NOT NULL,
+    value JSONB NOT NULL,
+    created_at_ts TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE (plugin_id, chat_id, key)
+);
+
+CREATE TRIGGER update_plugin_storage_updated_at BEFORE UPDATE ON plugin_storage FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE plugin_storage ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Plugin storage is managed by the system" ON plugin_storage FOR ALL USING (true); -- Simplified for now
@@ -0,0 +1,17 @@
+-- Per-chat settings, edited by chat admins; chats without a row use the defaults from the environment
+
+CREATE TABLE chat_settings (
+    chat_id TEXT PRIMARY KEY,
+    -- When the bot answers without a command: addressed (mention, reply, trigger word),
+    -- questions (anything the intent classifier sees as a question) or off
+    response_mode TEXT NOT NULL DEFAULT 'addressed' CHECK (response_mode IN ('addressed', 'questions', 'off')),
+    trigger_words TEXT[] NOT NULL DEFAULT '{}',
+    updated_by UUID REFERENCES users(id),
+    created_at_ts TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TRIGGER update_chat_settings_updated_at BEFORE UPDATE ON chat_settings FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE chat_settings ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Chat settings are managed by the system" ON chat_settings FOR ALL USING (true); -- Simplified for now
@@ -0,0 +1,25 @@
+-- Chat-level language, features, plugins, retention and digest settings, and bot admins
+
+ALTER TABLE chat_settings ADD COLUMN language TEXT; -- Replies in this chat; NULL follows each message's language
+ALTER TABLE chat_settings ADD COLUMN disabled_features TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE chat_settings ADD COLUMN disabled_plugins TEXT[] NOT NULL DEFAULT '{}'; -- Plugin ids
+ALTER TABLE chat_settings ADD COLUMN enabled_plugins TEXT[] NOT NULL DEFAULT '{}'; -- Plugins that start off (MCP servers) and were turned on
+ALTER TABLE chat_settings ADD COLUMN retention_days INTEGER CHECK (retention_days > 0); -- NULL keeps history forever
+ALTER TABLE chat_settings ADD COLUMN digest_frequency TEXT NOT NULL DEFAULT 'never' CHECK (digest_frequency IN ('never', 'daily', 'weekly'));
+ALTER TABLE chat_settings ADD COLUMN digest_hour INTEGER CHECK (digest_hour BETWEEN 0 AND 23); -- UTC; NULL uses DIGEST_HOUR
+
+-- Members who administer the bot in a chat in addition to the chat's Telegram admins
+CREATE TABLE chat_admins (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    chat_id TEXT NOT NULL,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    granted_by UUID REFERENCES users(id),
+    created_at BIGINT NOT NULL,
+    created_at_ts TIMESTAMP DEFAULT NOW(),
+    UNIQUE (chat_id, user_id)
+);
+
+CREATE INDEX idx_chat_admins_chat_id ON chat_admins(chat_id);
+
+ALTER TABLE chat_admins ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Chat admins are managed by the system" ON chat_admins FOR ALL USING (true); -- Simplified for now
@@ -0,0 +1,95 @@
+-- /mydata: audit trail of data exports and deletions, and the deletion itself
+
+CREATE TABLE data_requests (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL, -- No foreign key: the record outlives the deleted user
+    request_type TEXT NOT NULL CHECK (request_type IN ('export', 'delete')),
+    counts JSONB NOT NULL DEFAULT '{}'::jsonb, -- Rows exported or affected, per table
+    created_at BIGINT NOT NULL,
+    created_at_ts TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_data_requests_user_id ON data_requests(user_id);
+
+ALTER TABLE data_requests ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Data requests are managed by the system" ON data_requests FOR ALL USING (true); -- Simplified for now
+
+-- Remove a user's content and account in one transaction. Messages,
+-- resources, their index entries, analytics and reminders are deleted;
+-- records other members rely on (plugin executions, action items, settings)
+-- are kept but no longer point at the user. Returns the affected row counts
+-- per table and records them in data_requests.
+CREATE OR REPLACE FUNCTION delete_user_data(target_user_id UUID, requested_at BIGINT)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    counts JSONB := '{}'::jsonb;
+    affected INTEGER;
+BEGIN
+    -- Logged decisions stay searchable like the log itself, without the user
+    DELETE FROM search_index
+    WHERE content_type <> 'decision'
+      AND (user_id = target_user_id
+       OR content_id IN (SELECT id FROM messages WHERE user_id = target_user_id)
+       OR content_id IN (SELECT id FROM resources WHERE user_id = target_user_id));
+    GET DIAGNOSTICS affected = ROW_COUNT;
+    counts := counts || jsonb_build_object('search_index', affected);
+
+    UPDATE search_index SET user_id = NULL
+    WHERE content_type = 'decision' AND user_id = target_user_id;
+
+    DELETE FROM messages WHERE user_id = target_user_id;
+    GET DIAGNOSTICS affected = ROW_COUNT;
+    counts := counts || jsonb_build_object('messages', affected);
+
+    DELETE FROM resources WHERE user_id = target_user_id;
+    GET DIAGNOSTICS affected = ROW_COUNT;
+    counts := counts || jsonb_build_object('resources', affected);
+
+    DELETE FROM analytics WHERE user_id = target_user_id;
+    GET DIAGNOSTICS affected = ROW_COUNT;
+    counts := counts || jsonb_build_object('analytics', affected);
+
+    DELETE FROM reminders WHERE user_id = target_user_id;
+    GET DIAGNOSTICS affected = ROW_COUNT;
+    counts := counts || jsonb_build_object('reminders', affected);
+
+    -- Plugin usage statistics stay; who ran what and with which input does not
+    UPDATE plugin_executions
+    SET user_id = NULL, parameters = '{}'::jsonb, result = NULL
+    WHERE user_id = target_user_id;
+    GET DIAGNOSTICS affected = ROW_COUNT;
+    counts := counts || jsonb_build_object('plugin_executions', affected);
+
+    -- Action items belong to the chat; only the links to the user go
+    UPDATE action_items
+    SET created_by = CASE WHEN created_by = target_user_id THEN NULL ELSE created_by END,
+        assignee = CASE WHEN assignee_user_id = target_user_id THEN NULL ELSE assignee END,
+        assignee_user_id = CASE WHEN assignee_user_id = target_user_id THEN NULL ELSE assignee_user_id END,
+        history = (
+            SELECT COALESCE(jsonb_agg(CASE WHEN entry->>'by' = target_user_id::text THEN entry - 'by' ELSE entry END), '[]'::jsonb)
+            FROM jsonb_array_elements(history) AS entry
+        )
+    WHERE created_by = target_user_id
+       OR assignee_user_id = target_user_id
+       OR history @> jsonb_build_array(jsonb_build_object('by', target_user_id::text));
+    GET DIAGNOSTICS affected = ROW_COUNT;
+    counts := counts || jsonb_build_object('action_items', affected);
+
+    UPDATE chat_settings SET updated_by = NULL WHERE updated_by = target_user_id;
+    UPDATE chat_admins SET granted_by = NULL WHERE granted_by = target_user_id;
+
+    UPDATE scheduled_tasks
+    SET active = false
+    WHERE name IN ('summary_digest:' || target_user_id, 'reminder_digest:' || target_user_id);
+
+    -- Granted chat admin roles go with the user (ON DELETE CASCADE)
+    DELETE FROM users WHERE id = target_user_id;
+
+    INSERT INTO data_requests (user_id, request_type, counts, created_at)
+    VALUES (target_user_id, 'delete', counts, requested_at);
+
+    RETURN counts;
+END;
+$$;
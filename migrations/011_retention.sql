@@ -0,0 +1,97 @@
+-- Per-chat retention by age and count for messages, resources and analytics,
+-- the purge job that enforces it, and summaries of the purged history
+
+-- NULL means no limit. Chats without a chat_settings row use the defaults from the environment.
+ALTER TABLE chat_settings ADD COLUMN message_retention_days INTEGER CHECK (message_retention_days > 0);
+ALTER TABLE chat_settings ADD COLUMN message_retention_count INTEGER CHECK (message_retention_count > 0);
+ALTER TABLE chat_settings ADD COLUMN resource_retention_days INTEGER CHECK (resource_retention_days > 0);
+ALTER TABLE chat_settings ADD COLUMN resource_retention_count INTEGER CHECK (resource_retention_count > 0);
+ALTER TABLE chat_settings ADD COLUMN analytics_retention_days INTEGER CHECK (analytics_retention_days > 0);
+ALTER TABLE chat_settings ADD COLUMN analytics_retention_count INTEGER CHECK (analytics_retention_count > 0);
+
+-- The single retention period from 009 applied to all stored history
+UPDATE chat_settings
+SET message_retention_days = retention_days,
+    resource_retention_days = retention_days,
+    analytics_retention_days = retention_days
+WHERE retention_days IS NOT NULL;
+
+ALTER TABLE chat_settings DROP COLUMN retention_days;
+
+-- What purged messages were about; /summary reads these for periods without stored messages
+CREATE TABLE history_summaries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    chat_id TEXT NOT NULL,
+    period_start BIGINT NOT NULL, -- Timestamps of the first and last purged message
+    period_end BIGINT NOT NULL,
+    message_count INTEGER NOT NULL,
+    summary TEXT NOT NULL,
+    created_at BIGINT NOT NULL,
+    created_at_ts TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_history_summaries_chat_period ON history_summaries(chat_id, period_start);
+
+ALTER TABLE history_summaries ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "History summaries are managed by the system" ON history_summaries FOR ALL USING (true); -- Simplified for now
+
+-- Chats with anything a retention policy could remove
+CREATE OR REPLACE FUNCTION retention_chat_ids()
+RETURNS TABLE (chat_id TEXT)
+LANGUAGE sql STABLE
+AS $$
+    SELECT m.chat_id FROM messages m
+    UNION
+    SELECT r.chat_id FROM resources r
+    UNION
+    SELECT a.chat_id FROM analytics a WHERE a.chat_id IS NOT NULL;
+$$;
+
+-- Delete a chat's messages in [from_ts, to_ts) with their search index entries.
+-- Decisions are indexed under their own id and kept. Returns the number of messages deleted.
+CREATE OR REPLACE FUNCTION purge_messages(match_chat_id TEXT, from_ts BIGINT, to_ts BIGINT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    deleted INTEGER;
+BEGIN
+    DELETE FROM search_index
+    WHERE content_type = 'message'
+      AND content_id IN (
+          SELECT id FROM messages
+          WHERE chat_id = match_chat_id AND timestamp >= from_ts AND timestamp < to_ts
+      );
+
+    DELETE FROM messages
+    WHERE chat_id = match_chat_id AND timestamp >= from_ts AND timestamp < to_ts;
+    GET DIAGNOSTICS deleted = ROW_COUNT;
+
+    RETURN deleted;
+END;
+$$;
+
+-- Delete a chat's resources extracted before before_ts, with their search index entries
+CREATE OR REPLACE FUNCTION purge_resources(match_chat_id TEXT, before_ts BIGINT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    deleted INTEGER;
+BEGIN
+    DELETE FROM search_index
+    WHERE content_type = 'resource'
+      AND content_id IN (
+          SELECT id FROM resources WHERE chat_id = match_chat_id AND extracted_at < before_ts
+      );
+
+    DELETE FROM resources WHERE chat_id = match_chat_id AND extracted_at < before_ts;
+    GET DIAGNOSTICS deleted = ROW_COUNT;
+
+    RETURN deleted;
+END;
+$$;
+
+INSERT INTO scheduled_tasks (name, schedule, handler, parameters, active, created_at, next_run)
+VALUES ('purge_history', '30 3 * * *', 'purge_history', '{}'::jsonb, true, extract(epoch from now()) * 1000, extract(epoch from now()) * 1000 + 86400000)
+ON CONFLICT (name) DO NOTHING;
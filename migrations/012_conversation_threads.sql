@@ -0,0 +1,22 @@
+-- Automatic topic segmentation: messages are grouped into conversation threads
+-- by reply chains, time gaps and similarity to each thread's running embedding
+
+ALTER TABLE conversation_threads ADD COLUMN embedding VECTOR(1536); -- Running mean of its messages' embeddings
+
+-- New messages are compared with the chat's most recently active threads
+CREATE INDEX idx_threads_chat_last_activity ON conversation_threads(chat_id, last_activity DESC);
+
+-- Threads belong to the chat; /mydata delete only removes the user from their participants
+CREATE OR REPLACE FUNCTION remove_user_thread_participation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    UPDATE conversation_threads
+    SET participants = array_remove(participants, OLD.id::text)
+    WHERE participants @> ARRAY[OLD.id::text];
+    RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER remove_users_thread_participation AFTER DELETE ON users FOR EACH ROW EXECUTE FUNCTION remove_user_thread_participation();
@@ -0,0 +1,100 @@
+-- Telegram forum topics: messages, files, decisions and reminders remember
+-- the topic they were posted in (telegramTopicId in their metadata), each
+-- topic maps to one conversation thread, and search can be limited to a topic
+
+ALTER TABLE conversation_threads ADD COLUMN telegram_topic_id BIGINT;
+CREATE UNIQUE INDEX idx_threads_chat_topic ON conversation_threads(chat_id, telegram_topic_id) WHERE telegram_topic_id IS NOT NULL;
+
+ALTER TABLE reminders ADD COLUMN telegram_topic_id BIGINT; -- Delivered into the topic it was set in
+
+-- /summary and decision extraction read a topic's recent messages
+CREATE INDEX idx_messages_chat_topic ON messages(chat_id, (metadata->>'telegramTopicId'), timestamp);
+
+-- Same ranking as in 002_hybrid_search.sql. With topic_scoped, only entries
+-- of match_topic_id (NULL for the General topic) are searched; action items
+-- belong to the whole chat and match in every topic.
+DROP FUNCTION IF EXISTS hybrid_search(TEXT, VECTOR(1536), TEXT, INTEGER, TEXT[], FLOAT, FLOAT, INTEGER);
+
+CREATE OR REPLACE FUNCTION hybrid_search(
+    query_text TEXT,
+    query_embedding VECTOR(1536),
+    match_chat_id TEXT,
+    match_count INTEGER DEFAULT 20,
+    content_types TEXT[] DEFAULT NULL,
+    full_text_weight FLOAT DEFAULT 1.0,
+    semantic_weight FLOAT DEFAULT 1.0,
+    rrf_k INTEGER DEFAULT 50,
+    topic_scoped BOOLEAN DEFAULT false,
+    match_topic_id BIGINT DEFAULT NULL
+)
+RETURNS TABLE (
+    id UUID,
+    content_id UUID,
+    content_type TEXT,
+    content TEXT,
+    metadata JSONB,
+    chat_id TEXT,
+    user_id UUID,
+    created_at BIGINT,
+    score FLOAT
+)
+LANGUAGE sql STABLE
+AS $$
+WITH candidates AS (
+    SELECT *
+    FROM search_index si
+    WHERE si.chat_id = match_chat_id
+      AND (content_types IS NULL OR si.content_type = ANY(content_types))
+      AND (
+          NOT topic_scoped
+          OR si.content_type = 'action_item'
+          OR (si.metadata->>'telegramTopicId')::BIGINT IS NOT DISTINCT FROM match_topic_id
+      )
+),
+full_text AS (
+    SELECT
+        c.id,
+        ROW_NUMBER() OVER (
+            ORDER BY ts_rank_cd(to_tsvector('english', c.content), websearch_to_tsquery('english', query_text)) DESC
+        ) AS rank_ix
+    FROM candidates c
+    WHERE to_tsvector('english', c.content) @@ websearch_to_tsquery('english', query_text)
+    ORDER BY rank_ix
+    LIMIT LEAST(match_count, 50) * 2
+),
+semantic AS (
+    SELECT
+        c.id,
+        ROW_NUMBER() OVER (ORDER BY c.embedding <=> query_embedding) AS rank_ix
+    FROM candidates c
+    WHERE query_embedding IS NOT NULL
+      AND c.embedding IS NOT NULL
+    ORDER BY rank_ix
+    LIMIT LEAST(match_count, 50) * 2
+),
+fused AS (
+    SELECT
+        COALESCE(full_text.id, semantic.id) AS id,
+        COALESCE(1.0 / (rrf_k + full_text.rank_ix), 0.0) * full_text_weight +
+        COALESCE(1.0 / (rrf_k + semantic.rank_ix), 0.0) * semantic_weight AS raw_score
+    FROM full_text
+    FULL OUTER JOIN semantic ON full_text.id = semantic.id
+)
+SELECT
+    si.id,
+    si.content_id,
+    si.content_type,
+    si.content,
+    si.metadata,
+    si.chat_id,
+    si.user_id,
+    si.created_at,
+    COALESCE(fused.raw_score / NULLIF(
+        (full_text_weight + CASE WHEN query_embedding IS NULL THEN 0 ELSE semantic_weight END) / (rrf_k + 1),
+        0
+    ), 0) AS score
+FROM fused
+JOIN search_index si ON si.id = fused.id
+ORDER BY score DESC, si.created_at DESC
+LIMIT LEAST(match_count, 50);
+$$;
@@ -0,0 +1,38 @@
+-- Who is in each chat, from chat_member updates, join and leave service
+-- messages, and members seen writing. Cross-chat search, digests and exports
+-- check it before showing a user another chat's content.
+
+CREATE TABLE chat_members (
+    chat_id TEXT NOT NULL,
+    telegram_user_id BIGINT NOT NULL,
+    status TEXT NOT NULL CHECK (status IN ('creator', 'administrator', 'member', 'restricted', 'left', 'kicked')),
+    is_bot BOOLEAN NOT NULL DEFAULT false,
+    joined_at BIGINT, -- Last join seen; NULL for members who were there before the bot
+    left_at BIGINT,
+    checked_at BIGINT NOT NULL, -- Last confirmed by an update, a message or getChatMember
+    source TEXT NOT NULL DEFAULT 'message' CHECK (source IN ('update', 'service', 'message', 'check')), -- What last confirmed it
+    created_at_ts TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    PRIMARY KEY (chat_id, telegram_user_id)
+);
+
+-- The chats a user is in
+CREATE INDEX idx_chat_members_user ON chat_members(telegram_user_id) WHERE status NOT IN ('left', 'kicked');
+
+CREATE TRIGGER update_chat_members_updated_at BEFORE UPDATE ON chat_members FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE chat_members ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Chat members are managed by the system" ON chat_members FOR ALL USING (true); -- Simplified for now
+
+-- Rows are keyed by Telegram id, so /mydata delete removes them with the user
+CREATE OR REPLACE FUNCTION delete_user_memberships()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    DELETE FROM chat_members WHERE telegram_user_id = OLD.telegram_id;
+    RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER delete_users_chat_members AFTER DELETE ON users FOR EACH ROW EXECUTE FUNCTION delete_user_memberships();
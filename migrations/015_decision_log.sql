@@ -0,0 +1,57 @@
+-- The decision log: decisions extracted from conversations, confirmed or
+-- rejected by members, and linked to the decisions that replace them
+
+CREATE TABLE decisions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    chat_id TEXT NOT NULL,
+    decision_number INTEGER NOT NULL, -- Per-chat number shown to users (#4)
+    content TEXT NOT NULL,
+    context TEXT NOT NULL DEFAULT '',
+    fingerprint TEXT NOT NULL, -- Normalised content hash used for deduplication
+    confidence REAL NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'confirmed', 'rejected', 'superseded')),
+    message_id UUID REFERENCES messages(id) ON DELETE SET NULL, -- Kept in the log after retention purges the message
+    related_messages TEXT[] NOT NULL DEFAULT '{}',
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    decided_by UUID REFERENCES users(id) ON DELETE SET NULL, -- NULL when confirmed by confidence
+    decided_at BIGINT,
+    superseded_by UUID REFERENCES decisions(id) ON DELETE SET NULL,
+    telegram_message_id BIGINT,
+    telegram_topic_id BIGINT,
+    history JSONB NOT NULL DEFAULT '[]'::jsonb, -- Status changes: [{from, to, by, at}]
+    created_at BIGINT NOT NULL,
+    modified_at BIGINT NOT NULL,
+    created_at_ts TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE (chat_id, decision_number)
+);
+
+CREATE INDEX idx_decisions_chat_status ON decisions(chat_id, status, created_at);
+CREATE INDEX idx_decisions_message_id ON decisions(message_id);
+
+-- Only one pending or confirmed decision per normalised wording in a chat
+CREATE UNIQUE INDEX idx_decisions_open_fingerprint ON decisions(chat_id, fingerprint)
+    WHERE status IN ('pending', 'confirmed');
+
+CREATE TRIGGER update_decisions_updated_at BEFORE UPDATE ON decisions FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE decisions ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Decisions are viewable by chat participants" ON decisions FOR ALL USING (true); -- Simplified for now
+
+-- Decisions belong to the chat; /mydata delete only removes who confirmed or rejected them
+CREATE OR REPLACE FUNCTION anonymize_user_decisions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    UPDATE decisions
+    SET history = (
+        SELECT COALESCE(jsonb_agg(CASE WHEN entry->>'by' = OLD.id::text THEN entry - 'by' ELSE entry END), '[]'::jsonb)
+        FROM jsonb_array_elements(history) AS entry
+    )
+    WHERE history @> jsonb_build_array(jsonb_build_object('by', OLD.id::text));
+    RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER anonymize_users_decisions AFTER DELETE ON users FOR EACH ROW EXECUTE FUNCTION anonymize_user_decisions();
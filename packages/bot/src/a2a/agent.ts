@@ -0,0 +1,439 @@
+import axios from 'axios';
+import { randomUUID, KeyObject } from 'crypto';
+import { z } from 'zod';
+import { A2AAgent, A2AMessage } from '@buddian/plugins';
+import { KnowledgeServer, ResourceNotFoundError } from '@/mcp/server';
+import { SIGNATURE_HEADER, loadPrivateKey, loadPublicKey, publicKeyFor, signMessage, verifyMessage } from '@/a2a/signing';
+import { a2aConfig } from '@/config/env';
+import { a2aLogger, logError } from '@/utils/logger';
+import {
+  A2ACapability,
+  A2A_CAPABILITIES,
+  A2APeerConfig,
+  AccessDeniedError,
+  BuddianError,
+  ValidationError
+} from '@/types';
+
+/**
+ * Agent-to-agent requests between Buddian instances. Each instance signs its
+ * messages with its own Ed25519 key and only talks to the peers listed in
+ * A2A_PEERS, which also say which of our chats and capabilities a peer may use.
+ */
+
+export const A2A_PROTOCOL = 'buddian-a2a/1';
+
+// Largest response accepted from a peer
+const MAX_RESPONSE_BYTES = 5 * 1024 * 1024;
+
+export class A2AError extends BuddianError {
+  constructor(message: string, peerId: string, context?: Record<string, any>) {
+    super(message, 'A2A_ERROR', 502, { peerId, ...context });
+    this.name = 'A2AError';
+  }
+}
+
+export interface AgentCard {
+  id: string;
+  name: string;
+  protocol: string;
+  capabilities: string[];
+  publicKey: string;
+}
+
+// Payload of a request message; responses carry { result } or { error }
+const requestPayloadSchema = z.object({
+  capability: z.enum(['negotiate', ...A2A_CAPABILITIES]),
+  params: z.record(z.any()).default({})
+});
+
+const chatIdSchema = z.union([z.string().regex(/^-?\d+$/), z.number().int()]).transform(String);
+
+const capabilityParams = {
+  summary: z.object({
+    chatId: chatIdSchema,
+    period: z.enum(['day', 'week']).default('day')
+  }),
+  decisions: z.object({
+    chatId: chatIdSchema,
+    since: z.number().int().positive().optional(),
+    limit: z.number().int().min(1).max(100).default(20)
+  }),
+  search: z.object({
+    chatId: chatIdSchema,
+    query: z.string().min(1).max(500),
+    limit: z.number().int().min(1).max(50).default(10)
+  })
+};
+
+// What each capability answers with, as LocalAgent.handleRequest builds it;
+// replies from peers are checked against these before they are shown
+const capabilityResults = {
+  summary: z.object({
+    chatId: z.string(),
+    period: z.enum(['day', 'week']),
+    summary: z.string()
+  }),
+  decisions: z.object({
+    chatId: z.string(),
+    decisions: z.array(z.object({
+      number: z.number().int().optional(),
+      content: z.string(),
+      status: z.string(),
+      context: z.string().optional(),
+      timestamp: z.string()
+    }))
+  }),
+  search: z.object({
+    chatId: z.string(),
+    query: z.string(),
+    results: z.array(z.object({
+      id: z.string(),
+      type: z.string(),
+      content: z.string(),
+      relevance: z.number(),
+      timestamp: z.string()
+    }))
+  })
+};
+
+export type A2AResult<C extends A2ACapability> = z.infer<typeof capabilityResults[C]>;
+
+export function parseCapabilityResult<C extends A2ACapability>(capability: C, result: unknown): A2AResult<C> {
+  const parsed = capabilityResults[capability].safeParse(result);
+  if (!parsed.success) {
+    throw new ValidationError(`Unexpected ${capability} result: ${parsed.error.issues[0]?.message || 'invalid'}`);
+  }
+  return parsed.data as A2AResult<C>;
+}
+
+function parseParams<T extends z.ZodTypeAny>(schema: T, params: unknown): z.infer<T> {
+  const parsed = schema.safeParse(params);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || 'params'}: ${issue.message}`);
+    throw new ValidationError(`Invalid parameters: ${issues.join('; ')}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * This Buddian instance: answers requests from authenticated peers and sends
+ * its own requests through the matching RemoteAgent
+ */
+export class LocalAgent implements A2AAgent {
+  readonly id = a2aConfig.agentId;
+  readonly name = a2aConfig.agentName;
+  capabilities: string[] = [...A2A_CAPABILITIES];
+
+  private privateKey: KeyObject;
+  private peers: Map<string, RemoteAgent> = new Map();
+
+  constructor(privateKey: string) {
+    this.privateKey = loadPrivateKey(privateKey);
+
+    for (const [peerId, peer] of Object.entries(a2aConfig.peers)) {
+      this.peers.set(peerId, new RemoteAgent(peerId, peer, this));
+    }
+  }
+
+  get publicKey(): string {
+    return publicKeyFor(this.privateKey);
+  }
+
+  card(): AgentCard {
+    return {
+      id: this.id,
+      name: this.name,
+      protocol: A2A_PROTOCOL,
+      capabilities: this.capabilities,
+      publicKey: this.publicKey
+    };
+  }
+
+  getPeer(peerId: string): RemoteAgent | undefined {
+    return this.peers.get(peerId);
+  }
+
+  listPeers(): RemoteAgent[] {
+    return Array.from(this.peers.values());
+  }
+
+  createMessage(to: string, type: A2AMessage['type'], payload: unknown, metadata?: Record<string, any>): A2AMessage {
+    return {
+      id: randomUUID(),
+      from: this.id,
+      to,
+      type,
+      payload,
+      timestamp: Date.now(),
+      ...(metadata && { metadata })
+    };
+  }
+
+  sign(message: A2AMessage): string {
+    return signMessage(message, this.privateKey);
+  }
+
+  async sendMessage(message: A2AMessage): Promise<void> {
+    const peer = this.peers.get(message.to);
+    if (!peer) {
+      throw new ValidationError(`Unknown A2A peer: ${message.to}`);
+    }
+    await peer.sendMessage(message);
+  }
+
+  /**
+   * Handle a message from a peer whose signature has already been checked.
+   * Requests always get a response message; failures are reported in it.
+   */
+  async receiveMessage(message: A2AMessage): Promise<A2AMessage | void> {
+    if (message.type !== 'request') {
+      a2aLogger.info({ peer: message.from, type: message.type, id: message.id }, 'A2A message received');
+      return;
+    }
+
+    const startTime = Date.now();
+    const reply = (payload: unknown) => this.createMessage(message.from, 'response', payload, { inReplyTo: message.id });
+
+    try {
+      const request = parseParams(requestPayloadSchema, message.payload);
+      const result = await this.handleRequest(message.from, request.capability, request.params);
+
+      a2aLogger.info({
+        peer: message.from,
+        capability: request.capability,
+        duration: Date.now() - startTime
+      }, 'A2A request handled');
+
+      return reply({ result });
+    } catch (error) {
+      const expected = error instanceof AccessDeniedError || error instanceof ValidationError || error instanceof ResourceNotFoundError;
+      if (expected) {
+        a2aLogger.warn({ peer: message.from, error: (error as Error).message }, 'A2A request refused');
+      } else {
+        logError(a2aLogger, error as Error, { operation: 'a2a_request', peer: message.from });
+      }
+
+      return reply({
+        error: {
+          code: error instanceof BuddianError ? error.code : error instanceof ResourceNotFoundError ? 'NOT_FOUND' : 'INTERNAL_ERROR',
+          message: expected ? (error as Error).message : 'The request failed; please try again later'
+        }
+      });
+    }
+  }
+
+  /**
+   * Capabilities both agents support
+   */
+  async negotiateCapabilities(otherAgent: A2AAgent): Promise<string[]> {
+    return this.capabilities.filter(capability => otherAgent.capabilities.includes(capability));
+  }
+
+  async discoverServices(): Promise<string[]> {
+    return this.capabilities;
+  }
+
+  async advertiseService(service: string): Promise<void> {
+    if (!A2A_CAPABILITIES.includes(service as A2ACapability)) {
+      throw new ValidationError(`Unknown A2A capability: ${service}`);
+    }
+    if (!this.capabilities.includes(service)) {
+      this.capabilities.push(service);
+    }
+  }
+
+  // What a peer may use: advertised by us and allowed for it in A2A_PEERS
+  private grantedTo(peer: A2APeerConfig): string[] {
+    return this.capabilities.filter(capability => peer.capabilities.includes(capability as A2ACapability));
+  }
+
+  private async handleRequest(peerId: string, capability: 'negotiate' | A2ACapability, params: Record<string, any>): Promise<unknown> {
+    const peer = a2aConfig.peers[peerId];
+    if (!peer) {
+      throw new AccessDeniedError(`Unknown A2A peer: ${peerId}`);
+    }
+
+    const granted = this.grantedTo(peer);
+
+    if (capability === 'negotiate') {
+      const requested: unknown = params['capabilities'];
+      const wanted = Array.isArray(requested) ? granted.filter(item => requested.includes(item)) : granted;
+      return {
+        agent: { id: this.id, name: this.name },
+        capabilities: wanted,
+        chats: peer.chats
+      };
+    }
+
+    if (!granted.includes(capability)) {
+      throw new AccessDeniedError(`Capability ${capability} is not available to ${peerId}`, { peerId, capability });
+    }
+
+    // The MCP knowledge server already enforces per-client chat access
+    const server = new KnowledgeServer({ name: `a2a:${peerId}`, chats: peer.chats });
+
+    switch (capability) {
+      case 'summary': {
+        const { chatId, period } = parseParams(capabilityParams.summary, params);
+        return { chatId, period, summary: await server.readResource(`buddian://chats/${chatId}/summary?period=${period}`) };
+      }
+
+      case 'decisions': {
+        const { chatId, since, limit } = parseParams(capabilityParams.decisions, params);
+        return { chatId, decisions: await server.callTool('get_decisions', { chat_id: chatId, limit, ...(since && { since }) }) };
+      }
+
+      case 'search': {
+        const { chatId, query, limit } = parseParams(capabilityParams.search, params);
+        return { chatId, query, results: await server.callTool('search_chat', { chat_id: chatId, query, limit }) };
+      }
+    }
+  }
+}
+
+/**
+ * A trusted peer, reached over HTTP. Replies must be signed by the peer's key
+ * and answer the request they claim to answer.
+ */
+export class RemoteAgent implements A2AAgent {
+  name: string;
+  capabilities: string[] = []; // What the peer grants us, once negotiated
+  chats: string[] | '*' = []; // Its chats we may read, once negotiated
+
+  private publicKey: KeyObject;
+
+  constructor(readonly id: string, private peer: A2APeerConfig, private local: LocalAgent) {
+    this.name = id;
+    this.publicKey = loadPublicKey(peer.publicKey);
+  }
+
+  get url(): string | undefined {
+    return this.peer.url;
+  }
+
+  verify(message: A2AMessage, signature: string | undefined): boolean {
+    return !!signature && message.from === this.id && verifyMessage(message, signature, this.publicKey);
+  }
+
+  /**
+   * Deliver a notification; any reply is ignored
+   */
+  async sendMessage(message: A2AMessage): Promise<void> {
+    await this.deliver(message);
+  }
+
+  /**
+   * Deliver a request and return the peer's verified response
+   */
+  async receiveMessage(message: A2AMessage): Promise<A2AMessage | void> {
+    const reply = await this.deliver(message);
+    if (!reply && message.type === 'request') {
+      throw new A2AError(`${this.id} sent no response`, this.id);
+    }
+    return reply;
+  }
+
+  /**
+   * Ask the peer which of otherAgent's capabilities it grants us
+   */
+  async negotiateCapabilities(otherAgent: A2AAgent): Promise<string[]> {
+    const result = await this.request('negotiate', { capabilities: otherAgent.capabilities }) as {
+      agent?: { name?: string };
+      capabilities?: string[];
+      chats?: string[] | '*';
+    };
+
+    this.name = result.agent?.name || this.id;
+    this.capabilities = Array.isArray(result.capabilities) ? result.capabilities : [];
+    this.chats = result.chats === '*' || Array.isArray(result.chats) ? result.chats : [];
+    return this.capabilities;
+  }
+
+  /**
+   * Capabilities the peer advertises on its public agent card
+   */
+  async discoverServices(): Promise<string[]> {
+    if (!this.peer.url) {
+      throw new A2AError(`No URL configured for ${this.id}`, this.id);
+    }
+
+    const response = await axios.get<AgentCard>(this.peer.url, {
+      timeout: a2aConfig.timeout,
+      maxContentLength: MAX_RESPONSE_BYTES
+    });
+    return Array.isArray(response.data?.capabilities) ? response.data.capabilities : [];
+  }
+
+  async advertiseService(_service: string): Promise<void> {
+    throw new ValidationError(`Services can only be advertised by ${this.id} itself`);
+  }
+
+  /**
+   * Use one of the peer's capabilities and return its result
+   */
+  async request(capability: 'negotiate' | A2ACapability, params: Record<string, any> = {}): Promise<unknown> {
+    const reply = await this.receiveMessage(this.local.createMessage(this.id, 'request', { capability, params }));
+    const payload = (reply as A2AMessage).payload as { result?: unknown; error?: { code?: string; message?: string } };
+
+    if (payload?.error) {
+      throw new A2AError(payload.error.message || `${this.id} refused the request`, this.id, {
+        capability,
+        remoteCode: payload.error.code
+      });
+    }
+    return payload?.result;
+  }
+
+  private async deliver(message: A2AMessage): Promise<A2AMessage | undefined> {
+    if (!this.peer.url) {
+      throw new A2AError(`No URL configured for ${this.id}`, this.id);
+    }
+
+    const startTime = Date.now();
+    const response = await axios.post(this.peer.url, message, {
+      headers: { [SIGNATURE_HEADER]: this.local.sign(message) },
+      timeout: a2aConfig.timeout,
+      maxContentLength: MAX_RESPONSE_BYTES,
+      validateStatus: () => true
+    }).catch(error => {
+      throw new A2AError(`Could not reach ${this.id}: ${(error as Error).message}`, this.id);
+    });
+
+    a2aLogger.debug({ peer: this.id, status: response.status, duration: Date.now() - startTime }, 'A2A message delivered');
+
+    if (response.status === 202) {
+      return undefined;
+    }
+    if (response.status !== 200) {
+      throw new A2AError(`${this.id} answered with HTTP ${response.status}: ${response.data?.error || 'no details'}`, this.id, {
+        status: response.status
+      });
+    }
+
+    const reply = response.data as A2AMessage;
+    const signature = response.headers[SIGNATURE_HEADER];
+    const valid = this.verify(reply, typeof signature === 'string' ? signature : undefined) &&
+      reply.to === this.local.id &&
+      reply.type === 'response' &&
+      reply.metadata?.['inReplyTo'] === message.id;
+
+    if (!valid) {
+      throw new A2AError(`Rejected a response from ${this.id} that was not signed by it or does not match the request`, this.id);
+    }
+    return reply;
+  }
+}
+
+let localAgent: LocalAgent | undefined;
+
+/**
+ * The agent for this instance; null unless A2A is enabled
+ */
+export function getLocalAgent(): LocalAgent | null {
+  if (!a2aConfig.enabled || !a2aConfig.privateKey) {
+    return null;
+  }
+  localAgent ??= new LocalAgent(a2aConfig.privateKey);
+  return localAgent;
+}
@@ -0,0 +1,93 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { A2AMessage } from '@buddian/plugins';
+import { LocalAgent } from '@/a2a/agent';
+import { SIGNATURE_HEADER } from '@/a2a/signing';
+import { a2aLogger } from '@/utils/logger';
+
+// Messages older or further in the future than this are refused
+const MAX_CLOCK_SKEW = 5 * 60 * 1000;
+
+const messageSchema = z.object({
+  id: z.string().min(1).max(100),
+  from: z.string().min(1).max(100),
+  to: z.string().min(1).max(100),
+  type: z.enum(['request', 'response', 'notification']),
+  payload: z.unknown(),
+  timestamp: z.number().int(),
+  metadata: z.record(z.any()).optional()
+});
+
+/**
+ * POST carries one signed A2AMessage from a peer listed in A2A_PEERS and gets
+ * the signed response; GET returns the public agent card.
+ */
+export function createA2ARouter(agent: LocalAgent): Router {
+  const router = Router();
+
+  // Message ids seen within the clock skew window, to refuse replays
+  const seen: Map<string, number> = new Map();
+
+  function isReplay(message: A2AMessage): boolean {
+    const now = Date.now();
+    for (const [key, expiresAt] of seen) {
+      if (expiresAt < now) {
+        seen.delete(key);
+      }
+    }
+
+    const key = `${message.from}:${message.id}`;
+    if (seen.has(key)) {
+      return true;
+    }
+    seen.set(key, message.timestamp + MAX_CLOCK_SKEW);
+    return false;
+  }
+
+  router.get('/', (_req: Request, res: Response) => {
+    res.json(agent.card());
+  });
+
+  router.post('/', async (req: Request, res: Response) => {
+    const parsed = messageSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid A2A message' });
+    }
+
+    // The signature covers the message as sent, including fields we do not use
+    const message = req.body as A2AMessage;
+    const peer = agent.getPeer(message.from);
+    const signature = req.header(SIGNATURE_HEADER);
+
+    if (!peer || !peer.verify(message, signature)) {
+      a2aLogger.warn({ ip: req.ip, from: message.from, knownPeer: !!peer }, 'A2A message with unknown sender or bad signature');
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    if (message.to !== agent.id) {
+      return res.status(400).json({ error: `This agent is ${agent.id}, not ${message.to}` });
+    }
+    if (Math.abs(Date.now() - message.timestamp) > MAX_CLOCK_SKEW) {
+      a2aLogger.warn({ peer: peer.id, timestamp: message.timestamp }, 'A2A message outside the clock skew window');
+      return res.status(401).json({ error: 'Message timestamp is too old or too far in the future' });
+    }
+    if (isReplay(message)) {
+      a2aLogger.warn({ peer: peer.id, id: message.id }, 'Replayed A2A message refused');
+      return res.status(409).json({ error: 'Message already received' });
+    }
+
+    const reply = await agent.receiveMessage(message);
+    if (!reply) {
+      return res.sendStatus(202);
+    }
+
+    res.setHeader(SIGNATURE_HEADER, agent.sign(reply));
+    return res.json(reply);
+  });
+
+  router.all('/', (_req: Request, res: Response) => {
+    res.setHeader('Allow', 'GET, POST');
+    res.sendStatus(405);
+  });
+
+  return router;
+}
@@ -0,0 +1,10 @@
+import { generateAgentKeys } from '@/a2a/signing';
+
+/**
+ * Print a new Ed25519 key pair for A2A: the private key goes into this
+ * instance's A2A_PRIVATE_KEY, the public key into each peer's A2A_PEERS entry.
+ */
+const { privateKey, publicKey } = generateAgentKeys();
+
+console.log(`A2A_PRIVATE_KEY=${privateKey}`);
+console.log(`# Public key for peers' A2A_PEERS: ${publicKey}`);
@@ -0,0 +1,75 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { A2AMessage } from '@buddian/plugins';
+import {
+  canonicalJson,
+  generateAgentKeys,
+  loadPrivateKey,
+  loadPublicKey,
+  publicKeyFor,
+  signMessage,
+  verifyMessage
+} from '@/a2a/signing';
+
+const keys = generateAgentKeys();
+const privateKey = loadPrivateKey(keys.privateKey);
+const publicKey = loadPublicKey(keys.publicKey);
+
+const message: A2AMessage = {
+  id: 'msg-1',
+  from: 'buddian-a',
+  to: 'buddian-b',
+  type: 'request',
+  payload: { query: 'what did we decide about the launch?', chatId: '-100123' },
+  timestamp: Date.UTC(2026, 2, 10, 12, 0)
+};
+
+describe('canonicalJson', () => {
+  it('sorts keys at every level and drops undefined values', () => {
+    assert.equal(
+      canonicalJson({ b: 1, a: { d: [3, undefined], c: 'x' }, e: undefined }),
+      '{"a":{"c":"x","d":[3,null]},"b":1}'
+    );
+  });
+});
+
+describe('A2A message signatures', () => {
+  it('derives the public key from the private key', () => {
+    assert.equal(publicKeyFor(privateKey), keys.publicKey);
+  });
+
+  it('verifies a signed message', () => {
+    const signature = signMessage(message, privateKey);
+    assert.equal(verifyMessage(message, signature, publicKey), true);
+  });
+
+  it('does not depend on key order in transit', () => {
+    const signature = signMessage(message, privateKey);
+    const reordered = JSON.parse(JSON.stringify({
+      timestamp: message.timestamp,
+      payload: { chatId: '-100123', query: 'what did we decide about the launch?' },
+      type: message.type,
+      to: message.to,
+      from: message.from,
+      id: message.id
+    })) as A2AMessage;
+    assert.equal(verifyMessage(reordered, signature, publicKey), true);
+  });
+
+  it('rejects a tampered message', () => {
+    const signature = signMessage(message, privateKey);
+    assert.equal(verifyMessage({ ...message, to: 'buddian-c' }, signature, publicKey), false);
+    assert.equal(verifyMessage({ ...message, payload: { ...message.payload, chatId: '-100999' } }, signature, publicKey), false);
+    assert.equal(verifyMessage({ ...message, timestamp: message.timestamp + 1 }, signature, publicKey), false);
+  });
+
+  it('rejects a signature from another key', () => {
+    const other = loadPrivateKey(generateAgentKeys().privateKey);
+    assert.equal(verifyMessage(message, signMessage(message, other), publicKey), false);
+  });
+
+  it('rejects a malformed signature', () => {
+    assert.equal(verifyMessage(message, '', publicKey), false);
+    assert.equal(verifyMessage(message, 'not-base64!', publicKey), false);
+  });
+});
@@ -0,0 +1,55 @@
+import { createPrivateKey, createPublicKey, generateKeyPairSync, sign, verify, KeyObject } from 'crypto';
+import { A2AMessage } from '@buddian/plugins';
+
+/**
+ * Ed25519 signatures over A2A messages. Both sides sign the canonical JSON of
+ * the message (keys sorted), so the signature does not depend on how the
+ * body was serialized in transit.
+ */
+
+export const SIGNATURE_HEADER = 'x-a2a-signature';
+
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item ?? null)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+export function loadPrivateKey(base64Der: string): KeyObject {
+  return createPrivateKey({ key: Buffer.from(base64Der, 'base64'), format: 'der', type: 'pkcs8' });
+}
+
+export function loadPublicKey(base64Der: string): KeyObject {
+  return createPublicKey({ key: Buffer.from(base64Der, 'base64'), format: 'der', type: 'spki' });
+}
+
+export function publicKeyFor(privateKey: KeyObject): string {
+  return createPublicKey(privateKey).export({ format: 'der', type: 'spki' }).toString('base64');
+}
+
+export function signMessage(message: A2AMessage, privateKey: KeyObject): string {
+  return sign(null, Buffer.from(canonicalJson(message)), privateKey).toString('base64');
+}
+
+export function verifyMessage(message: A2AMessage, signature: string, publicKey: KeyObject): boolean {
+  try {
+    return verify(null, Buffer.from(canonicalJson(message)), publicKey, Buffer.from(signature, 'base64'));
+  } catch {
+    return false;
+  }
+}
+
+export function generateAgentKeys(): { privateKey: string; publicKey: string } {
+  const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+  return {
+    privateKey: privateKey.export({ format: 'der', type: 'pkcs8' }).toString('base64'),
+    publicKey: publicKey.export({ format: 'der', type: 'spki' }).toString('base64')
+  };
+}
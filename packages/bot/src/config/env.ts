@@ -1,10 +1,27 @@
 import { z } from 'zod';
 import dotenv from 'dotenv';
-import { BotConfig } from '@/types';
+import { createPrivateKey, createPublicKey } from 'crypto';
+import {
+  BotConfig,
+  AIOperation,
+  AI_OPERATIONS,
+  McpServerConfig,
+  A2ACapability,
+  A2A_CAPABILITIES,
+  A2APeerConfig,
+  RESPONSE_MODES,
+  RETENTION_KINDS,
+  RetentionRule
+} from '@/types';
 
 // Load environment variables
 dotenv.config();
 
+// "true" or "false"; z.coerce.boolean() would read the string "false" as true
+function booleanFlag(defaultValue: boolean) {
+  return z.enum(['true', 'false']).default(defaultValue ? 'true' : 'false').transform(value => value === 'true');
+}
+
 // Environment validation schema
 const envSchema = z.object({
   // Telegram configuration
@@ -17,12 +34,36 @@ const envSchema = z.object({
   SUPABASE_ANON_KEY: z.string().min(1, 'Supabase anon key is required'),
   SUPABASE_SERVICE_ROLE_KEY: z.string().min(1, 'Supabase service role key is required'),
   
-  // Azure OpenAI configuration
-  AZURE_OPENAI_ENDPOINT: z.string().url('Invalid Azure OpenAI endpoint'),
-  AZURE_OPENAI_KEY: z.string().min(1, 'Azure OpenAI key is required'),
+  // AI provider selection and per-operation model routing
+  AI_PROVIDER: z.enum(['azure', 'openai', 'local', 'fake']).default('azure'),
+  AI_DEFAULT_MODEL: z.string().optional(),
+  AI_EMBEDDING_MODEL: z.string().optional(),
+  AI_VISION_MODEL: z.string().optional(),
+  AI_MODEL_ROUTES: z.string().optional(), // e.g. "detectLanguage=gpt-4o-mini,answerQuestion=gpt-4o"
+  
+  // Plain OpenAI configuration (AI_PROVIDER=openai)
+  OPENAI_API_KEY: z.string().optional(),
+  OPENAI_BASE_URL: z.string().url().optional(),
+  OPENAI_ORGANIZATION: z.string().optional(),
+  
+  // Local OpenAI-compatible server such as llama.cpp or Ollama (AI_PROVIDER=local)
+  LOCAL_AI_BASE_URL: z.string().url().default('http://localhost:11434/v1'),
+  LOCAL_AI_API_KEY: z.string().optional(),
+  
+  // Azure OpenAI configuration (AI_PROVIDER=azure)
+  AZURE_OPENAI_ENDPOINT: z.string().url('Invalid Azure OpenAI endpoint').optional(),
+  AZURE_OPENAI_KEY: z.string().optional(),
   AZURE_OPENAI_API_VERSION: z.string().default('2024-02-15-preview'),
   AZURE_OPENAI_DEPLOYMENT_NAME: z.string().default('gpt-4'),
   AZURE_OPENAI_VISION_DEPLOYMENT_NAME: z.string().optional(),
+  AZURE_OPENAI_EMBEDDING_DEPLOYMENT_NAME: z.string().default('text-embedding-ada-002'),
+  
+  // Speech-to-text for voice and video messages; defaults to AI_PROVIDER
+  TRANSCRIPTION_PROVIDER: z.enum(['azure', 'openai', 'local', 'fake', 'none']).optional(),
+  TRANSCRIPTION_MODEL: z.string().optional(), // Azure: Whisper deployment name
+  TRANSCRIPTION_BASE_URL: z.string().url().optional(),
+  TRANSCRIPTION_API_KEY: z.string().optional(),
+  TRANSCRIPTION_MAX_DURATION: z.coerce.number().int().positive().default(600),
   
   // Optional Azure Vision configuration
   AZURE_VISION_ENDPOINT: z.string().url().optional(),
@@ -31,15 +72,65 @@ const envSchema = z.object({
   // Application configuration
   NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
   LOG_LEVEL: z.enum(['error', 'warn', 'info', 'debug']).default('info'),
+  LOG_DESTINATION: z.enum(['stdout', 'stderr']).default('stdout'), // The MCP stdio server needs stdout to itself
   PORT: z.coerce.number().int().positive().default(3000),
   
   // Performance and limits
-  MAX_CONVERSATION_HISTORY: z.coerce.number().int().positive().default(1000),
+  MAX_CONVERSATION_HISTORY: z.coerce.number().int().positive().default(1000), // Messages kept per chat; older ones are summarized and purged
   CACHE_TTL: z.coerce.number().int().positive().default(3600),
   
+  // Retention defaults for chats whose admins set no policy; unset means no limit
+  MESSAGE_RETENTION_DAYS: z.coerce.number().int().positive().optional(),
+  RESOURCE_RETENTION_DAYS: z.coerce.number().int().positive().optional(),
+  RESOURCE_RETENTION_COUNT: z.coerce.number().int().positive().optional(),
+  ANALYTICS_RETENTION_DAYS: z.coerce.number().int().positive().optional(),
+  ANALYTICS_RETENTION_COUNT: z.coerce.number().int().positive().optional(),
+  RETENTION_MAX_PERIODS_PER_RUN: z.coerce.number().int().positive().default(30), // Days summarized per chat per purge run
+  
+  // When the bot answers in group chats; admins can override both per chat
+  RESPONSE_MODE: z.enum(RESPONSE_MODES).default('addressed'),
+  RESPONSE_TRIGGER_WORDS: z.string().default('buddian'), // Comma separated; addresses the bot like a mention
+  RESPONSE_MIN_CONFIDENCE: z.coerce.number().min(0).max(1).default(0.7), // Intent classifier, for unaddressed messages
+  
+  // Grouping messages into conversation threads by replies, time and meaning
+  THREAD_GAP_MINUTES: z.coerce.number().int().positive().default(60),
+  THREAD_SIMILARITY: z.coerce.number().min(0).max(1).default(0.78),
+  THREAD_SUMMARY_INTERVAL: z.coerce.number().int().positive().default(10), // Messages between summary refreshes
+  
+  // Extracted decisions below this confidence wait for a member to confirm them
+  DECISION_CONFIRM_THRESHOLD: z.coerce.number().min(0).max(1).default(0.8),
+  
+  // Question answering: a tool-calling agent, or one prompt with search results
+  QA_AGENT_ENABLED: booleanFlag(true), // Needs a model with function calling
+  QA_AGENT_MAX_STEPS: z.coerce.number().int().min(1).max(20).default(6), // Model calls per question
+  
   // Plugin configuration
   PLUGINS_ENABLED: z.coerce.boolean().default(true),
   PLUGIN_TIMEOUT: z.coerce.number().int().positive().default(30000),
+  PLUGIN_SETTINGS: z.string().optional(), // JSON keyed by plugin id, e.g. {"weather-demo":{"apiKey":"..."}}
+  PLUGIN_ISOLATION: z.enum(['worker', 'none']).default('worker'),
+  PLUGIN_MEMORY_LIMIT_MB: z.coerce.number().int().positive().default(128),
+  PLUGIN_MAX_CRASHES: z.coerce.number().int().positive().default(3), // Within PLUGIN_QUARANTINE_MINUTES
+  PLUGIN_QUARANTINE_MINUTES: z.coerce.number().int().positive().default(30),
+  
+  // Model Context Protocol server for IDE assistants
+  MCP_ENABLED: booleanFlag(false), // Serve MCP over HTTP at /mcp
+  MCP_ACCESS: z.string().optional(), // JSON mapping client tokens to chat ids, e.g. {"token":["-100123"],"admin":"*"}
+  MCP_TOKEN: z.string().optional(), // Client token used by the stdio server
+  MCP_SERVERS: z.string().optional(), // JSON of external MCP servers to spawn, e.g. {"github":{"command":"npx","args":["-y","@modelcontextprotocol/server-github"]}}
+  MCP_CLIENT_TIMEOUT: z.coerce.number().int().positive().default(30000), // Per tool call, in milliseconds
+  
+  // Agent-to-agent requests between Buddian instances
+  A2A_ENABLED: booleanFlag(false), // Serve A2A at /a2a
+  A2A_AGENT_ID: z.string().regex(/^[a-z0-9][a-z0-9_-]{0,62}$/, 'A2A agent id must be lowercase letters, digits, _ or -').default('buddian'),
+  A2A_AGENT_NAME: z.string().optional(),
+  A2A_PRIVATE_KEY: z.string().optional(), // Base64 DER (PKCS#8) Ed25519 key; generate with npm run a2a:keygen
+  A2A_PEERS: z.string().optional(), // JSON of trusted agents keyed by id: {"team-b":{"url":"https://b.example/a2a","publicKey":"...","chats":["-100123"]}}
+  A2A_TIMEOUT: z.coerce.number().int().positive().default(30000), // Requests to peers, in milliseconds
+  
+  // Scheduled digests and maintenance jobs
+  SCHEDULER_ENABLED: booleanFlag(true),
+  DIGEST_HOUR: z.coerce.number().int().min(0).max(23).default(9),
   
   // Rate limiting
   RATE_LIMIT_WINDOW: z.coerce.number().int().positive().default(60000),
@@ -48,8 +139,246 @@ const envSchema = z.object({
   // Optional content analysis APIs
   MERCURY_API_KEY: z.string().optional(),
   READABILITY_API_KEY: z.string().optional(),
+}).superRefine((values, ctx) => {
+  // Only the credentials of the selected provider are required
+  if (values.AI_PROVIDER === 'azure') {
+    if (!values.AZURE_OPENAI_ENDPOINT) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['AZURE_OPENAI_ENDPOINT'], message: 'Azure OpenAI endpoint is required when AI_PROVIDER=azure' });
+    }
+    if (!values.AZURE_OPENAI_KEY) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['AZURE_OPENAI_KEY'], message: 'Azure OpenAI key is required when AI_PROVIDER=azure' });
+    }
+  }
+  
+  if (values.AI_PROVIDER === 'openai' && !values.OPENAI_API_KEY) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['OPENAI_API_KEY'], message: 'OpenAI API key is required when AI_PROVIDER=openai' });
+  }
+  
+  const transcriptionProvider = values.TRANSCRIPTION_PROVIDER || values.AI_PROVIDER;
+  if (transcriptionProvider === 'azure' && (!values.AZURE_OPENAI_ENDPOINT || !values.AZURE_OPENAI_KEY)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['TRANSCRIPTION_PROVIDER'], message: 'Azure transcription requires AZURE_OPENAI_ENDPOINT and AZURE_OPENAI_KEY' });
+  }
+  if (transcriptionProvider === 'openai' && !values.OPENAI_API_KEY && !values.TRANSCRIPTION_API_KEY) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['TRANSCRIPTION_API_KEY'], message: 'OpenAI transcription requires OPENAI_API_KEY or TRANSCRIPTION_API_KEY' });
+  }
+  
+  if (values.AI_MODEL_ROUTES) {
+    try {
+      parseModelRoutes(values.AI_MODEL_ROUTES);
+    } catch (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['AI_MODEL_ROUTES'], message: (error as Error).message });
+    }
+  }
+  
+  if (values.PLUGIN_SETTINGS) {
+    try {
+      parsePluginSettings(values.PLUGIN_SETTINGS);
+    } catch (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['PLUGIN_SETTINGS'], message: (error as Error).message });
+    }
+  }
+  
+  if (values.MCP_ACCESS) {
+    try {
+      parseMcpAccess(values.MCP_ACCESS);
+    } catch (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['MCP_ACCESS'], message: (error as Error).message });
+    }
+  }
+  if (values.MCP_SERVERS) {
+    try {
+      parseMcpServers(values.MCP_SERVERS);
+    } catch (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['MCP_SERVERS'], message: (error as Error).message });
+    }
+  }
+  if (values.MCP_ENABLED && !values.MCP_ACCESS) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['MCP_ACCESS'], message: 'MCP_ACCESS is required when MCP_ENABLED=true' });
+  }
+  
+  if (values.A2A_PRIVATE_KEY) {
+    try {
+      parseA2APrivateKey(values.A2A_PRIVATE_KEY);
+    } catch (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['A2A_PRIVATE_KEY'], message: (error as Error).message });
+    }
+  }
+  if (values.A2A_PEERS) {
+    try {
+      parseA2APeers(values.A2A_PEERS);
+    } catch (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['A2A_PEERS'], message: (error as Error).message });
+    }
+  }
+  if (values.A2A_ENABLED && !values.A2A_PRIVATE_KEY) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['A2A_PRIVATE_KEY'], message: 'A2A_PRIVATE_KEY is required when A2A_ENABLED=true' });
+  }
 });
 
+// Parse "operation=model" pairs into a routing table
+function parseModelRoutes(routes: string): Partial<Record<AIOperation, string>> {
+  const table: Partial<Record<AIOperation, string>> = {};
+  
+  for (const pair of routes.split(',').map(part => part.trim()).filter(Boolean)) {
+    const [operation, model] = pair.split('=').map(part => part?.trim());
+    if (!operation || !model) {
+      throw new Error(`Invalid model route "${pair}", expected operation=model`);
+    }
+    if (!AI_OPERATIONS.includes(operation as AIOperation)) {
+      throw new Error(`Unknown AI operation "${operation}" in model routes`);
+    }
+    table[operation as AIOperation] = model;
+  }
+  
+  return table;
+}
+
+// Parse comma separated trigger words; matching is case-insensitive
+export function parseTriggerWords(words: string): string[] {
+  return [...new Set(words.split(',').map(word => word.trim().toLowerCase()).filter(Boolean))];
+}
+
+// Parse per-plugin setting overrides, merged into each plugin's config.settings
+function parsePluginSettings(settings: string): Record<string, Record<string, unknown>> {
+  const parsed: unknown = JSON.parse(settings);
+  const isObject = (value: unknown) => typeof value === 'object' && value !== null && !Array.isArray(value);
+  
+  if (!isObject(parsed) || !Object.values(parsed as object).every(isObject)) {
+    throw new Error('Plugin settings must be a JSON object of settings objects keyed by plugin id');
+  }
+  
+  return parsed as Record<string, Record<string, unknown>>;
+}
+
+// Parse the MCP access list: client token -> chat ids it may read, or "*" for all chats
+function parseMcpAccess(access: string): Map<string, string[] | '*'> {
+  const parsed: unknown = JSON.parse(access);
+  
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error('MCP access must be a JSON object keyed by client token');
+  }
+  
+  for (const [token, chats] of Object.entries(parsed)) {
+    const valid = chats === '*' || (Array.isArray(chats) && chats.every(chat => typeof chat === 'string' || typeof chat === 'number'));
+    if (!valid) {
+      throw new Error(`MCP access for token "${token.substring(0, 4)}…" must be "*" or a list of chat ids`);
+    }
+  }
+  
+  // A Map, so tokens such as "constructor" cannot match inherited object properties
+  return new Map(Object.entries(parsed as Record<string, unknown>).map(([token, chats]) => [
+    token,
+    chats === '*' ? '*' : (chats as Array<string | number>).map(String)
+  ]));
+}
+
+// Parse external MCP servers: id -> how to spawn it and where its tools show up
+function parseMcpServers(servers: string): Record<string, McpServerConfig> {
+  const parsed: unknown = JSON.parse(servers);
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+  const isStringList = (value: unknown) => Array.isArray(value) && value.every(item => typeof item === 'string');
+  
+  if (!isObject(parsed)) {
+    throw new Error('MCP servers must be a JSON object keyed by server id');
+  }
+  
+  const result: Record<string, McpServerConfig> = {};
+  for (const [id, server] of Object.entries(parsed)) {
+    if (!/^[a-z][a-z0-9_]{0,15}$/.test(id)) {
+      throw new Error(`MCP server id "${id}" must be lowercase letters, digits or _ (at most 16 characters)`);
+    }
+    if (!isObject(server) || typeof server['command'] !== 'string' || !server['command']) {
+      throw new Error(`MCP server "${id}" needs a command`);
+    }
+    if (server['args'] !== undefined && !isStringList(server['args'])) {
+      throw new Error(`MCP server "${id}": args must be a list of strings`);
+    }
+    if (server['env'] !== undefined && (!isObject(server['env']) || !Object.values(server['env']).every(value => typeof value === 'string'))) {
+      throw new Error(`MCP server "${id}": env must be an object of strings`);
+    }
+    if (server['cwd'] !== undefined && typeof server['cwd'] !== 'string') {
+      throw new Error(`MCP server "${id}": cwd must be a string`);
+    }
+    for (const flag of ['commands', 'qa'] as const) {
+      if (server[flag] !== undefined && typeof server[flag] !== 'boolean') {
+        throw new Error(`MCP server "${id}": ${flag} must be true or false`);
+      }
+    }
+    
+    result[id] = {
+      command: server['command'],
+      args: (server['args'] as string[] | undefined) || [],
+      env: (server['env'] as Record<string, string> | undefined) || {},
+      ...(typeof server['cwd'] === 'string' && { cwd: server['cwd'] }),
+      commands: server['commands'] !== false,
+      qa: server['qa'] !== false
+    };
+  }
+  
+  return result;
+}
+
+// Check that the A2A signing key is a base64 DER Ed25519 private key
+function parseA2APrivateKey(key: string): string {
+  const parsed = createPrivateKey({ key: Buffer.from(key, 'base64'), format: 'der', type: 'pkcs8' });
+  if (parsed.asymmetricKeyType !== 'ed25519') {
+    throw new Error('A2A private key must be an Ed25519 key');
+  }
+  return key;
+}
+
+// Parse trusted A2A peers: agent id -> endpoint, public key and what it may use
+function parseA2APeers(peers: string): Record<string, A2APeerConfig> {
+  const parsed: unknown = JSON.parse(peers);
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+  
+  if (!isObject(parsed)) {
+    throw new Error('A2A peers must be a JSON object keyed by agent id');
+  }
+  
+  const result: Record<string, A2APeerConfig> = {};
+  for (const [id, peer] of Object.entries(parsed)) {
+    if (!isObject(peer) || typeof peer['publicKey'] !== 'string') {
+      throw new Error(`A2A peer "${id}" needs a publicKey`);
+    }
+    
+    let keyType: string | undefined;
+    try {
+      keyType = createPublicKey({ key: Buffer.from(peer['publicKey'], 'base64'), format: 'der', type: 'spki' }).asymmetricKeyType;
+    } catch {
+      keyType = undefined;
+    }
+    if (keyType !== 'ed25519') {
+      throw new Error(`A2A peer "${id}": publicKey must be a base64 DER Ed25519 public key`);
+    }
+    
+    if (peer['url'] !== undefined && (typeof peer['url'] !== 'string' || !/^https?:\/\//.test(peer['url']))) {
+      throw new Error(`A2A peer "${id}": url must be an http(s) URL`);
+    }
+    
+    const chats = peer['chats'] ?? [];
+    if (chats !== '*' && !(Array.isArray(chats) && chats.every(chat => typeof chat === 'string' || typeof chat === 'number'))) {
+      throw new Error(`A2A peer "${id}": chats must be "*" or a list of chat ids`);
+    }
+    
+    const capabilities = peer['capabilities'] ?? [...A2A_CAPABILITIES];
+    if (!Array.isArray(capabilities) || !capabilities.every(capability => A2A_CAPABILITIES.includes(capability))) {
+      throw new Error(`A2A peer "${id}": capabilities must be a list of ${A2A_CAPABILITIES.join(', ')}`);
+    }
+    
+    result[id] = {
+      ...(typeof peer['url'] === 'string' && { url: peer['url'] }),
+      publicKey: peer['publicKey'],
+      chats: chats === '*' ? '*' : (chats as Array<string | number>).map(String),
+      capabilities: capabilities as A2ACapability[]
+    };
+  }
+  
+  return result;
+}
+
 // Validate environment variables
 const parseResult = envSchema.safeParse(process.env);
 
@@ -74,6 +403,25 @@ const allowedUpdates: NonNullable<BotConfig['telegram']['allowedUpdates']> = [
   'chat_member',
 ];
 
+// Default models per provider; Azure "models" are deployment names. Local
+// servers have no default embedding model: the common ones (nomic-embed-text,
+// mxbai-embed-large) do not return the 1536 dimensions the search index holds
+const DEFAULT_MODELS: Record<BotConfig['ai']['provider'], { chat: string; embedding?: string; vision?: string }> = {
+  azure: {
+    chat: env.AZURE_OPENAI_DEPLOYMENT_NAME,
+    embedding: env.AZURE_OPENAI_EMBEDDING_DEPLOYMENT_NAME,
+    ...(env.AZURE_OPENAI_VISION_DEPLOYMENT_NAME && { vision: env.AZURE_OPENAI_VISION_DEPLOYMENT_NAME }),
+  },
+  openai: { chat: 'gpt-4o', embedding: 'text-embedding-3-small', vision: 'gpt-4o' },
+  local: { chat: 'llama3.1' },
+  fake: { chat: 'fake-chat', embedding: 'fake-embedding', vision: 'fake-vision' },
+};
+
+const embeddingModel = env.AI_EMBEDDING_MODEL || DEFAULT_MODELS[env.AI_PROVIDER].embedding;
+const visionModel = env.AI_VISION_MODEL || DEFAULT_MODELS[env.AI_PROVIDER].vision;
+
+const transcriptionProvider = env.TRANSCRIPTION_PROVIDER || env.AI_PROVIDER;
+
 // Create typed configuration object
 export const config: BotConfig = {
   telegram: {
@@ -86,47 +434,133 @@ export const config: BotConfig = {
     anonKey: env.SUPABASE_ANON_KEY,
     serviceRoleKey: env.SUPABASE_SERVICE_ROLE_KEY,
   },
-  openai: {
-    endpoint: env.AZURE_OPENAI_ENDPOINT,
-    apiKey: env.AZURE_OPENAI_KEY,
-    apiVersion: env.AZURE_OPENAI_API_VERSION,
-    deploymentName: env.AZURE_OPENAI_DEPLOYMENT_NAME,
-    ...(env.AZURE_OPENAI_VISION_DEPLOYMENT_NAME && {
-      visionDeploymentName: env.AZURE_OPENAI_VISION_DEPLOYMENT_NAME
+  ai: {
+    provider: env.AI_PROVIDER,
+    defaultModel: env.AI_DEFAULT_MODEL || DEFAULT_MODELS[env.AI_PROVIDER].chat,
+    ...(embeddingModel && { embeddingModel }),
+    ...(visionModel && { visionModel }),
+    modelRoutes: env.AI_MODEL_ROUTES ? parseModelRoutes(env.AI_MODEL_ROUTES) : {},
+    ...(env.OPENAI_API_KEY && {
+      openai: {
+        apiKey: env.OPENAI_API_KEY,
+        ...(env.OPENAI_BASE_URL && { baseUrl: env.OPENAI_BASE_URL }),
+        ...(env.OPENAI_ORGANIZATION && { organization: env.OPENAI_ORGANIZATION }),
+      }
     }),
+    local: {
+      baseUrl: env.LOCAL_AI_BASE_URL,
+      ...(env.LOCAL_AI_API_KEY && { apiKey: env.LOCAL_AI_API_KEY }),
+    },
   },
+  ...(env.AZURE_OPENAI_ENDPOINT && env.AZURE_OPENAI_KEY && {
+    openai: {
+      endpoint: env.AZURE_OPENAI_ENDPOINT,
+      apiKey: env.AZURE_OPENAI_KEY,
+      apiVersion: env.AZURE_OPENAI_API_VERSION,
+      deploymentName: env.AZURE_OPENAI_DEPLOYMENT_NAME,
+      embeddingDeploymentName: env.AZURE_OPENAI_EMBEDDING_DEPLOYMENT_NAME,
+      ...(env.AZURE_OPENAI_VISION_DEPLOYMENT_NAME && {
+        visionDeploymentName: env.AZURE_OPENAI_VISION_DEPLOYMENT_NAME
+      }),
+    }
+  }),
   ...(env.AZURE_VISION_ENDPOINT && env.AZURE_VISION_KEY && {
     vision: {
       endpoint: env.AZURE_VISION_ENDPOINT,
       apiKey: env.AZURE_VISION_KEY,
     }
   }),
+  transcription: {
+    provider: transcriptionProvider,
+    model: env.TRANSCRIPTION_MODEL || (transcriptionProvider === 'azure' ? 'whisper' : 'whisper-1'),
+    ...(env.TRANSCRIPTION_BASE_URL && { baseUrl: env.TRANSCRIPTION_BASE_URL }),
+    ...(env.TRANSCRIPTION_API_KEY && { apiKey: env.TRANSCRIPTION_API_KEY }),
+    maxDuration: env.TRANSCRIPTION_MAX_DURATION,
+  },
   app: {
     port: env.PORT,
     logLevel: env.LOG_LEVEL,
+    logDestination: env.LOG_DESTINATION,
     nodeEnv: env.NODE_ENV,
     maxConversationHistory: env.MAX_CONVERSATION_HISTORY,
     cacheTtl: env.CACHE_TTL,
   },
+  retention: {
+    messages: { maxAgeDays: env.MESSAGE_RETENTION_DAYS ?? null, maxCount: env.MAX_CONVERSATION_HISTORY },
+    resources: { maxAgeDays: env.RESOURCE_RETENTION_DAYS ?? null, maxCount: env.RESOURCE_RETENTION_COUNT ?? null },
+    analytics: { maxAgeDays: env.ANALYTICS_RETENTION_DAYS ?? null, maxCount: env.ANALYTICS_RETENTION_COUNT ?? null },
+    maxPeriodsPerRun: env.RETENTION_MAX_PERIODS_PER_RUN,
+  },
+  responses: {
+    defaultMode: env.RESPONSE_MODE,
+    triggerWords: parseTriggerWords(env.RESPONSE_TRIGGER_WORDS),
+    minConfidence: env.RESPONSE_MIN_CONFIDENCE,
+  },
+  threads: {
+    gapMs: env.THREAD_GAP_MINUTES * 60 * 1000,
+    similarity: env.THREAD_SIMILARITY,
+    summaryInterval: env.THREAD_SUMMARY_INTERVAL,
+  },
+  decisions: {
+    confirmThreshold: env.DECISION_CONFIRM_THRESHOLD,
+  },
+  qa: {
+    agent: env.QA_AGENT_ENABLED,
+    maxSteps: env.QA_AGENT_MAX_STEPS,
+  },
   plugins: {
     enabled: env.PLUGINS_ENABLED,
     timeout: env.PLUGIN_TIMEOUT,
     directory: './plugins',
+    settings: env.PLUGIN_SETTINGS ? parsePluginSettings(env.PLUGIN_SETTINGS) : {},
+    isolation: env.PLUGIN_ISOLATION,
+    memoryLimitMb: env.PLUGIN_MEMORY_LIMIT_MB,
+    maxCrashes: env.PLUGIN_MAX_CRASHES,
+    quarantineMs: env.PLUGIN_QUARANTINE_MINUTES * 60 * 1000,
   },
   rateLimit: {
     windowMs: env.RATE_LIMIT_WINDOW,
     maxRequests: env.RATE_LIMIT_MAX_REQUESTS,
   },
+  scheduler: {
+    enabled: env.SCHEDULER_ENABLED,
+    digestHour: env.DIGEST_HOUR,
+  },
+  mcp: {
+    enabled: env.MCP_ENABLED,
+    access: env.MCP_ACCESS ? parseMcpAccess(env.MCP_ACCESS) : new Map(),
+    ...(env.MCP_TOKEN && { stdioToken: env.MCP_TOKEN }),
+    servers: env.MCP_SERVERS ? parseMcpServers(env.MCP_SERVERS) : {},
+    clientTimeout: env.MCP_CLIENT_TIMEOUT,
+  },
+  a2a: {
+    enabled: env.A2A_ENABLED,
+    agentId: env.A2A_AGENT_ID,
+    agentName: env.A2A_AGENT_NAME || `Buddian (${env.A2A_AGENT_ID})`,
+    ...(env.A2A_PRIVATE_KEY && { privateKey: parseA2APrivateKey(env.A2A_PRIVATE_KEY) }),
+    peers: env.A2A_PEERS ? parseA2APeers(env.A2A_PEERS) : {},
+    timeout: env.A2A_TIMEOUT,
+  },
 };
 
 // Export individual config sections for convenience
 export const telegramConfig = config.telegram;
 export const supabaseConfig = config.supabase;
+export const aiConfig = config.ai;
 export const openaiConfig = config.openai;
 export const visionConfig = config.vision;
+export const transcriptionConfig = config.transcription;
 export const appConfig = config.app;
+export const retentionConfig = config.retention;
+export const responsesConfig = config.responses;
+export const threadsConfig = config.threads;
+export const decisionsConfig = config.decisions;
+export const qaConfig = config.qa;
 export const pluginsConfig = config.plugins;
 export const rateLimitConfig = config.rateLimit;
+export const schedulerConfig = config.scheduler;
+export const mcpConfig = config.mcp;
+export const a2aConfig = config.a2a;
 
 // Environment helpers
 export const isDevelopment = env.NODE_ENV === 'development';
@@ -139,8 +573,8 @@ export function validateRequiredEnvVars(): void {
     'TELEGRAM_BOT_TOKEN',
     'SUPABASE_URL',
     'SUPABASE_SERVICE_ROLE_KEY',
-    'AZURE_OPENAI_ENDPOINT',
-    'AZURE_OPENAI_KEY',
+    ...(env.AI_PROVIDER === 'azure' ? ['AZURE_OPENAI_ENDPOINT', 'AZURE_OPENAI_KEY'] : []),
+    ...(env.AI_PROVIDER === 'openai' ? ['OPENAI_API_KEY'] : []),
   ];
   
   const missing = required.filter(key => !process.env[key]);
@@ -150,17 +584,44 @@ export function validateRequiredEnvVars(): void {
   }
 }
 
+export function describeRetentionRule(rule: RetentionRule): string {
+  const limits = [
+    rule.maxAgeDays && `${rule.maxAgeDays} days`,
+    rule.maxCount && `newest ${rule.maxCount}`
+  ].filter(Boolean);
+  return limits.length > 0 ? limits.join(', ') : 'forever';
+}
+
 // Configuration logging (safe for production)
 export function logConfiguration(): void {
   console.log('🔧 Configuration loaded:');
   console.log(`  - Environment: ${env.NODE_ENV}`);
   console.log(`  - Port: ${env.PORT}`);
   console.log(`  - Log Level: ${env.LOG_LEVEL}`);
-  console.log(`  - Plugins Enabled: ${env.PLUGINS_ENABLED}`);
-  console.log(`  - Max Conversation History: ${env.MAX_CONVERSATION_HISTORY}`);
+  console.log(`  - AI Provider: ${config.ai.provider} (default model: ${config.ai.defaultModel})`);
+  console.log(`  - Embeddings: ${config.ai.embeddingModel || config.ai.modelRoutes.embedding || 'Disabled (full-text search only)'}`);
+  console.log(`  - Group Responses: ${config.responses.defaultMode} (triggers: ${config.responses.triggerWords.join(', ') || 'none'})`);
+  console.log(`  - Threads: ${env.THREAD_GAP_MINUTES} min gap, similarity ${env.THREAD_SIMILARITY}, summary every ${env.THREAD_SUMMARY_INTERVAL} messages`);
+  console.log(`  - Decisions: confirmed without asking from confidence ${env.DECISION_CONFIRM_THRESHOLD}`);
+  console.log(`  - Question Answering: ${config.qa.agent ? `tool-calling agent (max ${config.qa.maxSteps} steps)` : 'single prompt'}`);
+  
+  const routes = Object.entries(config.ai.modelRoutes);
+  if (routes.length > 0) {
+    console.log(`  - AI Model Routes: ${routes.map(([operation, model]) => `${operation}=${model}`).join(', ')}`);
+  }
+  
+  console.log(`  - Plugins Enabled: ${env.PLUGINS_ENABLED} (isolation: ${env.PLUGIN_ISOLATION})`);
+  console.log(`  - MCP Server: ${env.MCP_ENABLED ? `HTTP at /mcp (${config.mcp.access.size} client tokens)` : 'Disabled'}`);
+  console.log(`  - MCP Tool Servers: ${Object.keys(config.mcp.servers).join(', ') || 'None'}`);
+  console.log(`  - A2A: ${env.A2A_ENABLED ? `agent ${config.a2a.agentId} at /a2a (${Object.keys(config.a2a.peers).length} peers)` : 'Disabled'}`);
+  console.log(`  - Scheduler Enabled: ${env.SCHEDULER_ENABLED} (digests at ${env.DIGEST_HOUR}:00 local time)`);
+  console.log(`  - Max Conversation History: ${env.MAX_CONVERSATION_HISTORY} messages per chat`);
+  console.log(`  - Retention Defaults: ${RETENTION_KINDS.map(kind => `${kind} ${describeRetentionRule(config.retention[kind])}`).join(', ')}`);
   console.log(`  - Cache TTL: ${env.CACHE_TTL}s`);
   console.log(`  - Rate Limit: ${env.RATE_LIMIT_MAX_REQUESTS} requests per ${env.RATE_LIMIT_WINDOW}ms`);
   
+  console.log(`  - Transcription: ${config.transcription.provider === 'none' ? 'Disabled' : `${config.transcription.provider} (${config.transcription.model})`}`);
+  
   if (config.vision) {
     console.log('  - Azure Vision: Enabled');
   }
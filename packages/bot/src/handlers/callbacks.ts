@@ -0,0 +1,945 @@
+import { Markup } from 'telegraf';
+import type { InlineKeyboardButton } from 'telegraf/typings/core/types/typegram';
+import { actionItemService, decisionService, reminderService, userService } from '@/services/supabase';
+import { actionItemManager } from '@/services/action-items';
+import { decisionManager } from '@/services/decisions';
+import { reminderManager, describeReminderTime, SNOOZE_OPTIONS } from '@/services/reminders';
+import { chatSettingsManager } from '@/services/chat-settings';
+import { userDataManager } from '@/services/user-data';
+import { schedulerService } from '@/services/scheduler';
+import { pluginManager } from '@/plugins/manager';
+import { schedulerConfig, describeRetentionRule } from '@/config/env';
+import languageUtils from '@/utils/language';
+import { telegramLogger, logError, logUserAction } from '@/utils/logger';
+import { ActionItem, BotContext, Decision, ValidationError, CHAT_FEATURES, ChatFeature, ChatSettings, RETENTION_KINDS, RetentionKind, RESPONSE_MODES, ResponseMode, User, UserPreferences } from '@/types';
+
+type CallbackContext = BotContext & { match: RegExpExecArray };
+
+// Callback data: ai:<action>:<item id>
+export const ACTION_ITEM_CALLBACK = /^ai:(start|pause|done|cancel|reopen):([0-9a-f-]{36})$/;
+
+const CALLBACK_TARGET_STATUS: Record<string, ActionItem['status']> = {
+  start: 'in_progress',
+  pause: 'pending',
+  done: 'completed',
+  cancel: 'cancelled',
+  reopen: 'pending'
+};
+
+const STATUS_LABELS: Record<ActionItem['status'], string> = {
+  pending: 'pending',
+  in_progress: 'in progress',
+  completed: 'done',
+  cancelled: 'cancelled'
+};
+
+// Buttons for the transitions available from the item's current status
+export function actionItemButtons(item: ActionItem): InlineKeyboardButton[] {
+  const label = item.number ? `#${item.number}` : item.title.substring(0, 12);
+
+  switch (item.status) {
+    case 'pending':
+      return [
+        Markup.button.callback(`▶️ ${label}`, `ai:start:${item.id}`),
+        Markup.button.callback(`✅ ${label}`, `ai:done:${item.id}`),
+        Markup.button.callback(`✖️ ${label}`, `ai:cancel:${item.id}`)
+      ];
+    case 'in_progress':
+      return [
+        Markup.button.callback(`⏸️ ${label}`, `ai:pause:${item.id}`),
+        Markup.button.callback(`✅ ${label}`, `ai:done:${item.id}`),
+        Markup.button.callback(`✖️ ${label}`, `ai:cancel:${item.id}`)
+      ];
+    default:
+      return [Markup.button.callback(`↩️ Reopen ${label}`, `ai:reopen:${item.id}`)];
+  }
+}
+
+export function actionItemKeyboard(items: ActionItem[]) {
+  return Markup.inlineKeyboard(items.map(actionItemButtons));
+}
+
+// Action item buttons under /todo lists
+export async function handleActionItemCallback(ctx: CallbackContext): Promise<void> {
+  const chatId = ctx.chat?.id.toString();
+  const [, action, itemId] = ctx.match;
+
+  if (!chatId || !ctx.from || !action || !itemId) {
+    await ctx.answerCbQuery();
+    return;
+  }
+
+  try {
+    const item = await actionItemService.getActionItem(itemId);
+    if (!item || item.chatId !== chatId) {
+      await ctx.answerCbQuery('This action item no longer exists.');
+      return;
+    }
+
+    const user = await userService.getUser(ctx.from.id);
+    const targetStatus = CALLBACK_TARGET_STATUS[action] || 'pending';
+    const updated = await actionItemManager.transition(item, targetStatus, user?.id);
+
+    await ctx.answerCbQuery(`#${updated.number} is now ${STATUS_LABELS[updated.status]}`);
+
+    // Swap the buttons of the changed item for the ones matching its new status
+    const message = ctx.callbackQuery?.message;
+    if (message && 'reply_markup' in message && message.reply_markup) {
+      const rows = message.reply_markup.inline_keyboard.map(row =>
+        row.some(button => 'callback_data' in button && button.callback_data.endsWith(itemId))
+          ? actionItemButtons(updated)
+          : row
+      );
+      await ctx.editMessageReplyMarkup({ inline_keyboard: rows });
+    }
+
+    logUserAction(telegramLogger, ctx.from.id.toString(), chatId, 'action_item_callback', {
+      itemId,
+      action,
+      from: item.status,
+      to: updated.status
+    });
+
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      await ctx.answerCbQuery(error.message);
+      return;
+    }
+
+    logError(telegramLogger, error as Error, {
+      operation: 'action_item_callback',
+      chatId,
+      itemId,
+      action
+    });
+
+    await ctx.answerCbQuery('Sorry, I couldn\'t update this action item. Please try again.');
+  }
+}
+
+// Callback data: dc:<action>:<decision id>
+export const DECISION_CALLBACK = /^dc:(confirm|reject):([0-9a-f-]{36})$/;
+
+// Confirm and reject buttons while a decision is pending; none once it is settled
+export function decisionButtons(decision: Decision): InlineKeyboardButton[] {
+  if (decision.status !== 'pending') {
+    return [];
+  }
+
+  const label = decision.number ? `#${decision.number}` : decision.content.substring(0, 12);
+  return [
+    Markup.button.callback(`✅ Confirm ${label}`, `dc:confirm:${decision.id}`),
+    Markup.button.callback(`✖️ Reject ${label}`, `dc:reject:${decision.id}`)
+  ];
+}
+
+export function decisionKeyboard(decisions: Decision[]) {
+  return Markup.inlineKeyboard(decisions.map(decisionButtons).filter(row => row.length > 0));
+}
+
+// Confirm and reject buttons under confirmation prompts and /decisions pending
+export async function handleDecisionCallback(ctx: CallbackContext): Promise<void> {
+  const chatId = ctx.chat?.id.toString();
+  const [, action, decisionId] = ctx.match;
+
+  if (!chatId || !ctx.from || !action || !decisionId) {
+    await ctx.answerCbQuery();
+    return;
+  }
+
+  try {
+    const decision = await decisionService.getDecision(decisionId);
+    if (!decision || decision.chatId !== chatId) {
+      await ctx.answerCbQuery('This decision no longer exists.');
+      return;
+    }
+
+    const user = await userService.getUser(ctx.from.id);
+    let updated: Decision;
+    let answer: string;
+
+    if (action === 'confirm') {
+      const { decision: confirmed, superseded } = await decisionManager.confirm(decision, user?.id);
+      updated = confirmed;
+      answer = `#${confirmed.number} confirmed${superseded.length > 0 ? `; it replaces ${superseded.map(item => `#${item.number}`).join(', ')}` : ''}`;
+    } else {
+      updated = await decisionManager.reject(decision, user?.id);
+      answer = `#${updated.number} rejected`;
+    }
+
+    await ctx.answerCbQuery(answer);
+
+    // Drop the buttons of the settled decision, and the keyboard with the last of them
+    const message = ctx.callbackQuery?.message;
+    if (message && 'reply_markup' in message && message.reply_markup) {
+      const rows = message.reply_markup.inline_keyboard
+        .map(row => row.some(button => 'callback_data' in button && button.callback_data.endsWith(decisionId)) ? decisionButtons(updated) : row)
+        .filter(row => row.length > 0);
+      await ctx.editMessageReplyMarkup(rows.length > 0 ? { inline_keyboard: rows } : undefined);
+    }
+
+    logUserAction(telegramLogger, ctx.from.id.toString(), chatId, 'decision_callback', {
+      decisionId,
+      action,
+      from: decision.status,
+      to: updated.status
+    });
+
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      await ctx.answerCbQuery(error.message);
+      return;
+    }
+
+    logError(telegramLogger, error as Error, {
+      operation: 'decision_callback',
+      chatId,
+      decisionId,
+      action
+    });
+
+    await ctx.answerCbQuery('Sorry, I couldn\'t update this decision. Please try again.');
+  }
+}
+
+// Drop the buttons of one reminder, keeping those of the others in a /reminders list
+async function removeReminderButtons(ctx: CallbackContext, reminderId: string): Promise<void> {
+  const message = ctx.callbackQuery?.message;
+  const rows = message && 'reply_markup' in message && message.reply_markup
+    ? message.reply_markup.inline_keyboard.filter(row =>
+        !row.some(button => 'callback_data' in button && button.callback_data.split(':')[2] === reminderId)
+      )
+    : [];
+  await ctx.editMessageReplyMarkup(rows.length > 0 ? { inline_keyboard: rows } : undefined);
+}
+
+// Snooze and cancel buttons under reminders
+export async function handleReminderCallback(ctx: CallbackContext): Promise<void> {
+  const chatId = ctx.chat?.id.toString();
+  const [, action, reminderId, minutesText] = ctx.match;
+
+  if (!chatId || !ctx.from || !action || !reminderId) {
+    await ctx.answerCbQuery();
+    return;
+  }
+
+  try {
+    const reminder = await reminderService.getReminder(reminderId);
+    if (!reminder || reminder.chatId !== chatId) {
+      await ctx.answerCbQuery('This reminder no longer exists.');
+      return;
+    }
+
+    // Only the person who set the reminder may change it
+    const user = await userService.getUser(ctx.from.id);
+    if (!user || user.id !== reminder.userId) {
+      await ctx.answerCbQuery('Only the person who set this reminder can change it.');
+      return;
+    }
+
+    if (action === 'cancel') {
+      await reminderManager.cancel(reminder);
+      await ctx.answerCbQuery(reminder.recurrence ? 'Reminder stopped' : 'Reminder cancelled');
+      await removeReminderButtons(ctx, reminder.id);
+    } else {
+      const minutes = parseInt(minutesText || '', 10);
+      if (!SNOOZE_OPTIONS.some(option => option.minutes === minutes)) {
+        await ctx.answerCbQuery();
+        return;
+      }
+
+      const snoozed = await reminderManager.snooze(reminder, minutes);
+      await ctx.answerCbQuery(`Snoozed until ${describeReminderTime(snoozed)}`);
+      if (!reminder.recurrence) {
+        await removeReminderButtons(ctx, reminder.id);
+      }
+    }
+
+    logUserAction(telegramLogger, ctx.from.id.toString(), chatId, 'reminder_callback', {
+      reminderId,
+      action,
+      ...(minutesText && { minutes: minutesText })
+    });
+
+  } catch (error) {
+    logError(telegramLogger, error as Error, {
+      operation: 'reminder_callback',
+      chatId,
+      reminderId,
+      action
+    });
+
+    await ctx.answerCbQuery('Sorry, I couldn\'t update this reminder. Please try again.');
+  }
+}
+
+// Callback data: cs:<action>[:<value>]; plugin ids may contain dots and dashes
+export const CHAT_SETTINGS_CALLBACK = /^cs:([a-z]+)(?::([\w.-]+))?$/;
+
+type ChatSettingsView = 'main' | 'mode' | 'language' | 'features' | 'plugins' | 'retention' | 'digest' | 'admins';
+
+const CHAT_SETTINGS_VIEWS: ChatSettingsView[] = ['main', 'mode', 'language', 'features', 'plugins', 'retention', 'digest', 'admins'];
+
+const RESPONSE_MODE_LABELS: Record<ResponseMode, string> = {
+  addressed: 'When addressed',
+  questions: 'Questions too',
+  off: 'Commands only'
+};
+
+const FEATURE_LABELS: Record<ChatFeature, string> = {
+  extraction: 'Decisions & action items',
+  documents: 'Documents & photos',
+  links: 'Link previews',
+  transcription: 'Voice transcription',
+  threads: 'Conversation threads',
+  welcome: 'Welcome newcomers',
+  confirmations: 'Decision confirmations'
+};
+
+// Offered as buttons; any other language is set with /settings language <code>
+const MENU_LANGUAGES = ['en', 'es', 'fr', 'de', 'it', 'pt', 'ru', 'uk', 'zh', 'ja'];
+const RETENTION_OPTIONS = [30, 90, 365];
+
+const RETENTION_LABELS: Record<RetentionKind, { icon: string; label: string }> = {
+  messages: { icon: '💬', label: 'Messages' },
+  resources: { icon: '📎', label: 'Files and links' },
+  analytics: { icon: '📈', label: 'Statistics' }
+};
+const DIGEST_HOURS = [6, 9, 12, 18];
+const DIGEST_FREQUENCIES: ChatSettings['digestFrequency'][] = ['never', 'daily', 'weekly'];
+
+function checked(selected: boolean, label: string): string {
+  return selected ? `✅ ${label}` : label;
+}
+
+function buttonRows(buttons: InlineKeyboardButton[], perRow: number): InlineKeyboardButton[][] {
+  const rows: InlineKeyboardButton[][] = [];
+  for (let i = 0; i < buttons.length; i += perRow) {
+    rows.push(buttons.slice(i, i + perRow));
+  }
+  return rows;
+}
+
+function describeDigest(settings: ChatSettings): string {
+  if (settings.digestFrequency === 'never') {
+    return 'off';
+  }
+  const hour = settings.digestHour ?? schedulerConfig.digestHour;
+  return `${settings.digestFrequency} at ${hour.toString().padStart(2, '0')}:00 UTC`;
+}
+
+async function describeAdmins(userIds: string[]): Promise<Array<{ id: string; name: string }>> {
+  const admins: Array<{ id: string; name: string }> = [];
+  for (const id of userIds) {
+    const user = await userService.getUserById(id).catch(() => null);
+    admins.push({ id, name: user ? (user.username ? `@${user.username}` : user.firstName) : 'unknown user' });
+  }
+  return admins;
+}
+
+function summarizeChatSettings(settings: ChatSettings): string {
+  const disabledFeatures = settings.disabledFeatures.map(feature => FEATURE_LABELS[feature]);
+  const disabledPlugins = pluginManager.getChatDisabledPlugins(settings);
+
+  return [
+    '⚙️ Chat settings',
+    '',
+    `💬 Responses: ${RESPONSE_MODE_LABELS[settings.responseMode].toLowerCase()}`,
+    `🌍 Language: ${settings.language ? languageUtils.getLanguageName(settings.language) : 'each member\'s own'}`,
+    `🧩 Turned off: ${disabledFeatures.length > 0 ? disabledFeatures.join(', ') : 'nothing'}`,
+    `🔌 Plugins turned off: ${disabledPlugins.length > 0 ? disabledPlugins.join(', ') : 'none'}`,
+    `🗄 Keep messages: ${describeRetentionRule(settings.retention.messages)}`,
+    `📊 Digest: ${describeDigest(settings)}`
+  ].join('\n');
+}
+
+/**
+ * Text and keyboard for one screen of the chat settings menu. Every button
+ * carries its own action, so the menu works from any message it is attached to.
+ */
+export async function chatSettingsMenu(settings: ChatSettings, view: ChatSettingsView = 'main') {
+  const back = [Markup.button.callback('⬅️ Back', 'cs:view:main')];
+
+  switch (view) {
+    case 'mode':
+      return {
+        text: `💬 When should I answer messages that are not commands?\nTrigger words: ${settings.triggerWords.join(', ') || 'none'} (change with /respond triggers)`,
+        keyboard: Markup.inlineKeyboard([
+          ...RESPONSE_MODES.map(mode => [
+            Markup.button.callback(checked(settings.responseMode === mode, RESPONSE_MODE_LABELS[mode]), `cs:mode:${mode}`)
+          ]),
+          back
+        ])
+      };
+
+    case 'language': {
+      const buttons = MENU_LANGUAGES.map(code =>
+        Markup.button.callback(checked(settings.language === code, languageUtils.getLanguageName(code)), `cs:lang:${code}`)
+      );
+      return {
+        text: '🌍 Language for answers, summaries and digests in this chat.\nOther languages: /settings language <code>',
+        keyboard: Markup.inlineKeyboard([
+          [Markup.button.callback(checked(!settings.language, 'Each member\'s own'), 'cs:lang:auto')],
+          ...buttonRows(buttons, 3),
+          back
+        ])
+      };
+    }
+
+    case 'features':
+      return {
+        text: '🧩 What I do with messages in this chat. Tap to turn on or off.',
+        keyboard: Markup.inlineKeyboard([
+          ...CHAT_FEATURES.map(feature => [
+            Markup.button.callback(
+              `${settings.disabledFeatures.includes(feature) ? '❌' : '✅'} ${FEATURE_LABELS[feature]}`,
+              `cs:feature:${feature}`
+            )
+          ]),
+          back
+        ])
+      };
+
+    case 'plugins': {
+      const plugins = pluginManager.getPluginStats();
+      const disabledPlugins = pluginManager.getChatDisabledPlugins(settings);
+      return {
+        text: plugins.length > 0
+          ? '🔌 Plugins available in this chat. Tap to turn on or off. MCP servers start off.'
+          : '🔌 No plugins are loaded.',
+        keyboard: Markup.inlineKeyboard([
+          ...plugins.map(plugin => [
+            Markup.button.callback(
+              `${disabledPlugins.includes(plugin.id) ? '❌' : '✅'} ${plugin.name}`,
+              `cs:plugin:${plugin.id}`
+            )
+          ]),
+          back
+        ])
+      };
+    }
+
+    case 'retention':
+      return {
+        text: [
+          '🗄 How long I keep this chat\'s history. Messages are summarized before they are deleted, so /summary still covers old periods.',
+          '',
+          ...RETENTION_KINDS.map(kind => `${RETENTION_LABELS[kind].icon} ${RETENTION_LABELS[kind].label}: ${describeRetentionRule(settings.retention[kind])}`),
+          '',
+          'Buttons set the age limit. To keep only the newest rows: /settings retention <messages|resources|analytics> count <number|off>'
+        ].join('\n'),
+        keyboard: Markup.inlineKeyboard([
+          ...RETENTION_KINDS.map(kind => {
+            const { icon } = RETENTION_LABELS[kind];
+            const { maxAgeDays } = settings.retention[kind];
+            return [
+              Markup.button.callback(checked(!maxAgeDays, `${icon} ∞`), `cs:retention:${kind}.forever`),
+              ...RETENTION_OPTIONS.map(days =>
+                Markup.button.callback(checked(maxAgeDays === days, `${icon} ${days}d`), `cs:retention:${kind}.${days}`)
+              )
+            ];
+          }),
+          back
+        ])
+      };
+
+    case 'digest': {
+      const hour = settings.digestHour ?? schedulerConfig.digestHour;
+      return {
+        text: `📊 Summary of the chat, posted here.\nCurrently: ${describeDigest(settings)}`,
+        keyboard: Markup.inlineKeyboard([
+          DIGEST_FREQUENCIES.map(frequency =>
+            Markup.button.callback(checked(settings.digestFrequency === frequency, frequency), `cs:digest:${frequency}`)
+          ),
+          DIGEST_HOURS.map(option =>
+            Markup.button.callback(checked(hour === option, `${option.toString().padStart(2, '0')}:00`), `cs:hour:${option}`)
+          ),
+          back
+        ])
+      };
+    }
+
+    case 'admins': {
+      const admins = await describeAdmins(await chatSettingsManager.getGrantedAdmins(settings.chatId));
+      return {
+        text: [
+          '👥 Telegram admins of this chat can always change my settings.',
+          admins.length > 0 ? `Also admins: ${admins.map(admin => admin.name).join(', ')}` : 'No other members have the admin role.',
+          '',
+          'To add one, reply to their message with /settings admin. Tap a name to remove it.'
+        ].join('\n'),
+        keyboard: Markup.inlineKeyboard([
+          ...admins.map(admin => [Markup.button.callback(`✖️ ${admin.name}`, `cs:unadmin:${admin.id}`)]),
+          back
+        ])
+      };
+    }
+
+    default:
+      return {
+        text: summarizeChatSettings(settings),
+        keyboard: Markup.inlineKeyboard([
+          [Markup.button.callback('💬 Responses', 'cs:view:mode'), Markup.button.callback('🌍 Language', 'cs:view:language')],
+          [Markup.button.callback('🧩 Features', 'cs:view:features'), Markup.button.callback('🔌 Plugins', 'cs:view:plugins')],
+          [Markup.button.callback('🗄 History', 'cs:view:retention'), Markup.button.callback('📊 Digest', 'cs:view:digest')],
+          [Markup.button.callback('👥 Admins', 'cs:view:admins'), Markup.button.callback('✖️ Close', 'cs:close')]
+        ])
+      };
+  }
+}
+
+// Apply a settings button and return the screen to show next
+async function applyChatSetting(
+  settings: ChatSettings,
+  action: string,
+  value: string,
+  updatedBy?: string
+): Promise<{ settings: ChatSettings; view: ChatSettingsView } | null> {
+  const update = async (updates: Partial<Omit<ChatSettings, 'chatId'>>) =>
+    chatSettingsManager.updateSettings(settings.chatId, updates, updatedBy);
+
+  switch (action) {
+    case 'mode':
+      if (!RESPONSE_MODES.includes(value as ResponseMode)) {
+        return null;
+      }
+      return { settings: await update({ responseMode: value as ResponseMode }), view: 'mode' };
+
+    case 'lang':
+      if (value !== 'auto' && !MENU_LANGUAGES.includes(value)) {
+        return null;
+      }
+      return { settings: await update({ language: value === 'auto' ? null : value }), view: 'language' };
+
+    case 'feature': {
+      if (!CHAT_FEATURES.includes(value as ChatFeature)) {
+        return null;
+      }
+      const feature = value as ChatFeature;
+      const disabledFeatures = settings.disabledFeatures.includes(feature)
+        ? settings.disabledFeatures.filter(disabled => disabled !== feature)
+        : [...settings.disabledFeatures, feature];
+      return { settings: await update({ disabledFeatures }), view: 'features' };
+    }
+
+    case 'plugin': {
+      if (!pluginManager.getPluginStats().some(plugin => plugin.id === value) && !settings.disabledPlugins.includes(value)) {
+        return null;
+      }
+      // Plugins that start off are switched through enabledPlugins instead
+      if (pluginManager.isOffByDefault(value)) {
+        const enabledPlugins = settings.enabledPlugins.includes(value)
+          ? settings.enabledPlugins.filter(enabled => enabled !== value)
+          : [...settings.enabledPlugins, value];
+        return { settings: await update({ enabledPlugins }), view: 'plugins' };
+      }
+      const disabledPlugins = settings.disabledPlugins.includes(value)
+        ? settings.disabledPlugins.filter(disabled => disabled !== value)
+        : [...settings.disabledPlugins, value];
+      return { settings: await update({ disabledPlugins }), view: 'plugins' };
+    }
+
+    case 'retention': {
+      const [kind, option] = value.split('.');
+      const days = option === 'forever' ? null : parseInt(option || '', 10);
+      if (!RETENTION_KINDS.includes(kind as RetentionKind) || (days !== null && !RETENTION_OPTIONS.includes(days))) {
+        return null;
+      }
+
+      const retentionKind = kind as RetentionKind;
+      const retention = { ...settings.retention, [retentionKind]: { ...settings.retention[retentionKind], maxAgeDays: days } };
+      return { settings: await update({ retention }), view: 'retention' };
+    }
+
+    case 'digest': {
+      if (!DIGEST_FREQUENCIES.includes(value as ChatSettings['digestFrequency'])) {
+        return null;
+      }
+      const updated = await update({ digestFrequency: value as ChatSettings['digestFrequency'] });
+      await schedulerService.syncChatTasks(updated);
+      return { settings: updated, view: 'digest' };
+    }
+
+    case 'hour': {
+      const hour = parseInt(value, 10);
+      if (!DIGEST_HOURS.includes(hour)) {
+        return null;
+      }
+      const updated = await update({ digestHour: hour });
+      await schedulerService.syncChatTasks(updated);
+      return { settings: updated, view: 'digest' };
+    }
+
+    case 'unadmin':
+      await chatSettingsManager.revokeAdmin(settings.chatId, value);
+      return { settings, view: 'admins' };
+
+    default:
+      return null;
+  }
+}
+
+// Buttons of the /settings menu in group chats
+export async function handleChatSettingsCallback(ctx: CallbackContext): Promise<void> {
+  const chatId = ctx.chat?.id.toString();
+  const [, action, value = ''] = ctx.match;
+
+  if (!chatId || !ctx.from || !action) {
+    await ctx.answerCbQuery();
+    return;
+  }
+
+  try {
+    if (!(await chatSettingsManager.isAdmin(ctx.telegram, chatId, ctx.from.id))) {
+      await ctx.answerCbQuery('⛔ Only chat admins can change these settings.');
+      return;
+    }
+
+    if (action === 'close') {
+      await ctx.answerCbQuery();
+      await ctx.deleteMessage().catch(() => ctx.editMessageReplyMarkup(undefined));
+      return;
+    }
+
+    let settings = await chatSettingsManager.getSettings(chatId);
+    let view: ChatSettingsView;
+
+    if (action === 'view') {
+      if (!CHAT_SETTINGS_VIEWS.includes(value as ChatSettingsView)) {
+        await ctx.answerCbQuery();
+        return;
+      }
+      view = value as ChatSettingsView;
+      await ctx.answerCbQuery();
+    } else {
+      const user = await userService.getUser(ctx.from.id);
+      const applied = await applyChatSetting(settings, action, value, user?.id);
+      if (!applied) {
+        await ctx.answerCbQuery('This option is no longer available.');
+        return;
+      }
+
+      ({ settings, view } = applied);
+      await ctx.answerCbQuery('✅ Saved');
+
+      logUserAction(telegramLogger, ctx.from.id.toString(), chatId, 'chat_settings_changed', { action, value });
+    }
+
+    const menu = await chatSettingsMenu(settings, view);
+    await ctx.editMessageText(menu.text, menu.keyboard).catch(error => {
+      // Pressing the already selected option leaves the message unchanged
+      if (!(error instanceof Error && error.message.includes('message is not modified'))) {
+        throw error;
+      }
+    });
+
+  } catch (error) {
+    logError(telegramLogger, error as Error, {
+      operation: 'chat_settings_callback',
+      chatId,
+      action,
+      value
+    });
+
+    await ctx.answerCbQuery('Sorry, I couldn\'t update the settings. Please try again.');
+  }
+}
+
+// Callback data: us:<action>[:<value>]; timezones contain slashes and may contain plus signs
+export const USER_SETTINGS_CALLBACK = /^us:([a-z]+)(?::([\w./+-]+))?$/;
+
+type UserSettingsView = 'main' | 'language' | 'timezone' | 'reminders' | 'summaries' | 'plugins';
+
+const USER_SETTINGS_VIEWS: UserSettingsView[] = ['main', 'language', 'timezone', 'reminders', 'summaries', 'plugins'];
+
+// Offered as buttons; any other zone is set with /settings timezone <zone>
+const MENU_TIMEZONES = [
+  'UTC', 'Europe/London', 'Europe/Berlin', 'Europe/Moscow',
+  'America/New_York', 'America/Chicago', 'America/Los_Angeles', 'America/Sao_Paulo',
+  'Asia/Kolkata', 'Asia/Shanghai', 'Asia/Tokyo', 'Australia/Sydney'
+];
+const PREFERENCE_FREQUENCIES: UserPreferences['reminderFrequency'][] = ['never', 'daily', 'weekly'];
+
+// With an empty pluginsEnabled list every plugin is on
+function enabledPlugins(preferences: UserPreferences): string[] {
+  return preferences.pluginsEnabled.length > 0
+    ? preferences.pluginsEnabled
+    : pluginManager.getPluginStats().map(plugin => plugin.id);
+}
+
+function summarizeUserSettings(preferences: UserPreferences): string {
+  const disabled = pluginManager.getUserDisabledPlugins(preferences);
+
+  return [
+    '⚙️ Your settings',
+    '',
+    `🌍 Language: ${languageUtils.getLanguageName(preferences.language)} (${preferences.language})`,
+    `🕐 Timezone: ${preferences.timezone}`,
+    `🔔 Notifications: ${preferences.notifications ? 'on' : 'off'}`,
+    `⏰ Reminder digest: ${preferences.reminderFrequency}`,
+    `📊 Summary digest: ${preferences.summaryFrequency}`,
+    `🔌 Plugins turned off: ${disabled.length > 0 ? disabled.join(', ') : 'none'}`
+  ].join('\n');
+}
+
+/**
+ * Text and keyboard for one screen of a user's /settings menu in a private chat
+ */
+export function userSettingsMenu(preferences: UserPreferences, view: UserSettingsView = 'main') {
+  const back = [Markup.button.callback('⬅️ Back', 'us:view:main')];
+
+  switch (view) {
+    case 'language': {
+      const buttons = MENU_LANGUAGES.map(code =>
+        Markup.button.callback(checked(preferences.language === code, languageUtils.getLanguageName(code)), `us:lang:${code}`)
+      );
+      return {
+        text: '🌍 Language for your digests and reminders.\nOther languages: /settings language <code>',
+        keyboard: Markup.inlineKeyboard([...buttonRows(buttons, 3), back])
+      };
+    }
+
+    case 'timezone': {
+      const buttons = MENU_TIMEZONES.map(zone =>
+        Markup.button.callback(checked(preferences.timezone === zone, zone.replace(/^.*\//, '').replace(/_/g, ' ')), `us:tz:${zone}`)
+      );
+      return {
+        text: `🕐 Timezone for reminders and digests.\nCurrently: ${preferences.timezone}\nOther zones: /settings timezone <zone>, e.g. /settings timezone Europe/Paris`,
+        keyboard: Markup.inlineKeyboard([...buttonRows(buttons, 3), back])
+      };
+    }
+
+    case 'reminders':
+    case 'summaries': {
+      const preference = view === 'reminders' ? 'reminderFrequency' : 'summaryFrequency';
+      return {
+        text: view === 'reminders'
+          ? '⏰ How often I send you a digest of your open action items and reminders.'
+          : '📊 How often I send you a summary of your chats.',
+        keyboard: Markup.inlineKeyboard([
+          PREFERENCE_FREQUENCIES.map(frequency =>
+            Markup.button.callback(checked(preferences[preference] === frequency, frequency), `us:${view === 'reminders' ? 'remind' : 'summary'}:${frequency}`)
+          ),
+          back
+        ])
+      };
+    }
+
+    case 'plugins': {
+      const plugins = pluginManager.getPluginStats();
+      const enabled = enabledPlugins(preferences);
+      return {
+        text: plugins.length > 0
+          ? '🔌 Plugins you use, in every chat. Tap to turn on or off.'
+          : '🔌 No plugins are loaded.',
+        keyboard: Markup.inlineKeyboard([
+          ...plugins.map(plugin => [
+            Markup.button.callback(`${enabled.includes(plugin.id) ? '✅' : '❌'} ${plugin.name}`, `us:plugin:${plugin.id}`)
+          ]),
+          back
+        ])
+      };
+    }
+
+    default:
+      return {
+        text: summarizeUserSettings(preferences),
+        keyboard: Markup.inlineKeyboard([
+          [Markup.button.callback('🌍 Language', 'us:view:language'), Markup.button.callback('🕐 Timezone', 'us:view:timezone')],
+          [Markup.button.callback(preferences.notifications ? '🔕 Turn notifications off' : '🔔 Turn notifications on', 'us:notify')],
+          [Markup.button.callback('⏰ Reminders', 'us:view:reminders'), Markup.button.callback('📊 Summaries', 'us:view:summaries')],
+          [Markup.button.callback('🔌 Plugins', 'us:view:plugins'), Markup.button.callback('✖️ Close', 'us:close')]
+        ])
+      };
+  }
+}
+
+// The preference a settings button changes and the screen to show next
+function userSettingChange(
+  preferences: UserPreferences,
+  action: string,
+  value: string
+): { updates: Partial<UserPreferences>; view: UserSettingsView } | null {
+  switch (action) {
+    case 'lang':
+      return MENU_LANGUAGES.includes(value) ? { updates: { language: value }, view: 'language' } : null;
+
+    case 'tz':
+      return MENU_TIMEZONES.includes(value) ? { updates: { timezone: value }, view: 'timezone' } : null;
+
+    case 'notify':
+      return { updates: { notifications: !preferences.notifications }, view: 'main' };
+
+    case 'remind':
+    case 'summary': {
+      const frequency = value as UserPreferences['reminderFrequency'];
+      if (!PREFERENCE_FREQUENCIES.includes(frequency)) {
+        return null;
+      }
+      return action === 'remind'
+        ? { updates: { reminderFrequency: frequency }, view: 'reminders' }
+        : { updates: { summaryFrequency: frequency }, view: 'summaries' };
+    }
+
+    case 'plugin': {
+      const available = pluginManager.getPluginStats().map(plugin => plugin.id);
+      if (!available.includes(value)) {
+        return null;
+      }
+
+      const enabled = enabledPlugins(preferences);
+      const pluginsEnabled = enabled.includes(value) ? enabled.filter(id => id !== value) : [...enabled, value];
+      // Back to the empty list once everything is on, so plugins added later start enabled
+      return {
+        updates: { pluginsEnabled: available.every(id => pluginsEnabled.includes(id)) ? [] : pluginsEnabled },
+        view: 'plugins'
+      };
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Save preference changes and bring the user's digest jobs in line with them
+ */
+export async function saveUserPreferences(user: User, updates: Partial<UserPreferences>): Promise<User> {
+  await userService.updateUserPreferences(user.id, updates);
+
+  const updated = { ...user, preferences: { ...user.preferences, ...updates } };
+  await schedulerService.syncUserTasks(updated);
+  return updated;
+}
+
+// Buttons of the /settings menu in private chats
+export async function handleUserSettingsCallback(ctx: CallbackContext): Promise<void> {
+  const [, action, value = ''] = ctx.match;
+
+  if (!ctx.from || !action) {
+    await ctx.answerCbQuery();
+    return;
+  }
+
+  const userId = ctx.from.id.toString();
+
+  try {
+    if (action === 'close') {
+      await ctx.answerCbQuery();
+      await ctx.deleteMessage().catch(() => ctx.editMessageReplyMarkup(undefined));
+      return;
+    }
+
+    // The menu always edits the preferences of whoever presses the button
+    let user = await userService.getUser(ctx.from.id);
+    if (!user) {
+      await ctx.answerCbQuery('Please use /start first to set up your account.');
+      return;
+    }
+
+    let view: UserSettingsView;
+
+    if (action === 'view') {
+      if (!USER_SETTINGS_VIEWS.includes(value as UserSettingsView)) {
+        await ctx.answerCbQuery();
+        return;
+      }
+      view = value as UserSettingsView;
+      await ctx.answerCbQuery();
+    } else {
+      const change = userSettingChange(user.preferences, action, value);
+      if (!change) {
+        await ctx.answerCbQuery('This option is no longer available.');
+        return;
+      }
+
+      user = await saveUserPreferences(user, change.updates);
+      view = change.view;
+      await ctx.answerCbQuery('✅ Saved');
+
+      logUserAction(telegramLogger, userId, ctx.chat?.id.toString() || userId, 'user_settings_changed', { action, value });
+    }
+
+    const menu = userSettingsMenu(user.preferences, view);
+    await ctx.editMessageText(menu.text, menu.keyboard).catch(error => {
+      if (!(error instanceof Error && error.message.includes('message is not modified'))) {
+        throw error;
+      }
+    });
+
+  } catch (error) {
+    logError(telegramLogger, error as Error, {
+      operation: 'user_settings_callback',
+      userId,
+      action,
+      value
+    });
+
+    await ctx.answerCbQuery('Sorry, I couldn\'t update your settings. Please try again.');
+  }
+}
+
+// Callback data: md:delete or md:cancel
+export const DATA_DELETION_CALLBACK = /^md:(delete|cancel)$/;
+
+export function dataDeletionKeyboard() {
+  return Markup.inlineKeyboard([
+    [Markup.button.callback('🗑 Delete my data', 'md:delete')],
+    [Markup.button.callback('Cancel', 'md:cancel')]
+  ]);
+}
+
+// Confirmation under /mydata delete
+export async function handleDataDeletionCallback(ctx: CallbackContext): Promise<void> {
+  const [, action] = ctx.match;
+
+  if (!ctx.from || !action) {
+    await ctx.answerCbQuery();
+    return;
+  }
+
+  const userId = ctx.from.id.toString();
+
+  try {
+    if (action === 'cancel') {
+      await ctx.answerCbQuery('Nothing was deleted');
+      await ctx.editMessageText('Nothing was deleted.');
+      return;
+    }
+
+    // Deletes the data of whoever confirms, never of someone else
+    const user = await userService.getUser(ctx.from.id);
+    if (!user) {
+      await ctx.answerCbQuery('Your data was already deleted.');
+      await ctx.editMessageReplyMarkup(undefined);
+      return;
+    }
+
+    await ctx.answerCbQuery('Deleting…');
+    const counts = await userDataManager.deleteData(user);
+
+    await ctx.editMessageText(
+      `✅ Your data is deleted: ${counts['messages'] || 0} messages, ${counts['resources'] || 0} files and links ` +
+      `and ${counts['reminders'] || 0} reminders. If you write to me again, I will start storing new messages.`
+    );
+
+    logUserAction(telegramLogger, userId, ctx.chat?.id.toString() || userId, 'data_deleted', counts);
+
+  } catch (error) {
+    logError(telegramLogger, error as Error, {
+      operation: 'data_deletion_callback',
+      userId
+    });
+
+    await ctx.reply('Sorry, I couldn\'t delete your data. Nothing was changed; please try again.');
+  }
+}
+
+export default {
+  actionItem: handleActionItemCallback,
+  decision: handleDecisionCallback,
+  reminder: handleReminderCallback,
+  chatSettings: handleChatSettingsCallback,
+  userSettings: handleUserSettingsCallback,
+  dataDeletion: handleDataDeletionCallback
+};
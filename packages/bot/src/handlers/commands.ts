@@ -1,10 +1,40 @@
-import { BotContext } from '@/types';
-import { messageService, userService, resourceService } from '@/services/supabase';
+import { Markup } from 'telegraf';
+import { BotContext, Decision, SearchResult, ValidationError, A2A_CAPABILITIES, A2ACapability, RESPONSE_MODES, ResponseMode, RETENTION_KINDS, RetentionKind } from '@/types';
+import { messageService, userService, actionItemService, decisionService, reminderService, retentionService, threadService } from '@/services/supabase';
+import { hybridSearchService } from '@/services/indexing';
+import { actionItemManager } from '@/services/action-items';
+import { decisionManager } from '@/services/decisions';
+import { chatSettingsManager } from '@/services/chat-settings';
+import { threadManager } from '@/services/threads';
+import { parseTriggerWords, describeRetentionRule } from '@/config/env';
+import { reminderManager, reminderKeyboard, describeReminderTime } from '@/services/reminders';
+import { userDataManager } from '@/services/user-data';
 import openaiService from '@/services/openai';
 import languageUtils from '@/utils/language';
+import { isValidTimezone } from '@/utils/timezone';
+import { getTopicId, getTopicScope, getReplyToMessageId } from '@/utils/telegram';
 import { telegramLogger, logError, logUserAction } from '@/utils/logger';
 import { pluginManager } from '@/plugins/manager';
-import { formatSafeMarkdown, formatList, splitMessage } from '@/utils/formatting';
+import { isPluginPermission } from '@/plugins/bridge';
+import { PLUGIN_PERMISSIONS, PluginPermission } from '@buddian/plugins';
+import { escapeMarkdown, formatSafeMarkdown, formatList, formatUrl, truncateText, splitMessage, formatActionItem, formatDecision, telegramMessageLink, LinkableChat } from '@/utils/formatting';
+import { actionItemKeyboard, decisionKeyboard, chatSettingsMenu, userSettingsMenu, saveUserPreferences, dataDeletionKeyboard } from '@/handlers/callbacks';
+import { getLocalAgent, parseCapabilityResult, RemoteAgent } from '@/a2a/agent';
+
+// Text after the command, without the "/command" or "/command@botname" prefix
+function getCommandArgs(ctx: BotContext): string {
+  const messageText = ctx.message && 'text' in ctx.message ? ctx.message.text : '';
+  return messageText.replace(/^\/\w+(@\w+)?/, '').trim();
+}
+
+// Private chats belong to the user; in groups Telegram admins and members granted the admin role count
+async function isChatAdmin(ctx: BotContext): Promise<boolean> {
+  if (!ctx.chat || !ctx.from) {
+    return false;
+  }
+
+  return chatSettingsManager.isAdmin(ctx.telegram, ctx.chat.id.toString(), ctx.from.id);
+}
 
 // Start command handler
 export async function handleStart(ctx: BotContext): Promise<void> {
@@ -61,10 +91,19 @@ export async function handleHelp(ctx: BotContext): Promise<void> {
     '/start \\- Get started with Buddian',
     '/help \\- Show this help message',
     '/search <query> \\- Search your conversation history',
-    '/summary \\- Get a summary of recent conversations',
+    '/summary [thread|YYYY-MM] \\- Summarize recent conversations, the current thread, or a month or day',
     '/translate <text> \\- Translate text to your preferred language',
     '/remind \\- Show pending action items',
-    '/settings \\- Manage your preferences'
+    '/remind me <when> to <what> \\- Set a reminder, e\\.g\\. /remind me tomorrow 9am to call Bob',
+    '/remind list \\- Show and cancel your reminders',
+    '/todo [mine|done] \\- Manage action items with buttons',
+    '/done <#n> \\- Mark action items as done',
+    '/assign <#n> <@user|me> \\- Assign an action item',
+    '/decisions [pending|all|#n] \\- Show the decision log; /decisions confirm|reject <#n> settles pending ones',
+    '/settings \\- Manage your preferences, or the chat settings in groups',
+    '/respond [addressed|questions|off] \\- Choose when I answer in this group',
+    '/mydata \\- Export or delete your data',
+    '/peers \\- Ask other Buddian instances for summaries, decisions or search results'
   ];
   helpMessage += formatList(commands, { numbered: false }) + '\n\n';
   
@@ -116,6 +155,30 @@ export async function handleHelp(ctx: BotContext): Promise<void> {
   }
 }
 
+// A search result's text, shortened, followed by its date and relevance in full
+function describeResult(text: string, details: string): string {
+  return `${truncateText(text, 100)} (${details})`;
+}
+
+// Numbered search results (at most 5), each number linking to the message
+// the result came from when the chat has message links
+function formatLinkedResults(
+  results: SearchResult[],
+  chat: LinkableChat,
+  describe: (result: SearchResult) => string
+): string {
+  const lines = results.slice(0, 5).map((result, index) => {
+    const link = result.telegramMessageId ? telegramMessageLink(chat, result.telegramMessageId) : null;
+    const number = link ? formatUrl(link, `${index + 1}.`) : formatSafeMarkdown(`${index + 1}.`);
+    return `${number} ${formatSafeMarkdown(describe(result), { maxLength: 150 })}`;
+  });
+
+  if (results.length > 5) {
+    lines.push(`_\\.\\.\\.and ${results.length - 5} more_`);
+  }
+  return lines.join('\n');
+}
+
 // Search command handler
 export async function handleSearch(ctx: BotContext): Promise<void> {
   const userId = ctx.from?.id.toString();
@@ -135,37 +198,57 @@ export async function handleSearch(ctx: BotContext): Promise<void> {
   }
 
   try {
-    // Search messages
-    const messageResults = await messageService.searchMessages(chatId, query, 10);
-    
-    // Search resources
-    const resourceResults = await resourceService.searchResources(chatId, query, 5);
+    // Hybrid (semantic + keyword) search across everything indexed for this chat, or this forum topic
+    const results = await hybridSearchService.search(chatId, query, { limit: 20, topicId: getTopicScope(ctx) });
     
-    if (messageResults.length === 0 && resourceResults.length === 0) {
+    if (results.length === 0) {
       const noResultsMessage = formatSafeMarkdown(`🔍 No results found for "${query}". Try different keywords or check your spelling.`);
       await ctx.reply(noResultsMessage, { parse_mode: 'MarkdownV2' });
       return;
     }
 
+    const messageResults = results.filter(result => result.type === 'message');
+    const resourceResults = results.filter(result => result.type === 'resource');
+    const decisionResults = results.filter(result => result.type === 'decision');
+    const actionItemResults = results.filter(result => result.type === 'action_item');
+
+    const formatRelevance = (score: number) => `${Math.round(score * 100)}%`;
+    const chat = ctx.chat ?? { id: chatId };
+
     let responseMessage = formatSafeMarkdown(`🔍 **Search Results for "${query}":**`, { escapeMarkdown: false }) + '\n\n';
     
     // Add message results
     if (messageResults.length > 0) {
       responseMessage += '**💬 From Conversations:**\n';
-      const messageItems = messageResults.slice(0, 5).map((result, index) => {
+      responseMessage += formatLinkedResults(messageResults, chat, (result) => {
         const date = new Date(result.timestamp).toLocaleDateString();
-        return `${formatSafeMarkdown(result.content, { maxLength: 100 })} _(${date})_`;
-      });
-      responseMessage += formatList(messageItems, { numbered: true, maxItems: 5 }) + '\n\n';
+        return describeResult(result.content, `${date}, ${formatRelevance(result.relevanceScore)}`);
+      }) + '\n\n';
     }
     
     // Add resource results
     if (resourceResults.length > 0) {
       responseMessage += '**📄 From Documents:**\n';
-      const resourceItems = resourceResults.map((result) => {
-        return formatSafeMarkdown(result.content, { maxLength: 100 });
+      responseMessage += formatLinkedResults(resourceResults, chat, (result) => {
+        return describeResult(result.context, formatRelevance(result.relevanceScore));
+      }) + '\n\n';
+    }
+    
+    // Add decision results
+    if (decisionResults.length > 0) {
+      responseMessage += '**✅ Decisions:**\n';
+      responseMessage += formatLinkedResults(decisionResults, chat, (result) => {
+        return describeResult(result.content, formatRelevance(result.relevanceScore));
+      }) + '\n\n';
+    }
+    
+    // Add action item results
+    if (actionItemResults.length > 0) {
+      responseMessage += '**📋 Action Items:**\n';
+      const actionItems = actionItemResults.map((result) => {
+        return describeResult(result.context, formatRelevance(result.relevanceScore));
       });
-      responseMessage += formatList(resourceItems, { numbered: true, maxItems: 5 }) + '\n\n';
+      responseMessage += formatList(actionItems, { numbered: true, maxItems: 5, maxItemLength: 150 }) + '\n\n';
     }
     
     // Use splitMessage to handle long responses
@@ -178,7 +261,9 @@ export async function handleSearch(ctx: BotContext): Promise<void> {
     logUserAction(telegramLogger, userId, chatId, 'search_command', {
       query,
       messageResults: messageResults.length,
-      resourceResults: resourceResults.length
+      resourceResults: resourceResults.length,
+      decisionResults: decisionResults.length,
+      actionItemResults: actionItemResults.length
     });
     
   } catch (error) {
@@ -193,6 +278,31 @@ export async function handleSearch(ctx: BotContext): Promise<void> {
   }
 }
 
+// "2024-03" or "2024-03-15" as a UTC period
+function parseSummaryPeriod(input: string): { from: number; to: number } | null {
+  const match = input.match(/^(\d{4})-(\d{2})(?:-(\d{2}))?$/);
+  if (!match) {
+    return null;
+  }
+
+  const year = Number(match[1]);
+  const month = Number(match[2]) - 1;
+  if (month < 0 || month > 11) {
+    return null;
+  }
+
+  if (!match[3]) {
+    return { from: Date.UTC(year, month, 1), to: Date.UTC(year, month + 1, 1) };
+  }
+
+  const from = Date.UTC(year, month, Number(match[3]));
+  // Rejects days that roll over into the next month, such as 2024-02-30
+  if (new Date(from).getUTCMonth() !== month) {
+    return null;
+  }
+  return { from, to: from + 24 * 60 * 60 * 1000 };
+}
+
 // Summary command handler
 export async function handleSummary(ctx: BotContext): Promise<void> {
   const userId = ctx.from?.id.toString();
@@ -203,16 +313,44 @@ export async function handleSummary(ctx: BotContext): Promise<void> {
   }
 
   try {
-    // Get recent messages
-    const recentMessages = await messageService.getMessages(chatId, 50);
+    const periodArg = getCommandArgs(ctx);
+    const replyTo = getReplyToMessageId(ctx.message);
+    const topicId = getTopicScope(ctx);
+    const threadScope = periodArg === 'thread' || (!periodArg && replyTo !== undefined);
+    const period = periodArg && !threadScope ? parseSummaryPeriod(periodArg) : null;
+    if (periodArg && !threadScope && !period) {
+      await ctx.reply('Usage: /summary for recent messages, /summary thread (or /summary as a reply) for one conversation thread, or /summary <YYYY-MM|YYYY-MM-DD> for a month or day (UTC)');
+      return;
+    }
+
+    // The thread of the replied-to message, or else the chat's latest thread
+    const thread = threadScope ? await threadManager.getCurrentThread(chatId, replyTo, topicId) : null;
+    if (threadScope && !thread) {
+      await ctx.reply('I haven\'t grouped any messages of this chat into threads yet.');
+      return;
+    }
+
+    // Recent messages, a thread's messages, or a period's messages plus the summaries of any purged by
+    // the retention policy; in forums only the topic's messages
+    const recentMessages = thread
+      ? await threadService.getThreadMessages(thread.id, 200)
+      : period
+        ? await messageService.getMessagesSince(chatId, period.from, 200, period.to, topicId)
+        : await messageService.getMessages(chatId, 50, undefined, topicId);
+    const archived = period ? await retentionService.getSummaries(chatId, period.from, period.to) : [];
     
-    if (recentMessages.length === 0) {
-      await ctx.reply('No recent conversations to summarize. Start chatting and I\'ll be able to create summaries for you!');
+    if (recentMessages.length === 0 && archived.length === 0) {
+      await ctx.reply(period
+        ? `I have nothing stored for ${periodArg}.`
+        : 'No recent conversations to summarize. Start chatting and I\'ll be able to create summaries for you!');
       return;
     }
 
-    const conversationText = recentMessages
-      .map(msg => msg.content)
+    const conversationText = [
+      ...archived.map(summary => summary.summary),
+      ...(thread?.summary && recentMessages.length >= 200 ? [thread.summary] : []),
+      ...recentMessages.map(msg => msg.content)
+    ]
       .filter(content => content.length > 0)
       .join('\n\n');
 
@@ -235,7 +373,9 @@ export async function handleSummary(ctx: BotContext): Promise<void> {
     // Generate key points
     const keyPoints = await openaiService.summary.generateKeyPoints(conversationText, 5);
 
-    let responseMessage = '📋 **Conversation Summary:**\n\n';
+    let responseMessage = thread
+      ? `📋 **Thread: ${escapeMarkdown(thread.topic)}**\n\n`
+      : period ? `📋 **Summary for ${escapeMarkdown(periodArg)}:**\n\n` : '📋 **Conversation Summary:**\n\n';
     responseMessage += formatSafeMarkdown(summary, { maxLength: 1000 });
     
     if (keyPoints.length > 0) {
@@ -251,6 +391,8 @@ export async function handleSummary(ctx: BotContext): Promise<void> {
     }
     
     logUserAction(telegramLogger, userId, chatId, 'summary_command', {
+      ...(period && { period: periodArg, archivedPeriods: archived.length }),
+      ...(thread && { threadId: thread.id }),
       messageCount: recentMessages.length,
       summaryLength: summary.length,
       keyPointsCount: keyPoints.length
@@ -337,7 +479,85 @@ export async function handleTranslate(ctx: BotContext): Promise<void> {
   }
 }
 
-// Remind command handler (show action items)
+// Set a timed reminder: /remind me in 2h to call mom
+async function createReminder(ctx: BotContext, userId: string, chatId: string, input: string): Promise<void> {
+  try {
+    const user = await userService.getUser(parseInt(userId));
+    if (!user) {
+      await ctx.reply('Please use /start first to set up your account.');
+      return;
+    }
+
+    const reminder = await reminderManager.create(
+      chatId,
+      user,
+      input,
+      ctx.message?.message_id,
+      getTopicId(ctx.message)
+    );
+
+    await ctx.reply(`⏰ Okay, I'll remind you ${describeReminderTime(reminder)}: ${reminder.text}`, {
+      ...reminderKeyboard(reminder, false)
+    });
+    
+    logUserAction(telegramLogger, userId, chatId, 'reminder_created', {
+      reminderId: reminder.id,
+      recurring: !!reminder.recurrence
+    });
+    
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      await ctx.reply(`${error.message}. Try something like:\n/remind me in 30 minutes to check the oven\n/remind me tomorrow 9am to send the report\n/remind me every monday at 10 to plan the week`);
+      return;
+    }
+    
+    logError(telegramLogger, error as Error, {
+      operation: 'reminder_create',
+      userId,
+      chatId
+    });
+    
+    await ctx.reply('Sorry, I couldn\'t set the reminder right now. Please try again.');
+  }
+}
+
+// List the user's pending reminders in this chat: /remind list
+async function listReminders(ctx: BotContext, userId: string, chatId: string): Promise<void> {
+  try {
+    const user = await userService.getUser(parseInt(userId));
+    const reminders = user ? await reminderService.getPendingReminders(chatId, user.id) : [];
+
+    if (reminders.length === 0) {
+      await ctx.reply('You have no pending reminders here. Set one with /remind me in 1h to stretch');
+      return;
+    }
+
+    const lines = reminders.map((reminder, index) =>
+      `${index + 1}. ${reminder.text} — ${describeReminderTime(reminder)}`
+    );
+
+    await ctx.reply(`⏰ Your reminders:\n\n${lines.join('\n')}`, Markup.inlineKeyboard(
+      reminders.map((reminder, index) => [
+        Markup.button.callback(`✖️ Cancel ${index + 1}`, `rem:cancel:${reminder.id}`)
+      ])
+    ));
+    
+    logUserAction(telegramLogger, userId, chatId, 'reminder_list', {
+      reminderCount: reminders.length
+    });
+    
+  } catch (error) {
+    logError(telegramLogger, error as Error, {
+      operation: 'reminder_list',
+      userId,
+      chatId
+    });
+    
+    await ctx.reply('Sorry, I couldn\'t retrieve your reminders right now. Please try again.');
+  }
+}
+
+// Remind command handler: /remind shows action items, /remind <when> <what> sets a reminder
 export async function handleRemind(ctx: BotContext): Promise<void> {
   const userId = ctx.from?.id.toString();
   const chatId = ctx.chat?.id.toString();
@@ -346,18 +566,18 @@ export async function handleRemind(ctx: BotContext): Promise<void> {
     return;
   }
 
+  const args = getCommandArgs(ctx);
+  if (args.toLowerCase() === 'list') {
+    await listReminders(ctx, userId, chatId);
+    return;
+  }
+  if (args) {
+    await createReminder(ctx, userId, chatId, args);
+    return;
+  }
+
   try {
-    // Get recent messages with action items
-    const recentMessages = await messageService.getMessages(chatId, 100);
-    const actionItems = recentMessages
-      .flatMap(msg => msg.actionItems || [])
-      .filter(item => item.status === 'pending' || item.status === 'in_progress')
-      .sort((a, b) => {
-        // Sort by priority (high, medium, low) then by creation date
-        const priorityOrder = { high: 3, medium: 2, low: 1 };
-        const priorityDiff = priorityOrder[b.priority] - priorityOrder[a.priority];
-        return priorityDiff !== 0 ? priorityDiff : b.createdAt - a.createdAt;
-      });
+    const actionItems = await actionItemManager.listOpen(chatId);
 
     if (actionItems.length === 0) {
       await ctx.reply('🎉 No pending action items! You\'re all caught up.');
@@ -366,24 +586,18 @@ export async function handleRemind(ctx: BotContext): Promise<void> {
 
     let responseMessage = '📋 **Pending Action Items:**\n\n';
     
-    const actionItemsList = actionItems.slice(0, 10).map((item, index) => {
-      const priorityEmoji = item.priority === 'high' ? '🔴' : item.priority === 'medium' ? '🟡' : '🟢';
-      const statusEmoji = item.status === 'in_progress' ? '⏳' : '⏸️';
-      const assigneeText = item.assignee ? ` (${formatSafeMarkdown(item.assignee)})` : '';
-      
-      const title = formatSafeMarkdown(item.title, { maxLength: 100 });
-      const description = formatSafeMarkdown(item.description, { maxLength: 200 });
-      
-      return `${priorityEmoji} ${statusEmoji} **${title}**${assigneeText}\n   ${description}`;
-    });
-
-    responseMessage += formatList(actionItemsList, { numbered: true, maxItems: 10 });
+    responseMessage += actionItems.slice(0, 10).map(item => {
+      const description = item.description
+        ? `\n   ${formatSafeMarkdown(item.description, { maxLength: 200 })}`
+        : '';
+      return `${formatActionItem(item)}${description}`;
+    }).join('\n');
 
     if (actionItems.length > 10) {
       responseMessage += `\n\n_\\.\\.\\. and ${actionItems.length - 10} more items_`;
     }
 
-    responseMessage += '\n\n💡 **Tip:** I automatically extract action items from your conversations\\. Keep discussing your tasks and I\'ll help you track them\\!';
+    responseMessage += '\n\n💡 **Tip:** Use /todo to update items, /done \\#3 to complete one and /assign \\#3 @name to hand it over\\.';
 
     // Use splitMessage to handle long responses
     const messageChunks = splitMessage(responseMessage);
@@ -407,6 +621,561 @@ export async function handleRemind(ctx: BotContext): Promise<void> {
   }
 }
 
+// Todo command handler: /todo, /todo mine, /todo done
+export async function handleTodo(ctx: BotContext): Promise<void> {
+  const userId = ctx.from?.id.toString();
+  const chatId = ctx.chat?.id.toString();
+  
+  if (!userId || !chatId) {
+    return;
+  }
+
+  const view = getCommandArgs(ctx).toLowerCase();
+
+  try {
+    let actionItems;
+    let title;
+
+    if (view === 'done') {
+      actionItems = await actionItemService.getActionItems(chatId, { statuses: ['completed', 'cancelled'], limit: 10 });
+      title = '✅ **Recently Closed Action Items:**';
+    } else if (view === 'mine') {
+      const user = await userService.getUser(parseInt(userId));
+      if (!user) {
+        await ctx.reply('Please use /start first to set up your account.');
+        return;
+      }
+      actionItems = await actionItemManager.listOpen(chatId, user.id);
+      title = '📋 **Your Open Action Items:**';
+    } else {
+      actionItems = await actionItemManager.listOpen(chatId);
+      title = '📋 **Open Action Items:**';
+    }
+
+    if (actionItems.length === 0) {
+      await ctx.reply(view === 'done' ? 'No closed action items yet.' : '🎉 No open action items! You\'re all caught up.');
+      return;
+    }
+
+    // Telegram keyboards get unwieldy beyond a handful of rows
+    const shown = actionItems.slice(0, 10);
+    let responseMessage = `${title}\n\n${shown.map(formatActionItem).join('\n')}`;
+
+    if (actionItems.length > shown.length) {
+      responseMessage += `\n\n_\\.\\.\\. and ${actionItems.length - shown.length} more items_`;
+    }
+
+    await ctx.reply(responseMessage, {
+      parse_mode: 'MarkdownV2',
+      ...actionItemKeyboard(shown)
+    });
+    
+    logUserAction(telegramLogger, userId, chatId, 'todo_command', {
+      view: view || 'all',
+      actionItemsCount: actionItems.length
+    });
+    
+  } catch (error) {
+    logError(telegramLogger, error as Error, {
+      operation: 'todo_command',
+      userId,
+      chatId
+    });
+    
+    await ctx.reply('Sorry, I couldn\'t retrieve your action items right now. Please try again.');
+  }
+}
+
+// Done command handler: /done #3 #5
+export async function handleDone(ctx: BotContext): Promise<void> {
+  const userId = ctx.from?.id.toString();
+  const chatId = ctx.chat?.id.toString();
+  
+  if (!userId || !chatId) {
+    return;
+  }
+
+  const references = getCommandArgs(ctx).split(/[\s,]+/).filter(Boolean);
+  
+  if (references.length === 0) {
+    await ctx.reply('Please tell me which action item is done. Example: /done #3');
+    return;
+  }
+
+  try {
+    const user = await userService.getUser(parseInt(userId));
+    const results: string[] = [];
+
+    for (const reference of references) {
+      const item = await actionItemManager.resolveReference(chatId, reference);
+      if (!item) {
+        results.push(`❓ ${reference}: not found`);
+        continue;
+      }
+
+      try {
+        const updated = await actionItemManager.transition(item, 'completed', user?.id);
+        results.push(`✅ #${updated.number} ${updated.title}`);
+      } catch (error) {
+        if (!(error instanceof ValidationError)) {
+          throw error;
+        }
+        results.push(`⚠️ #${item.number}: ${error.message}`);
+      }
+    }
+
+    await ctx.reply(results.join('\n'));
+    
+    logUserAction(telegramLogger, userId, chatId, 'done_command', {
+      references: references.length
+    });
+    
+  } catch (error) {
+    logError(telegramLogger, error as Error, {
+      operation: 'done_command',
+      userId,
+      chatId
+    });
+    
+    await ctx.reply('Sorry, I couldn\'t update the action items right now. Please try again.');
+  }
+}
+
+// Assign command handler: /assign #3 @alice (or "me")
+export async function handleAssign(ctx: BotContext): Promise<void> {
+  const userId = ctx.from?.id.toString();
+  const chatId = ctx.chat?.id.toString();
+  
+  if (!userId || !chatId) {
+    return;
+  }
+
+  const [reference, assigneeName] = getCommandArgs(ctx).split(/\s+/);
+  
+  if (!reference || !assigneeName) {
+    await ctx.reply('Please provide an action item and a person. Example: /assign #3 @alice');
+    return;
+  }
+
+  try {
+    const item = await actionItemManager.resolveReference(chatId, reference);
+    if (!item) {
+      await ctx.reply(`I couldn't find action item ${reference} in this chat.`);
+      return;
+    }
+
+    const assignee = assigneeName.toLowerCase() === 'me'
+      ? await userService.getUser(parseInt(userId))
+      : await actionItemManager.resolveAssignee(chatId, assigneeName);
+
+    if (!assignee) {
+      await ctx.reply(`I couldn't find ${assigneeName} among the people in this chat.`);
+      return;
+    }
+
+    const updated = await actionItemManager.assign(item, assignee);
+    await ctx.reply(`👤 #${updated.number} ${updated.title} is now assigned to ${updated.assignee}`);
+    
+    logUserAction(telegramLogger, userId, chatId, 'assign_command', {
+      itemId: item.id,
+      assigneeUserId: assignee.id
+    });
+    
+  } catch (error) {
+    logError(telegramLogger, error as Error, {
+      operation: 'assign_command',
+      userId,
+      chatId
+    });
+    
+    await ctx.reply('Sorry, I couldn\'t assign the action item right now. Please try again.');
+  }
+}
+
+// Decisions shown by /decisions; older ones are in the log, reachable by number
+const MAX_LISTED_DECISIONS = 10;
+
+function formatDecisionDate(timestamp: number): string {
+  return escapeMarkdown(new Date(timestamp).toISOString().substring(0, 10));
+}
+
+async function decidedByName(decision: Decision): Promise<string | null> {
+  const user = decision.decidedBy ? await userService.getUserById(decision.decidedBy) : null;
+  return user ? user.username ? `@${user.username}` : user.firstName : null;
+}
+
+async function listDecisions(ctx: BotContext, chatId: string, view: string): Promise<void> {
+  const topicId = getTopicScope(ctx);
+
+  if (view === 'pending') {
+    const pending = await decisionService.getDecisions(chatId, { statuses: ['pending'], topicId });
+    if (pending.length === 0) {
+      await ctx.reply('No decisions are waiting for confirmation.');
+      return;
+    }
+
+    const shown = pending.slice(0, MAX_LISTED_DECISIONS);
+    let responseMessage = `🤔 *Awaiting Confirmation:*\n\n${shown.map(formatDecision).join('\n')}`;
+    if (pending.length > shown.length) {
+      responseMessage += `\n\n_\\.\\.\\. and ${pending.length - shown.length} more_`;
+    }
+
+    await ctx.reply(responseMessage, { parse_mode: 'MarkdownV2', ...decisionKeyboard(shown) });
+    return;
+  }
+
+  const all = view === 'all';
+  const decisions = await decisionService.getDecisions(chatId, {
+    ...(!all && { statuses: ['confirmed' as const] }),
+    topicId
+  });
+  const pendingCount = all ? 0 : (await decisionService.getDecisions(chatId, { statuses: ['pending'], topicId })).length;
+  const pendingHint = pendingCount > 0 ? `\n\n_${pendingCount} awaiting confirmation: /decisions pending_` : '';
+
+  if (decisions.length === 0) {
+    await ctx.reply(
+      `${all ? 'No decisions recorded yet\\.' : 'No confirmed decisions yet\\.'}${pendingHint}`,
+      { parse_mode: 'MarkdownV2' }
+    );
+    return;
+  }
+
+  const shown = decisions.slice(0, MAX_LISTED_DECISIONS);
+  const lines = shown.map(decision => `${formatDecision(decision)} \\(${formatDecisionDate(decision.extractedAt)}\\)`);
+  let responseMessage = `📜 *${all ? 'All Decisions' : 'Decision Log'}:*\n\n${lines.join('\n')}`;
+  if (decisions.length > shown.length) {
+    responseMessage += `\n\n_\\.\\.\\. and ${decisions.length - shown.length} more_`;
+  }
+
+  await ctx.reply(responseMessage + pendingHint, { parse_mode: 'MarkdownV2' });
+}
+
+// One decision with who settled it, where it came from and what it replaced
+async function showDecision(ctx: BotContext, chatId: string, reference: string): Promise<void> {
+  const decision = await decisionManager.resolveReference(chatId, reference);
+  if (!decision) {
+    await ctx.reply(`I couldn't find decision ${reference} in this chat.`);
+    return;
+  }
+
+  const lines = [formatDecision(decision)];
+  if (decision.context) {
+    lines.push(`_${formatSafeMarkdown(decision.context, { maxLength: 300 })}_`);
+  }
+  lines.push('');
+
+  const confidence = `${Math.round(decision.confidence * 100)}% confidence`;
+  const decidedOn = decision.decidedAt ? ` on ${formatDecisionDate(decision.decidedAt)}` : '';
+  const decider = await decidedByName(decision);
+
+  if (decision.status === 'pending') {
+    lines.push(`Awaiting confirmation \\(${confidence}\\)`);
+  } else if (decision.status === 'confirmed') {
+    lines.push(decider
+      ? `Confirmed by ${escapeMarkdown(decider)}${decidedOn}`
+      : `Confirmed automatically at ${confidence}${decidedOn}`);
+  } else if (decision.status === 'rejected') {
+    lines.push(`Rejected${decider ? ` by ${escapeMarkdown(decider)}` : ''}${decidedOn}`);
+  } else {
+    const replacement = decision.supersededBy ? await decisionService.getDecision(decision.supersededBy) : null;
+    lines.push(replacement ? `Replaced by ${formatDecision(replacement)}` : 'Replaced by a later decision');
+  }
+
+  const link = decision.telegramMessageId && ctx.chat ? telegramMessageLink(ctx.chat, decision.telegramMessageId) : null;
+  lines.push(`Extracted ${formatDecisionDate(decision.extractedAt)}${link ? ` from ${formatUrl(link, 'this message')}` : ''}`);
+
+  const replaced = await decisionService.getDecisions(chatId, { supersededBy: decision.id, limit: MAX_LISTED_DECISIONS });
+  if (replaced.length > 0) {
+    lines.push('', '*Replaces:*', ...replaced.map(formatDecision));
+  }
+
+  await ctx.reply(lines.join('\n'), { parse_mode: 'MarkdownV2' });
+}
+
+async function changeDecisions(ctx: BotContext, userId: string, chatId: string, action: 'confirm' | 'reject', references: string[]): Promise<void> {
+  if (references.length === 0) {
+    await ctx.reply(`Please tell me which decision to ${action}. Example: /decisions ${action} #4`);
+    return;
+  }
+
+  const user = await userService.getUser(parseInt(userId));
+  const results: string[] = [];
+
+  for (const reference of references) {
+    const decision = await decisionManager.resolveReference(chatId, reference);
+    if (!decision) {
+      results.push(`❓ ${reference}: not found`);
+      continue;
+    }
+
+    try {
+      if (action === 'confirm') {
+        const { decision: confirmed, superseded } = await decisionManager.confirm(decision, user?.id);
+        const replaces = superseded.length > 0 ? ` (replaces ${superseded.map(item => `#${item.number}`).join(', ')})` : '';
+        results.push(`✅ #${confirmed.number} ${confirmed.content}${replaces}`);
+      } else {
+        const rejected = await decisionManager.reject(decision, user?.id);
+        results.push(`✖️ #${rejected.number} ${rejected.content}`);
+      }
+    } catch (error) {
+      if (!(error instanceof ValidationError)) {
+        throw error;
+      }
+      results.push(`⚠️ #${decision.number}: ${error.message}`);
+    }
+  }
+
+  await ctx.reply(results.join('\n'));
+}
+
+async function supersedeDecision(ctx: BotContext, userId: string, chatId: string, [oldReference, newReference]: string[]): Promise<void> {
+  if (!oldReference || !newReference) {
+    await ctx.reply('Please give the old decision and the one replacing it. Example: /decisions supersede #3 #7');
+    return;
+  }
+
+  const decision = await decisionManager.resolveReference(chatId, oldReference);
+  const replacement = await decisionManager.resolveReference(chatId, newReference);
+  if (!decision || !replacement) {
+    await ctx.reply(`I couldn't find decision ${decision ? newReference : oldReference} in this chat.`);
+    return;
+  }
+
+  const user = await userService.getUser(parseInt(userId));
+  try {
+    await decisionManager.supersede(decision, replacement, user?.id);
+    await ctx.reply(`♻️ #${decision.number} ${decision.content}\nis replaced by #${replacement.number} ${replacement.content}`);
+  } catch (error) {
+    if (!(error instanceof ValidationError)) {
+      throw error;
+    }
+    await ctx.reply(`⚠️ ${error.message}`);
+  }
+}
+
+// Decisions command handler: /decisions [pending|all|#n], /decisions confirm|reject #n,
+// /decisions supersede #old #new
+export async function handleDecisions(ctx: BotContext): Promise<void> {
+  const userId = ctx.from?.id.toString();
+  const chatId = ctx.chat?.id.toString();
+  
+  if (!userId || !chatId) {
+    return;
+  }
+
+  const [view = '', ...references] = getCommandArgs(ctx).split(/[\s,]+/).filter(Boolean);
+  const action = view.toLowerCase();
+
+  try {
+    if (action === 'confirm' || action === 'reject') {
+      await changeDecisions(ctx, userId, chatId, action, references);
+    } else if (action === 'supersede') {
+      await supersedeDecision(ctx, userId, chatId, references);
+    } else if (/^#?\d+$/.test(action)) {
+      await showDecision(ctx, chatId, action);
+    } else {
+      await listDecisions(ctx, chatId, action);
+    }
+    
+    logUserAction(telegramLogger, userId, chatId, 'decisions_command', {
+      action: action || 'confirmed',
+      references: references.length
+    });
+    
+  } catch (error) {
+    logError(telegramLogger, error as Error, {
+      operation: 'decisions_command',
+      userId,
+      chatId
+    });
+    
+    await ctx.reply('Sorry, I couldn\'t reach the decision log right now. Please try again.');
+  }
+}
+
+const RESPONSE_MODE_DESCRIPTIONS: Record<ResponseMode, string> = {
+  addressed: 'only when mentioned, replied to or called by a trigger word',
+  questions: 'when addressed, and to any message that looks like a question for me',
+  off: 'only to commands'
+};
+
+// Respond command handler: the chat's response policy, changed by chat admins
+export async function handleRespond(ctx: BotContext): Promise<void> {
+  const userId = ctx.from?.id.toString();
+  const chatId = ctx.chat?.id.toString();
+  
+  if (!userId || !chatId) {
+    return;
+  }
+
+  if (ctx.chat?.type === 'private') {
+    await ctx.reply('💬 In private chats I answer every question. /respond configures group chats.');
+    return;
+  }
+
+  try {
+    const [action, ...rest] = getCommandArgs(ctx).split(/\s+/).filter(Boolean);
+    const settings = await chatSettingsManager.getSettings(chatId);
+
+    if (!action) {
+      const triggers = settings.triggerWords.length > 0 ? settings.triggerWords.join(', ') : 'none';
+      await ctx.reply(
+        `💬 In this chat I answer ${RESPONSE_MODE_DESCRIPTIONS[settings.responseMode]}.\n\n` +
+        `Mode: ${settings.responseMode}\nTrigger words: ${triggers}\n\n` +
+        'Admins can change this with:\n' +
+        RESPONSE_MODES.map(mode => `/respond ${mode} - ${RESPONSE_MODE_DESCRIPTIONS[mode]}`).join('\n') +
+        '\n/respond triggers <word, word...|none>'
+      );
+      return;
+    }
+
+    if (!(await isChatAdmin(ctx))) {
+      await ctx.reply('⛔ Only chat admins can change when I respond.');
+      return;
+    }
+    const user = await userService.getUser(parseInt(userId));
+
+    if (action === 'triggers') {
+      const words = rest.join(' ');
+      if (!words) {
+        await ctx.reply('Usage: /respond triggers <word, word...|none>');
+        return;
+      }
+
+      const triggerWords = words.toLowerCase() === 'none' ? [] : parseTriggerWords(words);
+      await chatSettingsManager.updateSettings(chatId, { triggerWords }, user?.id);
+      await ctx.reply(triggerWords.length > 0 ? `✅ Trigger words: ${triggerWords.join(', ')}` : '✅ Trigger words removed.');
+
+      logUserAction(telegramLogger, userId, chatId, 'response_triggers_changed', { triggerWords });
+      return;
+    }
+
+    if (!RESPONSE_MODES.includes(action as ResponseMode)) {
+      await ctx.reply(`❌ Unknown mode "${action}". Use one of: ${RESPONSE_MODES.join(', ')}`);
+      return;
+    }
+
+    const responseMode = action as ResponseMode;
+    await chatSettingsManager.updateSettings(chatId, { responseMode }, user?.id);
+    await ctx.reply(`✅ I will now answer ${RESPONSE_MODE_DESCRIPTIONS[responseMode]}.`);
+
+    logUserAction(telegramLogger, userId, chatId, 'response_mode_changed', { responseMode });
+    
+  } catch (error) {
+    logError(telegramLogger, error as Error, {
+      operation: 'respond_command',
+      userId,
+      chatId
+    });
+    
+    await ctx.reply('Sorry, I couldn\'t update the response settings right now. Please try again.');
+  }
+}
+
+// Grant or revoke the bot admin role for the author of the replied-to message
+async function changeChatAdmin(ctx: BotContext, userId: string, chatId: string, grant: boolean): Promise<void> {
+  // Only the chat's Telegram admins hand out the role, so granted admins cannot grant others
+  const member = await ctx.telegram.getChatMember(chatId, parseInt(userId));
+  if (member.status !== 'creator' && member.status !== 'administrator') {
+    await ctx.reply('⛔ Only Telegram admins of this chat can change who administers me.');
+    return;
+  }
+
+  const replyTo = ctx.message && 'reply_to_message' in ctx.message ? ctx.message.reply_to_message : undefined;
+  if (!replyTo?.from || replyTo.from.is_bot) {
+    await ctx.reply(`Reply to a message from the member with /settings ${grant ? 'admin' : 'unadmin'}.`);
+    return;
+  }
+
+  const target = await userService.getUser(replyTo.from.id);
+  if (!target) {
+    await ctx.reply(`${replyTo.from.first_name} hasn't talked to me yet, so I can't change their role.`);
+    return;
+  }
+
+  const user = await userService.getUser(parseInt(userId));
+  if (grant) {
+    await chatSettingsManager.grantAdmin(chatId, target.id, user?.id);
+    await ctx.reply(`✅ ${target.firstName} can now change my settings in this chat.`);
+  } else {
+    await chatSettingsManager.revokeAdmin(chatId, target.id);
+    await ctx.reply(`✅ ${target.firstName} no longer administers me in this chat.`);
+  }
+
+  logUserAction(telegramLogger, userId, chatId, grant ? 'chat_admin_granted' : 'chat_admin_revoked', { targetUserId: target.id });
+}
+
+// /settings retention <messages|resources|analytics> <days|count> <number|off>
+async function changeRetention(ctx: BotContext, userId: string, chatId: string, kind?: string, [limit, amount]: string[] = []): Promise<void> {
+  const count = amount?.toLowerCase() === 'off' ? null : parseInt(amount || '', 10);
+  if (!RETENTION_KINDS.includes(kind as RetentionKind) || (limit !== 'days' && limit !== 'count') || (count !== null && !(count > 0))) {
+    await ctx.reply(`Usage: /settings retention <${RETENTION_KINDS.join('|')}> <days|count> <number|off>, e.g. /settings retention messages count 5000`);
+    return;
+  }
+
+  const retentionKind = kind as RetentionKind;
+  const settings = await chatSettingsManager.getSettings(chatId);
+  const rule = { ...settings.retention[retentionKind], [limit === 'days' ? 'maxAgeDays' : 'maxCount']: count };
+
+  const user = await userService.getUser(parseInt(userId));
+  await chatSettingsManager.updateSettings(chatId, { retention: { ...settings.retention, [retentionKind]: rule } }, user?.id);
+  await ctx.reply(`✅ I will keep this chat's ${retentionKind}: ${describeRetentionRule(rule)}.`);
+
+  logUserAction(telegramLogger, userId, chatId, 'chat_settings_changed', { action: 'retention', kind: retentionKind, limit, value: count });
+}
+
+// Settings of a group chat: a menu for admins, a summary for everyone else
+async function showChatSettings(ctx: BotContext, userId: string, chatId: string): Promise<void> {
+  const [action, value, ...rest] = getCommandArgs(ctx).split(/\s+/).filter(Boolean);
+  const isAdmin = await isChatAdmin(ctx);
+
+  if (action && !isAdmin) {
+    await ctx.reply('⛔ Only chat admins can change these settings.');
+    return;
+  }
+
+  if (action === 'admin' || action === 'unadmin') {
+    await changeChatAdmin(ctx, userId, chatId, action === 'admin');
+    return;
+  }
+
+  if (action === 'language') {
+    const language = value?.toLowerCase() === 'auto' ? null : languageUtils.getLanguageCode(value || '');
+    if (language === undefined) {
+      await ctx.reply('Usage: /settings language <code or name|auto>, e.g. /settings language de');
+      return;
+    }
+
+    const user = await userService.getUser(parseInt(userId));
+    await chatSettingsManager.updateSettings(chatId, { language }, user?.id);
+    await ctx.reply(language
+      ? `✅ I will use ${languageUtils.getLanguageName(language)} in this chat.`
+      : '✅ I will answer everyone in their own language.');
+
+    logUserAction(telegramLogger, userId, chatId, 'chat_settings_changed', { action: 'lang', value: language || 'auto' });
+    return;
+  }
+
+  if (action === 'retention') {
+    await changeRetention(ctx, userId, chatId, value, rest);
+    return;
+  }
+
+  if (action) {
+    await ctx.reply('Usage: /settings, /settings language <code>, /settings retention <kind> <days|count> <number|off>, or /settings admin|unadmin as a reply to a member');
+    return;
+  }
+
+  const menu = await chatSettingsMenu(await chatSettingsManager.getSettings(chatId));
+  if (isAdmin) {
+    await ctx.reply(menu.text, menu.keyboard);
+  } else {
+    await ctx.reply(`${menu.text}\n\nOnly chat admins can change these settings.`);
+  }
+
+  logUserAction(telegramLogger, userId, chatId, 'chat_settings_command', { isAdmin });
+}
+
 // Settings command handler
 export async function handleSettings(ctx: BotContext): Promise<void> {
   const userId = ctx.from?.id.toString();
@@ -417,6 +1186,11 @@ export async function handleSettings(ctx: BotContext): Promise<void> {
   }
 
   try {
+    if (ctx.chat?.type !== 'private') {
+      await showChatSettings(ctx, userId, chatId);
+      return;
+    }
+
     const user = await userService.getUser(parseInt(userId));
     
     if (!user) {
@@ -424,27 +1198,42 @@ export async function handleSettings(ctx: BotContext): Promise<void> {
       return;
     }
 
-    const { preferences } = user;
-    const languageName = languageUtils.getLanguageName(preferences.language);
+    const [action, ...rest] = getCommandArgs(ctx).split(/\s+/).filter(Boolean);
+    const value = rest.join(' ');
 
-    const settingsMessage = `⚙️ **Your Settings:**
+    // Values without a button in the menu
+    if (action === 'language') {
+      const language = languageUtils.getLanguageCode(value);
+      if (!language) {
+        await ctx.reply('Usage: /settings language <code or name>, e.g. /settings language de');
+        return;
+      }
 
-**🌍 Language:** ${languageName} (${preferences.language})
-**🕐 Timezone:** ${preferences.timezone}
-**🔔 Notifications:** ${preferences.notifications ? 'Enabled' : 'Disabled'}
-**⏰ Reminder Frequency:** ${preferences.reminderFrequency}
-**📊 Summary Frequency:** ${preferences.summaryFrequency}
+      await saveUserPreferences(user, { language });
+      await ctx.reply(`✅ Language set to ${languageUtils.getLanguageName(language)}.`);
+      logUserAction(telegramLogger, userId, chatId, 'user_settings_changed', { action: 'lang', value: language });
+      return;
+    }
+
+    if (action === 'timezone') {
+      if (!value || !isValidTimezone(value)) {
+        await ctx.reply('Usage: /settings timezone <zone>, e.g. /settings timezone Europe/Paris');
+        return;
+      }
 
-**🔧 Available Languages:**
-${languageUtils.getSupportedLanguages().slice(0, 10).map(lang => `• ${lang.name} (${lang.code})`).join('\n')}
-_... and 50+ more languages_
+      await saveUserPreferences(user, { timezone: value });
+      await ctx.reply(`✅ Timezone set to ${value}.`);
+      logUserAction(telegramLogger, userId, chatId, 'user_settings_changed', { action: 'tz', value });
+      return;
+    }
 
-**💡 To change settings:**
-• Language: Send me a message in your preferred language and I'll detect it
-• Notifications: Contact support for advanced settings
-• For other preferences, just let me know what you'd like to change!`;
+    if (action) {
+      await ctx.reply('Usage: /settings, /settings language <code> or /settings timezone <zone>');
+      return;
+    }
 
-    await ctx.reply(settingsMessage, { parse_mode: 'Markdown' });
+    const menu = userSettingsMenu(user.preferences);
+    await ctx.reply(menu.text, menu.keyboard);
     
     logUserAction(telegramLogger, userId, chatId, 'settings_command');
     
@@ -459,6 +1248,76 @@ _... and 50+ more languages_
   }
 }
 
+// Mydata command handler: export or delete everything stored about the user
+export async function handleMyData(ctx: BotContext): Promise<void> {
+  const userId = ctx.from?.id.toString();
+  const chatId = ctx.chat?.id.toString();
+  
+  if (!userId || !chatId) {
+    return;
+  }
+
+  // The export holds messages from every chat, so it is only sent privately
+  if (ctx.chat?.type !== 'private') {
+    await ctx.reply('🔒 Send /mydata to me in a private chat to export or delete your data.');
+    return;
+  }
+
+  try {
+    const user = await userService.getUser(parseInt(userId));
+    if (!user) {
+      await ctx.reply('I don\'t store any data about you.');
+      return;
+    }
+
+    const action = getCommandArgs(ctx).toLowerCase();
+
+    if (action === 'export') {
+      await ctx.sendChatAction('upload_document');
+      const archive = await userDataManager.exportData(ctx.telegram, user);
+      const date = new Date().toISOString().substring(0, 10);
+
+      await ctx.replyWithMediaGroup([
+        { type: 'document', media: { source: Buffer.from(archive.json), filename: `buddian-data-${date}.json` } },
+        {
+          type: 'document',
+          media: { source: Buffer.from(archive.markdown), filename: `buddian-data-${date}.md` },
+          caption: `📦 Your data: ${archive.counts['messages']} messages, ${archive.counts['resources']} files and links, ` +
+            `${archive.counts['action_items']} action items and ${archive.counts['reminders']} reminders.`
+        }
+      ]);
+
+      logUserAction(telegramLogger, userId, chatId, 'data_exported', archive.counts);
+      return;
+    }
+
+    if (action === 'delete') {
+      await ctx.reply(
+        '⚠️ This permanently deletes your messages, files and links, reminders, search entries and usage statistics ' +
+        'from every chat, and removes your name from action items and plugin history. Your settings are deleted too.\n\n' +
+        'Consider /mydata export first. This cannot be undone.',
+        dataDeletionKeyboard()
+      );
+      return;
+    }
+
+    await ctx.reply(
+      '🔒 Your data\n\n' +
+      '/mydata export - Download everything I store about you (JSON and Markdown)\n' +
+      '/mydata delete - Delete it'
+    );
+    
+  } catch (error) {
+    logError(telegramLogger, error as Error, {
+      operation: 'mydata_command',
+      userId,
+      chatId
+    });
+    
+    await ctx.reply('Sorry, I couldn\'t process your data request right now. Please try again.');
+  }
+}
+
 // Ping command handler (for health checks)
 export async function handlePing(ctx: BotContext): Promise<void> {
   try {
@@ -500,6 +1359,65 @@ export async function handlePing(ctx: BotContext): Promise<void> {
   }
 }
 
+// /plugins permissions|grant|revoke <plugin> [permission|all]
+async function handlePluginPermissions(ctx: BotContext, userId: string, chatId: string, args: string[]): Promise<void> {
+  const [action, pluginId, requested] = args;
+  const plugin = pluginId ? pluginManager.getPlugin(pluginId) : undefined;
+
+  if (!plugin) {
+    await ctx.reply(`❌ Unknown plugin${pluginId ? `: ${pluginId}` : ''}. Use /plugins to see plugin ids.`);
+    return;
+  }
+
+  const declared = pluginManager.getDeclaredPermissions(plugin.id);
+
+  if (action === 'permissions') {
+    if (declared.length === 0) {
+      await ctx.reply(`🔌 ${plugin.name} does not request any permissions.`);
+      return;
+    }
+
+    const lines = await Promise.all(declared.map(async permission => {
+      const granted = await pluginManager.checkPermission(plugin.id, chatId, permission);
+      return `${granted ? '✅' : '⛔'} ${permission} - ${PLUGIN_PERMISSIONS[permission]}`;
+    }));
+
+    await ctx.reply(`🔐 ${plugin.name} permissions in this chat:\n\n${lines.join('\n')}\n\nAdmins can change them with /plugins grant|revoke ${plugin.id} <permission|all>`);
+    return;
+  }
+
+  if (!(await isChatAdmin(ctx))) {
+    await ctx.reply('⛔ Only chat admins can change plugin permissions.');
+    return;
+  }
+
+  if (!requested) {
+    await ctx.reply(`Usage: /plugins ${action} ${plugin.id} <permission|all>\nRequested: ${declared.join(', ') || 'none'}`);
+    return;
+  }
+
+  const permissions: PluginPermission[] = requested === 'all' ? declared : isPluginPermission(requested) ? [requested] : [];
+  if (permissions.length === 0 || (action === 'grant' && permissions.some(permission => !declared.includes(permission)))) {
+    await ctx.reply(`❌ ${plugin.name} does not request "${requested}". Requested: ${declared.join(', ') || 'none'}`);
+    return;
+  }
+
+  for (const permission of permissions) {
+    if (action === 'grant') {
+      await pluginManager.grantPermission(plugin.id, chatId, permission);
+    } else {
+      await pluginManager.revokePermission(plugin.id, chatId, permission);
+    }
+  }
+
+  await ctx.reply(`${action === 'grant' ? '✅ Granted' : '🚫 Revoked'} ${permissions.join(', ')} for ${plugin.name} in this chat.`);
+
+  logUserAction(telegramLogger, userId, chatId, `plugin_permission_${action}`, {
+    plugin: plugin.id,
+    permissions
+  });
+}
+
 // Plugins command handler (list available plugin commands)
 export async function handlePlugins(ctx: BotContext): Promise<void> {
   const userId = ctx.from?.id.toString();
@@ -510,6 +1428,12 @@ export async function handlePlugins(ctx: BotContext): Promise<void> {
   }
 
   try {
+    const args = getCommandArgs(ctx).split(/\s+/).filter(Boolean);
+    if (args[0] === 'permissions' || args[0] === 'grant' || args[0] === 'revoke') {
+      await handlePluginPermissions(ctx, userId, chatId, args);
+      return;
+    }
+
     const availableCommands = pluginManager.getAvailableCommands();
     const pluginStats = pluginManager.getPluginStats();
     
@@ -532,9 +1456,18 @@ export async function handlePlugins(ctx: BotContext): Promise<void> {
     // Display commands grouped by plugin
     for (const [pluginName, commands] of commandsByPlugin) {
       const pluginStat = pluginStats.find(stat => stat.name === pluginName);
-      const statusEmoji = pluginStat?.active ? '✅' : '❌';
+      const statusEmoji = pluginStat?.quarantinedUntil ? '⏸' : pluginStat?.active ? '✅' : '❌';
       
       responseMessage += `**${statusEmoji} ${pluginName}** (v${pluginStat?.version || 'unknown'})\n`;
+
+      if (pluginStat?.quarantinedUntil) {
+        responseMessage += `  Paused after repeated crashes until ${new Date(pluginStat.quarantinedUntil).toUTCString()}\n`;
+      }
+
+      const permissions = pluginStat ? pluginManager.getDeclaredPermissions(pluginStat.id) : [];
+      if (pluginStat && permissions.length > 0) {
+        responseMessage += `  Permissions: ${permissions.join(', ')} (\`/plugins permissions ${pluginStat.id}\`)\n`;
+      }
       
       commands.forEach(({ command }) => {
         responseMessage += `• \`/${command.name}\` - ${command.description}\n`;
@@ -576,6 +1509,143 @@ export async function handlePlugins(ctx: BotContext): Promise<void> {
   }
 }
 
+// Plain-text rendering of a peer's answer
+function formatPeerResult(capability: A2ACapability, result: unknown): string {
+  switch (capability) {
+    case 'summary':
+      return parseCapabilityResult('summary', result).summary || 'No summary returned.';
+
+    case 'decisions': {
+      const { decisions } = parseCapabilityResult('decisions', result);
+      if (decisions.length === 0) {
+        return 'No decisions recorded.';
+      }
+      return decisions
+        .map(decision => `• ${decision.content} (${decision.status}, ${decision.timestamp.substring(0, 10)})`)
+        .join('\n');
+    }
+
+    case 'search': {
+      const { results } = parseCapabilityResult('search', result);
+      if (results.length === 0) {
+        return 'No results.';
+      }
+      return results
+        .map(item => `• [${item.type}] ${item.content.substring(0, 200)}`)
+        .join('\n');
+    }
+  }
+}
+
+// Negotiate first so the listing and requests reflect what the peer grants us
+async function ensureNegotiated(peer: RemoteAgent): Promise<void> {
+  if (peer.capabilities.length === 0) {
+    const agent = getLocalAgent();
+    if (agent) {
+      await peer.negotiateCapabilities(agent);
+    }
+  }
+}
+
+// /peers [ask <peer> <summary|decisions|search> <chat-id> [period|query]]
+export async function handlePeers(ctx: BotContext): Promise<void> {
+  const userId = ctx.from?.id.toString();
+  const chatId = ctx.chat?.id.toString();
+  
+  if (!userId || !chatId) {
+    return;
+  }
+
+  const agent = getLocalAgent();
+  if (!agent) {
+    await ctx.reply('🤝 Agent-to-agent requests are not enabled on this bot.');
+    return;
+  }
+
+  try {
+    // Answers from other bots are posted into this chat, so admins decide what to ask
+    if (!(await isChatAdmin(ctx))) {
+      await ctx.reply('⛔ Only chat admins can query other Buddian instances.');
+      return;
+    }
+
+    const args = getCommandArgs(ctx).split(/\s+/).filter(Boolean);
+
+    if (args[0] !== 'ask') {
+      const peers = agent.listPeers().filter(peer => peer.url);
+      if (peers.length === 0) {
+        await ctx.reply('🤝 No peer agents with a URL are configured.');
+        return;
+      }
+
+      const lines: string[] = [];
+      for (const peer of peers) {
+        try {
+          await ensureNegotiated(peer);
+          const chats = peer.chats === '*' ? 'all chats' : peer.chats.join(', ') || 'no chats';
+          lines.push(`• ${peer.id} (${peer.name}): ${peer.capabilities.join(', ') || 'nothing granted'}; ${chats}`);
+        } catch (error) {
+          lines.push(`• ${peer.id}: unreachable (${(error as Error).message})`);
+        }
+      }
+
+      await ctx.reply(`🤝 Peer agents:\n\n${lines.join('\n')}\n\nUsage: /peers ask <peer> <${A2A_CAPABILITIES.join('|')}> <chat-id> [day|week|query]`);
+      return;
+    }
+
+    const [, peerId, capability, targetChatId, ...rest] = args;
+    const peer = peerId ? agent.getPeer(peerId) : undefined;
+
+    if (!peer || !peer.url) {
+      await ctx.reply(`❌ Unknown peer${peerId ? `: ${peerId}` : ''}. Use /peers to list them.`);
+      return;
+    }
+    if (!A2A_CAPABILITIES.includes(capability as A2ACapability) || !targetChatId) {
+      await ctx.reply(`Usage: /peers ask ${peer.id} <${A2A_CAPABILITIES.join('|')}> <chat-id> [day|week|query]`);
+      return;
+    }
+    if (capability === 'search' && rest.length === 0) {
+      await ctx.reply(`Usage: /peers ask ${peer.id} search <chat-id> <query>`);
+      return;
+    }
+
+    await ensureNegotiated(peer);
+    if (!peer.capabilities.includes(capability!)) {
+      await ctx.reply(`⛔ ${peer.id} does not grant ${capability} to this bot.`);
+      return;
+    }
+
+    await ctx.sendChatAction('typing');
+
+    const params = capability === 'search'
+      ? { chatId: targetChatId, query: rest.join(' ') }
+      : capability === 'summary'
+        ? { chatId: targetChatId, period: rest[0] === 'week' ? 'week' : 'day' }
+        : { chatId: targetChatId };
+    const result = await peer.request(capability as A2ACapability, params);
+
+    const text = `🤝 ${peer.name} · ${capability} of chat ${targetChatId}\n\n${formatPeerResult(capability as A2ACapability, result)}`;
+    for (const chunk of splitMessage(text)) {
+      await ctx.reply(chunk);
+    }
+
+    logUserAction(telegramLogger, userId, chatId, 'peer_request', {
+      peer: peer.id,
+      capability,
+      targetChatId
+    });
+
+  } catch (error) {
+    logError(telegramLogger, error as Error, {
+      operation: 'peers_command',
+      userId,
+      chatId
+    });
+    
+    await ctx.reply(`❌ The peer request failed: ${(error as Error).message}`);
+  }
+}
+
 // Export all command handlers
 export default {
   start: handleStart,
@@ -584,7 +1654,14 @@ export default {
   summary: handleSummary,
   translate: handleTranslate,
   remind: handleRemind,
+  todo: handleTodo,
+  done: handleDone,
+  assign: handleAssign,
+  decisions: handleDecisions,
   settings: handleSettings,
+  respond: handleRespond,
+  mydata: handleMyData,
   ping: handlePing,
-  plugins: handlePlugins
+  plugins: handlePlugins,
+  peers: handlePeers
 };
@@ -0,0 +1,106 @@
+import type { InlineQueryResultArticle } from 'telegraf/typings/core/types/typegram';
+import { userService } from '@/services/supabase';
+import { inlineSearchManager, InlineSearchResult } from '@/services/inline-search';
+import { telegramMessageLink } from '@/utils/formatting';
+import { telegramLogger, logError, logUserAction } from '@/utils/logger';
+import { BotContext } from '@/types';
+
+// Shorter queries match too much to be useful
+const MIN_QUERY_LENGTH = 2;
+// Seconds Telegram may reuse an answer for the same user and query
+const CACHE_SECONDS = 10;
+const START_PARAMETER = 'inline';
+
+const TYPE_ICONS: Record<string, string> = {
+  message: '💬',
+  resource: '📄',
+  decision: '✅'
+};
+
+function oneLine(text: string, maxLength: number): string {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > maxLength ? `${line.substring(0, maxLength - 1)}…` : line;
+}
+
+// An article that pastes the found content, where it came from and, where Telegram has one, a link to it
+function toArticle(result: InlineSearchResult, index: number): InlineQueryResultArticle {
+  const date = new Date(result.timestamp).toISOString().substring(0, 10);
+  const link = result.telegramMessageId ? telegramMessageLink(result.chat, result.telegramMessageId) : null;
+  // Resources are indexed as "<title>\n<summary>" or as a chunk of their text
+  const title = result.type === 'resource' ? result.content.split('\n')[0] || result.context : result.content;
+
+  return {
+    type: 'article',
+    id: `${index}:${result.type}:${result.id}`.substring(0, 64),
+    title: `${TYPE_ICONS[result.type] || '🔍'} ${oneLine(title, 80)}`,
+    description: `${result.chat.title} · ${date}${result.type === 'resource' ? ` · ${oneLine(result.context, 80)}` : ''}`,
+    input_message_content: {
+      message_text: `${result.content.substring(0, 3500)}\n\n— ${result.chat.title}, ${date}${link ? `\n${link}` : ''}`,
+      link_preview_options: { is_disabled: true }
+    }
+  };
+}
+
+// @buddian <query>: search the user's chats and offer the results for pasting
+export async function handleInlineQuery(ctx: BotContext): Promise<void> {
+  const inlineQuery = ctx.inlineQuery;
+  if (!inlineQuery) {
+    return;
+  }
+
+  const userId = inlineQuery.from.id.toString();
+  const query = inlineQuery.query.trim();
+
+  try {
+    if (query.length < MIN_QUERY_LENGTH) {
+      await ctx.answerInlineQuery([], { cache_time: CACHE_SECONDS, is_personal: true });
+      return;
+    }
+
+    const user = await userService.getUser(inlineQuery.from.id);
+    if (!user) {
+      await ctx.answerInlineQuery([], {
+        cache_time: 0,
+        is_personal: true,
+        button: { text: 'Start Buddian to search your chats', start_parameter: START_PARAMETER }
+      });
+      return;
+    }
+
+    const results = await inlineSearchManager.search(ctx.telegram, user, inlineQuery.from.id, query);
+    await ctx.answerInlineQuery(results.map(toArticle), { cache_time: CACHE_SECONDS, is_personal: true });
+
+    logUserAction(telegramLogger, userId, 'inline', 'inline_search', {
+      query: query.substring(0, 100),
+      resultsCount: results.length,
+      chats: new Set(results.map(result => result.chat.id)).size
+    });
+
+  } catch (error) {
+    logError(telegramLogger, error as Error, {
+      operation: 'inline_query',
+      userId,
+      query: query.substring(0, 100)
+    });
+
+    await ctx.answerInlineQuery([], { cache_time: 0, is_personal: true }).catch(() => undefined);
+  }
+}
+
+// Which result was pasted; Telegram only reports this with inline feedback turned on in BotFather
+export async function handleChosenInlineResult(ctx: BotContext): Promise<void> {
+  const chosen = ctx.chosenInlineResult;
+  if (!chosen) {
+    return;
+  }
+
+  logUserAction(telegramLogger, chosen.from.id.toString(), 'inline', 'inline_result_chosen', {
+    resultId: chosen.result_id,
+    query: chosen.query.substring(0, 100)
+  });
+}
+
+export default {
+  query: handleInlineQuery,
+  chosen: handleChosenInlineResult
+};
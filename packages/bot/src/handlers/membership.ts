@@ -0,0 +1,210 @@
+import type { User as TelegramUser } from 'telegraf/typings/core/types/typegram';
+import { decisionService, userService, scheduledTaskService } from '@/services/supabase';
+import { membershipManager, MembershipChange, toMembershipStatus } from '@/services/membership';
+import { chatSettingsManager } from '@/services/chat-settings';
+import { inlineSearchManager } from '@/services/inline-search';
+import { schedulerService } from '@/services/scheduler';
+import { pluginManager } from '@/plugins/manager';
+import { escapeMarkdown, formatSafeMarkdown } from '@/utils/formatting';
+import { telegramLogger, logError, logUserAction } from '@/utils/logger';
+import { BotContext, MembershipSource, MembershipStatus } from '@/types';
+
+// Decisions from this far back are offered to newcomers
+const CATCH_UP_MS = 14 * 24 * 60 * 60 * 1000;
+const MAX_CATCH_UP_DECISIONS = 5;
+
+function displayName(user: TelegramUser): string {
+  return [user.first_name, user.last_name].filter(Boolean).join(' ') || user.username || 'there';
+}
+
+async function broadcastChange(chatId: string, user: TelegramUser, change: MembershipChange, messageId?: number): Promise<void> {
+  try {
+    const buddianUser = await userService.getUser(user.id);
+    await pluginManager.broadcastEvent({
+      type: change === 'joined' ? 'user_joined' : 'user_left',
+      data: {
+        telegramUserId: user.id,
+        firstName: user.first_name,
+        username: user.username,
+        isBot: user.is_bot
+      },
+      context: {
+        userId: buddianUser?.id || '', // Empty for people who never used the bot
+        chatId,
+        messageId: messageId?.toString() || '',
+        language: buddianUser?.preferences.language || user.language_code || 'en',
+        timestamp: Date.now(),
+        metadata: { telegramUserId: user.id }
+      },
+      timestamp: Date.now()
+    });
+  } catch (error) {
+    logError(telegramLogger, error as Error, {
+      operation: 'plugin_event_broadcast',
+      chatId,
+      eventType: change === 'joined' ? 'user_joined' : 'user_left'
+    });
+  }
+}
+
+// Welcome a newcomer with what the chat decided lately, so they need not scroll back
+async function greet(ctx: BotContext, chatId: string, user: TelegramUser): Promise<void> {
+  const decisions = await decisionService.getDecisions(chatId, {
+    statuses: ['confirmed'],
+    since: Date.now() - CATCH_UP_MS,
+    limit: MAX_CATCH_UP_DECISIONS
+  });
+
+  let text = `👋 Welcome, *${escapeMarkdown(displayName(user))}*\\!`;
+  if (decisions.length > 0) {
+    const lines = decisions.map(decision =>
+      `• ${formatSafeMarkdown(decision.content, { maxLength: 200 })} \\(${escapeMarkdown(new Date(decision.extractedAt).toISOString().substring(0, 10))}\\)`
+    );
+    text += `\n\n*Decided here recently:*\n${lines.join('\n')}`;
+  }
+  text += '\n\nMention me with a question about anything discussed before you joined, or use /search\\.';
+
+  await ctx.reply(text, { parse_mode: 'MarkdownV2' });
+}
+
+async function handleChange(
+  ctx: BotContext,
+  chatId: string,
+  user: TelegramUser,
+  previous: MembershipStatus,
+  status: MembershipStatus,
+  source: Extract<MembershipSource, 'update' | 'service'>,
+  at: number,
+  messageId?: number
+): Promise<void> {
+  const change = await membershipManager.recordChange(chatId, user, previous, status, source, at);
+  if (!change) {
+    return;
+  }
+
+  // The user's inline search covers the chat, or stops covering it, right away
+  inlineSearchManager.forgetAccess(user.id);
+
+  logUserAction(telegramLogger, user.id.toString(), chatId, change === 'joined' ? 'member_joined' : 'member_left', { status });
+  await broadcastChange(chatId, user, change, messageId);
+
+  if (change === 'joined' && !user.is_bot && await chatSettingsManager.isFeatureEnabled(chatId, 'welcome')) {
+    await greet(ctx, chatId, user);
+  }
+}
+
+// chat_member: joins, leaves and status changes; Telegram sends these only to admin bots
+export async function handleChatMember(ctx: BotContext): Promise<void> {
+  const update = ctx.chatMember;
+  if (!update || update.chat.type === 'private') {
+    return;
+  }
+
+  const chatId = update.chat.id.toString();
+  const user = update.new_chat_member.user;
+
+  try {
+    await handleChange(
+      ctx,
+      chatId,
+      user,
+      toMembershipStatus(update.old_chat_member),
+      toMembershipStatus(update.new_chat_member),
+      'update',
+      update.date * 1000
+    );
+  } catch (error) {
+    logError(telegramLogger, error as Error, {
+      operation: 'chat_member_update',
+      chatId,
+      userId: user.id.toString()
+    });
+  }
+}
+
+// my_chat_member: the bot was added to or removed from a chat
+export async function handleMyChatMember(ctx: BotContext): Promise<void> {
+  const update = ctx.myChatMember;
+  if (!update || update.chat.type === 'private') {
+    return;
+  }
+
+  const chatId = update.chat.id.toString();
+  const status = toMembershipStatus(update.new_chat_member);
+
+  try {
+    const change = await membershipManager.recordChange(
+      chatId,
+      update.new_chat_member.user,
+      toMembershipStatus(update.old_chat_member),
+      status,
+      'update',
+      update.date * 1000
+    );
+    if (!change) {
+      return;
+    }
+
+    // The chat digest stops while the bot cannot post and resumes when it is back
+    if (change === 'left') {
+      await scheduledTaskService.deactivateTask(`chat_digest:${chatId}`);
+    } else {
+      await schedulerService.syncChatTasks(await chatSettingsManager.getSettings(chatId));
+    }
+
+    logUserAction(telegramLogger, update.from.id.toString(), chatId, change === 'joined' ? 'bot_added' : 'bot_removed', { status });
+  } catch (error) {
+    logError(telegramLogger, error as Error, {
+      operation: 'my_chat_member_update',
+      chatId
+    });
+  }
+}
+
+// Join and leave service messages reach bots that are not admins too
+export async function handleNewChatMembers(ctx: BotContext): Promise<void> {
+  const message = ctx.message;
+  if (!message || !('new_chat_members' in message)) {
+    return;
+  }
+
+  const chatId = message.chat.id.toString();
+  try {
+    for (const user of message.new_chat_members) {
+      // The bot's own arrival comes as my_chat_member
+      if (user.id === ctx.botInfo.id) {
+        continue;
+      }
+      await handleChange(ctx, chatId, user, 'left', 'member', 'service', message.date * 1000, message.message_id);
+    }
+  } catch (error) {
+    logError(telegramLogger, error as Error, {
+      operation: 'new_chat_members',
+      chatId
+    });
+  }
+}
+
+export async function handleLeftChatMember(ctx: BotContext): Promise<void> {
+  const message = ctx.message;
+  if (!message || !('left_chat_member' in message) || message.left_chat_member.id === ctx.botInfo.id) {
+    return;
+  }
+
+  const chatId = message.chat.id.toString();
+  try {
+    await handleChange(ctx, chatId, message.left_chat_member, 'member', 'left', 'service', message.date * 1000, message.message_id);
+  } catch (error) {
+    logError(telegramLogger, error as Error, {
+      operation: 'left_chat_member',
+      chatId
+    });
+  }
+}
+
+export default {
+  chatMember: handleChatMember,
+  myChatMember: handleMyChatMember,
+  newChatMembers: handleNewChatMembers,
+  leftChatMember: handleLeftChatMember
+};
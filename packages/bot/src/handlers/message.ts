@@ -1,25 +1,51 @@
 import { Message } from 'telegraf/typings/core/types/typegram';
-import { messageService, userService, resourceService } from '@/services/supabase';
+import { messageService, userService, resourceService, threadService } from '@/services/supabase';
 import openaiService from '@/services/openai';
 import contentAnalyzer from '@/services/content-analyzer';
+import { indexingService, hybridSearchService, isIndexableContent } from '@/services/indexing';
+import { actionItemManager } from '@/services/action-items';
+import { decisionManager } from '@/services/decisions';
+import { schedulerService } from '@/services/scheduler';
+import { qaAgentService } from '@/services/qa-agent';
+import { responsePolicy } from '@/services/response-policy';
+import { chatSettingsManager } from '@/services/chat-settings';
+import { threadManager } from '@/services/threads';
+import { membershipManager } from '@/services/membership';
+import { transcriptionService } from '@/services/transcription';
 import languageUtils from '@/utils/language';
+import { getTopicId, getTopicName, getReplyToMessageId, getTopicScope } from '@/utils/telegram';
 import { telegramLogger, logError, logMessageProcessing, logUserAction } from '@/utils/logger';
 import { pluginManager } from '@/plugins/manager';
+import { qaConfig } from '@/config/env';
+import { decisionKeyboard } from '@/handlers/callbacks';
+import { formatDecision } from '@/utils/formatting';
 import { 
   BotContext, 
   Message as BuddianMessage, 
   User as BuddianUser,
   Resource,
+  Decision,
   BuddianError,
-  FileMetadata
+  FileMetadata,
+  TranscriptionInfo,
+  QACitation
 } from '@/types';
 
+// Telegram's getFile only serves files up to 20 MB to bots
+const MAX_TELEGRAM_DOWNLOAD = 20 * 1024 * 1024;
+
+// Decisions put to the chat at once; any others wait in /decisions pending
+const MAX_CONFIRMATION_PROMPTS = 3;
+
+// Links picked up from text messages and turned into resources
+const URL_REGEX = /(https?:\/\/[^\s]+)/g;
+
 // Message type mapping
 const getMessageType = (message: Message): BuddianMessage['messageType'] => {
   if ('photo' in message) return 'photo';
   if ('document' in message) return 'document';
   if ('voice' in message) return 'voice';
-  if ('video' in message) return 'video';
+  if ('video' in message || 'video_note' in message) return 'video';
   if ('sticker' in message) return 'sticker';
   if ('location' in message) return 'location';
   return 'text';
@@ -32,12 +58,18 @@ const extractMessageContent = (message: Message): string => {
   if ('sticker' in message) return `[Sticker: ${message.sticker.emoji || 'sticker'}]`;
   if ('location' in message) return `[Location: ${message.location.latitude}, ${message.location.longitude}]`;
   if ('voice' in message) return '[Voice message]';
-  if ('video' in message) return '[Video message]';
+  if ('video' in message || 'video_note' in message) return '[Video message]';
   if ('photo' in message) return '[Photo]';
   if ('document' in message) return `[Document: ${message.document.file_name || 'file'}]`;
   return '[Unknown message type]';
 };
 
+// Content of a transcribed voice or video message: caption, if any, then transcript
+const composeMediaContent = (message: Message, transcription: TranscriptionInfo): string => {
+  const caption = 'caption' in message ? message.caption : undefined;
+  return caption ? `${caption}\n\n${transcription.text}` : transcription.text;
+};
+
 // Get file info from message
 const getFileInfo = (message: Message): FileMetadata => {
   if ('document' in message) {
@@ -64,7 +96,8 @@ const getFileInfo = (message: Message): FileMetadata => {
       fileId: message.voice.file_id,
       fileName: `voice_${Date.now()}.ogg`,
       mimeType: message.voice.mime_type || undefined,
-      fileSize: message.voice.file_size || undefined
+      fileSize: message.voice.file_size || undefined,
+      duration: message.voice.duration
     };
   }
   
@@ -73,7 +106,18 @@ const getFileInfo = (message: Message): FileMetadata => {
       fileId: message.video.file_id,
       fileName: message.video.file_name || `video_${Date.now()}.mp4`,
       mimeType: message.video.mime_type || undefined,
-      fileSize: message.video.file_size || undefined
+      fileSize: message.video.file_size || undefined,
+      duration: message.video.duration
+    };
+  }
+  
+  if ('video_note' in message) {
+    return {
+      fileId: message.video_note.file_id,
+      fileName: `video_note_${Date.now()}.mp4`,
+      mimeType: 'video/mp4',
+      fileSize: message.video_note.file_size || undefined,
+      duration: message.video_note.duration
     };
   }
   
@@ -109,14 +153,26 @@ export async function handleMessage(ctx: BotContext): Promise<void> {
     
     // Update user's last activity
     await userService.updateLastActive(user.id);
+    await membershipManager.markSeen(chatId, message.from);
     
     // Extract message content
-    const content = extractMessageContent(message);
+    let content = extractMessageContent(message);
     const messageType = getMessageType(message);
+    const fileInfo = getFileInfo(message);
     
-    // Detect language
+    // Voice and video messages are stored as their transcript
+    let transcription: TranscriptionInfo | undefined;
     let detectedLanguage = 'en';
-    if (content && content.length > 10) {
+    if ((messageType === 'voice' || messageType === 'video') && await chatSettingsManager.isFeatureEnabled(chatId, 'transcription')) {
+      transcription = await transcribeMediaMessage(ctx, messageId, fileInfo);
+      if (transcription) {
+        content = composeMediaContent(message, transcription);
+        detectedLanguage = transcription.language || detectedLanguage;
+      }
+    }
+    
+    // Detect language
+    if (!transcription?.language && content && content.length > 10) {
       try {
         const languageResult = await languageUtils.detectLanguage(content);
         detectedLanguage = languageResult.language;
@@ -130,7 +186,7 @@ export async function handleMessage(ctx: BotContext): Promise<void> {
     }
     
     // Create message object
-    const fileInfo = getFileInfo(message);
+    const topicId = getTopicId(message);
     const buddianMessage: Omit<BuddianMessage, 'id'> = {
       chatId,
       userId: user.id,
@@ -142,13 +198,33 @@ export async function handleMessage(ctx: BotContext): Promise<void> {
         telegramMessageId: message.message_id,
         telegramUserId: message.from.id,
         telegramChatId: message.chat.id,
-        ...fileInfo
+        ...(topicId && { telegramTopicId: topicId }),
+        ...fileInfo,
+        ...(transcription && { transcription })
       }
     };
     
+    // Group the message into a conversation thread by replies, time and meaning
+    const thread = await chatSettingsManager.isFeatureEnabled(chatId, 'threads')
+      ? await threadManager.assignMessage(buddianMessage, {
+        replyToTelegramMessageId: getReplyToMessageId(message),
+        topicName: getTopicName(message)
+      })
+      : null;
+    if (thread) {
+      buddianMessage.threadId = thread.thread.id;
+    }
+    
     // Store message in database
     const storedMessageId = await messageService.storeMessage(buddianMessage);
     
+    // Add message to the semantic search index
+    await indexingService.indexMessage(storedMessageId, buddianMessage, thread?.embedding);
+    
+    if (thread) {
+      await threadManager.recordMessage(thread, buddianMessage);
+    }
+    
     logMessageProcessing(
       telegramLogger,
       messageId,
@@ -190,10 +266,12 @@ export async function handleMessage(ctx: BotContext): Promise<void> {
     await processMessageContent(ctx, storedMessageId, buddianMessage);
     
     // Extract decisions and action items from recent conversation
-    await extractDecisionsAndActions(ctx, storedMessageId, chatId);
+    if (await chatSettingsManager.isFeatureEnabled(chatId, 'extraction')) {
+      await extractDecisionsAndActions(ctx, storedMessageId, chatId);
+    }
     
     // Handle questions or commands
-    await handleQuestionOrCommand(ctx, content, chatId, user.id);
+    await handleQuestionOrCommand(ctx, content, chatId, user.id, buddianMessage.threadId);
     
     logMessageProcessing(
       telegramLogger,
@@ -224,6 +302,134 @@ export async function handleMessage(ctx: BotContext): Promise<void> {
   }
 }
 
+// Edited message handler: updates the stored copy and everything derived from it
+export async function handleEditedMessage(ctx: BotContext): Promise<void> {
+  const message = ctx.editedMessage;
+  if (!message || !('from' in message) || !message.from) {
+    return;
+  }
+
+  // Live locations arrive as a stream of edits; the original position is kept
+  if ('location' in message) {
+    return;
+  }
+
+  const chatId = message.chat.id.toString();
+  const userId = message.from.id.toString();
+  const messageId = message.message_id.toString();
+  const messageType = getMessageType(message);
+  
+  logMessageProcessing(
+    telegramLogger,
+    messageId,
+    chatId,
+    userId,
+    messageType,
+    'edit_received'
+  );
+
+  try {
+    const stored = await messageService.getMessageByTelegramId(chatId, message.message_id);
+    if (!stored) {
+      return; // Sent before the bot joined, or never stored
+    }
+    
+    // Edits can be delivered out of order; never overwrite a newer version
+    const editedAt = (message.edit_date || Date.now() / 1000) * 1000;
+    if (stored.editedAt && stored.editedAt >= editedAt) {
+      return;
+    }
+    
+    // Editing a transcribed message can only change its caption
+    const transcription = stored.metadata?.transcription;
+    const content = transcription ? composeMediaContent(message, transcription) : extractMessageContent(message);
+    if (content === stored.content) {
+      return;
+    }
+    
+    let detectedLanguage = transcription?.language || stored.language;
+    if (!transcription?.language && content.length > 10) {
+      try {
+        const languageResult = await languageUtils.detectLanguage(content);
+        detectedLanguage = languageResult.language;
+      } catch (error) {
+        logError(telegramLogger, error as Error, { 
+          operation: 'language_detection',
+          messageId,
+          chatId 
+        });
+      }
+    }
+    
+    const updated = await messageService.recordEdit(stored, {
+      content,
+      language: detectedLanguage,
+      editedAt
+    });
+    
+    // Replace the message's search entries; a placeholder has none
+    if (isIndexableContent(content)) {
+      await indexingService.indexMessage(updated.id, updated);
+    } else {
+      await indexingService.removeContent(updated.id, 'message');
+    }
+    
+    const user = await userService.getUser(message.from.id);
+    if (user) {
+      ctx.user = user;
+    }
+    ctx.language = detectedLanguage;
+    
+    // Broadcast edit event to plugins
+    try {
+      await pluginManager.broadcastEvent({
+        type: 'message_edited',
+        data: { ...updated, previousContent: stored.content },
+        context: {
+          userId: updated.userId,
+          chatId,
+          messageId: updated.id,
+          language: detectedLanguage,
+          timestamp: Date.now(),
+          metadata: updated.metadata || {}
+        },
+        timestamp: Date.now()
+      });
+    } catch (error) {
+      logError(telegramLogger, error as Error, {
+        operation: 'plugin_event_broadcast',
+        messageId,
+        eventType: 'message_edited'
+      });
+    }
+    
+    await refreshUrlResources(ctx, updated);
+    
+    // Decisions and action items were extracted from the old wording
+    if (await chatSettingsManager.isFeatureEnabled(chatId, 'extraction')) {
+      await extractDecisionsAndActions(ctx, updated.id, chatId, updated.timestamp);
+    }
+    
+    logMessageProcessing(
+      telegramLogger,
+      messageId,
+      chatId,
+      userId,
+      messageType,
+      'edit_completed',
+      { storedMessageId: updated.id, editCount: updated.editHistory?.length || 0 }
+    );
+    
+  } catch (error) {
+    logError(telegramLogger, error as Error, {
+      operation: 'edited_message_handling',
+      messageId,
+      chatId,
+      userId
+    });
+  }
+}
+
 // Create user from Telegram user info
 async function createUserFromTelegram(telegramUser: any): Promise<BuddianUser> {
   const userId = await userService.createUser({
@@ -252,6 +458,16 @@ async function createUserFromTelegram(telegramUser: any): Promise<BuddianUser> {
     username: telegramUser.username
   });
   
+  // Schedule the default daily reminders and weekly summaries
+  try {
+    await schedulerService.syncUserTasks(user);
+  } catch (error) {
+    logError(telegramLogger, error as Error, {
+      operation: 'schedule_user_digests',
+      userId
+    });
+  }
+  
   return user;
 }
 
@@ -267,7 +483,9 @@ async function processMessageContent(
     switch (messageType) {
       case 'photo':
       case 'document':
-        await processFileMessage(ctx, messageId, message);
+        if (await chatSettingsManager.isFeatureEnabled(message.chatId, 'documents')) {
+          await processFileMessage(ctx, messageId, message);
+        }
         break;
         
       case 'text':
@@ -276,15 +494,15 @@ async function processMessageContent(
         
       case 'voice':
       case 'video':
-        // For now, just acknowledge these message types
-        // In a full implementation, we'd transcribe audio/video
+        // The transcript, if any, is already the message content and goes
+        // through decision/action extraction below like any text message
         logMessageProcessing(
           telegramLogger,
           messageId,
           message.chatId,
           message.userId,
           messageType,
-          'acknowledged'
+          message.metadata?.transcription ? 'transcribed' : 'acknowledged'
         );
         break;
         
@@ -367,13 +585,18 @@ async function processFileMessage(
       filename: fileName,
       content: analysisResult.content,
       summary: analysisResult.summary,
-      metadata: analysisResult.metadata,
+      metadata: {
+        ...analysisResult.metadata,
+        telegramMessageId: message.metadata?.telegramMessageId,
+        telegramTopicId: message.metadata?.telegramTopicId
+      },
       extractedAt: Date.now(),
       chatId: message.chatId,
       userId: message.userId
     };
     
     const resourceId = await resourceService.storeResource(resource);
+    await indexingService.indexResource(resourceId, resource);
     
       logMessageProcessing(
         telegramLogger,
@@ -400,6 +623,49 @@ async function processFileMessage(
   }
 }
 
+// Transcribe a voice note or video's audio track; undefined when disabled, too long or failed
+async function transcribeMediaMessage(
+  ctx: BotContext,
+  messageId: string,
+  fileInfo: FileMetadata
+): Promise<TranscriptionInfo | undefined> {
+  const { fileId, fileName, mimeType, fileSize, duration } = fileInfo;
+
+  if (!fileId || !fileName || !transcriptionService.canTranscribe(duration) || (fileSize && fileSize > MAX_TELEGRAM_DOWNLOAD)) {
+    return undefined;
+  }
+
+  try {
+    const fileUrl = await ctx.telegram.getFileLink(fileId);
+    const audio = await contentAnalyzer.download.downloadFile(fileUrl.href, MAX_TELEGRAM_DOWNLOAD);
+    const result = await transcriptionService.transcribe({
+      audio,
+      fileName,
+      ...(mimeType && { mimeType })
+    });
+
+    if (!result.text) {
+      return undefined;
+    }
+
+    const recordedDuration = result.duration ?? duration;
+    return {
+      provider: result.provider,
+      model: result.model,
+      text: result.text,
+      ...(result.language && { language: result.language }),
+      ...(recordedDuration !== undefined && { duration: recordedDuration })
+    };
+  } catch (error) {
+    logError(telegramLogger, error as Error, {
+      operation: 'transcription',
+      messageId,
+      fileName
+    });
+    return undefined;
+  }
+}
+
 // Process text messages
 async function processTextMessage(
   ctx: BotContext,
@@ -409,10 +675,9 @@ async function processTextMessage(
   const { content } = message;
   
   // Check if message contains URLs
-  const urlRegex = /(https?:\/\/[^\s]+)/g;
-  const urls = content.match(urlRegex);
+  const urls = content.match(URL_REGEX);
   
-  if (urls && urls.length > 0) {
+  if (urls && urls.length > 0 && await chatSettingsManager.isFeatureEnabled(message.chatId, 'links')) {
     await processUrlsInMessage(ctx, messageId, message, urls);
   }
   
@@ -426,6 +691,40 @@ async function processTextMessage(
   );
 }
 
+// After an edit, fetch links the new wording added and drop the resources of
+// links it removed; links present in both versions keep their resource
+async function refreshUrlResources(ctx: BotContext, message: BuddianMessage): Promise<void> {
+  const telegramMessageId = message.metadata?.telegramMessageId;
+  if (message.messageType !== 'text' || telegramMessageId === undefined) {
+    return;
+  }
+  
+  try {
+    const urls = new Set(message.content.match(URL_REGEX) || []);
+    const existing = await resourceService.getMessageResources(message.chatId, telegramMessageId, 'url');
+    
+    const kept = new Set<string>();
+    for (const resource of existing) {
+      if (resource.url && urls.has(resource.url) && !kept.has(resource.url)) {
+        kept.add(resource.url);
+        continue;
+      }
+      await resourceService.deleteResource(resource.id);
+      await indexingService.removeContent(resource.id, 'resource');
+    }
+    
+    const added = [...urls].filter(url => !kept.has(url));
+    if (added.length > 0 && await chatSettingsManager.isFeatureEnabled(message.chatId, 'links')) {
+      await processUrlsInMessage(ctx, message.id, message, added);
+    }
+  } catch (error) {
+    logError(telegramLogger, error as Error, {
+      operation: 'url_refresh',
+      messageId: message.id
+    });
+  }
+}
+
 // Process URLs found in messages
 async function processUrlsInMessage(
   ctx: BotContext,
@@ -442,13 +741,18 @@ async function processUrlsInMessage(
         url,
         content: analysisResult.content,
         summary: analysisResult.summary,
-        metadata: analysisResult.metadata,
+        metadata: {
+          ...analysisResult.metadata,
+          telegramMessageId: message.metadata?.telegramMessageId,
+          telegramTopicId: message.metadata?.telegramTopicId
+        },
         extractedAt: Date.now(),
         chatId: message.chatId,
         userId: message.userId
       };
       
-      await resourceService.storeResource(resource);
+      const resourceId = await resourceService.storeResource(resource);
+      await indexingService.indexResource(resourceId, resource);
       
       logMessageProcessing(
         telegramLogger,
@@ -470,25 +774,43 @@ async function processUrlsInMessage(
   }
 }
 
-// Extract decisions and action items from conversation
+// Extract decisions and action items from conversation. After an edit,
+// `windowEnd` is the edited message's timestamp: the context ends at that
+// message and its earlier results are replaced even when nothing is found.
 async function extractDecisionsAndActions(
   ctx: BotContext,
   messageId: string,
-  chatId: string
+  chatId: string,
+  windowEnd?: number
 ): Promise<void> {
+  const reextract = windowEnd !== undefined;
+  
   try {
-    // Get recent messages for context
-    const recentMessages = await messageService.getMessages(chatId, 10);
+    // Get recent messages for context, from the same forum topic
+    const recentMessages = await messageService.getMessages(chatId, 10, reextract ? windowEnd + 1 : undefined, getTopicScope(ctx));
     const messageTexts = recentMessages.map(msg => msg.content).filter(content => content.length > 0);
     
     if (messageTexts.length < 3) {
       return; // Not enough context for extraction
     }
     
-    // Extract decisions
+    // Extract decisions into the decision log
     const decisions = await openaiService.decision.extractDecisions(messageTexts);
-    if (decisions.length > 0) {
+    if (decisions.length > 0 || reextract) {
       await messageService.updateMessageDecisions(messageId, decisions);
+      const source = ctx.message ?? ctx.editedMessage;
+      const topicId = getTopicId(source);
+      const { recorded, awaiting } = await decisionManager.recordExtracted(chatId, decisions, {
+        messageId,
+        ...(ctx.user && { createdBy: ctx.user.id }),
+        ...(source && { telegramMessageId: source.message_id }),
+        ...(topicId && { telegramTopicId: topicId })
+      });
+      const retracted = reextract ? await decisionManager.retractStale(chatId, messageId, recorded) : [];
+      
+      if (awaiting.length > 0 && await chatSettingsManager.isFeatureEnabled(chatId, 'confirmations')) {
+        await askForConfirmation(ctx, awaiting, source?.message_id);
+      }
       
       logMessageProcessing(
         telegramLogger,
@@ -497,14 +819,16 @@ async function extractDecisionsAndActions(
         ctx.user?.id || 'unknown',
         'decisions_extracted',
         'completed',
-        { decisionsCount: decisions.length }
+        { decisionsCount: decisions.length, recordedCount: recorded.length, awaitingCount: awaiting.length, retractedCount: retracted.length }
       );
     }
     
     // Extract action items
     const actionItems = await openaiService.actionItem.extractActionItems(messageTexts);
-    if (actionItems.length > 0) {
+    if (actionItems.length > 0 || reextract) {
       await messageService.updateMessageActionItems(messageId, actionItems);
+      const recorded = await actionItemManager.recordExtracted(chatId, actionItems, messageId, ctx.user?.id);
+      const retracted = reextract ? await actionItemManager.retractStale(chatId, messageId, recorded) : [];
       
       logMessageProcessing(
         telegramLogger,
@@ -513,7 +837,7 @@ async function extractDecisionsAndActions(
         ctx.user?.id || 'unknown',
         'actions_extracted',
         'completed',
-        { actionItemsCount: actionItems.length }
+        { actionItemsCount: actionItems.length, recordedCount: recorded.length, retractedCount: retracted.length }
       );
     }
     
@@ -526,57 +850,117 @@ async function extractDecisionsAndActions(
   }
 }
 
+// Put decisions extracted with too little confidence to the chat, as a reply to the message that prompted them
+async function askForConfirmation(ctx: BotContext, decisions: Decision[], replyTo?: number): Promise<void> {
+  const shown = decisions.slice(0, MAX_CONFIRMATION_PROMPTS);
+  const question = shown.length === 1 ? 'Did the chat decide this?' : 'Did the chat decide these?';
+
+  try {
+    await ctx.reply(`🤔 *${question}*\n\n${shown.map(formatDecision).join('\n')}`, {
+      parse_mode: 'MarkdownV2',
+      ...decisionKeyboard(shown),
+      ...(replyTo && { reply_parameters: { message_id: replyTo, allow_sending_without_reply: true } })
+    });
+  } catch (error) {
+    // The decisions stay pending for /decisions pending
+    logError(telegramLogger, error as Error, {
+      operation: 'decision_confirmation_prompt',
+      chatId: ctx.chat?.id.toString()
+    });
+  }
+}
+
 // Handle questions or commands in messages
 async function handleQuestionOrCommand(
   ctx: BotContext,
   content: string,
   chatId: string,
-  userId: string
+  userId: string,
+  threadId?: string
 ): Promise<void> {
-  // Check if message is a question
-  const questionIndicators = ['?', 'what', 'how', 'why', 'when', 'where', 'who', 'which'];
-  const isQuestion = questionIndicators.some(indicator => 
-    content.toLowerCase().includes(indicator)
-  );
-  
-  if (!isQuestion || content.length < 10) {
-    return;
-  }
-  
   try {
-    // Get conversation context
-    const recentMessages = await messageService.getMessages(chatId, 20);
-    const contextMessages = recentMessages.map(msg => msg.content);
-    
-    // Search for relevant resources
-    const searchResults = await messageService.searchMessages(chatId, content, 10);
-    const contextFromSearch = searchResults.map(result => result.content);
-    
-    // Generate answer
-    const answer = await openaiService.qa.answerQuestion(
-      content,
-      contextFromSearch,
-      contextMessages,
-      ctx.language
-    );
+    // Answer only when the chat's response policy and the intent classifier say so
+    const decision = await responsePolicy.decide(ctx, content, chatId);
+    if (!decision.respond) {
+      return;
+    }
+    const question = decision.question;
+    
+    // The chat's language, when admins set one, wins over the question's
+    const settings = await chatSettingsManager.getSettings(chatId);
+    const language = settings.language || ctx.language;
+    const disabledPlugins = [
+      ...pluginManager.getChatDisabledPlugins(settings),
+      ...pluginManager.getUserDisabledPlugins(ctx.user?.preferences)
+    ];
+    
+    let answer: string;
+    let citations: QACitation[] = [];
+    
+    if (qaConfig.agent) {
+      // The model searches the chat with tools and cites the stored messages it used
+      const result = await qaAgentService.answerQuestion(question, {
+        chatId,
+        userId,
+        language,
+        telegram: ctx.telegram,
+        disabledPlugins,
+        ...(threadId && { threadId }),
+        topicId: getTopicScope(ctx)
+      });
+      answer = result.answer;
+      citations = result.citations;
+    } else {
+      // Conversation context: the question's thread, or else the chat's latest messages
+      const thread = threadId ? await threadService.getThread(threadId) : null;
+      const recentMessages = thread
+        ? await threadService.getThreadMessages(thread.id, 20)
+        : await messageService.getMessages(chatId, 20, undefined, getTopicScope(ctx));
+      const contextMessages = [
+        ...(thread?.summary ? [`Thread "${thread.topic}" so far: ${thread.summary}`] : []),
+        ...recentMessages.map(msg => msg.content)
+      ];
+      
+      // Search messages, documents, decisions and action items by meaning and keywords
+      const searchResults = await hybridSearchService.search(chatId, question, { limit: 10, topicId: getTopicScope(ctx) });
+      const contextFromSearch = searchResults.map(result => result.content);
+      
+      // Generate answer; tools from external MCP servers can fill gaps in the chat's own context
+      answer = await openaiService.qa.answerQuestion(
+        question,
+        contextFromSearch,
+        contextMessages,
+        language,
+        pluginManager.getQATools(disabledPlugins)
+      );
+    }
     
     if (answer && answer.length > 10) {
       // Import formatting utilities
-      const { formatSafeMarkdown, splitMessage } = await import('@/utils/formatting');
+      const { formatCitedAnswer, citationReplyTarget, splitMessage } = await import('@/utils/formatting');
       
-      // Format the answer safely
-      const formattedAnswer = formatSafeMarkdown(answer, { maxLength: 3000 });
+      // Citations link to their source messages; where Telegram has no
+      // message links the answer replies to the first source instead
+      const chat = ctx.chat ?? { id: chatId };
+      const formattedAnswer = formatCitedAnswer(answer, citations, chat);
+      const replyTo = citationReplyTarget(citations, chat);
       
       // Use splitMessage to handle long responses
       const messageChunks = splitMessage(formattedAnswer);
       
-      for (const chunk of messageChunks) {
-        await ctx.reply(chunk, { parse_mode: 'MarkdownV2' });
+      for (const [index, chunk] of messageChunks.entries()) {
+        await ctx.reply(chunk, {
+          parse_mode: 'MarkdownV2',
+          ...(index === 0 && replyTo && { reply_parameters: { message_id: replyTo, allow_sending_without_reply: true } })
+        });
       }
       
       logUserAction(telegramLogger, userId, chatId, 'question_answered', {
-        question: content.substring(0, 100),
-        answerLength: answer.length
+        question: question.substring(0, 100),
+        answerLength: answer.length,
+        citations: citations.length,
+        addressedBy: decision.addressedBy,
+        intent: decision.intent?.intent
       });
     }
     
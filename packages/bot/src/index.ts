@@ -1,4 +1,5 @@
 import { Telegraf } from 'telegraf';
+import { message } from 'telegraf/filters';
 import type { Update } from 'telegraf/typings/core/types/typegram';
 import express from 'express';
 import cors from 'cors';
@@ -6,11 +7,19 @@ import helmet from 'helmet';
 import { config, logConfiguration } from '@/config/env';
 import { botLogger, logStartup, logShutdown, logError } from '@/utils/logger';
 import { BotContext } from '@/types';
-import { handleMessage } from '@/handlers/message';
+import { handleMessage, handleEditedMessage } from '@/handlers/message';
 import commandHandlers from '@/handlers/commands';
+import callbackHandlers, { ACTION_ITEM_CALLBACK, DECISION_CALLBACK, CHAT_SETTINGS_CALLBACK, USER_SETTINGS_CALLBACK, DATA_DELETION_CALLBACK } from '@/handlers/callbacks';
+import inlineHandlers from '@/handlers/inline';
+import membershipHandlers from '@/handlers/membership';
+import { REMINDER_CALLBACK } from '@/services/reminders';
 import databaseService from '@/services/supabase';
 import openaiService from '@/services/openai';
 import { pluginManager } from '@/plugins/manager';
+import { schedulerService } from '@/services/scheduler';
+import { createMcpRouter } from '@/mcp/http';
+import { createA2ARouter } from '@/a2a/http';
+import { getLocalAgent } from '@/a2a/agent';
 
 // Initialize Express app for health checks and webhooks
 const app = express();
@@ -45,6 +54,17 @@ app.post('/webhook/telegram', (req, res) => {
   return res.sendStatus(200);
 });
 
+// Model Context Protocol endpoint for IDE assistants (stdio: npm run mcp:stdio)
+if (config.mcp.enabled) {
+  app.use('/mcp', createMcpRouter());
+}
+
+// Agent-to-agent endpoint for other Buddian instances
+const a2aAgent = getLocalAgent();
+if (a2aAgent) {
+  app.use('/a2a', createA2ARouter(a2aAgent));
+}
+
 // Initialize Telegram bot
 const bot = new Telegraf<BotContext>(config.telegram.token);
 
@@ -65,11 +85,37 @@ bot.command('search', commandHandlers.search);
 bot.command('summary', commandHandlers.summary);
 bot.command('translate', commandHandlers.translate);
 bot.command('remind', commandHandlers.remind);
+bot.command('todo', commandHandlers.todo);
+bot.command('done', commandHandlers.done);
+bot.command('assign', commandHandlers.assign);
+bot.command('decisions', commandHandlers.decisions);
 bot.command('settings', commandHandlers.settings);
+bot.command('respond', commandHandlers.respond);
+bot.command('mydata', commandHandlers.mydata);
 bot.command('ping', commandHandlers.ping);
 
 // Plugin commands handler
 bot.command('plugins', commandHandlers.plugins);
+bot.command('peers', commandHandlers.peers);
+
+// Inline keyboard callbacks
+bot.action(ACTION_ITEM_CALLBACK, callbackHandlers.actionItem);
+bot.action(DECISION_CALLBACK, callbackHandlers.decision);
+bot.action(REMINDER_CALLBACK, callbackHandlers.reminder);
+bot.action(CHAT_SETTINGS_CALLBACK, callbackHandlers.chatSettings);
+bot.action(USER_SETTINGS_CALLBACK, callbackHandlers.userSettings);
+bot.action(DATA_DELETION_CALLBACK, callbackHandlers.dataDeletion);
+
+// Inline mode: @buddian <query> searches the user's chats from any chat
+bot.on('inline_query', inlineHandlers.query);
+bot.on('chosen_inline_result', inlineHandlers.chosen);
+
+// Membership: who is in each chat, for greetings and cross-chat access.
+// Join and leave service messages are handled here and not stored.
+bot.on('chat_member', membershipHandlers.chatMember);
+bot.on('my_chat_member', membershipHandlers.myChatMember);
+bot.on(message('new_chat_members'), membershipHandlers.newChatMembers);
+bot.on(message('left_chat_member'), membershipHandlers.leftChatMember);
 
 // Generic command handler for plugin commands
 bot.hears(/^\/(\w[-\w]*)(?:@[A-Za-z_]+)?(?:\s+(.*))?$/, async (ctx, next) => {
@@ -101,6 +147,11 @@ bot.hears(/^\/(\w[-\w]*)(?:@[A-Za-z_]+)?(?:\s+(.*))?$/, async (ctx, next) => {
 // Message handler for all non-command messages
 bot.on('message', handleMessage);
 
+// Edits update the stored message, its search entries and extracted items.
+// The Bot API does not report deletions in ordinary chats, so there is no
+// matching handler for deleted messages.
+bot.on('edited_message', handleEditedMessage);
+
 // Graceful shutdown handler
 const gracefulShutdown = async (signal: string) => {
   logShutdown(botLogger, 'buddian-bot', `Received ${signal}`, true);
@@ -108,6 +159,11 @@ const gracefulShutdown = async (signal: string) => {
   // Stop the bot
   bot.stop(signal);
   
+  // Stop scheduled digests and maintenance jobs
+  if (config.scheduler.enabled) {
+    schedulerService.stop();
+  }
+  
   // Shutdown plugin manager
   if (config.plugins.enabled) {
     await pluginManager.shutdown();
@@ -186,10 +242,19 @@ async function startApplication() {
     
     // Initialize plugin manager
     if (config.plugins.enabled) {
-      await pluginManager.initialize();
+      await pluginManager.initialize(bot.telegram);
       botLogger.info('🔌 Plugin manager initialized');
     }
     
+    // Start the scheduler for digests and maintenance jobs
+    if (config.scheduler.enabled) {
+      schedulerService.start(bot.telegram);
+      schedulerService.syncAllUsers().catch(error => {
+        logError(botLogger, error as Error, { operation: 'sync_user_schedules' });
+      });
+      botLogger.info('⏰ Scheduler started');
+    }
+    
     // Start Express server
     server = app.listen(config.app.port, () => {
       botLogger.info(`🚀 Express server listening on port ${config.app.port}`);
@@ -0,0 +1,318 @@
+import { spawn, ChildProcessWithoutNullStreams } from 'child_process';
+import { createInterface } from 'readline';
+import { MCPTool } from '@buddian/plugins';
+import { mcpLogger, logError } from '@/utils/logger';
+import { BuddianError, McpServerConfig } from '@/types';
+
+/**
+ * Client for an external MCP server launched as a child process, speaking
+ * newline-delimited JSON-RPC over its stdin and stdout. The process is
+ * restarted on the next call if it exits.
+ */
+
+const PROTOCOL_VERSION = '2025-06-18';
+const CLIENT_INFO = { name: 'buddian', version: '1.0.0' };
+
+// Time allowed for the process to start and answer initialize
+const START_TIMEOUT = 30000;
+// Do not respawn a server that keeps dying more often than this
+const MIN_RESTART_INTERVAL = 10000;
+
+// Inherited so servers can find their runtime and locale; everything else,
+// including the bot's tokens and keys, must be given in the server's env
+const INHERITED_ENV_VARS = process.platform === 'win32'
+  ? ['APPDATA', 'HOMEDRIVE', 'HOMEPATH', 'LOCALAPPDATA', 'PATH', 'PROCESSOR_ARCHITECTURE', 'SYSTEMDRIVE', 'SYSTEMROOT', 'TEMP', 'USERNAME', 'USERPROFILE', 'PROGRAMFILES']
+  : ['HOME', 'LOGNAME', 'PATH', 'SHELL', 'TERM', 'USER', 'LANG', 'TZ'];
+
+function serverEnv(env: Record<string, string>): Record<string, string> {
+  const inherited: Record<string, string> = {};
+  for (const name of INHERITED_ENV_VARS) {
+    const value = process.env[name];
+    // Skip exported shell functions
+    if (value !== undefined && !value.startsWith('()')) {
+      inherited[name] = value;
+    }
+  }
+  return { ...inherited, ...env };
+}
+
+export class McpClientError extends BuddianError {
+  constructor(message: string, serverId: string, context?: Record<string, any>) {
+    super(message, 'MCP_CLIENT_ERROR', 502, { serverId, ...context });
+    this.name = 'McpClientError';
+  }
+}
+
+export interface McpToolResult {
+  text: string; // Text content blocks joined; other content types are described
+  isError: boolean;
+}
+
+interface PendingRequest {
+  method: string;
+  timer: NodeJS.Timeout;
+  resolve: (value: any) => void;
+  reject: (error: Error) => void;
+}
+
+interface IncomingMessage {
+  id?: string | number | null;
+  method?: string;
+  params?: Record<string, any>;
+  result?: any;
+  error?: { code: number; message: string };
+}
+
+// Render tools/call content blocks as plain text
+function contentToText(content: unknown): string {
+  if (!Array.isArray(content)) {
+    return '';
+  }
+
+  return content.map((block: any) => {
+    switch (block?.type) {
+      case 'text':
+        return String(block.text ?? '');
+      case 'resource':
+        return typeof block.resource?.text === 'string' ? block.resource.text : `[resource ${block.resource?.uri ?? ''}]`;
+      case 'resource_link':
+        return `${block.name || 'Link'}: ${block.uri}`;
+      case 'image':
+      case 'audio':
+        return block.mimeType ? `[${block.type} ${block.mimeType}]` : `[${block.type}]`;
+      default:
+        return '';
+    }
+  }).filter(Boolean).join('\n');
+}
+
+export class McpStdioClient {
+  tools: MCPTool[] = [];
+  serverInfo: { name: string; version: string } = { name: '', version: '' };
+
+  private process: ChildProcessWithoutNullStreams | undefined;
+  private starting: Promise<void> | undefined;
+  private pending: Map<number, PendingRequest> = new Map();
+  private nextId = 1;
+  private lastStart = 0;
+  private toolsChanged = false;
+  private stopped = false;
+
+  constructor(
+    readonly id: string,
+    private server: McpServerConfig,
+    private timeout: number
+  ) {}
+
+  /**
+   * Start the server, perform the handshake and read its tools
+   */
+  async connect(): Promise<void> {
+    await this.ensureRunning();
+  }
+
+  async callTool(name: string, args: Record<string, any>): Promise<McpToolResult> {
+    await this.ensureRunning();
+
+    if (this.toolsChanged) {
+      await this.refreshTools();
+    }
+
+    const result = await this.request('tools/call', { name, arguments: args }, this.timeout);
+    const text = contentToText(result?.content) ||
+      (result?.structuredContent ? JSON.stringify(result.structuredContent, null, 2) : '');
+
+    return { text, isError: result?.isError === true };
+  }
+
+  async close(): Promise<void> {
+    this.stopped = true;
+    const child = this.process;
+    this.process = undefined;
+    this.failPending(new McpClientError(`MCP server ${this.id} was shut down`, this.id));
+
+    if (child && child.exitCode === null) {
+      child.stdin.end();
+      child.kill('SIGTERM');
+    }
+  }
+
+  private async ensureRunning(): Promise<void> {
+    if (this.stopped) {
+      throw new McpClientError(`MCP server ${this.id} has been shut down`, this.id);
+    }
+    if (this.process) {
+      return;
+    }
+
+    const sinceLastStart = Date.now() - this.lastStart;
+    if (this.lastStart && sinceLastStart < MIN_RESTART_INTERVAL) {
+      throw new McpClientError(`MCP server ${this.id} exited and is restarting; please try again shortly`, this.id);
+    }
+
+    this.starting ??= this.start().finally(() => {
+      this.starting = undefined;
+    });
+    await this.starting;
+  }
+
+  private async start(): Promise<void> {
+    this.lastStart = Date.now();
+
+    const child = spawn(this.server.command, this.server.args, {
+      env: serverEnv(this.server.env),
+      ...(this.server.cwd && { cwd: this.server.cwd }),
+      stdio: ['pipe', 'pipe', 'pipe']
+    });
+    this.process = child;
+
+    createInterface({ input: child.stdout, terminal: false })
+      .on('line', line => this.handleLine(line));
+    createInterface({ input: child.stderr, terminal: false })
+      .on('line', line => mcpLogger.debug({ server: this.id, line }, 'MCP server stderr'));
+
+    // Spawn failures (ENOENT) may not be followed by 'exit'
+    child.on('error', error => {
+      logError(mcpLogger, error, { operation: 'mcp_client_process', server: this.id });
+      if (this.process === child) {
+        this.process = undefined;
+      }
+      this.failPending(new McpClientError(`MCP server ${this.id} failed: ${error.message}`, this.id));
+    });
+    // Writes racing the process exit fail with EPIPE; 'exit' reports those
+    child.stdin.on('error', error => {
+      mcpLogger.debug({ server: this.id, error: error.message }, 'MCP server stdin closed');
+    });
+
+    child.on('exit', (code, signal) => {
+      if (this.process === child) {
+        this.process = undefined;
+      }
+      this.failPending(new McpClientError(`MCP server ${this.id} exited (${signal || `code ${code}`})`, this.id, { code, signal }));
+      if (!this.stopped) {
+        mcpLogger.warn({ server: this.id, code, signal }, 'MCP server exited; it will restart on the next call');
+      }
+    });
+
+    try {
+      const initialized = await this.request('initialize', {
+        protocolVersion: PROTOCOL_VERSION,
+        capabilities: {},
+        clientInfo: CLIENT_INFO
+      }, START_TIMEOUT);
+
+      this.serverInfo = {
+        name: String(initialized?.serverInfo?.name || this.id),
+        version: String(initialized?.serverInfo?.version || '0.0.0')
+      };
+      this.notify('notifications/initialized');
+      await this.refreshTools();
+
+      mcpLogger.info({
+        server: this.id,
+        serverName: this.serverInfo.name,
+        protocolVersion: initialized?.protocolVersion,
+        toolCount: this.tools.length
+      }, 'Connected to MCP server');
+    } catch (error) {
+      if (this.process === child) {
+        this.process = undefined;
+      }
+      child.kill('SIGTERM');
+      throw error;
+    }
+  }
+
+  private async refreshTools(): Promise<void> {
+    const tools: MCPTool[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.request('tools/list', cursor ? { cursor } : {}, this.timeout);
+      tools.push(...(Array.isArray(page?.tools) ? page.tools : []));
+      cursor = typeof page?.nextCursor === 'string' ? page.nextCursor : undefined;
+    } while (cursor);
+
+    this.tools = tools.filter(tool => typeof tool?.name === 'string' && tool.name.length > 0);
+    this.toolsChanged = false;
+  }
+
+  private request(method: string, params: Record<string, any>, timeout: number): Promise<any> {
+    const child = this.process;
+    if (!child) {
+      return Promise.reject(new McpClientError(`MCP server ${this.id} is not running`, this.id));
+    }
+
+    const id = this.nextId++;
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        this.notify('notifications/cancelled', { requestId: id, reason: 'Timed out' });
+        reject(new McpClientError(`MCP ${method} timed out after ${timeout}ms`, this.id, { method }));
+      }, timeout);
+
+      this.pending.set(id, { method, timer, resolve, reject });
+      child.stdin.write(`${JSON.stringify({ jsonrpc: '2.0', id, method, params })}\n`);
+    });
+  }
+
+  private notify(method: string, params?: Record<string, any>): void {
+    this.process?.stdin.write(`${JSON.stringify({ jsonrpc: '2.0', method, ...(params && { params }) })}\n`);
+  }
+
+  private handleLine(line: string): void {
+    if (!line.trim()) {
+      return;
+    }
+
+    let message: IncomingMessage;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      mcpLogger.warn({ server: this.id, line: line.substring(0, 200) }, 'Ignoring non-JSON output from MCP server');
+      return;
+    }
+
+    // Requests from the server: we offer no client capabilities beyond ping
+    if (typeof message.method === 'string' && message.id !== undefined) {
+      const reply = message.method === 'ping'
+        ? { jsonrpc: '2.0', id: message.id, result: {} }
+        : { jsonrpc: '2.0', id: message.id, error: { code: -32601, message: `Method not found: ${message.method}` } };
+      this.process?.stdin.write(`${JSON.stringify(reply)}\n`);
+      return;
+    }
+
+    if (typeof message.method === 'string') {
+      if (message.method === 'notifications/tools/list_changed') {
+        this.toolsChanged = true;
+      }
+      return;
+    }
+
+    const pending = typeof message.id === 'number' ? this.pending.get(message.id) : undefined;
+    if (!pending) {
+      return;
+    }
+    this.pending.delete(message.id as number);
+    clearTimeout(pending.timer);
+
+    if (message.error) {
+      pending.reject(new McpClientError(
+        `MCP ${pending.method} failed: ${message.error.message}`,
+        this.id,
+        { method: pending.method, code: message.error.code }
+      ));
+    } else {
+      pending.resolve(message.result);
+    }
+  }
+
+  private failPending(error: Error): void {
+    for (const pending of this.pending.values()) {
+      clearTimeout(pending.timer);
+      pending.reject(error);
+    }
+    this.pending.clear();
+  }
+}
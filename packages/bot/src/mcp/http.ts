@@ -0,0 +1,68 @@
+import { Router, Request, Response } from 'express';
+import { KnowledgeServer, resolveMcpClient } from '@/mcp/server';
+import { handleMcpMessage, JsonRpcResponse, JSON_RPC_ERRORS } from '@/mcp/rpc';
+import { mcpLogger } from '@/utils/logger';
+
+// Batches larger than this are refused rather than run one by one
+const MAX_BATCH_SIZE = 20;
+
+function bearerToken(req: Request): string | undefined {
+  const header = req.headers.authorization;
+  return header?.startsWith('Bearer ') ? header.substring('Bearer '.length).trim() : undefined;
+}
+
+/**
+ * Stateless Streamable HTTP transport: every POST carries one JSON-RPC
+ * message or batch and gets a JSON reply. The server never pushes messages,
+ * so there is no SSE stream to open with GET.
+ */
+export function createMcpRouter(): Router {
+  const router = Router();
+
+  router.post('/', async (req: Request, res: Response) => {
+    const client = resolveMcpClient(bearerToken(req));
+    if (!client) {
+      mcpLogger.warn({ ip: req.ip }, 'MCP request with missing or unknown token');
+      res.setHeader('WWW-Authenticate', 'Bearer realm="buddian-mcp"');
+      return res.status(401).json({
+        jsonrpc: '2.0',
+        id: null,
+        error: { code: JSON_RPC_ERRORS.invalidRequest, message: 'Unauthorized' }
+      });
+    }
+
+    const server = new KnowledgeServer(client);
+    const batch = Array.isArray(req.body);
+    const messages: unknown[] = batch ? req.body : [req.body];
+
+    if (messages.length === 0 || messages.length > MAX_BATCH_SIZE) {
+      return res.status(400).json({
+        jsonrpc: '2.0',
+        id: null,
+        error: { code: JSON_RPC_ERRORS.invalidRequest, message: `Batches must hold 1-${MAX_BATCH_SIZE} messages` }
+      });
+    }
+
+    const responses: JsonRpcResponse[] = [];
+    for (const message of messages) {
+      const response = await handleMcpMessage(server, message);
+      if (response) {
+        responses.push(response);
+      }
+    }
+
+    // Only notifications: accepted, nothing to return
+    if (responses.length === 0) {
+      return res.sendStatus(202);
+    }
+
+    return res.json(batch ? responses : responses[0]);
+  });
+
+  router.all('/', (_req: Request, res: Response) => {
+    res.setHeader('Allow', 'POST');
+    res.sendStatus(405);
+  });
+
+  return router;
+}
@@ -0,0 +1,161 @@
+import { KnowledgeServer, ResourceNotFoundError, MCP_RESOURCE_TEMPLATES } from '@/mcp/server';
+import { mcpLogger, logError } from '@/utils/logger';
+import { AccessDeniedError, ValidationError } from '@/types';
+
+/**
+ * JSON-RPC 2.0 message handling shared by the stdio and HTTP transports
+ */
+
+export type JsonRpcId = string | number | null;
+
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: JsonRpcId;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+// Newest first; the client's version is used when we support it
+const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+export const JSON_RPC_ERRORS = {
+  parseError: -32700,
+  invalidRequest: -32600,
+  methodNotFound: -32601,
+  invalidParams: -32602,
+  internalError: -32603,
+  accessDenied: -32001,
+  resourceNotFound: -32002
+} as const;
+
+function errorResponse(id: JsonRpcId, code: number, message: string, data?: unknown): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, error: { code, message, ...(data !== undefined && { data }) } };
+}
+
+export function parseErrorResponse(): JsonRpcResponse {
+  return errorResponse(null, JSON_RPC_ERRORS.parseError, 'Parse error');
+}
+
+class MethodNotFoundError extends Error {
+  constructor(method: string) {
+    super(`Method not found: ${method}`);
+    this.name = 'MethodNotFoundError';
+  }
+}
+
+async function dispatch(server: KnowledgeServer, method: string, params: Record<string, any>): Promise<unknown> {
+  switch (method) {
+    case 'initialize': {
+      const requested = typeof params['protocolVersion'] === 'string' ? params['protocolVersion'] : '';
+      return {
+        protocolVersion: SUPPORTED_PROTOCOL_VERSIONS.includes(requested) ? requested : SUPPORTED_PROTOCOL_VERSIONS[0],
+        capabilities: {
+          tools: { listChanged: false },
+          resources: { subscribe: false, listChanged: false }
+        },
+        serverInfo: { name: server.name, version: server.version },
+        instructions: 'Read-only access to Telegram chat history, shared documents and action items. Use list_chats to see which chats you may read.'
+      };
+    }
+
+    case 'ping':
+      return {};
+
+    case 'tools/list':
+      return { tools: server.tools };
+
+    case 'tools/call': {
+      const name = params['name'];
+      if (typeof name !== 'string' || !server.tools.some(tool => tool.name === name)) {
+        throw new ValidationError(`Unknown tool: ${name}`);
+      }
+
+      // Failures inside a tool are results the model can read, not protocol errors
+      try {
+        const data = await server.callTool(name, params['arguments'] || {});
+        return {
+          content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+          structuredContent: Array.isArray(data) ? { items: data } : data
+        };
+      } catch (error) {
+        const expected = error instanceof AccessDeniedError || error instanceof ValidationError;
+        if (!expected) {
+          logError(mcpLogger, error as Error, { operation: 'mcp_tool', tool: name, client: server.client.name });
+        }
+        return {
+          content: [{ type: 'text', text: expected ? (error as Error).message : `${name} failed; please try again later` }],
+          isError: true
+        };
+      }
+    }
+
+    case 'resources/list':
+      return { resources: await server.listResources() };
+
+    case 'resources/templates/list':
+      return { resourceTemplates: MCP_RESOURCE_TEMPLATES };
+
+    case 'resources/read': {
+      const uri = params['uri'];
+      if (typeof uri !== 'string') {
+        throw new ValidationError('Resource uri is required');
+      }
+      return { contents: [await server.readResourceContents(uri)] };
+    }
+
+    default:
+      throw new MethodNotFoundError(method);
+  }
+}
+
+/**
+ * Handle one JSON-RPC message. Notifications get no response (null).
+ */
+export async function handleMcpMessage(server: KnowledgeServer, message: unknown): Promise<JsonRpcResponse | null> {
+  const request = message as { jsonrpc?: unknown; id?: unknown; method?: unknown; params?: unknown } | null;
+
+  if (!request || typeof request !== 'object' || request.jsonrpc !== '2.0' || typeof request.method !== 'string') {
+    const id = request && typeof request === 'object' && (typeof request.id === 'string' || typeof request.id === 'number') ? request.id : null;
+    return errorResponse(id, JSON_RPC_ERRORS.invalidRequest, 'Invalid request');
+  }
+
+  const isNotification = request.id === undefined;
+  if (isNotification) {
+    // notifications/initialized and cancellations need no action from a stateless server
+    mcpLogger.debug({ method: request.method, client: server.client.name }, 'MCP notification received');
+    return null;
+  }
+
+  const id = request.id as JsonRpcId;
+  const params = (request.params && typeof request.params === 'object' ? request.params : {}) as Record<string, any>;
+  const startTime = Date.now();
+
+  try {
+    const result = await dispatch(server, request.method, params);
+    mcpLogger.info({
+      method: request.method,
+      client: server.client.name,
+      ...(params['name'] && { tool: params['name'] }),
+      ...(params['uri'] && { uri: params['uri'] }),
+      duration: Date.now() - startTime
+    }, 'MCP request handled');
+    return { jsonrpc: '2.0', id, result };
+  } catch (error) {
+    if (error instanceof MethodNotFoundError) {
+      return errorResponse(id, JSON_RPC_ERRORS.methodNotFound, error.message);
+    }
+    if (error instanceof ValidationError) {
+      return errorResponse(id, JSON_RPC_ERRORS.invalidParams, error.message);
+    }
+    if (error instanceof AccessDeniedError) {
+      mcpLogger.warn({ method: request.method, client: server.client.name, ...error.context }, 'MCP access denied');
+      return errorResponse(id, JSON_RPC_ERRORS.accessDenied, error.message);
+    }
+    if (error instanceof ResourceNotFoundError) {
+      return errorResponse(id, JSON_RPC_ERRORS.resourceNotFound, error.message, { uri: error.uri });
+    }
+
+    logError(mcpLogger, error as Error, { operation: 'mcp_request', method: request.method, client: server.client.name });
+    return errorResponse(id, JSON_RPC_ERRORS.internalError, 'Internal error');
+  }
+}
@@ -0,0 +1,428 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { z } from 'zod';
+import { MCPServer, MCPTool, MCPResource } from '@buddian/plugins';
+import { messageService, resourceService, actionItemService, decisionService } from '@/services/supabase';
+import { hybridSearchService } from '@/services/indexing';
+import openaiService from '@/services/openai';
+import { mcpConfig } from '@/config/env';
+import { AccessDeniedError, ValidationError, Resource } from '@/types';
+
+/**
+ * Read-only view of the chat knowledge base for Model Context Protocol
+ * clients. Every tool call and resource read is checked against the chats
+ * the client's token may read (MCP_ACCESS).
+ */
+
+export interface McpClient {
+  name: string; // Derived from the token, safe to log
+  chats: string[] | '*';
+}
+
+export interface ResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+export interface ResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType: string;
+}
+
+export class ResourceNotFoundError extends Error {
+  constructor(public uri: string) {
+    super(`Resource not found: ${uri}`);
+    this.name = 'ResourceNotFoundError';
+  }
+}
+
+const URI_SCHEME = 'buddian:';
+const SUMMARY_PERIODS = { day: 24 * 60 * 60 * 1000, week: 7 * 24 * 60 * 60 * 1000 } as const;
+const MIN_SUMMARY_CONTENT_LENGTH = 100;
+const MAX_LISTED_DOCUMENTS = 20;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const chatIdSchema = z.union([z.string().regex(/^-?\d+$/), z.number().int()]).transform(String);
+const chatIdProperty = { type: ['string', 'integer'], description: 'Telegram chat id, e.g. "-1001234567890"' };
+
+const toolArguments = {
+  search_chat: z.object({
+    chat_id: chatIdSchema,
+    query: z.string().min(1),
+    limit: z.number().int().min(1).max(50).default(10)
+  }),
+  get_messages: z.object({
+    chat_id: chatIdSchema,
+    limit: z.number().int().min(1).max(200).default(50),
+    before: z.number().int().positive().optional()
+  }),
+  get_resources: z.object({
+    chat_id: chatIdSchema,
+    type: z.enum(['pdf', 'image', 'url', 'video', 'audio']).optional(),
+    limit: z.number().int().min(1).max(50).default(20)
+  }),
+  get_action_items: z.object({
+    chat_id: chatIdSchema,
+    status: z.array(z.enum(['pending', 'in_progress', 'completed', 'cancelled'])).optional(),
+    limit: z.number().int().min(1).max(100).default(50)
+  }),
+  get_decisions: z.object({
+    chat_id: chatIdSchema,
+    since: z.number().int().positive().optional(),
+    limit: z.number().int().min(1).max(100).default(50)
+  }),
+  list_chats: z.object({})
+};
+
+type ToolName = keyof typeof toolArguments;
+
+export const MCP_TOOLS: MCPTool[] = [
+  {
+    name: 'search_chat',
+    description: 'Search a chat\'s messages, documents, decisions and action items by keywords and meaning',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        chat_id: chatIdProperty,
+        query: { type: 'string', description: 'What to look for' },
+        limit: { type: 'integer', minimum: 1, maximum: 50, default: 10 }
+      },
+      required: ['chat_id', 'query']
+    }
+  },
+  {
+    name: 'get_messages',
+    description: 'Recent messages of a chat, oldest first',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        chat_id: chatIdProperty,
+        limit: { type: 'integer', minimum: 1, maximum: 200, default: 50 },
+        before: { type: 'integer', description: 'Only messages before this Unix time in milliseconds' }
+      },
+      required: ['chat_id']
+    }
+  },
+  {
+    name: 'get_resources',
+    description: 'Links, documents and media shared in a chat, with their summaries',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        chat_id: chatIdProperty,
+        type: { type: 'string', enum: ['pdf', 'image', 'url', 'video', 'audio'] },
+        limit: { type: 'integer', minimum: 1, maximum: 50, default: 20 }
+      },
+      required: ['chat_id']
+    }
+  },
+  {
+    name: 'get_action_items',
+    description: 'Action items tracked in a chat, newest first',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        chat_id: chatIdProperty,
+        status: {
+          type: 'array',
+          items: { type: 'string', enum: ['pending', 'in_progress', 'completed', 'cancelled'] }
+        },
+        limit: { type: 'integer', minimum: 1, maximum: 100, default: 50 }
+      },
+      required: ['chat_id']
+    }
+  },
+  {
+    name: 'get_decisions',
+    description: 'Confirmed decisions in a chat\'s decision log, newest first; replaced and rejected ones are left out',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        chat_id: chatIdProperty,
+        since: { type: 'integer', description: 'Only decisions after this Unix time in milliseconds' },
+        limit: { type: 'integer', minimum: 1, maximum: 100, default: 50 }
+      },
+      required: ['chat_id']
+    }
+  },
+  {
+    name: 'list_chats',
+    description: 'Chats this client may read',
+    inputSchema: { type: 'object', properties: {} }
+  }
+];
+
+export const MCP_RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: 'buddian://chats/{chatId}/summary{?period}',
+    name: 'Chat summary',
+    description: 'AI summary of the last day (period=day) or week (period=week) of a chat',
+    mimeType: 'text/markdown'
+  },
+  {
+    uriTemplate: 'buddian://chats/{chatId}/documents/{resourceId}',
+    name: 'Stored document',
+    description: 'Extracted text and summary of a document, link or media file shared in a chat',
+    mimeType: 'text/markdown'
+  }
+];
+
+// Digests have the same length whatever the token, as timingSafeEqual requires
+function tokenDigest(token: string): Buffer {
+  return createHash('sha256').update(token).digest();
+}
+
+/**
+ * Look up the client a token belongs to; null for unknown tokens. Every
+ * configured token is compared in constant time, so response timing does
+ * not reveal how much of a token was right.
+ */
+export function resolveMcpClient(token: string | undefined): McpClient | null {
+  if (!token) {
+    return null;
+  }
+
+  const digest = tokenDigest(token);
+  let chats: string[] | '*' | undefined;
+  for (const [candidate, candidateChats] of mcpConfig.access) {
+    if (timingSafeEqual(tokenDigest(candidate), digest)) {
+      chats = candidateChats;
+    }
+  }
+  if (!chats) {
+    return null;
+  }
+
+  return {
+    name: `client-${createHash('sha256').update(token).digest('hex').substring(0, 8)}`,
+    chats
+  };
+}
+
+function resourceTitle(resource: Resource): string {
+  return resource.metadata?.title || resource.filename || resource.url || `${resource.type} ${resource.id}`;
+}
+
+function documentUri(resource: Resource): string {
+  return `buddian://chats/${resource.chatId}/documents/${resource.id}`;
+}
+
+export class KnowledgeServer implements MCPServer {
+  readonly name = 'buddian';
+  readonly version = '1.0.0';
+  readonly tools = MCP_TOOLS;
+  readonly resources: MCPResource[] = []; // Depends on the client; see listResources()
+
+  constructor(readonly client: McpClient) {}
+
+  canReadChat(chatId: string): boolean {
+    return this.client.chats === '*' || this.client.chats.includes(chatId);
+  }
+
+  private assertChatAccess(chatId: string): void {
+    if (!this.canReadChat(chatId)) {
+      throw new AccessDeniedError(`This client may not read chat ${chatId}`, { client: this.client.name, chatId });
+    }
+  }
+
+  async callTool(name: string, args: Record<string, any>): Promise<unknown> {
+    if (!(name in toolArguments)) {
+      throw new ValidationError(`Unknown tool: ${name}`, { tool: name });
+    }
+
+    const parsed = toolArguments[name as ToolName].safeParse(args ?? {});
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || 'arguments'}: ${issue.message}`);
+      throw new ValidationError(`Invalid arguments for ${name}: ${issues.join('; ')}`, { tool: name });
+    }
+
+    const params = parsed.data as Record<string, any>;
+    if (name === 'list_chats') {
+      return this.client.chats === '*'
+        ? { all: true, note: 'This client may read every chat' }
+        : { all: false, chats: this.client.chats };
+    }
+
+    const chatId: string = params['chat_id'];
+    this.assertChatAccess(chatId);
+
+    switch (name as Exclude<ToolName, 'list_chats'>) {
+      case 'search_chat': {
+        const results = await hybridSearchService.search(chatId, params['query'], { limit: params['limit'] });
+        return results.map(result => ({
+          id: result.id,
+          type: result.type,
+          content: result.content,
+          relevance: Number(result.relevanceScore.toFixed(3)),
+          timestamp: new Date(result.timestamp).toISOString(),
+          userId: result.userId
+        }));
+      }
+
+      case 'get_messages': {
+        const messages = await messageService.getMessages(chatId, params['limit'], params['before']);
+        return messages.reverse().map(message => ({
+          id: message.id,
+          userId: message.userId,
+          timestamp: new Date(message.timestamp).toISOString(),
+          type: message.messageType,
+          language: message.language,
+          content: message.content,
+          ...(message.editedAt && { editedAt: new Date(message.editedAt).toISOString() })
+        }));
+      }
+
+      case 'get_resources': {
+        const resources = await resourceService.getResources(chatId, params['type'], params['limit']);
+        return resources.map(resource => ({
+          id: resource.id,
+          uri: documentUri(resource),
+          type: resource.type,
+          title: resourceTitle(resource),
+          summary: resource.summary,
+          ...(resource.url && { url: resource.url }),
+          extractedAt: new Date(resource.extractedAt).toISOString()
+        }));
+      }
+
+      case 'get_action_items': {
+        const items = await actionItemService.getActionItems(chatId, {
+          ...(params['status'] && { statuses: params['status'] }),
+          limit: params['limit']
+        });
+        return items.map(item => ({
+          number: item.number,
+          title: item.title,
+          description: item.description,
+          status: item.status,
+          priority: item.priority,
+          ...(item.assignee && { assignee: item.assignee }),
+          ...(item.dueDate && { dueDate: new Date(item.dueDate).toISOString() }),
+          createdAt: new Date(item.createdAt).toISOString()
+        }));
+      }
+
+      case 'get_decisions': {
+        const decisions = await decisionService.getDecisions(chatId, {
+          statuses: ['confirmed'],
+          ...(params['since'] && { since: params['since'] }),
+          limit: params['limit']
+        });
+        return decisions.map(decision => ({
+          number: decision.number,
+          content: decision.content,
+          status: decision.status,
+          context: decision.context,
+          userId: decision.createdBy,
+          messageId: decision.messageId,
+          timestamp: new Date(decision.extractedAt).toISOString()
+        }));
+      }
+    }
+  }
+
+  async listResources(): Promise<MCPResource[]> {
+    // Clients with access to every chat discover chats through the templates instead
+    if (this.client.chats === '*') {
+      return [];
+    }
+
+    const resources: MCPResource[] = [];
+    for (const chatId of this.client.chats) {
+      resources.push({
+        uri: `buddian://chats/${chatId}/summary`,
+        name: `Summary of chat ${chatId}`,
+        description: 'AI summary of the last day of conversation',
+        mimeType: 'text/markdown'
+      });
+
+      const documents = await resourceService.getResources(chatId, undefined, MAX_LISTED_DOCUMENTS);
+      for (const document of documents) {
+        resources.push({
+          uri: documentUri(document),
+          name: resourceTitle(document),
+          description: document.summary.substring(0, 200),
+          mimeType: 'text/markdown'
+        });
+      }
+    }
+
+    return resources;
+  }
+
+  async readResource(uri: string): Promise<string> {
+    return (await this.readResourceContents(uri)).text;
+  }
+
+  /**
+   * Resolve a buddian://chats/{chatId}/... URI
+   */
+  async readResourceContents(uri: string): Promise<ResourceContents> {
+    let parsed: URL;
+    try {
+      parsed = new URL(uri);
+    } catch {
+      throw new ResourceNotFoundError(uri);
+    }
+
+    const [chatId, kind, resourceId, ...rest] = parsed.pathname.split('/').filter(Boolean);
+    if (parsed.protocol !== URI_SCHEME || parsed.host !== 'chats' || !chatId || !/^-?\d+$/.test(chatId) || rest.length > 0) {
+      throw new ResourceNotFoundError(uri);
+    }
+
+    this.assertChatAccess(chatId);
+
+    if (kind === 'summary' && !resourceId) {
+      const period = parsed.searchParams.get('period') || 'day';
+      if (period !== 'day' && period !== 'week') {
+        throw new ResourceNotFoundError(uri);
+      }
+      return { uri, mimeType: 'text/markdown', text: await this.summarizeChat(chatId, period) };
+    }
+
+    if (kind === 'documents' && resourceId && UUID_PATTERN.test(resourceId)) {
+      const resource = await resourceService.getResource(resourceId);
+      // A document id from another chat is treated as missing, not as forbidden
+      if (!resource || resource.chatId !== chatId) {
+        throw new ResourceNotFoundError(uri);
+      }
+
+      const lines = [
+        `# ${resourceTitle(resource)}`,
+        '',
+        `Type: ${resource.type}`,
+        ...(resource.url ? [`URL: ${resource.url}`] : []),
+        `Shared: ${new Date(resource.extractedAt).toISOString()}`,
+        '',
+        '## Summary',
+        '',
+        resource.summary,
+        '',
+        '## Content',
+        '',
+        resource.content
+      ];
+      return { uri, mimeType: 'text/markdown', text: lines.join('\n') };
+    }
+
+    throw new ResourceNotFoundError(uri);
+  }
+
+  private async summarizeChat(chatId: string, period: keyof typeof SUMMARY_PERIODS): Promise<string> {
+    const messages = await messageService.getMessagesSince(chatId, Date.now() - SUMMARY_PERIODS[period]);
+    const conversationText = messages
+      .map(message => message.content)
+      .filter(content => content.length > 0)
+      .join('\n\n');
+
+    const heading = `# Chat ${chatId}: last ${period}`;
+    if (conversationText.length < MIN_SUMMARY_CONTENT_LENGTH) {
+      return `${heading}\n\nNot enough conversation in this period to summarize.`;
+    }
+
+    const summary = await openaiService.summary.summarizeContent(conversationText, 'conversation', 'en', 1000);
+    return `${heading}\n\n${summary}\n\n_${messages.length} messages_`;
+  }
+}
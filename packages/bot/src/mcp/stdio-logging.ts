@@ -0,0 +1,3 @@
+// Imported first by the stdio entry point: stdout carries protocol messages,
+// so logs must go to stderr before the logger is created
+process.env['LOG_DESTINATION'] = 'stderr';
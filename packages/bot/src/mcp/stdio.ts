@@ -0,0 +1,75 @@
+import '@/mcp/stdio-logging';
+import { createInterface } from 'readline';
+import { KnowledgeServer, resolveMcpClient } from '@/mcp/server';
+import { handleMcpMessage, parseErrorResponse, JsonRpcResponse } from '@/mcp/rpc';
+import { mcpConfig } from '@/config/env';
+import { mcpLogger, logError } from '@/utils/logger';
+
+/**
+ * MCP over stdio, for assistants that launch the server themselves:
+ * newline-delimited JSON-RPC on stdin and stdout. The client is identified
+ * by MCP_TOKEN, which must appear in MCP_ACCESS.
+ */
+
+function write(response: JsonRpcResponse | JsonRpcResponse[]): void {
+  process.stdout.write(`${JSON.stringify(response)}\n`);
+}
+
+async function handleLine(server: KnowledgeServer, line: string): Promise<void> {
+  let message: unknown;
+  try {
+    message = JSON.parse(line);
+  } catch {
+    write(parseErrorResponse());
+    return;
+  }
+
+  if (Array.isArray(message)) {
+    const responses: JsonRpcResponse[] = [];
+    for (const item of message) {
+      const response = await handleMcpMessage(server, item);
+      if (response) {
+        responses.push(response);
+      }
+    }
+    if (responses.length > 0) {
+      write(responses);
+    }
+    return;
+  }
+
+  const response = await handleMcpMessage(server, message);
+  if (response) {
+    write(response);
+  }
+}
+
+function main(): void {
+  const client = resolveMcpClient(mcpConfig.stdioToken);
+  if (!client) {
+    mcpLogger.error('MCP_TOKEN is missing or not listed in MCP_ACCESS');
+    process.exit(1);
+  }
+
+  const server = new KnowledgeServer(client);
+  const input = createInterface({ input: process.stdin, terminal: false });
+
+  // Requests run one at a time so responses keep the order of the requests
+  let queue: Promise<void> = Promise.resolve();
+  input.on('line', line => {
+    if (!line.trim()) {
+      return;
+    }
+    queue = queue.then(() => handleLine(server, line)).catch(error => {
+      logError(mcpLogger, error as Error, { operation: 'mcp_stdio_line' });
+    });
+  });
+
+  input.on('close', () => {
+    void queue.then(() => process.exit(0));
+  });
+
+  mcpLogger.info({ client: client.name, chats: client.chats === '*' ? 'all' : client.chats.length }, 'MCP stdio server ready');
+}
+
+main();
@@ -0,0 +1,207 @@
+import axios from 'axios';
+import { Agent as HttpAgent } from 'http';
+import { Agent as HttpsAgent } from 'https';
+import { Telegram } from 'telegraf';
+import {
+  PluginAPI,
+  PluginPermission,
+  PluginHttpRequest,
+  PluginHttpResponse,
+  PluginPermissionError,
+  PluginExecutionError
+} from '@buddian/plugins';
+import { messageService, resourceService, pluginService } from '@/services/supabase';
+import { pluginLogger } from '@/utils/logger';
+import { isPluginPermission } from '@/plugins/bridge';
+import { resolvePublicAddresses, pinnedLookup } from '@/plugins/http-guard';
+
+export interface PluginAPIOptions {
+  pluginId: string;
+  pluginRowId?: string; // Row in the plugins table; storage is unavailable without it
+  declared: string[];
+  chatId: string;
+  telegram: Telegram;
+  timeout: number;
+}
+
+const MAX_MESSAGE_LENGTH = 4000;
+const MAX_HISTORY_MESSAGES = 100;
+const MAX_RESOURCES = 50;
+const MAX_STORAGE_KEY_LENGTH = 200;
+const MAX_STORAGE_VALUE_BYTES = 64 * 1024;
+const MAX_HTTP_RESPONSE_BYTES = 5 * 1024 * 1024;
+const MAX_HTTP_REDIRECTS = 3;
+
+function responseHeaders(raw: Record<string, unknown>): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(raw)) {
+    if (value !== undefined && value !== null) {
+      headers[name] = Array.isArray(value) ? value.join(', ') : String(value);
+    }
+  }
+  return headers;
+}
+
+/**
+ * Host API for one plugin in one chat. Grants are read lazily on the first
+ * call that needs them, so plugins that never touch the API cost nothing.
+ */
+export function createPluginAPI(options: PluginAPIOptions): PluginAPI {
+  const { pluginId, pluginRowId, declared, chatId, telegram, timeout } = options;
+  let granted: Promise<PluginPermission[]> | undefined;
+
+  const getPermissions = (): Promise<PluginPermission[]> => {
+    granted ??= pluginService.getPermissionGrants(pluginId, chatId)
+      .then(grants => grants.filter(isPluginPermission).filter(permission => declared.includes(permission)));
+    return granted;
+  };
+
+  const ensurePermission = async (permission: PluginPermission): Promise<void> => {
+    if (!declared.includes(permission)) {
+      throw new PluginPermissionError(`Plugin ${pluginId} does not declare the ${permission} permission`, pluginId, permission);
+    }
+    if (!(await getPermissions()).includes(permission)) {
+      throw new PluginPermissionError(
+        `Plugin ${pluginId} needs the ${permission} permission in this chat. An admin can allow it with /plugins grant ${pluginId} ${permission}`,
+        pluginId,
+        permission,
+        { chatId }
+      );
+    }
+    pluginLogger.debug({ plugin: pluginId, chatId, permission }, 'Plugin API call allowed');
+  };
+
+  const ensureStorage = (key: string): string => {
+    if (!pluginRowId) {
+      throw new PluginExecutionError('Plugin storage is unavailable', pluginId, { chatId });
+    }
+    if (!key || key.length > MAX_STORAGE_KEY_LENGTH) {
+      throw new PluginExecutionError(`Storage keys must be 1-${MAX_STORAGE_KEY_LENGTH} characters`, pluginId, { key });
+    }
+    return pluginRowId;
+  };
+
+  return {
+    getPermissions,
+
+    async sendMessage(text: string): Promise<void> {
+      await ensurePermission('messages.send');
+      await telegram.sendMessage(chatId, text.substring(0, MAX_MESSAGE_LENGTH));
+    },
+
+    async getChatHistory(limit: number = 20) {
+      await ensurePermission('messages.read');
+      const messages = await messageService.getMessages(chatId, Math.min(Math.max(limit, 1), MAX_HISTORY_MESSAGES));
+      return messages.reverse().map(message => ({
+        userId: message.userId,
+        content: message.content,
+        timestamp: message.timestamp,
+        language: message.language,
+        messageType: message.messageType
+      }));
+    },
+
+    async getResources(limit: number = 10) {
+      await ensurePermission('resources.read');
+      const resources = await resourceService.getResources(chatId, undefined, Math.min(Math.max(limit, 1), MAX_RESOURCES));
+      return resources.map(resource => ({
+        id: resource.id,
+        type: resource.type,
+        title: resource.metadata?.title || resource.filename || resource.url || resource.type,
+        summary: resource.summary,
+        ...(resource.url && { url: resource.url })
+      }));
+    },
+
+    async http(request: PluginHttpRequest): Promise<PluginHttpResponse> {
+      await ensurePermission('network.http');
+
+      let url: URL;
+      try {
+        url = new URL(request.url);
+      } catch {
+        throw new PluginExecutionError(`Invalid URL: ${request.url}`, pluginId);
+      }
+
+      let method = request.method || 'GET';
+      let headers = request.headers;
+      let body = request.body;
+      let params = request.params;
+
+      // Redirects are followed here rather than by axios, so every hop is checked
+      for (let redirects = 0; ; redirects++) {
+        if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+          throw new PluginExecutionError(`Unsupported protocol: ${url.protocol}`, pluginId);
+        }
+        const lookup = pinnedLookup(await resolvePublicAddresses(url, pluginId));
+
+        const response = await axios.request({
+          url: url.toString(),
+          method,
+          ...(headers && { headers }),
+          ...(params && { params }),
+          ...(body !== undefined && { data: body }),
+          timeout: Math.min(request.timeout || timeout, timeout),
+          maxContentLength: MAX_HTTP_RESPONSE_BYTES,
+          maxRedirects: 0,
+          httpAgent: new HttpAgent({ lookup }),
+          httpsAgent: new HttpsAgent({ lookup }),
+          // Plugins see error statuses instead of exceptions
+          validateStatus: () => true
+        });
+
+        const location = response.headers['location'];
+        if (response.status >= 300 && response.status < 400 && typeof location === 'string') {
+          if (redirects >= MAX_HTTP_REDIRECTS) {
+            throw new PluginExecutionError(`Too many redirects fetching ${request.url}`, pluginId);
+          }
+
+          let next: URL;
+          try {
+            next = new URL(location, url);
+          } catch {
+            throw new PluginExecutionError(`Invalid redirect location: ${location}`, pluginId);
+          }
+          // Credentials stay with the origin they were meant for
+          if (next.origin !== url.origin && headers) {
+            headers = Object.fromEntries(Object.entries(headers).filter(([name]) => !/^(authorization|cookie)$/i.test(name)));
+          }
+          // Like browsers, only 307 and 308 repeat the method and body
+          if (response.status !== 307 && response.status !== 308) {
+            method = 'GET';
+            body = undefined;
+          }
+          // The query string of the redirect target is complete already
+          params = undefined;
+          url = next;
+          continue;
+        }
+
+        return { status: response.status, headers: responseHeaders(response.headers), data: response.data };
+      }
+    },
+
+    storage: {
+      async get(key: string) {
+        await ensurePermission('storage.read');
+        return pluginService.getStorageValue(ensureStorage(key), chatId, key) as Promise<any>;
+      },
+
+      async set(key: string, value: unknown) {
+        await ensurePermission('storage.write');
+        const rowId = ensureStorage(key);
+
+        const serialized = JSON.stringify(value);
+        if (serialized === undefined || Buffer.byteLength(serialized) > MAX_STORAGE_VALUE_BYTES) {
+          throw new PluginExecutionError(`Stored values must be JSON up to ${MAX_STORAGE_VALUE_BYTES} bytes`, pluginId, { key });
+        }
+        await pluginService.setStorageValue(rowId, chatId, key, JSON.parse(serialized));
+      },
+
+      async delete(key: string) {
+        await ensurePermission('storage.write');
+        await pluginService.deleteStorageValue(ensureStorage(key), chatId, key);
+      }
+    }
+  };
+}
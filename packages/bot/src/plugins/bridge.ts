@@ -0,0 +1,320 @@
+import {
+  BuddianPlugin,
+  PluginCommand,
+  PluginParameter,
+  PluginResult,
+  PluginMetadataSchema,
+  PluginConfigSchema,
+  PluginPermission,
+  PluginValidationError,
+  PLUGIN_PERMISSIONS
+} from '@buddian/plugins';
+import { ZodError } from 'zod';
+
+/**
+ * Glue between BuddianPlugin modules and the chat: shape checks, schema
+ * validation, argument parsing and rendering of command results
+ */
+
+// Telegram rejects messages longer than 4096 characters
+const MAX_REPLY_LENGTH = 4000;
+
+// Nested data is flattened this many levels deep when rendered
+const MAX_RENDER_DEPTH = 3;
+
+const TRUE_VALUES = ['true', 'yes', 'y', 'on', '1'];
+const FALSE_VALUES = ['false', 'no', 'n', 'off', '0'];
+
+/**
+ * Whether a module export looks like a BuddianPlugin instance
+ */
+export function isBuddianPlugin(candidate: unknown): candidate is BuddianPlugin {
+  const plugin = candidate as Partial<BuddianPlugin> | null;
+  return !!plugin &&
+    typeof plugin === 'object' &&
+    typeof plugin.metadata === 'object' &&
+    typeof plugin.config === 'object' &&
+    typeof plugin.activate === 'function' &&
+    typeof plugin.deactivate === 'function' &&
+    typeof plugin.executeCommand === 'function';
+}
+
+/**
+ * Pick the plugin out of an imported module: a default or named instance,
+ * or a class with a no-argument constructor
+ */
+export function resolvePluginExport(pluginModule: Record<string, unknown>): BuddianPlugin | null {
+  const candidates = [pluginModule['default'], pluginModule['plugin'], pluginModule];
+
+  for (const candidate of candidates) {
+    if (isBuddianPlugin(candidate)) {
+      return candidate;
+    }
+    if (typeof candidate === 'function') {
+      try {
+        const instance: unknown = new (candidate as new () => unknown)();
+        if (isBuddianPlugin(instance)) {
+          return instance;
+        }
+      } catch {
+        // Not a constructor we can call without arguments
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Whether a string names one of the permissions in PLUGIN_PERMISSIONS
+ */
+export function isPluginPermission(value: string): value is PluginPermission {
+  return Object.prototype.hasOwnProperty.call(PLUGIN_PERMISSIONS, value);
+}
+
+function formatZodIssues(error: ZodError): string {
+  return error.issues.map(issue => `${issue.path.join('.') || 'value'}: ${issue.message}`).join('; ');
+}
+
+/**
+ * Validate a plugin's metadata and config against the published schemas
+ */
+export function validatePlugin(plugin: BuddianPlugin): void {
+  const pluginId = typeof plugin.metadata?.id === 'string' ? plugin.metadata.id : 'unknown';
+
+  const metadata = PluginMetadataSchema.safeParse(plugin.metadata);
+  if (!metadata.success) {
+    throw new PluginValidationError(`Invalid plugin metadata: ${formatZodIssues(metadata.error)}`, pluginId);
+  }
+
+  const config = PluginConfigSchema.safeParse(plugin.config);
+  if (!config.success) {
+    throw new PluginValidationError(`Invalid plugin config: ${formatZodIssues(config.error)}`, pluginId);
+  }
+
+  const names = plugin.config.commands.map(command => command.name);
+  const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+  if (duplicate) {
+    throw new PluginValidationError(`Command "${duplicate}" is declared twice`, pluginId);
+  }
+
+  const unknown = plugin.config.permissions.filter(permission => !isPluginPermission(permission));
+  if (unknown.length > 0) {
+    throw new PluginValidationError(`Unknown permissions: ${unknown.join(', ')}`, pluginId, {
+      known: Object.keys(PLUGIN_PERMISSIONS)
+    });
+  }
+}
+
+function coerceValue(parameter: PluginParameter, raw: unknown, pluginId: string): unknown {
+  if (typeof raw !== 'string') {
+    return raw;
+  }
+
+  switch (parameter.type) {
+    case 'number': {
+      const value = Number(raw);
+      if (raw.trim() === '' || !Number.isFinite(value)) {
+        throw new PluginValidationError(`${parameter.name} must be a number`, pluginId, { parameter: parameter.name });
+      }
+      return value;
+    }
+
+    case 'boolean': {
+      const normalized = raw.trim().toLowerCase();
+      if (TRUE_VALUES.includes(normalized)) return true;
+      if (FALSE_VALUES.includes(normalized)) return false;
+      throw new PluginValidationError(`${parameter.name} must be yes or no`, pluginId, { parameter: parameter.name });
+    }
+
+    case 'array':
+      return raw.split(',').map(item => item.trim()).filter(Boolean);
+
+    case 'object':
+      try {
+        return JSON.parse(raw);
+      } catch {
+        throw new PluginValidationError(`${parameter.name} must be JSON`, pluginId, { parameter: parameter.name });
+      }
+
+    default:
+      return raw;
+  }
+}
+
+function checkValidation(parameter: PluginParameter, value: unknown, pluginId: string): void {
+  const { validation } = parameter;
+  if (!validation) {
+    return;
+  }
+
+  const fail = (reason: string) => {
+    throw new PluginValidationError(`${parameter.name} ${reason}`, pluginId, { parameter: parameter.name });
+  };
+
+  // min/max bound numbers by value, strings and arrays by length
+  const measure = typeof value === 'number'
+    ? value
+    : typeof value === 'string' || Array.isArray(value) ? value.length : undefined;
+  const unit = typeof value === 'number' ? '' : Array.isArray(value) ? ' items' : ' characters';
+
+  if (measure !== undefined && validation.min !== undefined && measure < validation.min) {
+    fail(`must be at least ${validation.min}${unit}`);
+  }
+  if (measure !== undefined && validation.max !== undefined && measure > validation.max) {
+    fail(`must be at most ${validation.max}${unit}`);
+  }
+
+  const values = Array.isArray(value) ? value : [value];
+
+  if (validation.pattern) {
+    const pattern = new RegExp(validation.pattern);
+    if (values.some(item => !pattern.test(String(item)))) {
+      fail('has an invalid format');
+    }
+  }
+
+  if (validation.enum && values.some(item => !validation.enum!.includes(String(item)))) {
+    fail(`must be one of: ${validation.enum.join(', ')}`);
+  }
+}
+
+// Whether a token is meant for a parameter: it has the parameter's type and,
+// for text, matches its enum or pattern. "Berlin 9" still gives days = 9,
+// which then fails validation instead of becoming part of the city.
+function fits(parameter: PluginParameter, token: string, pluginId: string): boolean {
+  try {
+    const value = coerceValue(parameter, token, pluginId);
+    if (parameter.type === 'string' || parameter.type === 'array') {
+      checkValidation(parameter, value, pluginId);
+    }
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Turn whitespace-separated command arguments into named parameters.
+ * `name=value` tokens are matched by name. The rest are positional, with the
+ * first string parameter taking every token the others do not, so that
+ * "/weather New York imperial" gives city "New York" and units "imperial".
+ */
+export function parseCommandArguments(
+  command: PluginCommand,
+  args: string[],
+  pluginId: string
+): Record<string, unknown> {
+  const raw: Record<string, unknown> = {};
+  const positional: string[] = [];
+
+  for (const arg of args) {
+    const named = arg.match(/^([A-Za-z_][\w-]*)=(.*)$/);
+    const parameter = named && command.parameters.find(candidate => candidate.name === named[1]);
+    if (named && parameter) {
+      raw[parameter.name] = named[2];
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  const remaining = command.parameters.filter(parameter => !(parameter.name in raw));
+  const greedyIndex = remaining.findIndex(parameter => parameter.type === 'string');
+  const leading = greedyIndex === -1 ? remaining : remaining.slice(0, greedyIndex);
+
+  for (const parameter of leading) {
+    const token = positional.shift();
+    if (token === undefined) break;
+    raw[parameter.name] = token;
+  }
+
+  const greedy = remaining[greedyIndex];
+  if (greedy) {
+    // Trailing parameters take tokens from the end when those tokens suit them
+    for (const parameter of remaining.slice(greedyIndex + 1).reverse()) {
+      const last = positional[positional.length - 1];
+      if (positional.length > 1 && last !== undefined && (parameter.required || fits(parameter, last, pluginId))) {
+        raw[parameter.name] = positional.pop();
+      }
+    }
+    if (positional.length > 0) {
+      raw[greedy.name] = positional.splice(0).join(' ');
+    }
+  }
+
+  if (positional.length > 0) {
+    throw new PluginValidationError(`Too many arguments. Usage: ${command.usage}`, pluginId, { command: command.name });
+  }
+
+  const parameters: Record<string, unknown> = {};
+  for (const parameter of command.parameters) {
+    if (raw[parameter.name] === undefined) {
+      if (parameter.default !== undefined) {
+        parameters[parameter.name] = parameter.default;
+      } else if (parameter.required) {
+        throw new PluginValidationError(`Missing ${parameter.name}. Usage: ${command.usage}`, pluginId, {
+          command: command.name,
+          parameter: parameter.name
+        });
+      }
+      continue;
+    }
+
+    const value = coerceValue(parameter, raw[parameter.name], pluginId);
+    checkValidation(parameter, value, pluginId);
+    parameters[parameter.name] = value;
+  }
+
+  return parameters;
+}
+
+function formatValue(value: unknown, depth: number): string {
+  if (value === null || value === undefined) {
+    return '-';
+  }
+  if (typeof value !== 'object') {
+    return String(value);
+  }
+  if (depth >= MAX_RENDER_DEPTH) {
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => formatValue(item, depth + 1)).join(', ');
+  }
+  return Object.entries(value)
+    .map(([key, item]) => `${key}: ${formatValue(item, depth + 1)}`)
+    .join(', ');
+}
+
+// Lists in the data are shown one item per line; scalars are left to the message
+function formatData(data: unknown): string[] {
+  if (data === null || data === undefined) {
+    return [];
+  }
+  if (Array.isArray(data)) {
+    return data.map(item => `• ${formatValue(item, 1)}`);
+  }
+  if (typeof data !== 'object') {
+    return [String(data)];
+  }
+  return Object.values(data).flatMap(value => Array.isArray(value) ? formatData(value) : []);
+}
+
+/**
+ * Render a command result as a plain-text chat reply
+ */
+export function renderPluginResult(result: PluginResult): string {
+  let text: string;
+
+  if (!result.success) {
+    text = `❌ ${result.error || result.message || 'Plugin command failed'}`;
+  } else if (result.message) {
+    text = [result.message, ...formatData(result.data)].join('\n');
+  } else if (typeof result.data === 'object' && result.data !== null && !Array.isArray(result.data)) {
+    text = Object.entries(result.data).map(([key, value]) => `${key}: ${formatValue(value, 1)}`).join('\n');
+  } else {
+    text = formatData(result.data).join('\n') || '✅ Done';
+  }
+
+  return text.length > MAX_REPLY_LENGTH ? `${text.substring(0, MAX_REPLY_LENGTH)}…` : text;
+}
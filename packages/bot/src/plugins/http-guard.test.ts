@@ -0,0 +1,56 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PluginPermissionError } from '@buddian/plugins';
+import { isInternalHost, resolvePublicAddresses, pinnedLookup } from '@/plugins/http-guard';
+
+describe('isInternalHost', () => {
+  it('refuses loopback, private and link-local hosts', () => {
+    for (const host of [
+      'localhost', 'db.localhost', 'metadata.internal', 'printer.local',
+      '127.0.0.1', '0.0.0.0', '10.1.2.3', '172.16.5.4', '192.168.1.1', '169.254.169.254', '100.64.0.1',
+      '[::1]', '::', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1'
+    ]) {
+      assert.equal(isInternalHost(host), true, host);
+    }
+  });
+
+  it('allows public hosts', () => {
+    for (const host of ['example.com', '8.8.8.8', '172.32.0.1', '100.128.0.1', '2606:4700:4700::1111']) {
+      assert.equal(isInternalHost(host), false, host);
+    }
+  });
+});
+
+describe('resolvePublicAddresses', () => {
+  it('passes public IP literals through without a lookup', async () => {
+    assert.deepEqual(await resolvePublicAddresses(new URL('https://93.184.216.34/path'), 'test'), [
+      { address: '93.184.216.34', family: 4 }
+    ]);
+    assert.deepEqual(await resolvePublicAddresses(new URL('http://[2606:4700:4700::1111]:8080'), 'test'), [
+      { address: '2606:4700:4700::1111', family: 6 }
+    ]);
+  });
+
+  it('refuses internal hosts before resolving them', async () => {
+    for (const url of ['http://localhost:3000', 'http://127.0.0.1', 'http://[::1]/', 'http://169.254.169.254/latest/meta-data']) {
+      await assert.rejects(resolvePublicAddresses(new URL(url), 'test'), PluginPermissionError, url);
+    }
+  });
+});
+
+describe('pinnedLookup', () => {
+  const addresses = [{ address: '93.184.216.34', family: 4 }, { address: '2606:2800:220:1::', family: 6 }];
+  const lookup = pinnedLookup(addresses);
+
+  it('answers with the checked addresses whatever the host name', () => {
+    lookup('elsewhere.example', { all: true }, (error, result) => {
+      assert.equal(error, null);
+      assert.deepEqual(result, addresses);
+    });
+    lookup('elsewhere.example', {}, (error, address, family) => {
+      assert.equal(error, null);
+      assert.equal(address, '93.184.216.34');
+      assert.equal(family, 4);
+    });
+  });
+});
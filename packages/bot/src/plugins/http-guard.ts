@@ -0,0 +1,74 @@
+import type { LookupAddress } from 'dns';
+import { lookup as dnsLookup } from 'dns/promises';
+import { isIP, LookupFunction } from 'net';
+import { PluginPermissionError, PluginExecutionError } from '@buddian/plugins';
+
+/**
+ * Address checks for plugin HTTP requests: internal hosts are refused and
+ * connections go only to the addresses that passed the check
+ */
+
+// Loopback, private and link-local addresses are off limits to plugins
+export function isInternalHost(hostname: string): boolean {
+  const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.internal') || host.endsWith('.local')) {
+    return true;
+  }
+
+  if (isIP(host) === 4) {
+    const [a = 0, b = 0] = host.split('.').map(Number);
+    return a === 0 || a === 10 || a === 127 ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 100 && b >= 64 && b <= 127);
+  }
+
+  if (isIP(host) === 6) {
+    return host === '::1' || host === '::' || host.startsWith('fc') || host.startsWith('fd') ||
+      host.startsWith('fe80') || host.startsWith('::ffff:');
+  }
+
+  return false;
+}
+
+/**
+ * Resolve a URL's host and refuse it if any of its addresses is internal, so
+ * public names pointing at private addresses are caught as well
+ */
+export async function resolvePublicAddresses(url: URL, pluginId: string): Promise<LookupAddress[]> {
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (isInternalHost(host)) {
+    throw new PluginPermissionError(`Plugins may not reach internal address ${url.hostname}`, pluginId, 'network.http');
+  }
+
+  let addresses: LookupAddress[];
+  try {
+    addresses = isIP(host) ? [{ address: host, family: isIP(host) }] : await dnsLookup(host, { all: true });
+  } catch {
+    throw new PluginExecutionError(`Could not resolve ${url.hostname}`, pluginId);
+  }
+
+  const internal = addresses.find(({ address }) => isInternalHost(address));
+  if (internal || addresses.length === 0) {
+    throw new PluginPermissionError(
+      `Plugins may not reach internal address ${url.hostname}${internal ? ` (${internal.address})` : ''}`,
+      pluginId,
+      'network.http'
+    );
+  }
+  return addresses;
+}
+
+// Connect only to the addresses already checked, so a second DNS answer cannot differ
+export function pinnedLookup(addresses: LookupAddress[]): LookupFunction {
+  return (_hostname, options, callback) => {
+    const [first] = addresses;
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, first!.address, first!.family);
+    }
+  };
+}
@@ -1,46 +1,37 @@
 import { readdirSync, statSync } from 'fs';
 import { join } from 'path';
-import { pluginsConfig } from '@/config/env';
+import { Telegram } from 'telegraf';
+import {
+  BuddianPlugin,
+  PluginCommand,
+  PluginContext,
+  PluginEvent,
+  PluginPermission,
+  PluginResult,
+  PluginTimeoutError,
+  PluginPermissionError
+} from '@buddian/plugins';
+import { pluginsConfig, mcpConfig } from '@/config/env';
+import { pluginService, userService } from '@/services/supabase';
+import { chatSettingsManager } from '@/services/chat-settings';
 import { pluginLogger, logError } from '@/utils/logger';
-import { BotContext } from '@/types';
-
-// Simple plugin interfaces to avoid import issues
-interface PluginCommand {
-  name: string;
-  description: string;
-  usage: string;
-  execute: (ctx: BotContext, args: string[]) => Promise<void>;
-}
-
-interface PluginContext {
-  userId: string;
-  chatId: string;
-  messageId: string;
-  language: string;
-  timestamp: number;
-  metadata: Record<string, any>;
-}
-
-interface PluginEvent {
-  type: string;
-  data: any;
-  context: PluginContext;
-  timestamp: number;
-}
-
-interface PluginInterface {
-  getName(): string;
-  getVersion(): string;
-  getCommands(): PluginCommand[];
-  initialize(): Promise<void>;
-  onEvent(event: PluginEvent): Promise<void>;
-  cleanup?(): Promise<void>;
-}
+import { BotContext, ChatSettings, QATool, UserPreferences } from '@/types';
+import {
+  resolvePluginExport,
+  validatePlugin,
+  parseCommandArguments,
+  renderPluginResult
+} from '@/plugins/bridge';
+import { createPluginAPI } from '@/plugins/api';
+import { SandboxedPlugin } from '@/plugins/sandbox';
+import { McpToolPlugin } from '@/plugins/mcp-tools';
 
 interface LoadedPlugin {
+  id: string;
   name: string;
   version: string;
-  plugin: PluginInterface;
+  rowId?: string; // plugins table row, holding permission grants and storage
+  plugin: BuddianPlugin;
   commands: Map<string, PluginCommand>;
   active: boolean;
   lastUsed?: number;
@@ -51,23 +42,39 @@ interface LoadedPlugin {
   };
 }
 
+// Context for lifecycle calls that are not tied to a chat
+function systemContext(messageId: string): PluginContext {
+  return {
+    userId: 'system',
+    chatId: 'system',
+    messageId,
+    language: 'en',
+    timestamp: Date.now(),
+    metadata: { source: 'plugin_manager' }
+  };
+}
+
 class PluginManager {
   private plugins: Map<string, LoadedPlugin> = new Map();
   private pluginDirectory: string;
   private initialized = false;
+  private telegram?: Telegram;
 
   constructor() {
     this.pluginDirectory = pluginsConfig.directory;
   }
 
   /**
-   * Initialize the plugin manager and discover plugins
+   * Initialize the plugin manager and discover plugins. The Telegram client
+   * lets plugins send messages from event handlers.
    */
-  async initialize(): Promise<void> {
+  async initialize(telegram?: Telegram): Promise<void> {
     if (this.initialized) {
       return;
     }
 
+    this.telegram = telegram;
+
     if (!pluginsConfig.enabled) {
       pluginLogger.info('Plugin system disabled', { enabled: false });
       return;
@@ -75,6 +82,7 @@ class PluginManager {
 
     try {
       await this.discoverPlugins();
+      await this.connectMcpServers();
       this.initialized = true;
       pluginLogger.info('Plugin manager initialized', { 
         pluginCount: this.plugins.size 
@@ -134,117 +142,309 @@ class PluginManager {
     const pluginPath = join(process.cwd(), this.pluginDirectory, pluginDir);
     
     try {
+      if (pluginsConfig.isolation === 'worker') {
+        const plugin = await SandboxedPlugin.load(pluginPath, {
+          timeout: pluginsConfig.timeout,
+          memoryLimitMb: pluginsConfig.memoryLimitMb,
+          maxCrashes: pluginsConfig.maxCrashes,
+          quarantineMs: pluginsConfig.quarantineMs
+        });
+
+        try {
+          await this.registerPlugin(plugin);
+        } catch (error) {
+          await plugin.cleanup();
+          throw error;
+        }
+        return;
+      }
+
       // Try to import the plugin
       const pluginModule = await import(pluginPath);
-      const plugin: PluginInterface = pluginModule.default || pluginModule;
+      const plugin = resolvePluginExport(pluginModule);
 
-      if (!plugin || typeof plugin.getName !== 'function') {
-        throw new Error(`Invalid plugin structure in ${pluginDir}`);
+      if (!plugin) {
+        throw new Error(`Invalid plugin structure in ${pluginDir}: no BuddianPlugin export`);
       }
 
-      // Initialize plugin
-      await plugin.initialize();
+      await this.registerPlugin(plugin);
 
-      // Create command map
-      const commands = new Map<string, PluginCommand>();
-      const pluginCommands = plugin.getCommands();
-      
-      pluginCommands.forEach(command => {
-        commands.set(command.name, command);
+    } catch (error) {
+      logError(pluginLogger, error as Error, {
+        operation: 'load_plugin',
+        pluginDir
       });
+    }
+  }
 
-      // Register plugin
-      const loadedPlugin: LoadedPlugin = {
-        name: plugin.getName(),
-        version: plugin.getVersion(),
-        plugin,
-        commands,
-        active: true,
-        stats: {
-          executions: 0,
-          errors: 0,
-          totalExecutionTime: 0
+  /**
+   * Spawn the external MCP servers from MCP_SERVERS and register each as a plugin
+   */
+  private async connectMcpServers(): Promise<void> {
+    for (const [serverId, server] of Object.entries(mcpConfig.servers)) {
+      try {
+        const plugin = await McpToolPlugin.connect(serverId, server, mcpConfig.clientTimeout);
+
+        try {
+          await this.registerPlugin(plugin);
+        } catch (error) {
+          await plugin.cleanup();
+          throw error;
         }
-      };
+      } catch (error) {
+        logError(pluginLogger, error as Error, {
+          operation: 'connect_mcp_server',
+          server: serverId
+        });
+      }
+    }
+  }
 
-      this.plugins.set(plugin.getName(), loadedPlugin);
+  /**
+   * Validate, configure and activate a plugin, then make its commands available
+   */
+  private async registerPlugin(plugin: BuddianPlugin): Promise<void> {
+    validatePlugin(plugin);
 
-      pluginLogger.info('Plugin loaded successfully', {
-        name: plugin.getName(),
-        version: plugin.getVersion(),
-        commandCount: commands.size
-      });
+    const { id, name, version } = plugin.metadata;
+    if (this.plugins.has(id)) {
+      throw new Error(`Plugin id "${id}" is already loaded`);
+    }
+
+    // Deployment-specific settings (API keys and the like) override the defaults
+    Object.assign(plugin.config.settings, pluginsConfig.settings[id] || {});
 
+    await this.withTimeout(plugin, plugin.activate(systemContext('activation')), 'activate');
+
+    // Without a row the plugin still runs, but nothing can be granted to it
+    let rowId: string | undefined;
+    try {
+      rowId = await pluginService.registerPlugin({
+        pluginId: id,
+        version,
+        description: plugin.metadata.description,
+        author: plugin.metadata.author
+      });
     } catch (error) {
       logError(pluginLogger, error as Error, {
-        operation: 'load_plugin',
-        pluginDir
+        operation: 'register_plugin_row',
+        plugin: id
       });
     }
+
+    const commands = new Map<string, PluginCommand>();
+    plugin.config.commands.forEach(command => {
+      commands.set(command.name, command);
+    });
+
+    this.plugins.set(id, {
+      id,
+      name,
+      version,
+      ...(rowId && { rowId }),
+      plugin,
+      commands,
+      active: true,
+      stats: {
+        executions: 0,
+        errors: 0,
+        totalExecutionTime: 0
+      }
+    });
+
+    pluginLogger.info('Plugin loaded successfully', {
+      id,
+      name,
+      version,
+      commandCount: commands.size
+    });
   }
 
   /**
    * Create a basic demo plugin if no plugins directory exists
    */
   private async createBasicDemoPlugin(): Promise<void> {
-    try {
-      // Create a simple demo plugin
-      const plugin: PluginInterface = {
-        getName: () => 'Demo Plugin',
-        getVersion: () => '1.0.0',
-        getCommands: () => [
+    const plugin: BuddianPlugin = {
+      metadata: {
+        id: 'demo',
+        name: 'Demo Plugin',
+        version: '1.0.0',
+        description: 'Built-in example plugin',
+        author: 'Buddian Team'
+      },
+      config: {
+        commands: [
           {
             name: 'demo',
             description: 'Demo plugin command',
             usage: '/demo [message]',
-            execute: async (ctx: BotContext, args: string[]) => {
-              const message = args.length > 0 ? args.join(' ') : 'Hello from demo plugin!';
-              await ctx.reply(`🔌 Demo Plugin: ${message}`);
-            }
+            parameters: [
+              {
+                name: 'message',
+                type: 'string',
+                required: false,
+                description: 'Text to echo back',
+                default: 'Hello from demo plugin!'
+              }
+            ]
           }
         ],
-        initialize: async () => {
-          pluginLogger.info('Demo plugin initialized');
-        },
-        onEvent: async (event: PluginEvent) => {
-          pluginLogger.debug('Demo plugin received event', { eventType: event.type });
-        }
-      };
-
-      await plugin.initialize();
+        permissions: [],
+        settings: {}
+      },
+      activate: async () => {
+        pluginLogger.info('Demo plugin initialized');
+      },
+      deactivate: async () => {},
+      executeCommand: async (_command, parameters) => ({
+        success: true,
+        message: `🔌 Demo Plugin: ${parameters['message']}`
+      }),
+      handleEvent: async (event: PluginEvent) => {
+        pluginLogger.debug('Demo plugin received event', { eventType: event.type });
+      }
+    };
 
-      const commands = new Map<string, PluginCommand>();
-      const pluginCommands = plugin.getCommands();
-      
-      pluginCommands.forEach(command => {
-        commands.set(command.name, command);
+    try {
+      await this.registerPlugin(plugin);
+    } catch (error) {
+      logError(pluginLogger, error as Error, {
+        operation: 'create_demo_plugin'
       });
+    }
+  }
 
-      const loadedPlugin: LoadedPlugin = {
-        name: plugin.getName(),
-        version: plugin.getVersion(),
-        plugin,
-        commands,
-        active: true,
-        stats: {
-          executions: 0,
-          errors: 0,
-          totalExecutionTime: 0
-        }
-      };
+  /**
+   * Race a plugin call against the plugin's timeout (or the global one).
+   * Sandboxed plugins enforce their own timeouts by terminating the worker,
+   * and MCP servers by cancelling the request; an in-process plugin keeps
+   * running after its timeout.
+   */
+  private async withTimeout<T>(plugin: BuddianPlugin, promise: Promise<T>, operation: string): Promise<T> {
+    if (plugin instanceof SandboxedPlugin || plugin instanceof McpToolPlugin) {
+      return promise;
+    }
+
+    const pluginId = plugin.metadata.id;
+    const limit = plugin.config.timeout || pluginsConfig.timeout;
+    let timer: NodeJS.Timeout | undefined;
+
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new PluginTimeoutError(`Plugin ${operation} timed out after ${limit}ms`, pluginId, { operation })),
+        limit
+      );
+    });
 
-      this.plugins.set(plugin.getName(), loadedPlugin);
+    try {
+      return await Promise.race([promise, timeoutPromise]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Give a context the plugin's API for its chat, gated by the chat's grants
+   */
+  private withAPI(context: PluginContext, loadedPlugin: LoadedPlugin, telegram: Telegram): PluginContext {
+    return {
+      ...context,
+      api: createPluginAPI({
+        pluginId: loadedPlugin.id,
+        ...(loadedPlugin.rowId && { pluginRowId: loadedPlugin.rowId }),
+        declared: loadedPlugin.plugin.config.permissions,
+        chatId: context.chatId,
+        telegram,
+        timeout: loadedPlugin.plugin.config.timeout || pluginsConfig.timeout
+      })
+    };
+  }
+
+  /**
+   * Context passed to plugin commands invoked from a chat
+   */
+  private buildContext(ctx: BotContext): PluginContext {
+    return {
+      userId: ctx.user?.id || ctx.from?.id.toString() || 'unknown',
+      chatId: ctx.chat?.id.toString() || 'unknown',
+      messageId: ctx.message?.message_id.toString() || 'unknown',
+      language: ctx.language || ctx.from?.language_code || 'en',
+      timestamp: Date.now(),
+      metadata: {
+        telegramUserId: ctx.from?.id,
+        telegramChatId: ctx.chat?.id,
+        ...(ctx.from?.username && { username: ctx.from.username })
+      }
+    };
+  }
+
+  /**
+   * Active plugin that provides a command
+   */
+  private findCommand(commandName: string): { loadedPlugin: LoadedPlugin; command: PluginCommand } | undefined {
+    for (const loadedPlugin of this.plugins.values()) {
+      const command = loadedPlugin.active ? loadedPlugin.commands.get(commandName) : undefined;
+      if (command) {
+        return { loadedPlugin, command };
+      }
+    }
+    return undefined;
+  }
 
-      pluginLogger.info('Demo plugin registered', {
-        name: plugin.getName(),
-        version: plugin.getVersion(),
-        commandCount: commands.size
+  /**
+   * Parse arguments, run the command with the chat's plugin API and record stats
+   */
+  private async invokeCommand(
+    loadedPlugin: LoadedPlugin,
+    command: PluginCommand,
+    args: string[],
+    context: PluginContext,
+    telegram: Telegram
+  ): Promise<PluginResult> {
+    const startTime = Date.now();
+
+    try {
+      const parameters = parseCommandArguments(command, args, loadedPlugin.id);
+
+      // Execute command with timeout
+      const result: PluginResult = await this.withTimeout(
+        loadedPlugin.plugin,
+        loadedPlugin.plugin.executeCommand(command.name, parameters, this.withAPI(context, loadedPlugin, telegram)),
+        `command /${command.name}`
+      );
+
+      // Update stats
+      const executionTime = Date.now() - startTime;
+      loadedPlugin.stats.executions++;
+      loadedPlugin.stats.totalExecutionTime += executionTime;
+      loadedPlugin.lastUsed = Date.now();
+      if (!result.success) {
+        loadedPlugin.stats.errors++;
+      }
+
+      pluginLogger.info('Plugin command executed', {
+        plugin: loadedPlugin.id,
+        command: command.name,
+        success: result.success,
+        executionTime,
+        args: args.length
       });
 
+      return result;
+
     } catch (error) {
+      const executionTime = Date.now() - startTime;
+      loadedPlugin.stats.errors++;
+      loadedPlugin.stats.totalExecutionTime += executionTime;
+
       logError(pluginLogger, error as Error, {
-        operation: 'create_demo_plugin'
+        operation: 'execute_plugin_command',
+        plugin: loadedPlugin.id,
+        command: command.name,
+        executionTime
       });
+
+      throw error;
     }
   }
 
@@ -261,69 +461,70 @@ class PluginManager {
     }
 
     // Find plugin that has this command
-    for (const [pluginName, loadedPlugin] of this.plugins) {
-      if (!loadedPlugin.active) {
-        continue;
-      }
+    const found = this.findCommand(commandName);
+    if (!found) {
+      return false;
+    }
 
-      const command = loadedPlugin.commands.get(commandName);
-      if (!command) {
-        continue;
-      }
+    if (ctx.chat && !(await this.isEnabledInChat(ctx.chat.id.toString(), found.loadedPlugin.id))) {
+      await ctx.reply(`🔌 ${found.loadedPlugin.name} is turned off in this chat. Admins can turn it on in /settings.`);
+      return true;
+    }
 
-      const startTime = Date.now();
+    const user = ctx.user ?? (ctx.from ? await userService.getUser(ctx.from.id) : null);
+    if (user && this.getUserDisabledPlugins(user.preferences).includes(found.loadedPlugin.id)) {
+      await ctx.reply(`🔌 You turned ${found.loadedPlugin.name} off. Turn it back on in /settings.`);
+      return true;
+    }
 
-      try {
-        // Execute command with timeout
-        const timeoutPromise = new Promise((_, reject) => {
-          setTimeout(() => reject(new Error('Plugin command timeout')), pluginsConfig.timeout);
-        });
+    try {
+      const result = await this.invokeCommand(found.loadedPlugin, found.command, args, this.buildContext(ctx), ctx.telegram);
+      await ctx.reply(renderPluginResult(result));
+      return true;
 
-        const executionPromise = command.execute(ctx, args);
-        
-        await Promise.race([executionPromise, timeoutPromise]);
-
-        // Update stats
-        const executionTime = Date.now() - startTime;
-        loadedPlugin.stats.executions++;
-        loadedPlugin.stats.totalExecutionTime += executionTime;
-        loadedPlugin.lastUsed = Date.now();
-
-        pluginLogger.info('Plugin command executed successfully', {
-          plugin: pluginName,
-          command: commandName,
-          executionTime,
-          args: args.length
+    } catch (error) {
+      // Send error message to user
+      try {
+        await ctx.reply(`❌ Plugin command failed: ${(error as Error).message}`);
+      } catch (replyError) {
+        logError(pluginLogger, replyError as Error, {
+          operation: 'plugin_error_reply'
         });
+      }
 
-        return true;
-
-      } catch (error) {
-        const executionTime = Date.now() - startTime;
-        loadedPlugin.stats.errors++;
-        loadedPlugin.stats.totalExecutionTime += executionTime;
-
-        logError(pluginLogger, error as Error, {
-          operation: 'execute_plugin_command',
-          plugin: pluginName,
-          command: commandName,
-          executionTime
-        });
+      return false;
+    }
+  }
 
-        // Send error message to user
-        try {
-          await ctx.reply(`❌ Plugin command failed: ${(error as Error).message}`);
-        } catch (replyError) {
-          logError(pluginLogger, replyError as Error, {
-            operation: 'plugin_error_reply'
-          });
-        }
+  /**
+   * Run a plugin command on behalf of the bot itself (e.g. the QA agent) and
+   * return its rendered result instead of replying. Null when no active
+   * plugin has the command.
+   */
+  async runCommand(
+    commandName: string,
+    args: string[],
+    context: { userId: string; chatId: string; language: string; telegram: Telegram }
+  ): Promise<string | null> {
+    if (!this.initialized || !pluginsConfig.enabled) {
+      return null;
+    }
 
-        return false;
-      }
+    const found = this.findCommand(commandName);
+    if (!found || !(await this.isEnabledInChat(context.chatId, found.loadedPlugin.id))) {
+      return null;
     }
 
-    return false;
+    const result = await this.invokeCommand(found.loadedPlugin, found.command, args, {
+      userId: context.userId,
+      chatId: context.chatId,
+      messageId: 'agent',
+      language: context.language,
+      timestamp: Date.now(),
+      metadata: { source: 'qa_agent' }
+    }, context.telegram);
+
+    return renderPluginResult(result);
   }
 
   /**
@@ -335,9 +536,10 @@ class PluginManager {
     }
 
     const promises: Promise<void>[] = [];
+    const disabledPlugins = this.getChatDisabledPlugins(await chatSettingsManager.getSettings(event.context.chatId));
 
     for (const [pluginName, loadedPlugin] of this.plugins) {
-      if (!loadedPlugin.active) {
+      if (!loadedPlugin.active || disabledPlugins.includes(loadedPlugin.id)) {
         continue;
       }
 
@@ -357,14 +559,17 @@ class PluginManager {
     loadedPlugin: LoadedPlugin,
     event: PluginEvent
   ): Promise<void> {
-    try {
-      const timeoutPromise = new Promise<void>((_, reject) => {
-        setTimeout(() => reject(new Error('Plugin event timeout')), pluginsConfig.timeout);
-      });
+    if (!loadedPlugin.plugin.handleEvent) {
+      return;
+    }
 
-      const eventPromise = loadedPlugin.plugin.onEvent(event);
-      
-      await Promise.race([eventPromise, timeoutPromise]);
+    // Events from a real chat carry the API when a Telegram client is available
+    const chatEvent = this.telegram && /^-?\d+$/.test(event.context.chatId)
+      ? { ...event, context: this.withAPI(event.context, loadedPlugin, this.telegram) }
+      : event;
+
+    try {
+      await this.withTimeout(loadedPlugin.plugin, loadedPlugin.plugin.handleEvent(chatEvent), `event ${event.type}`);
 
     } catch (error) {
       logError(pluginLogger, error as Error, {
@@ -376,50 +581,111 @@ class PluginManager {
   }
 
   /**
-   * Get list of available commands from all active plugins
+   * Get list of available commands from all active plugins, leaving out
+   * plugins a chat has turned off
    */
-  getAvailableCommands(): Array<{ plugin: string; command: PluginCommand }> {
+  getAvailableCommands(disabledPlugins: string[] = []): Array<{ plugin: string; command: PluginCommand }> {
     const commands: Array<{ plugin: string; command: PluginCommand }> = [];
 
-    for (const [pluginName, loadedPlugin] of this.plugins) {
-      if (!loadedPlugin.active) {
+    for (const loadedPlugin of this.plugins.values()) {
+      if (!loadedPlugin.active || disabledPlugins.includes(loadedPlugin.id)) {
         continue;
       }
 
       for (const command of loadedPlugin.commands.values()) {
-        commands.push({ plugin: pluginName, command });
+        commands.push({ plugin: loadedPlugin.name, command });
       }
     }
 
     return commands;
   }
 
+  /**
+   * Tools from active MCP server plugins that question answering may call
+   */
+  getQATools(disabledPlugins: string[] = []): QATool[] {
+    if (!this.initialized || !pluginsConfig.enabled) {
+      return [];
+    }
+
+    return Array.from(this.plugins.values())
+      .filter(loadedPlugin => loadedPlugin.active && loadedPlugin.plugin instanceof McpToolPlugin && !disabledPlugins.includes(loadedPlugin.id))
+      .flatMap(loadedPlugin => (loadedPlugin.plugin as McpToolPlugin).getQATools());
+  }
+
+  /**
+   * Whether a plugin starts off in every chat until an admin turns it on.
+   * MCP servers do: their tools act with the server's own credentials.
+   */
+  isOffByDefault(pluginId: string): boolean {
+    return this.plugins.get(pluginId)?.plugin instanceof McpToolPlugin;
+  }
+
+  /**
+   * Plugins that are off in a chat: those its admins turned off, and those
+   * off by default that nobody turned on
+   */
+  getChatDisabledPlugins(settings: ChatSettings): string[] {
+    const offByDefault = Array.from(this.plugins.keys())
+      .filter(id => this.isOffByDefault(id) && !settings.enabledPlugins.includes(id));
+    return [...settings.disabledPlugins, ...offByDefault];
+  }
+
+  private async isEnabledInChat(chatId: string, pluginId: string): Promise<boolean> {
+    const settings = await chatSettingsManager.getSettings(chatId);
+    return !this.getChatDisabledPlugins(settings).includes(pluginId);
+  }
+
+  /**
+   * Plugins a user turned off in /settings. An empty pluginsEnabled list
+   * means every plugin; otherwise only the listed plugins are on.
+   */
+  getUserDisabledPlugins(preferences?: UserPreferences): string[] {
+    if (!preferences || preferences.pluginsEnabled.length === 0) {
+      return [];
+    }
+
+    return Array.from(this.plugins.values())
+      .map(loadedPlugin => loadedPlugin.id)
+      .filter(id => !preferences.pluginsEnabled.includes(id));
+  }
+
   /**
    * Get plugin statistics
    */
   getPluginStats(): Array<{
+    id: string;
     name: string;
     version: string;
     active: boolean;
+    isolated: boolean;
+    quarantinedUntil?: number;
     commandCount: number;
     stats: LoadedPlugin['stats'];
     lastUsed?: number;
   }> {
-    return Array.from(this.plugins.values()).map(plugin => ({
-      name: plugin.name,
-      version: plugin.version,
-      active: plugin.active,
-      commandCount: plugin.commands.size,
-      stats: plugin.stats,
-      ...(plugin.lastUsed && { lastUsed: plugin.lastUsed })
-    }));
+    return Array.from(this.plugins.values()).map(plugin => {
+      const quarantinedUntil = plugin.plugin instanceof SandboxedPlugin ? plugin.plugin.getQuarantinedUntil() : undefined;
+
+      return {
+        id: plugin.id,
+        name: plugin.name,
+        version: plugin.version,
+        active: plugin.active,
+        isolated: plugin.plugin instanceof SandboxedPlugin,
+        ...(quarantinedUntil && { quarantinedUntil }),
+        commandCount: plugin.commands.size,
+        stats: plugin.stats,
+        ...(plugin.lastUsed && { lastUsed: plugin.lastUsed })
+      };
+    });
   }
 
   /**
    * Enable or disable a plugin
    */
-  setPluginActive(pluginName: string, active: boolean): boolean {
-    const plugin = this.plugins.get(pluginName);
+  setPluginActive(pluginId: string, active: boolean): boolean {
+    const plugin = this.plugins.get(pluginId);
     if (!plugin) {
       return false;
     }
@@ -427,7 +693,7 @@ class PluginManager {
     plugin.active = active;
     
     pluginLogger.info(`Plugin ${active ? 'enabled' : 'disabled'}`, {
-      plugin: pluginName
+      plugin: pluginId
     });
 
     return true;
@@ -446,10 +712,62 @@ class PluginManager {
   }
 
   /**
-   * Get plugin by name
+   * Permissions a plugin declares in its config
    */
-  getPlugin(pluginName: string): LoadedPlugin | undefined {
-    return this.plugins.get(pluginName);
+  getDeclaredPermissions(pluginId: string): PluginPermission[] {
+    const plugin = this.plugins.get(pluginId);
+    return plugin ? plugin.plugin.config.permissions as PluginPermission[] : [];
+  }
+
+  /**
+   * Whether a plugin may use a permission in a chat: declared and granted
+   */
+  async checkPermission(pluginId: string, chatId: string, permission: PluginPermission): Promise<boolean> {
+    if (!this.getDeclaredPermissions(pluginId).includes(permission)) {
+      return false;
+    }
+
+    const grants = await pluginService.getPermissionGrants(pluginId, chatId);
+    return grants.includes(permission);
+  }
+
+  /**
+   * Allow a plugin to use a declared permission in a chat
+   */
+  async grantPermission(pluginId: string, chatId: string, permission: PluginPermission): Promise<void> {
+    const plugin = this.plugins.get(pluginId);
+    if (!plugin) {
+      throw new Error(`Plugin ${pluginId} is not loaded`);
+    }
+    if (!this.getDeclaredPermissions(pluginId).includes(permission)) {
+      throw new PluginPermissionError(`Plugin ${pluginId} does not declare the ${permission} permission`, pluginId, permission);
+    }
+
+    const grants = await pluginService.getPermissionGrants(pluginId, chatId);
+    if (!grants.includes(permission)) {
+      await pluginService.setPermissionGrants(pluginId, chatId, [...grants, permission]);
+    }
+
+    pluginLogger.info('Plugin permission granted', { plugin: pluginId, chatId, permission });
+  }
+
+  /**
+   * Withdraw a permission from a plugin in a chat
+   */
+  async revokePermission(pluginId: string, chatId: string, permission: PluginPermission): Promise<void> {
+    const grants = await pluginService.getPermissionGrants(pluginId, chatId);
+    if (grants.includes(permission)) {
+      await pluginService.setPermissionGrants(pluginId, chatId, grants.filter(grant => grant !== permission));
+    }
+
+    pluginLogger.info('Plugin permission revoked', { plugin: pluginId, chatId, permission });
+  }
+
+  /**
+   * Get plugin by id
+   */
+  getPlugin(pluginId: string): LoadedPlugin | undefined {
+    return this.plugins.get(pluginId);
   }
 
   /**
@@ -478,6 +796,8 @@ class PluginManager {
    */
   private async shutdownPlugin(pluginName: string, loadedPlugin: LoadedPlugin): Promise<void> {
     try {
+      await this.withTimeout(loadedPlugin.plugin, loadedPlugin.plugin.deactivate(systemContext('shutdown')), 'deactivate');
+
       if (typeof loadedPlugin.plugin.cleanup === 'function') {
         await loadedPlugin.plugin.cleanup();
       }
@@ -0,0 +1,193 @@
+import {
+  BuddianPlugin,
+  MCPTool,
+  PluginCommand,
+  PluginConfig,
+  PluginContext,
+  PluginExecutionError,
+  PluginMetadata,
+  PluginParameter,
+  PluginResult
+} from '@buddian/plugins';
+import { McpStdioClient } from '@/mcp/client';
+import { pluginLogger } from '@/utils/logger';
+import { McpServerConfig, QATool } from '@/types';
+
+// Telegram command names: lowercase letters, digits and _, up to 32 characters
+const MAX_COMMAND_LENGTH = 32;
+// Function names accepted by the chat completions API
+const MAX_FUNCTION_NAME_LENGTH = 64;
+
+function commandName(serverId: string, toolName: string): string {
+  return `${serverId}_${toolName}`
+    .toLowerCase()
+    .replace(/[^a-z0-9_]+/g, '_')
+    .replace(/_+/g, '_')
+    .replace(/_$/, '')
+    .substring(0, MAX_COMMAND_LENGTH);
+}
+
+function functionName(serverId: string, toolName: string): string {
+  return `${serverId}__${toolName}`.replace(/[^A-Za-z0-9_-]/g, '_').substring(0, MAX_FUNCTION_NAME_LENGTH);
+}
+
+function parameterType(schema: Record<string, any>): PluginParameter['type'] {
+  const type = Array.isArray(schema['type']) ? schema['type'].find((t: unknown) => t !== 'null') : schema['type'];
+  switch (type) {
+    case 'number':
+    case 'integer':
+      return 'number';
+    case 'boolean':
+    case 'array':
+    case 'object':
+      return type;
+    default:
+      return 'string';
+  }
+}
+
+// Map a JSON Schema property onto a command parameter, keeping the checks
+// parseCommandArguments knows how to enforce
+function toParameter(name: string, schema: Record<string, any>, required: boolean): PluginParameter {
+  const validation: NonNullable<PluginParameter['validation']> = {
+    ...(typeof (schema['minimum'] ?? schema['minLength'] ?? schema['minItems']) === 'number' && {
+      min: schema['minimum'] ?? schema['minLength'] ?? schema['minItems']
+    }),
+    ...(typeof (schema['maximum'] ?? schema['maxLength'] ?? schema['maxItems']) === 'number' && {
+      max: schema['maximum'] ?? schema['maxLength'] ?? schema['maxItems']
+    }),
+    ...(typeof schema['pattern'] === 'string' && { pattern: schema['pattern'] }),
+    ...(Array.isArray(schema['enum']) && { enum: schema['enum'].map(String) })
+  };
+
+  return {
+    name,
+    type: parameterType(schema),
+    required,
+    description: String(schema['description'] || schema['title'] || name),
+    ...(schema['default'] !== undefined && { default: schema['default'] }),
+    ...(Object.keys(validation).length > 0 && { validation })
+  };
+}
+
+function toCommand(name: string, tool: MCPTool): PluginCommand {
+  const required = new Set(tool.inputSchema?.required || []);
+  const parameters = Object.entries(tool.inputSchema?.properties || {})
+    .map(([parameter, schema]) => toParameter(parameter, schema || {}, required.has(parameter)));
+
+  return {
+    name,
+    description: (tool.description || tool.name).split('\n')[0]!.substring(0, 200),
+    usage: [`/${name}`, ...parameters.map(p => p.required ? `<${p.name}>` : `[${p.name}]`)].join(' '),
+    parameters,
+    category: 'mcp'
+  };
+}
+
+/**
+ * An external MCP server presented to the manager as a BuddianPlugin: each of
+ * its tools becomes a command (prefixed with the server id) and, unless
+ * disabled, a tool the question-answering model may call.
+ */
+export class McpToolPlugin implements BuddianPlugin {
+  metadata!: PluginMetadata;
+  config!: PluginConfig;
+
+  // Command name -> MCP tool name
+  private commandTools: Map<string, string> = new Map();
+
+  private constructor(private serverId: string, private server: McpServerConfig, private client: McpStdioClient) {}
+
+  /**
+   * Spawn the server and build commands from the tools it lists
+   */
+  static async connect(serverId: string, server: McpServerConfig, timeout: number): Promise<McpToolPlugin> {
+    const client = new McpStdioClient(serverId, server, timeout);
+    await client.connect();
+
+    const plugin = new McpToolPlugin(serverId, server, client);
+    plugin.build();
+    return plugin;
+  }
+
+  async activate(_context: PluginContext): Promise<void> {}
+
+  async deactivate(_context: PluginContext): Promise<void> {}
+
+  async executeCommand(command: string, parameters: Record<string, any>, _context: PluginContext): Promise<PluginResult> {
+    const toolName = this.commandTools.get(command);
+    if (!toolName) {
+      throw new PluginExecutionError(`Unknown command /${command}`, this.metadata.id);
+    }
+
+    // Optional parameters left out stay out, so the server applies its own defaults
+    const args = Object.fromEntries(Object.entries(parameters).filter(([, value]) => value !== undefined));
+    const result = await this.client.callTool(toolName, args);
+
+    return result.isError
+      ? { success: false, error: result.text || `${toolName} failed` }
+      : { success: true, message: result.text || '✅ Done' };
+  }
+
+  async cleanup(): Promise<void> {
+    await this.client.close();
+  }
+
+  /**
+   * The server's current tools as QA functions; the list is read on every
+   * call so tools the server adds later are offered too
+   */
+  getQATools(): QATool[] {
+    if (!this.server.qa) {
+      return [];
+    }
+
+    return this.client.tools.map(tool => ({
+      name: functionName(this.serverId, tool.name),
+      description: tool.description || tool.name,
+      parameters: {
+        type: 'object',
+        properties: tool.inputSchema?.properties || {},
+        ...(tool.inputSchema?.required && { required: tool.inputSchema.required })
+      },
+      execute: async args => {
+        const result = await this.client.callTool(tool.name, args);
+        if (result.isError) {
+          throw new Error(result.text || `${tool.name} failed`);
+        }
+        return result.text;
+      }
+    }));
+  }
+
+  private build(): void {
+    const commands: PluginCommand[] = [];
+
+    if (this.server.commands) {
+      for (const tool of this.client.tools) {
+        const name = commandName(this.serverId, tool.name);
+        if (this.commandTools.has(name)) {
+          pluginLogger.warn({ server: this.serverId, tool: tool.name, command: name }, 'Skipping MCP tool whose command name is taken');
+          continue;
+        }
+        this.commandTools.set(name, tool.name);
+        commands.push(toCommand(name, tool));
+      }
+    }
+
+    this.metadata = {
+      id: `mcp-${this.serverId}`,
+      name: `${this.client.serverInfo.name} (MCP)`,
+      version: this.client.serverInfo.version,
+      description: `Tools from the external MCP server "${this.serverId}"`,
+      author: this.client.serverInfo.name,
+      tags: ['mcp']
+    };
+
+    this.config = {
+      commands,
+      permissions: [],
+      settings: {}
+    };
+  }
+}
@@ -0,0 +1,78 @@
+import {
+  PluginConfig,
+  PluginContext,
+  PluginError,
+  PluginEvent,
+  PluginExecutionError,
+  PluginMetadata,
+  PluginPermissionError,
+  PluginTimeoutError,
+  PluginValidationError
+} from '@buddian/plugins';
+
+/**
+ * Messages exchanged between the bot and a plugin worker. Kept free of bot
+ * imports so the worker does not load config, database or logging modules.
+ */
+
+export interface WorkerInit {
+  pluginPath: string;
+}
+
+// PluginAPI calls a worker can ask the bot to run on its behalf
+export type PluginAPIMethod =
+  | 'getPermissions'
+  | 'sendMessage'
+  | 'getChatHistory'
+  | 'getResources'
+  | 'http'
+  | 'storage.get'
+  | 'storage.set'
+  | 'storage.delete';
+
+export interface SerializedError {
+  name: string;
+  message: string;
+  code?: string;
+  permission?: string;
+}
+
+// Calls carry `api: true` when the bot will answer PluginAPI requests for them
+export type HostMessage =
+  | { type: 'activate'; callId: number; settings: Record<string, unknown>; context: PluginContext }
+  | { type: 'deactivate'; callId: number; context: PluginContext }
+  | { type: 'command'; callId: number; command: string; parameters: Record<string, unknown>; context: PluginContext; api: boolean }
+  | { type: 'event'; callId: number; event: PluginEvent; api: boolean }
+  | { type: 'api_result'; requestId: number; result?: unknown; error?: SerializedError };
+
+export type WorkerMessage =
+  | { type: 'loaded'; metadata: PluginMetadata; config: PluginConfig; hasEventHandler: boolean }
+  | { type: 'result'; callId: number; result?: unknown; error?: SerializedError }
+  | { type: 'api'; callId: number; requestId: number; method: PluginAPIMethod; args: unknown[] };
+
+export function serializeError(error: unknown): SerializedError {
+  if (error instanceof PluginPermissionError) {
+    return { name: error.name, message: error.message, code: error.code, permission: error.permission };
+  }
+  if (error instanceof PluginError) {
+    return { name: error.name, message: error.message, code: error.code };
+  }
+  if (error instanceof Error) {
+    return { name: error.name, message: error.message };
+  }
+  return { name: 'Error', message: String(error) };
+}
+
+// Rebuild plugin errors on the other side of the channel so callers can still tell them apart
+export function deserializeError(error: SerializedError, pluginId: string): Error {
+  switch (error.code) {
+    case 'PERMISSION_DENIED':
+      return new PluginPermissionError(error.message, pluginId, error.permission || 'unknown');
+    case 'TIMEOUT_ERROR':
+      return new PluginTimeoutError(error.message, pluginId);
+    case 'VALIDATION_ERROR':
+      return new PluginValidationError(error.message, pluginId);
+    default:
+      return new PluginExecutionError(error.message, pluginId, { name: error.name });
+  }
+}
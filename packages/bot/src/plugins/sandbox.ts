@@ -0,0 +1,399 @@
+import { Worker } from 'worker_threads';
+import { extname, join } from 'path';
+import {
+  BuddianPlugin,
+  PluginAPI,
+  PluginConfig,
+  PluginContext,
+  PluginEvent,
+  PluginExecutionError,
+  PluginMetadata,
+  PluginPermissionError,
+  PluginResult,
+  PluginTimeoutError
+} from '@buddian/plugins';
+import { pluginLogger, logError } from '@/utils/logger';
+import {
+  HostMessage,
+  WorkerMessage,
+  PluginAPIMethod,
+  serializeError,
+  deserializeError
+} from '@/plugins/protocol';
+
+export interface SandboxOptions {
+  timeout: number; // Default call timeout when the plugin sets none
+  memoryLimitMb: number;
+  maxCrashes: number; // Crashes within quarantineMs that trigger quarantine
+  quarantineMs: number;
+}
+
+// Calls are numbered by call() itself
+type WithoutCallId<T> = T extends unknown ? Omit<T, 'callId'> : never;
+type HostCall = WithoutCallId<Exclude<HostMessage, { type: 'api_result' }>>;
+
+interface PendingCall {
+  operation: string;
+  api?: PluginAPI;
+  timer: NodeJS.Timeout;
+  resolve: (value: any) => void;
+  reject: (error: Error) => void;
+}
+
+// Same extension as this file: .ts under tsx, .js once compiled
+const WORKER_SCRIPT = join(__dirname, `worker${extname(__filename)}`);
+
+// Workers do not inherit tsx's loader, so in development it is registered first
+const WORKER_SOURCE = extname(__filename) === '.ts'
+  ? `require('tsx/cjs/api').register(); require('tsx/esm/api').register(); require(${JSON.stringify(WORKER_SCRIPT)});`
+  : undefined;
+
+// Time allowed for the worker to import the plugin module
+const LOAD_TIMEOUT = 30000;
+
+// The only environment variables a plugin sees; tokens and keys stay in the bot
+const WORKER_ENV_VARS = ['NODE_ENV', 'TZ', 'LANG'];
+
+function workerEnv(): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const name of WORKER_ENV_VARS) {
+    const value = process.env[name];
+    if (value !== undefined) {
+      env[name] = value;
+    }
+  }
+  return env;
+}
+
+function invokeAPI(api: PluginAPI, method: PluginAPIMethod, args: unknown[]): Promise<unknown> {
+  switch (method) {
+    case 'getPermissions':
+      return api.getPermissions();
+    case 'sendMessage':
+      return api.sendMessage(String(args[0] ?? ''));
+    case 'getChatHistory':
+      return api.getChatHistory(args[0] as number | undefined);
+    case 'getResources':
+      return api.getResources(args[0] as number | undefined);
+    case 'http':
+      return api.http(args[0] as Parameters<PluginAPI['http']>[0]);
+    case 'storage.get':
+      return api.storage.get(String(args[0]));
+    case 'storage.set':
+      return api.storage.set(String(args[0]), args[1]);
+    case 'storage.delete':
+      return api.storage.delete(String(args[0]));
+    default:
+      return Promise.reject(new Error(`Unknown plugin API method: ${method}`));
+  }
+}
+
+// Functions (the API object) cannot cross the thread boundary
+function stripAPI(context: PluginContext): PluginContext {
+  const { api: _api, ...rest } = context;
+  return rest;
+}
+
+/**
+ * A plugin running in its own worker thread, presented to the manager as an
+ * ordinary BuddianPlugin. Calls past their timeout terminate the worker, so a
+ * hung or CPU-bound plugin cannot stall the bot. Crashed workers are restarted
+ * on the next call; a plugin that crashes too often is quarantined for a while.
+ */
+export class SandboxedPlugin implements BuddianPlugin {
+  metadata!: PluginMetadata;
+  config!: PluginConfig;
+  handleEvent?: (event: PluginEvent) => Promise<void>;
+
+  private worker: Worker | undefined;
+  private starting: Promise<void> | undefined;
+  private calls: Map<number, PendingCall> = new Map();
+  private nextCallId = 1;
+  private crashes: number[] = [];
+  private quarantinedUntil: number | undefined;
+  private activationContext: PluginContext | undefined;
+  private terminationReason: Error | undefined;
+  private stopped = false;
+
+  private constructor(private pluginPath: string, private options: SandboxOptions) {}
+
+  /**
+   * Start a worker for the plugin module at pluginPath and read its metadata
+   */
+  static async load(pluginPath: string, options: SandboxOptions): Promise<SandboxedPlugin> {
+    const sandbox = new SandboxedPlugin(pluginPath, options);
+    await sandbox.spawn();
+    return sandbox;
+  }
+
+  get id(): string {
+    return this.metadata?.id || this.pluginPath;
+  }
+
+  // Quarantine end time, while one is in force
+  getQuarantinedUntil(): number | undefined {
+    return this.quarantinedUntil && this.quarantinedUntil > Date.now() ? this.quarantinedUntil : undefined;
+  }
+
+  async activate(context: PluginContext): Promise<void> {
+    this.activationContext = stripAPI(context);
+    await this.call(
+      { type: 'activate', settings: this.config.settings, context: this.activationContext },
+      'activate'
+    );
+  }
+
+  async deactivate(context: PluginContext): Promise<void> {
+    if (!this.worker) {
+      return;
+    }
+    await this.call({ type: 'deactivate', context: stripAPI(context) }, 'deactivate');
+  }
+
+  async executeCommand(command: string, parameters: Record<string, any>, context: PluginContext): Promise<PluginResult> {
+    await this.ensureRunning();
+    return this.call(
+      { type: 'command', command, parameters, context: stripAPI(context), api: !!context.api },
+      `command /${command}`,
+      context.api
+    );
+  }
+
+  async cleanup(): Promise<void> {
+    this.stopped = true;
+    const worker = this.worker;
+    this.worker = undefined;
+    await worker?.terminate();
+  }
+
+  private async dispatchEvent(event: PluginEvent): Promise<void> {
+    // Events are not worth waking a quarantined plugin for
+    if (this.getQuarantinedUntil()) {
+      return;
+    }
+    await this.ensureRunning();
+    await this.call(
+      { type: 'event', event: { ...event, context: stripAPI(event.context) }, api: !!event.context.api },
+      `event ${event.type}`,
+      event.context.api
+    );
+  }
+
+  /**
+   * Restart a crashed worker, unless the plugin is quarantined
+   */
+  private async ensureRunning(): Promise<void> {
+    if (this.stopped) {
+      throw new PluginExecutionError(`Plugin ${this.id} has been shut down`, this.id);
+    }
+
+    const quarantinedUntil = this.getQuarantinedUntil();
+    if (quarantinedUntil) {
+      throw new PluginExecutionError(
+        `Plugin ${this.id} is disabled after repeated crashes until ${new Date(quarantinedUntil).toISOString()}`,
+        this.id,
+        { quarantinedUntil }
+      );
+    }
+
+    if (this.quarantinedUntil) {
+      // Quarantine is over; start with a clean record
+      this.quarantinedUntil = undefined;
+      this.crashes = [];
+    }
+
+    if (this.worker) {
+      return;
+    }
+
+    this.starting ??= (async () => {
+      try {
+        await this.spawn();
+        if (this.activationContext) {
+          await this.activate(this.activationContext);
+        }
+        pluginLogger.info({ plugin: this.id }, 'Plugin worker restarted');
+      } finally {
+        this.starting = undefined;
+      }
+    })();
+
+    await this.starting;
+  }
+
+  private spawn(): Promise<void> {
+    const memoryLimitMb = this.options.memoryLimitMb;
+    const worker = new Worker(WORKER_SOURCE || WORKER_SCRIPT, {
+      eval: !!WORKER_SOURCE,
+      workerData: { pluginPath: this.pluginPath },
+      env: workerEnv(),
+      resourceLimits: {
+        maxOldGenerationSizeMb: memoryLimitMb,
+        maxYoungGenerationSizeMb: Math.max(4, Math.round(memoryLimitMb / 8)),
+        stackSizeMb: 4
+      }
+    });
+    this.worker = worker;
+    this.terminationReason = undefined;
+
+    return new Promise<void>((resolve, reject) => {
+      let loaded = false;
+      let failure: Error | undefined;
+
+      const loadTimer = setTimeout(() => {
+        failure = new PluginTimeoutError(`Plugin load timed out after ${LOAD_TIMEOUT}ms`, this.id, { operation: 'load' });
+        void worker.terminate();
+      }, LOAD_TIMEOUT);
+
+      worker.on('message', (message: WorkerMessage) => {
+        if (message.type === 'loaded') {
+          loaded = true;
+          clearTimeout(loadTimer);
+          // A restarted worker keeps the config the manager already merged settings into
+          if (!this.metadata) {
+            this.metadata = message.metadata;
+            this.config = message.config;
+          }
+          this.handleEvent = message.hasEventHandler ? event => this.dispatchEvent(event) : undefined;
+          resolve();
+          return;
+        }
+        this.handleMessage(worker, message);
+      });
+
+      // Uncaught exceptions and exceeded memory limits; 'exit' always follows
+      worker.on('error', error => {
+        failure = error;
+        logError(pluginLogger, error, {
+          operation: 'plugin_worker',
+          plugin: this.id
+        });
+      });
+
+      worker.on('exit', code => {
+        clearTimeout(loadTimer);
+        if (this.worker === worker) {
+          this.worker = undefined;
+        }
+
+        const cause = failure || this.terminationReason;
+
+        if (!loaded) {
+          // A restart that fails to load counts towards quarantine too
+          if (this.metadata && !this.stopped) {
+            this.recordCrash(cause?.message || `exit code ${code}`);
+          }
+          reject(cause || new PluginExecutionError(`Plugin worker exited with code ${code} while loading`, this.id));
+          return;
+        }
+
+        this.failPendingCalls(cause || new PluginExecutionError(`Plugin worker exited with code ${code}`, this.id, { code }));
+        if (!this.stopped) {
+          this.recordCrash(cause?.message || `exit code ${code}`);
+        }
+      });
+    });
+  }
+
+  private handleMessage(worker: Worker, message: WorkerMessage): void {
+    switch (message.type) {
+      case 'result': {
+        const pending = this.calls.get(message.callId);
+        if (!pending) {
+          return;
+        }
+        this.calls.delete(message.callId);
+        clearTimeout(pending.timer);
+
+        if (message.error) {
+          pending.reject(deserializeError(message.error, this.id));
+        } else {
+          pending.resolve(message.result);
+        }
+        break;
+      }
+
+      case 'api':
+        void this.answerAPIRequest(worker, message);
+        break;
+    }
+  }
+
+  private async answerAPIRequest(worker: Worker, message: Extract<WorkerMessage, { type: 'api' }>): Promise<void> {
+    const api = this.calls.get(message.callId)?.api;
+
+    let reply: HostMessage;
+    try {
+      if (!api) {
+        throw new PluginPermissionError('The plugin API is not available for this call', this.id, message.method);
+      }
+      reply = { type: 'api_result', requestId: message.requestId, result: await invokeAPI(api, message.method, message.args) };
+    } catch (error) {
+      reply = { type: 'api_result', requestId: message.requestId, error: serializeError(error) };
+    }
+
+    // The worker may have been terminated while the request was running
+    if (this.worker === worker) {
+      worker.postMessage(reply);
+    }
+  }
+
+  /**
+   * Send a call to the worker and wait for its result. On timeout the worker
+   * is terminated, which also cancels whatever else it was doing.
+   */
+  private call<T>(message: HostCall, operation: string, api?: PluginAPI): Promise<T> {
+    const worker = this.worker;
+    if (!worker) {
+      return Promise.reject(new PluginExecutionError(`Plugin ${this.id} is not running`, this.id));
+    }
+
+    const callId = this.nextCallId++;
+    const limit = this.config.timeout || this.options.timeout;
+
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.calls.delete(callId);
+        this.terminationReason = new PluginTimeoutError(`Plugin ${operation} timed out after ${limit}ms`, this.id, { operation });
+        reject(this.terminationReason);
+
+        pluginLogger.warn({ plugin: this.id, operation, timeout: limit }, 'Terminating plugin worker after timeout');
+        void worker.terminate();
+      }, limit);
+
+      this.calls.set(callId, { operation, ...(api && { api }), timer, resolve, reject });
+      worker.postMessage({ ...message, callId });
+    });
+  }
+
+  private failPendingCalls(error: Error): void {
+    for (const pending of this.calls.values()) {
+      clearTimeout(pending.timer);
+      pending.reject(error);
+    }
+    this.calls.clear();
+  }
+
+  private recordCrash(reason: string): void {
+    const now = Date.now();
+    this.crashes = this.crashes.filter(time => now - time < this.options.quarantineMs);
+    this.crashes.push(now);
+
+    if (this.crashes.length >= this.options.maxCrashes) {
+      this.quarantinedUntil = now + this.options.quarantineMs;
+      pluginLogger.warn({
+        plugin: this.id,
+        crashes: this.crashes.length,
+        reason,
+        until: new Date(this.quarantinedUntil).toISOString()
+      }, 'Plugin quarantined after repeated crashes');
+      return;
+    }
+
+    pluginLogger.warn({
+      plugin: this.id,
+      crashes: this.crashes.length,
+      reason
+    }, 'Plugin worker crashed; it will restart on the next call');
+  }
+}
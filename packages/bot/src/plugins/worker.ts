@@ -0,0 +1,172 @@
+import Module from 'module';
+import { parentPort, workerData } from 'worker_threads';
+import { BuddianPlugin, PluginAPI, PluginContext } from '@buddian/plugins';
+import { resolvePluginExport } from './bridge';
+import {
+  HostMessage,
+  WorkerInit,
+  WorkerMessage,
+  PluginAPIMethod,
+  serializeError,
+  deserializeError
+} from './protocol';
+
+/**
+ * Worker thread entry point: loads one plugin module and runs its calls.
+ * Only relative imports here; the worker must not pull in the bot's config,
+ * database or logging modules.
+ */
+
+const port = parentPort;
+const { pluginPath } = workerData as WorkerInit;
+
+// Modules that would let a plugin reach the network, disk or other processes
+// without going through context.api and its permission checks
+const BLOCKED_MODULES = new Set([
+  'fs', 'net', 'tls', 'http', 'https', 'http2', 'dgram', 'dns', 'child_process',
+  'cluster', 'worker_threads', 'inspector', 'axios', 'undici', 'node-fetch'
+]);
+const BLOCKED_GLOBALS = ['fetch', 'WebSocket', 'EventSource'];
+
+interface ModuleLoader {
+  _load(request: string, parent: unknown, isMain: boolean): unknown;
+}
+
+/**
+ * Refuse blocked modules from here on. Whatever the worker itself needs is
+ * already loaded, and cached modules are looked up through the same check.
+ */
+function restrictModules(): void {
+  const loader = Module as unknown as ModuleLoader;
+  const load = loader._load;
+
+  loader._load = function (request, parent, isMain) {
+    const name = request.replace(/^node:/, '').split('/')[0]!;
+    if (BLOCKED_MODULES.has(name)) {
+      throw new Error(`Plugins cannot load '${request}'; use context.api instead`);
+    }
+    return load.call(this, request, parent, isMain);
+  };
+
+  for (const name of BLOCKED_GLOBALS) {
+    Reflect.deleteProperty(globalThis, name);
+  }
+}
+
+let plugin: BuddianPlugin;
+let nextRequestId = 1;
+const pendingRequests = new Map<number, { resolve: (value: any) => void; reject: (error: Error) => void }>();
+
+function post(message: WorkerMessage): void {
+  try {
+    port!.postMessage(message);
+  } catch {
+    // Results with functions or class instances cannot be cloned; send their JSON form
+    port!.postMessage(JSON.parse(JSON.stringify(message)));
+  }
+}
+
+// PluginAPI stand-in that forwards each call to the bot and waits for the answer
+function remoteAPI(callId: number): PluginAPI {
+  const call = (method: PluginAPIMethod, ...args: unknown[]): Promise<any> =>
+    new Promise((resolve, reject) => {
+      const requestId = nextRequestId++;
+      pendingRequests.set(requestId, { resolve, reject });
+      post({ type: 'api', callId, requestId, method, args });
+    });
+
+  return {
+    getPermissions: () => call('getPermissions'),
+    sendMessage: text => call('sendMessage', text),
+    getChatHistory: limit => call('getChatHistory', limit),
+    getResources: limit => call('getResources', limit),
+    http: request => call('http', request),
+    storage: {
+      get: key => call('storage.get', key),
+      set: (key, value) => call('storage.set', key, value),
+      delete: key => call('storage.delete', key)
+    }
+  };
+}
+
+function withAPI(context: PluginContext, callId: number, api: boolean): PluginContext {
+  return api ? { ...context, api: remoteAPI(callId) } : context;
+}
+
+async function run(callId: number, operation: () => Promise<unknown>): Promise<void> {
+  try {
+    post({ type: 'result', callId, result: await operation() });
+  } catch (error) {
+    post({ type: 'result', callId, error: serializeError(error) });
+  }
+}
+
+function handleMessage(message: HostMessage): void {
+  switch (message.type) {
+    case 'api_result': {
+      const pending = pendingRequests.get(message.requestId);
+      pendingRequests.delete(message.requestId);
+      if (message.error) {
+        pending?.reject(deserializeError(message.error, plugin.metadata.id));
+      } else {
+        pending?.resolve(message.result);
+      }
+      break;
+    }
+
+    case 'activate':
+      void run(message.callId, async () => {
+        Object.assign(plugin.config.settings, message.settings);
+        await plugin.activate(message.context);
+      });
+      break;
+
+    case 'deactivate':
+      void run(message.callId, async () => {
+        await plugin.deactivate(message.context);
+        if (typeof plugin.cleanup === 'function') {
+          await plugin.cleanup();
+        }
+      });
+      break;
+
+    case 'command':
+      void run(message.callId, () =>
+        plugin.executeCommand(message.command, message.parameters, withAPI(message.context, message.callId, message.api))
+      );
+      break;
+
+    case 'event':
+      void run(message.callId, async () => {
+        await plugin.handleEvent?.({
+          ...message.event,
+          context: withAPI(message.event.context, message.callId, message.api)
+        });
+      });
+      break;
+  }
+}
+
+async function start(): Promise<void> {
+  restrictModules();
+  const pluginModule = await import(pluginPath);
+  const resolved = resolvePluginExport(pluginModule);
+
+  if (!resolved) {
+    throw new Error(`Invalid plugin structure in ${pluginPath}: no BuddianPlugin export`);
+  }
+
+  plugin = resolved;
+  port!.on('message', handleMessage);
+
+  post({
+    type: 'loaded',
+    metadata: plugin.metadata,
+    config: plugin.config,
+    hasEventHandler: typeof plugin.handleEvent === 'function'
+  });
+}
+
+// A failed load is an unhandled rejection, which ends the worker and
+// surfaces as its 'error' event in the bot
+void start();
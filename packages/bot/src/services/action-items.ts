@@ -0,0 +1,262 @@
+import { createHash } from 'crypto';
+import { actionItemService, userService, messageService, isUniqueViolation } from '@/services/supabase';
+import { indexingService } from '@/services/indexing';
+import { databaseLogger, logError } from '@/utils/logger';
+import { ActionItem, User, ValidationError } from '@/types';
+
+type ActionItemStatus = ActionItem['status'];
+
+export const OPEN_STATUSES: ActionItemStatus[] = ['pending', 'in_progress'];
+
+// Allowed status transitions; completed and cancelled items can be reopened
+const ALLOWED_TRANSITIONS: Record<ActionItemStatus, ActionItemStatus[]> = {
+  pending: ['in_progress', 'completed', 'cancelled'],
+  in_progress: ['pending', 'completed', 'cancelled'],
+  completed: ['pending'],
+  cancelled: ['pending']
+};
+
+// Titles at least this similar are treated as the same task
+const DUPLICATE_SIMILARITY_THRESHOLD = 0.75;
+
+const PRIORITY_ORDER: Record<ActionItem['priority'], number> = { high: 3, medium: 2, low: 1 };
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'to', 'for', 'of', 'and', 'or', 'on', 'in', 'at', 'by', 'with',
+  'we', 'i', 'you', 'should', 'need', 'needs', 'must', 'will', 'please', 'up'
+]);
+
+function titleTokens(title: string): string[] {
+  const words = title.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  return [...new Set(words.filter(word => !STOP_WORDS.has(word)))].sort();
+}
+
+// Word-order independent hash of the meaningful words in a title
+export function computeFingerprint(title: string): string {
+  return createHash('sha1').update(titleTokens(title).join(' ')).digest('hex').substring(0, 16);
+}
+
+// Jaccard similarity of title words
+export function titleSimilarity(a: string, b: string): number {
+  const tokensA = new Set(titleTokens(a));
+  const tokensB = new Set(titleTokens(b));
+  if (tokensA.size === 0 || tokensB.size === 0) {
+    return 0;
+  }
+
+  const intersection = [...tokensA].filter(token => tokensB.has(token)).length;
+  return intersection / (tokensA.size + tokensB.size - intersection);
+}
+
+export function canTransition(from: ActionItemStatus, to: ActionItemStatus): boolean {
+  return ALLOWED_TRANSITIONS[from].includes(to);
+}
+
+export function sortByPriority(items: ActionItem[]): ActionItem[] {
+  return [...items].sort((a, b) => {
+    const priorityDiff = PRIORITY_ORDER[b.priority] - PRIORITY_ORDER[a.priority];
+    return priorityDiff !== 0 ? priorityDiff : b.createdAt - a.createdAt;
+  });
+}
+
+function findDuplicate(candidate: ActionItem, openItems: ActionItem[]): ActionItem | undefined {
+  const fingerprint = computeFingerprint(candidate.title);
+  return openItems.find(item =>
+    computeFingerprint(item.title) === fingerprint ||
+    titleSimilarity(item.title, candidate.title) >= DUPLICATE_SIMILARITY_THRESHOLD
+  );
+}
+
+async function reindex(item: ActionItem): Promise<void> {
+  if (item.chatId) {
+    await indexingService.indexActionItem({ ...item, chatId: item.chatId });
+  }
+}
+
+// Action item lifecycle on top of the action_items table
+export const actionItemManager = {
+  /**
+   * Resolve a name mentioned in the conversation ("@alice", "Alice") to a
+   * user who has taken part in the chat
+   */
+  async resolveAssignee(chatId: string, name: string): Promise<User | null> {
+    const participantIds = await messageService.getChatParticipantIds(chatId);
+    const participants = await userService.findUsersByName(name, participantIds);
+
+    // Ambiguous first names are left unresolved rather than guessed
+    return participants.length === 1 ? participants[0] || null : null;
+  },
+
+  /**
+   * Store freshly extracted items, merging each into an open item for the
+   * same task when one exists instead of creating a duplicate
+   */
+  async recordExtracted(
+    chatId: string,
+    extracted: ActionItem[],
+    messageId: string,
+    createdBy?: string
+  ): Promise<ActionItem[]> {
+    const openItems = await actionItemService.getActionItems(chatId, { statuses: OPEN_STATUSES, limit: 200 });
+    const recorded: ActionItem[] = [];
+
+    for (const candidate of extracted) {
+      if (!candidate.title?.trim()) {
+        continue;
+      }
+
+      try {
+        const duplicate = findDuplicate(candidate, openItems);
+
+        if (duplicate) {
+          const merged = await actionItemService.updateActionItem(duplicate.id, {
+            relatedMessages: [...new Set([...duplicate.relatedMessages, messageId])],
+            ...(candidate.description.length > duplicate.description.length && { description: candidate.description }),
+            ...(PRIORITY_ORDER[candidate.priority] > PRIORITY_ORDER[duplicate.priority] && { priority: candidate.priority }),
+            ...(!duplicate.assigneeUserId && candidate.assignee && await this.assigneeUpdate(chatId, candidate.assignee))
+          });
+
+          openItems.splice(openItems.indexOf(duplicate), 1, merged);
+          recorded.push(merged);
+          await reindex(merged);
+          continue;
+        }
+
+        const now = Date.now();
+        const created = await actionItemService.createActionItem({
+          chatId,
+          title: candidate.title.trim(),
+          description: candidate.description || '',
+          priority: PRIORITY_ORDER[candidate.priority] ? candidate.priority : 'medium',
+          status: 'pending',
+          ...(candidate.dueDate && { dueDate: candidate.dueDate }),
+          ...(candidate.assignee && await this.assigneeUpdate(chatId, candidate.assignee)),
+          ...(createdBy && { createdBy }),
+          relatedMessages: [messageId],
+          history: [],
+          createdAt: now,
+          updatedAt: now
+        }, computeFingerprint(candidate.title));
+
+        openItems.push(created);
+        recorded.push(created);
+        await reindex(created);
+      } catch (error) {
+        logError(databaseLogger, error as Error, {
+          operation: 'record_action_item',
+          chatId,
+          title: candidate.title.substring(0, 100)
+        });
+      }
+    }
+
+    return recorded;
+  },
+
+  /**
+   * After a message is edited and re-extracted, cancel the items only that
+   * message produced which nobody has acted on and which no longer appear
+   */
+  async retractStale(chatId: string, messageId: string, kept: ActionItem[]): Promise<ActionItem[]> {
+    const keptIds = new Set(kept.map(item => item.id));
+    const pending = await actionItemService.getActionItems(chatId, { statuses: ['pending'], limit: 200 });
+
+    const stale = pending.filter(item =>
+      !keptIds.has(item.id) &&
+      item.relatedMessages.length === 1 &&
+      item.relatedMessages[0] === messageId &&
+      !item.history?.length
+    );
+
+    const retracted: ActionItem[] = [];
+    for (const item of stale) {
+      retracted.push(await this.transition(item, 'cancelled'));
+    }
+    return retracted;
+  },
+
+  async assigneeUpdate(chatId: string, name: string): Promise<Pick<ActionItem, 'assignee' | 'assigneeUserId'>> {
+    const user = await this.resolveAssignee(chatId, name);
+    return {
+      assignee: user ? (user.username ? `@${user.username}` : user.firstName) : name,
+      ...(user && { assigneeUserId: user.id })
+    };
+  },
+
+  async transition(item: ActionItem, to: ActionItemStatus, byUserId?: string): Promise<ActionItem> {
+    if (item.status === to) {
+      return item;
+    }
+
+    if (!canTransition(item.status, to)) {
+      throw new ValidationError(`Cannot change action item from ${item.status} to ${to}`, {
+        itemId: item.id,
+        from: item.status,
+        to
+      });
+    }
+
+    const now = Date.now();
+    let updated: ActionItem;
+    try {
+      updated = await actionItemService.updateActionItem(item.id, {
+        status: to,
+        completedAt: to === 'completed' ? now : 0,
+        history: [...(item.history || []), { from: item.status, to, ...(byUserId && { by: byUserId }), at: now }]
+      });
+    } catch (error) {
+      // Reopening next to an open item with the same title
+      if (!isUniqueViolation(error, 'idx_action_items_open_fingerprint')) {
+        throw error;
+      }
+      const open = await actionItemService.getOpenDuplicate(item);
+      throw new ValidationError(
+        open ? `#${open.number} ${open.title} is already open` : 'The same action item is already open',
+        { itemId: item.id, openItemId: open?.id }
+      );
+    }
+
+    await reindex(updated);
+    return updated;
+  },
+
+  async assign(item: ActionItem, assignee: User): Promise<ActionItem> {
+    const updated = await actionItemService.updateActionItem(item.id, {
+      assignee: assignee.username ? `@${assignee.username}` : assignee.firstName,
+      assigneeUserId: assignee.id
+    });
+
+    await reindex(updated);
+    return updated;
+  },
+
+  /**
+   * Find an item from a user-supplied reference: "#12", "12" or its id
+   */
+  async resolveReference(chatId: string, reference: string): Promise<ActionItem | null> {
+    const trimmed = reference.trim();
+    const numberMatch = trimmed.match(/^#?(\d+)$/);
+
+    if (numberMatch?.[1]) {
+      return actionItemService.getActionItemByNumber(chatId, parseInt(numberMatch[1], 10));
+    }
+
+    if (/^[0-9a-f-]{36}$/i.test(trimmed)) {
+      const item = await actionItemService.getActionItem(trimmed);
+      return item && item.chatId === chatId ? item : null;
+    }
+
+    return null;
+  },
+
+  async listOpen(chatId: string, assigneeUserId?: string): Promise<ActionItem[]> {
+    const items = await actionItemService.getActionItems(chatId, {
+      statuses: OPEN_STATUSES,
+      ...(assigneeUserId && { assigneeUserId }),
+      limit: 100
+    });
+    return sortByPriority(items);
+  }
+};
+
+export default actionItemManager;
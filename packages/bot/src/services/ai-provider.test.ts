@@ -0,0 +1,44 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createAIProvider, resolveModel, hasEmbeddingModel, FakeAIProvider, EMBEDDING_DIMENSIONS } from '@/services/ai-provider';
+
+// npm test runs with AI_PROVIDER=fake
+const provider = new FakeAIProvider();
+
+function similarity(a: number[], b: number[]): number {
+  return a.reduce((sum, value, index) => sum + value * (b[index] || 0), 0);
+}
+
+describe('fake AI provider', () => {
+  it('is selected by AI_PROVIDER=fake with its default models', () => {
+    assert.ok(createAIProvider() instanceof FakeAIProvider);
+    assert.equal(resolveModel('answerQuestion'), 'fake-chat');
+    assert.equal(resolveModel('embedding'), 'fake-embedding');
+    assert.equal(hasEmbeddingModel(), true);
+  });
+
+  it('answers structured operations with parseable JSON', async () => {
+    const ask = (operation: 'classifyIntent' | 'detectLanguage' | 'extractDecisions', content: string) =>
+      provider.chat({ operation, model: 'fake-chat', messages: [{ role: 'user', content }] });
+
+    assert.equal(JSON.parse((await ask('classifyIntent', 'when is the launch?')).content).intent, 'question');
+    assert.equal(JSON.parse((await ask('classifyIntent', 'sounds good')).content).intent, 'chatter');
+    assert.equal(JSON.parse((await ask('detectLanguage', 'hello there')).content).language, 'en');
+    assert.deepEqual(JSON.parse((await ask('extractDecisions', 'we ship on friday')).content), []);
+  });
+
+  it('embeds text deterministically into unit vectors of the index dimension', async () => {
+    const [first, again] = await provider.embed(['Ship the release on Friday', 'ship the release on friday'], 'fake-embedding');
+    assert.equal(first!.length, EMBEDDING_DIMENSIONS);
+    assert.deepEqual(first, again);
+    assert.ok(Math.abs(similarity(first!, first!) - 1) < 1e-9);
+  });
+
+  it('places texts that share words closer together', async () => {
+    const [query, related, unrelated] = await provider.embed(
+      ['release date', 'the release date moved to friday', 'lunch order for the team'],
+      'fake-embedding'
+    );
+    assert.ok(similarity(query!, related!) > similarity(query!, unrelated!));
+  });
+});
@@ -0,0 +1,281 @@
+import OpenAI from 'openai';
+import { createHash } from 'crypto';
+import { aiConfig, openaiConfig } from '@/config/env';
+import { AIOperation, AIProviderName, OpenAIResponse, OpenAIError } from '@/types';
+
+// Dimension of the search_index.embedding column
+export const EMBEDDING_DIMENSIONS = 1536;
+
+export type ChatMessage = OpenAI.Chat.ChatCompletionMessageParam;
+export type ChatTool = OpenAI.Chat.ChatCompletionTool;
+
+export interface ChatRequest {
+  operation: AIOperation;
+  model: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  tools?: ChatTool[]; // Functions the model may ask to call instead of answering
+}
+
+export interface AIProvider {
+  readonly name: AIProviderName;
+  readonly endpoint: string;
+  chat(request: ChatRequest): Promise<OpenAIResponse>;
+  embed(texts: string[], model: string): Promise<number[][]>;
+}
+
+// Map an OpenAI SDK completion onto the provider-neutral response shape
+function toResponse(completion: OpenAI.Chat.ChatCompletion): OpenAIResponse {
+  const choice = completion.choices[0];
+  return {
+    content: choice?.message?.content || '',
+    usage: {
+      promptTokens: completion.usage?.prompt_tokens || 0,
+      completionTokens: completion.usage?.completion_tokens || 0,
+      totalTokens: completion.usage?.total_tokens || 0
+    },
+    model: completion.model,
+    finishReason: choice?.finish_reason || 'unknown',
+    ...(choice?.message?.tool_calls?.length && {
+      toolCalls: choice.message.tool_calls.map(call => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: call.function.arguments
+      }))
+    })
+  };
+}
+
+/**
+ * Any server speaking the OpenAI REST API: api.openai.com, llama.cpp's
+ * server, Ollama's /v1 endpoint, vLLM, LM Studio...
+ */
+export class OpenAICompatibleProvider implements AIProvider {
+  private client: OpenAI;
+
+  constructor(
+    readonly name: AIProviderName,
+    readonly endpoint: string,
+    options: { apiKey?: string; organization?: string } = {}
+  ) {
+    this.client = new OpenAI({
+      // Local servers usually ignore the key, but the SDK requires one
+      apiKey: options.apiKey || 'not-needed',
+      baseURL: endpoint,
+      ...(options.organization && { organization: options.organization })
+    });
+  }
+
+  async chat(request: ChatRequest): Promise<OpenAIResponse> {
+    const completion = await this.client.chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+      ...(request.temperature !== undefined && { temperature: request.temperature }),
+      ...(request.maxTokens !== undefined && { max_tokens: request.maxTokens }),
+      ...(request.tools?.length && { tools: request.tools })
+    });
+
+    return toResponse(completion);
+  }
+
+  async embed(texts: string[], model: string): Promise<number[][]> {
+    const response = await this.client.embeddings.create({
+      model,
+      input: texts,
+      // text-embedding-3 models can be shortened to fit the index column
+      ...(model.startsWith('text-embedding-3') && { dimensions: EMBEDDING_DIMENSIONS })
+    });
+
+    return response.data
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  }
+}
+
+/**
+ * Azure OpenAI addresses models by deployment, and each deployment has its
+ * own base URL, so one SDK client is kept per deployment name.
+ */
+export class AzureOpenAIProvider implements AIProvider {
+  readonly name = 'azure' as const;
+  private clients: Map<string, OpenAI> = new Map();
+
+  constructor(
+    readonly endpoint: string,
+    private apiKey: string,
+    private apiVersion: string
+  ) {}
+
+  private getClient(deployment: string): OpenAI {
+    let client = this.clients.get(deployment);
+    if (!client) {
+      client = new OpenAI({
+        apiKey: this.apiKey,
+        baseURL: `${this.endpoint}/openai/deployments/${deployment}`,
+        defaultQuery: { 'api-version': this.apiVersion },
+        defaultHeaders: {
+          'api-key': this.apiKey,
+        },
+      });
+      this.clients.set(deployment, client);
+    }
+    return client;
+  }
+
+  async chat(request: ChatRequest): Promise<OpenAIResponse> {
+    const completion = await this.getClient(request.model).chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+      ...(request.temperature !== undefined && { temperature: request.temperature }),
+      ...(request.maxTokens !== undefined && { max_tokens: request.maxTokens }),
+      ...(request.tools?.length && { tools: request.tools })
+    });
+
+    return toResponse(completion);
+  }
+
+  async embed(texts: string[], model: string): Promise<number[][]> {
+    const response = await this.getClient(model).embeddings.create({
+      model,
+      input: texts
+    });
+
+    return response.data
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  }
+}
+
+/**
+ * Deterministic provider for tests and offline development. Responses are
+ * derived only from the request, so the same input always yields the same
+ * output, and embeddings are hashed bags of words so that texts sharing
+ * words are similar.
+ */
+export class FakeAIProvider implements AIProvider {
+  readonly name = 'fake' as const;
+  readonly endpoint = 'fake://local';
+
+  async chat(request: ChatRequest): Promise<OpenAIResponse> {
+    const lastUserMessage = [...request.messages].reverse().find(message => message.role === 'user');
+    const input = typeof lastUserMessage?.content === 'string'
+      ? lastUserMessage.content
+      : JSON.stringify(lastUserMessage?.content || '');
+
+    const content = this.respond(request.operation, input);
+
+    return {
+      content,
+      usage: {
+        promptTokens: Math.ceil(input.length / 4),
+        completionTokens: Math.ceil(content.length / 4),
+        totalTokens: Math.ceil((input.length + content.length) / 4)
+      },
+      model: request.model,
+      finishReason: 'stop'
+    };
+  }
+
+  async embed(texts: string[], _model: string): Promise<number[][]> {
+    return texts.map(text => {
+      const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+      const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+      for (const word of words) {
+        const hash = createHash('sha1').update(word).digest();
+        const bucket = hash.readUInt32BE(0) % EMBEDDING_DIMENSIONS;
+        vector[bucket] = (vector[bucket] || 0) + ((hash[4] || 0) % 2 === 0 ? 1 : -1);
+      }
+
+      const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+      return vector.map(value => value / norm);
+    });
+  }
+
+  private respond(operation: AIOperation, input: string): string {
+    switch (operation) {
+      case 'detectLanguage':
+        return JSON.stringify({ language: 'en', confidence: 0.99, alternatives: [] });
+      case 'extractDecisions':
+      case 'extractActionItems':
+      case 'generateKeyPoints':
+      case 'findSupersededDecisions':
+        return '[]';
+      case 'translateText':
+        return input;
+      case 'classifyIntent':
+        return JSON.stringify({ intent: input.includes('?') ? 'question' : 'chatter', confidence: 0.9 });
+      case 'summarizeThread':
+        return JSON.stringify({ topic: input.substring(0, 40), summary: `[fake:${operation}] ${input.substring(0, 200)}`, tags: [] });
+      case 'healthCheck':
+        return 'pong';
+      default:
+        return `[fake:${operation}] ${input.substring(0, 200)}`;
+    }
+  }
+}
+
+// Build the provider selected in config/env.ts
+export function createAIProvider(provider: AIProviderName = aiConfig.provider): AIProvider {
+  switch (provider) {
+    case 'azure':
+      if (!openaiConfig) {
+        throw new OpenAIError('Azure OpenAI is selected but AZURE_OPENAI_ENDPOINT/AZURE_OPENAI_KEY are not set');
+      }
+      return new AzureOpenAIProvider(openaiConfig.endpoint, openaiConfig.apiKey, openaiConfig.apiVersion);
+
+    case 'openai':
+      if (!aiConfig.openai) {
+        throw new OpenAIError('OpenAI is selected but OPENAI_API_KEY is not set');
+      }
+      return new OpenAICompatibleProvider('openai', aiConfig.openai.baseUrl || 'https://api.openai.com/v1', {
+        apiKey: aiConfig.openai.apiKey,
+        ...(aiConfig.openai.organization && { organization: aiConfig.openai.organization })
+      });
+
+    case 'local':
+      return new OpenAICompatibleProvider('local', aiConfig.local.baseUrl, {
+        ...(aiConfig.local.apiKey && { apiKey: aiConfig.local.apiKey })
+      });
+
+    case 'fake':
+      return new FakeAIProvider();
+
+    default:
+      throw new OpenAIError(`Unknown AI provider: ${provider}`);
+  }
+}
+
+// Resolve which model serves an operation: explicit route first, then the
+// vision/embedding model for those operations, then the default chat model
+export function resolveModel(operation: AIOperation): string {
+  const routed = aiConfig.modelRoutes[operation];
+  if (routed) {
+    return routed;
+  }
+
+  if (operation === 'embedding') {
+    if (!aiConfig.embeddingModel) {
+      throw new OpenAIError('No embedding model configured. Set AI_EMBEDDING_MODEL or route embedding in AI_MODEL_ROUTES.');
+    }
+    return aiConfig.embeddingModel;
+  }
+
+  if (operation === 'analyzeImage') {
+    if (!aiConfig.visionModel) {
+      throw new OpenAIError('No vision model configured. Set AI_VISION_MODEL or route analyzeImage in AI_MODEL_ROUTES.');
+    }
+    return aiConfig.visionModel;
+  }
+
+  return aiConfig.defaultModel;
+}
+
+export function hasVisionModel(): boolean {
+  return !!(aiConfig.modelRoutes.analyzeImage || aiConfig.visionModel);
+}
+
+export function hasEmbeddingModel(): boolean {
+  return !!(aiConfig.modelRoutes.embedding || aiConfig.embeddingModel);
+}
@@ -0,0 +1,108 @@
+import { Telegram } from 'telegraf';
+import { chatSettingsService, userService } from '@/services/supabase';
+import { appConfig, responsesConfig, retentionConfig } from '@/config/env';
+import { ChatFeature, ChatRole, ChatSettings } from '@/types';
+
+// Settings are read for every group message; changes made here invalidate the cache
+const cache: Map<string, { settings: ChatSettings; expiresAt: number }> = new Map();
+
+function defaultSettings(chatId: string): ChatSettings {
+  return {
+    chatId,
+    responseMode: responsesConfig.defaultMode,
+    triggerWords: responsesConfig.triggerWords,
+    language: null,
+    disabledFeatures: [],
+    disabledPlugins: [],
+    enabledPlugins: [],
+    retention: {
+      messages: { ...retentionConfig.messages },
+      resources: { ...retentionConfig.resources },
+      analytics: { ...retentionConfig.analytics }
+    },
+    digestFrequency: 'never',
+    digestHour: null
+  };
+}
+
+export const chatSettingsManager = {
+  // Stored settings, or the defaults from config for chats nobody configured
+  async getSettings(chatId: string): Promise<ChatSettings> {
+    const cached = cache.get(chatId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.settings;
+    }
+
+    let settings: ChatSettings;
+    try {
+      settings = (await chatSettingsService.getSettings(chatId)) || defaultSettings(chatId);
+    } catch {
+      // Already logged; keep answering with the defaults while the database is unavailable
+      return defaultSettings(chatId);
+    }
+
+    cache.set(chatId, { settings, expiresAt: Date.now() + appConfig.cacheTtl * 1000 });
+    return settings;
+  },
+
+  async updateSettings(
+    chatId: string,
+    updates: Partial<Omit<ChatSettings, 'chatId'>>,
+    updatedBy?: string
+  ): Promise<ChatSettings> {
+    const settings = { ...(await chatSettingsManager.getSettings(chatId)), ...updates };
+    await chatSettingsService.saveSettings(settings, updatedBy);
+
+    cache.set(chatId, { settings, expiresAt: Date.now() + appConfig.cacheTtl * 1000 });
+    return settings;
+  },
+
+  async isFeatureEnabled(chatId: string, feature: ChatFeature): Promise<boolean> {
+    const settings = await chatSettingsManager.getSettings(chatId);
+    return !settings.disabledFeatures.includes(feature);
+  },
+
+  /**
+   * Who the user is to the bot in a chat. The chat's Telegram creator and
+   * admins are always owner and admin; other members may be granted the
+   * admin role. Private chats belong to the user.
+   */
+  async getRole(telegram: Telegram, chatId: string, telegramUserId: number): Promise<ChatRole> {
+    if (chatId === telegramUserId.toString()) {
+      return 'owner';
+    }
+
+    const member = await telegram.getChatMember(chatId, telegramUserId);
+    if (member.status === 'creator') {
+      return 'owner';
+    }
+    if (member.status === 'administrator') {
+      return 'admin';
+    }
+    if (member.status === 'left' || member.status === 'kicked') {
+      return 'member';
+    }
+
+    const user = await userService.getUser(telegramUserId);
+    const granted = user ? await chatSettingsService.getAdminUserIds(chatId) : [];
+    return user && granted.includes(user.id) ? 'admin' : 'member';
+  },
+
+  async isAdmin(telegram: Telegram, chatId: string, telegramUserId: number): Promise<boolean> {
+    return (await chatSettingsManager.getRole(telegram, chatId, telegramUserId)) !== 'member';
+  },
+
+  async getGrantedAdmins(chatId: string): Promise<string[]> {
+    return chatSettingsService.getAdminUserIds(chatId);
+  },
+
+  async grantAdmin(chatId: string, userId: string, grantedBy?: string): Promise<void> {
+    await chatSettingsService.addAdmin(chatId, userId, grantedBy);
+  },
+
+  async revokeAdmin(chatId: string, userId: string): Promise<void> {
+    await chatSettingsService.removeAdmin(chatId, userId);
+  }
+};
+
+export default chatSettingsManager;
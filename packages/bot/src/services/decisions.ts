@@ -0,0 +1,284 @@
+import { decisionService, isUniqueViolation } from '@/services/supabase';
+import { indexingService } from '@/services/indexing';
+import { computeFingerprint, titleSimilarity } from '@/services/action-items';
+import openaiService from '@/services/openai';
+import { decisionsConfig } from '@/config/env';
+import { databaseLogger, logError } from '@/utils/logger';
+import { Decision, ValidationError } from '@/types';
+
+/**
+ * The decision log on top of the decisions table. Extracted decisions are
+ * confirmed outright from DECISION_CONFIRM_THRESHOLD confidence and otherwise
+ * wait for a member to confirm or reject them. Only confirmed decisions are
+ * searchable, and confirming one retires the earlier decisions it replaces.
+ */
+
+type DecisionStatus = Decision['status'];
+
+export interface RecordedDecisions {
+  recorded: Decision[]; // New and merged, in extraction order
+  awaiting: Decision[]; // Newly recorded ones that need a member to confirm them
+}
+
+export interface DecisionConfirmation {
+  decision: Decision;
+  superseded: Decision[]; // Earlier decisions it replaced
+}
+
+export interface DecisionSource {
+  messageId: string;
+  createdBy?: string;
+  telegramMessageId?: number;
+  telegramTopicId?: number;
+}
+
+// Rejected and superseded decisions can be confirmed again
+const ALLOWED_TRANSITIONS: Record<DecisionStatus, DecisionStatus[]> = {
+  pending: ['confirmed', 'rejected'],
+  confirmed: ['rejected', 'superseded'],
+  rejected: ['confirmed'],
+  superseded: ['confirmed']
+};
+
+// Extraction reads overlapping windows, so the same decision comes back in other words
+const DUPLICATE_SIMILARITY_THRESHOLD = 0.75;
+// Recent decisions checked for duplicates, whatever their status
+const DUPLICATE_CANDIDATES = 200;
+// Earlier confirmed decisions a newly confirmed one is compared with
+const SUPERSESSION_CANDIDATES = 20;
+
+export function canTransition(from: DecisionStatus, to: DecisionStatus): boolean {
+  return ALLOWED_TRANSITIONS[from].includes(to);
+}
+
+function findDuplicate(content: string, existing: Decision[]): Decision | undefined {
+  const fingerprint = computeFingerprint(content);
+  return existing.find(decision =>
+    computeFingerprint(decision.content) === fingerprint ||
+    titleSimilarity(decision.content, content) >= DUPLICATE_SIMILARITY_THRESHOLD
+  );
+}
+
+// Search entries live under the decision, so they outlive the message it came from
+async function reindex(decision: Decision): Promise<void> {
+  if (decision.chatId) {
+    await indexingService.indexDecision({ ...decision, chatId: decision.chatId });
+  }
+}
+
+export const decisionManager = {
+  /**
+   * Record freshly extracted decisions, merging each into a logged decision
+   * with the same meaning instead of logging it twice
+   */
+  async recordExtracted(chatId: string, extracted: Decision[], source: DecisionSource): Promise<RecordedDecisions> {
+    const existing = await decisionService.getDecisions(chatId, { limit: DUPLICATE_CANDIDATES });
+    const result: RecordedDecisions = { recorded: [], awaiting: [] };
+
+    for (const candidate of extracted) {
+      const content = candidate.content?.trim();
+      if (!content) {
+        continue;
+      }
+
+      try {
+        const confidence = Math.min(Math.max(Number(candidate.confidence) || 0, 0), 1);
+        const duplicate = findDuplicate(content, existing);
+
+        if (duplicate) {
+          let merged = await decisionService.updateDecision(duplicate.id, {
+            relatedMessages: [...new Set([...duplicate.relatedMessages, source.messageId])],
+            confidence: Math.max(duplicate.confidence, confidence)
+          });
+          // Said again with more certainty; nobody has to confirm it any more
+          if (merged.status === 'pending' && confidence >= decisionsConfig.confirmThreshold) {
+            merged = (await decisionManager.confirm(merged)).decision;
+          }
+
+          existing.splice(existing.indexOf(duplicate), 1, merged);
+          result.recorded.push(merged);
+          continue;
+        }
+
+        const confirmed = confidence >= decisionsConfig.confirmThreshold;
+        const now = Date.now();
+        const created = await decisionService.createDecision({
+          chatId,
+          content,
+          context: candidate.context || '',
+          confidence,
+          status: confirmed ? 'confirmed' : 'pending',
+          extractedAt: candidate.extractedAt || now,
+          relatedMessages: [source.messageId],
+          messageId: source.messageId,
+          ...(source.createdBy && { createdBy: source.createdBy }),
+          ...(confirmed && { decidedAt: now }),
+          ...(source.telegramMessageId && { telegramMessageId: source.telegramMessageId }),
+          ...(source.telegramTopicId && { telegramTopicId: source.telegramTopicId }),
+          history: []
+        }, computeFingerprint(content));
+
+        existing.unshift(created);
+        result.recorded.push(created);
+
+        if (confirmed) {
+          await reindex(created);
+          await decisionManager.linkSuperseded(created);
+        } else {
+          result.awaiting.push(created);
+        }
+      } catch (error) {
+        logError(databaseLogger, error as Error, {
+          operation: 'record_decision',
+          chatId,
+          content: content.substring(0, 100)
+        });
+      }
+    }
+
+    return result;
+  },
+
+  /**
+   * After a message is edited and re-extracted, reject the decisions only
+   * that message produced which are still pending and no longer appear
+   */
+  async retractStale(chatId: string, messageId: string, kept: Decision[]): Promise<Decision[]> {
+    const keptIds = new Set(kept.map(decision => decision.id));
+    const pending = await decisionService.getDecisions(chatId, { statuses: ['pending'], limit: DUPLICATE_CANDIDATES });
+
+    const stale = pending.filter(decision =>
+      !keptIds.has(decision.id) &&
+      decision.relatedMessages.length === 1 &&
+      decision.relatedMessages[0] === messageId
+    );
+
+    const retracted: Decision[] = [];
+    for (const decision of stale) {
+      retracted.push(await decisionManager.transition(decision, 'rejected'));
+    }
+    return retracted;
+  },
+
+  async transition(decision: Decision, to: DecisionStatus, byUserId?: string, supersededBy?: Decision): Promise<Decision> {
+    if (decision.status === to) {
+      return decision;
+    }
+
+    if (!canTransition(decision.status, to)) {
+      throw new ValidationError(`Cannot change decision from ${decision.status} to ${to}`, {
+        decisionId: decision.id,
+        from: decision.status,
+        to
+      });
+    }
+
+    const now = Date.now();
+    const decided = to === 'confirmed' || to === 'rejected';
+    let updated: Decision;
+    try {
+      updated = await decisionService.updateDecision(decision.id, {
+        status: to,
+        ...(decided && { decidedBy: byUserId || '', decidedAt: now }),
+        supersededBy: supersededBy?.id || '',
+        history: [...(decision.history || []), { from: decision.status, to, ...(byUserId && { by: byUserId }), at: now }]
+      });
+    } catch (error) {
+      // Confirming again while the same decision is pending or confirmed under another number
+      if (!isUniqueViolation(error, 'idx_decisions_open_fingerprint')) {
+        throw error;
+      }
+      const open = await decisionService.getOpenDuplicate(decision);
+      throw new ValidationError(
+        open ? `#${open.number} ${open.content} is already ${open.status}` : 'The same decision is already in the log',
+        { decisionId: decision.id, openDecisionId: open?.id }
+      );
+    }
+
+    await reindex(updated);
+    return updated;
+  },
+
+  // Confirm a decision, by a member or (without byUserId) by its confidence
+  async confirm(decision: Decision, byUserId?: string): Promise<DecisionConfirmation> {
+    const confirmed = await decisionManager.transition(decision, 'confirmed', byUserId);
+    return { decision: confirmed, superseded: await decisionManager.linkSuperseded(confirmed) };
+  },
+
+  async reject(decision: Decision, byUserId?: string): Promise<Decision> {
+    return decisionManager.transition(decision, 'rejected', byUserId);
+  },
+
+  // Retire a confirmed decision in favour of a later one
+  async supersede(decision: Decision, replacement: Decision, byUserId?: string): Promise<Decision> {
+    if (decision.id === replacement.id || replacement.status !== 'confirmed') {
+      throw new ValidationError(`Only a different, confirmed decision can replace #${decision.number}`, {
+        decisionId: decision.id,
+        replacementId: replacement.id
+      });
+    }
+    return decisionManager.transition(decision, 'superseded', byUserId, replacement);
+  },
+
+  /**
+   * Ask the model which earlier confirmed decisions a newly confirmed one
+   * replaces, and retire them. A failure leaves the log as it was.
+   */
+  async linkSuperseded(decision: Decision): Promise<Decision[]> {
+    if (!decision.chatId) {
+      return [];
+    }
+
+    try {
+      const earlier = (await decisionService.getDecisions(decision.chatId, { statuses: ['confirmed'], limit: SUPERSESSION_CANDIDATES + 1 }))
+        .filter(candidate => candidate.id !== decision.id && candidate.extractedAt <= decision.extractedAt)
+        .slice(0, SUPERSESSION_CANDIDATES);
+      if (earlier.length === 0) {
+        return [];
+      }
+
+      const numbers = await openaiService.decision.findSuperseded(
+        decision.content,
+        earlier.map(candidate => ({ number: candidate.number!, content: candidate.content }))
+      );
+
+      const superseded: Decision[] = [];
+      for (const candidate of earlier.filter(candidate => numbers.includes(candidate.number!))) {
+        superseded.push(await decisionManager.transition(candidate, 'superseded', undefined, decision));
+      }
+
+      if (superseded.length > 0) {
+        databaseLogger.info({
+          chatId: decision.chatId,
+          decision: decision.number,
+          superseded: superseded.map(item => item.number)
+        }, 'Decisions superseded');
+      }
+      return superseded;
+    } catch (error) {
+      logError(databaseLogger, error as Error, { operation: 'link_superseded_decisions', decisionId: decision.id });
+      return [];
+    }
+  },
+
+  /**
+   * Find a decision from a user-supplied reference: "#4", "4" or its id
+   */
+  async resolveReference(chatId: string, reference: string): Promise<Decision | null> {
+    const trimmed = reference.trim();
+    const numberMatch = trimmed.match(/^#?(\d+)$/);
+
+    if (numberMatch?.[1]) {
+      return decisionService.getDecisionByNumber(chatId, parseInt(numberMatch[1], 10));
+    }
+
+    if (/^[0-9a-f-]{36}$/i.test(trimmed)) {
+      const decision = await decisionService.getDecision(trimmed);
+      return decision && decision.chatId === chatId ? decision : null;
+    }
+
+    return null;
+  }
+};
+
+export default decisionManager;
@@ -0,0 +1,178 @@
+import { Telegram, TelegramError } from 'telegraf';
+import { messageService, userService, actionItemService } from '@/services/supabase';
+import { OPEN_STATUSES, sortByPriority } from '@/services/action-items';
+import { membershipManager } from '@/services/membership';
+import openaiService from '@/services/openai';
+import { schedulerLogger, logError } from '@/utils/logger';
+import { formatSafeMarkdown, formatActionItem, splitMessage } from '@/utils/formatting';
+import { User } from '@/types';
+
+export type DigestFrequency = 'daily' | 'weekly';
+
+const PERIOD_MS: Record<DigestFrequency, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000
+};
+
+// Keep digests readable and the number of AI calls per user bounded
+const MAX_DIGEST_CHATS = 5;
+const MIN_SUMMARY_CONTENT_LENGTH = 100;
+
+async function getChatTitle(telegram: Telegram, chatId: string): Promise<string> {
+  try {
+    const chat = await telegram.getChat(chatId);
+    if ('title' in chat && chat.title) {
+      return chat.title;
+    }
+    if ('first_name' in chat && chat.first_name) {
+      return chat.first_name;
+    }
+  } catch (error) {
+    schedulerLogger.debug({ chatId, error: (error as Error).message }, 'Could not fetch chat title');
+  }
+  return `Chat ${chatId}`;
+}
+
+// Send a MarkdownV2 digest to the user's private chat with the bot
+async function deliver(telegram: Telegram, user: User, text: string): Promise<boolean> {
+  try {
+    for (const chunk of splitMessage(text)) {
+      await telegram.sendMessage(user.telegramId, chunk, { parse_mode: 'MarkdownV2' });
+    }
+    return true;
+  } catch (error) {
+    // 403: the user never opened a private chat with the bot or blocked it
+    if (error instanceof TelegramError && error.code === 403) {
+      schedulerLogger.info({ userId: user.id }, 'Digest not delivered, bot cannot message user');
+      return false;
+    }
+    throw error;
+  }
+}
+
+export const digestService = {
+  /**
+   * Summaries of the chats the user took part in during the last period
+   */
+  async sendSummaryDigest(telegram: Telegram, userId: string, frequency: DigestFrequency): Promise<boolean> {
+    const user = await userService.getUserById(userId);
+    if (!user || !user.preferences.notifications) {
+      return false;
+    }
+
+    const since = Date.now() - PERIOD_MS[frequency];
+    const chatIds = (await messageService.getUserChatIds(user.id, since)).slice(0, MAX_DIGEST_CHATS);
+    const sections: string[] = [];
+
+    for (const chatId of chatIds) {
+      try {
+        // Chats the user has left since writing there are not summarized for them
+        if (!await membershipManager.isMember(telegram, chatId, user.telegramId)) {
+          continue;
+        }
+
+        const messages = await messageService.getMessagesSince(chatId, since);
+        const conversationText = messages
+          .map(msg => msg.content)
+          .filter(content => content.length > 0)
+          .join('\n\n');
+
+        if (conversationText.length < MIN_SUMMARY_CONTENT_LENGTH) {
+          continue;
+        }
+
+        const summary = await openaiService.summary.summarizeContent(
+          conversationText,
+          'conversation',
+          user.preferences.language,
+          600
+        );
+        const title = await getChatTitle(telegram, chatId);
+
+        sections.push(`*${formatSafeMarkdown(title, { maxLength: 100 })}* \\(${messages.length} messages\\)\n${formatSafeMarkdown(summary, { maxLength: 800 })}`);
+      } catch (error) {
+        logError(schedulerLogger, error as Error, {
+          operation: 'summary_digest_chat',
+          userId,
+          chatId
+        });
+      }
+    }
+
+    if (sections.length === 0) {
+      return false;
+    }
+
+    const heading = frequency === 'daily' ? '📋 *Your Daily Summary*' : '📋 *Your Weekly Summary*';
+    return deliver(telegram, user, `${heading}\n\n${sections.join('\n\n')}`);
+  },
+
+  /**
+   * Summary of the last period posted into the chat itself, in the chat's
+   * language, for chats whose admins turned the digest on
+   */
+  async sendChatDigest(telegram: Telegram, chatId: string, frequency: DigestFrequency, language: string = 'en'): Promise<boolean> {
+    const since = Date.now() - PERIOD_MS[frequency];
+    const messages = await messageService.getMessagesSince(chatId, since);
+    const conversationText = messages
+      .map(msg => msg.content)
+      .filter(content => content.length > 0)
+      .join('\n\n');
+
+    if (conversationText.length < MIN_SUMMARY_CONTENT_LENGTH) {
+      return false;
+    }
+
+    const summary = await openaiService.summary.summarizeContent(conversationText, 'conversation', language, 800);
+    const heading = frequency === 'daily' ? '📋 *Daily Summary*' : '📋 *Weekly Summary*';
+    const text = `${heading} \\(${messages.length} messages\\)\n\n${formatSafeMarkdown(summary, { maxLength: 3000 })}`;
+
+    try {
+      for (const chunk of splitMessage(text)) {
+        await telegram.sendMessage(chatId, chunk, { parse_mode: 'MarkdownV2' });
+      }
+      return true;
+    } catch (error) {
+      // 403: the bot was removed from the chat
+      if (error instanceof TelegramError && error.code === 403) {
+        schedulerLogger.info({ chatId }, 'Chat digest not delivered, bot is no longer in the chat');
+        return false;
+      }
+      throw error;
+    }
+  },
+
+  /**
+   * Open action items assigned to the user, overdue ones first
+   */
+  async sendReminderDigest(telegram: Telegram, userId: string, frequency: DigestFrequency): Promise<boolean> {
+    const user = await userService.getUserById(userId);
+    if (!user || !user.preferences.notifications) {
+      return false;
+    }
+
+    const items = sortByPriority(await actionItemService.getAssignedActionItems(user.id, OPEN_STATUSES));
+    if (items.length === 0) {
+      return false;
+    }
+
+    const now = Date.now();
+    const overdue = items.filter(item => item.dueDate && item.dueDate < now);
+    const upcoming = items.filter(item => !(item.dueDate && item.dueDate < now));
+
+    let text = frequency === 'daily' ? '⏰ *Your Action Items for Today*' : '⏰ *Your Action Items This Week*';
+
+    if (overdue.length > 0) {
+      text += `\n\n*Overdue:*\n${overdue.slice(0, 10).map(formatActionItem).join('\n')}`;
+    }
+    if (upcoming.length > 0) {
+      text += `\n\n*Open:*\n${upcoming.slice(0, 10).map(formatActionItem).join('\n')}`;
+    }
+
+    text += '\n\n' + formatSafeMarkdown('Use /todo in the chat to update them.');
+
+    return deliver(telegram, user, text);
+  }
+};
+
+export default digestService;
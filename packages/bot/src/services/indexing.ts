@@ -0,0 +1,329 @@
+import openaiService from '@/services/openai';
+import { searchService, searchIndexService } from '@/services/supabase';
+import { searchLogger, logError } from '@/utils/logger';
+import {
+  Message,
+  Resource,
+  Decision,
+  ActionItem,
+  SearchResult,
+  SearchIndexEntry,
+  SearchOptions
+} from '@/types';
+
+// Chunking limits for long resources (PDFs, web pages)
+const RESOURCE_CHUNK_SIZE = 2000;
+const RESOURCE_CHUNK_OVERLAP = 200;
+const RESOURCE_MAX_CHUNKS = 20;
+
+// Messages shorter than this carry too little meaning to be worth embedding
+const MIN_INDEXABLE_LENGTH = 3;
+
+// Placeholder content such as "[Photo]" or "[Sticker: 👍]"
+const PLACEHOLDER_CONTENT = /^\[[^\]]*\]$/;
+
+// Backfill runs an entry may fail before it is left to full-text search
+const MAX_EMBEDDING_ATTEMPTS = 5;
+
+// Split long text into overlapping chunks on whitespace boundaries
+export function chunkText(
+  text: string,
+  chunkSize: number = RESOURCE_CHUNK_SIZE,
+  overlap: number = RESOURCE_CHUNK_OVERLAP,
+  maxChunks: number = RESOURCE_MAX_CHUNKS
+): string[] {
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  if (normalized.length <= chunkSize) {
+    return normalized ? [normalized] : [];
+  }
+
+  const chunks: string[] = [];
+  let start = 0;
+
+  while (start < normalized.length && chunks.length < maxChunks) {
+    let end = Math.min(start + chunkSize, normalized.length);
+    if (end < normalized.length) {
+      const lastSpace = normalized.lastIndexOf(' ', end);
+      if (lastSpace > start + chunkSize / 2) {
+        end = lastSpace;
+      }
+    }
+
+    chunks.push(normalized.substring(start, end).trim());
+
+    if (end >= normalized.length) {
+      break;
+    }
+    start = Math.max(end - overlap, start + 1);
+  }
+
+  return chunks;
+}
+
+// Attach embeddings to entries that have none yet; on failure entries are
+// stored without one and picked up later by backfillEmbeddings
+async function embedEntries(entries: SearchIndexEntry[]): Promise<SearchIndexEntry[]> {
+  const missing = entries.filter(entry => !entry.embedding);
+  if (missing.length === 0) {
+    return entries;
+  }
+  if (!openaiService.embedding.isEnabled()) {
+    return entries.map(entry => entry.embedding ? entry : { ...entry, embedding: null });
+  }
+
+  try {
+    const embeddings = await openaiService.embedding.generateEmbeddings(missing.map(entry => entry.content));
+    return entries.map(entry => entry.embedding ? entry : { ...entry, embedding: embeddings[missing.indexOf(entry)] || null });
+  } catch (error) {
+    logError(searchLogger, error as Error, {
+      operation: 'embed_entries',
+      entryCount: missing.length
+    });
+    return entries.map(entry => entry.embedding ? entry : { ...entry, embedding: null });
+  }
+}
+
+// Write entries for one stored record, logging instead of throwing so that
+// indexing never breaks message processing
+async function writeEntries(
+  contentId: string,
+  contentType: SearchResult['type'],
+  entries: SearchIndexEntry[]
+): Promise<void> {
+  try {
+    const embedded = await embedEntries(entries);
+    await searchIndexService.replaceEntries(contentId, contentType, embedded);
+
+    searchLogger.debug({
+      contentId,
+      contentType,
+      entryCount: embedded.length,
+      embedded: embedded.filter(entry => entry.embedding).length
+    }, 'Search index updated');
+  } catch (error) {
+    logError(searchLogger, error as Error, {
+      operation: 'write_search_entries',
+      contentId,
+      contentType
+    });
+  }
+}
+
+export function isIndexableContent(content: string): boolean {
+  const trimmed = content.trim();
+  return trimmed.length >= MIN_INDEXABLE_LENGTH && !PLACEHOLDER_CONTENT.test(trimmed);
+}
+
+// Indexing pipeline: keeps search_index in sync with stored records
+export const indexingService = {
+  // `embedding` is the message's, when thread assignment already computed it
+  async indexMessage(messageId: string, message: Omit<Message, 'id'>, embedding?: number[]): Promise<void> {
+    if (!isIndexableContent(message.content)) {
+      return;
+    }
+
+    await writeEntries(messageId, 'message', [{
+      contentId: messageId,
+      contentType: 'message',
+      content: message.content,
+      metadata: {
+        language: message.language,
+        messageType: message.messageType,
+        telegramMessageId: message.metadata?.telegramMessageId,
+        telegramTopicId: message.metadata?.telegramTopicId
+      },
+      chatId: message.chatId,
+      userId: message.userId,
+      createdAt: message.timestamp,
+      ...(embedding && { embedding })
+    }]);
+  },
+
+  async indexResource(resourceId: string, resource: Omit<Resource, 'id'>): Promise<void> {
+    const title = resource.metadata.title || resource.filename || resource.url || resource.type;
+    const baseMetadata = {
+      resourceType: resource.type,
+      title,
+      ...(resource.url && { url: resource.url }),
+      ...(resource.filename && { filename: resource.filename }),
+      ...(resource.metadata.telegramMessageId && { telegramMessageId: resource.metadata.telegramMessageId }),
+      ...(resource.metadata.telegramTopicId && { telegramTopicId: resource.metadata.telegramTopicId })
+    };
+
+    const entries: SearchIndexEntry[] = [];
+
+    if (isIndexableContent(resource.summary)) {
+      entries.push({
+        contentId: resourceId,
+        contentType: 'resource',
+        content: `${title}\n${resource.summary}`,
+        metadata: { ...baseMetadata, part: 'summary', context: resource.summary.substring(0, 200) },
+        chatId: resource.chatId,
+        userId: resource.userId,
+        createdAt: resource.extractedAt
+      });
+    }
+
+    chunkText(resource.content).forEach((chunk, index) => {
+      entries.push({
+        contentId: resourceId,
+        contentType: 'resource',
+        content: chunk,
+        metadata: { ...baseMetadata, part: 'content', chunk: index, context: resource.summary.substring(0, 200) },
+        chatId: resource.chatId,
+        userId: resource.userId,
+        createdAt: resource.extractedAt
+      });
+    });
+
+    await writeEntries(resourceId, 'resource', entries);
+  },
+
+  // A decision from the decision log, indexed under its own id. Only confirmed
+  // decisions are searchable; indexing one in another status removes its entry
+  async indexDecision(decision: Decision & { chatId: string }): Promise<void> {
+    await writeEntries(decision.id, 'decision', decision.status !== 'confirmed' ? [] : [{
+      contentId: decision.id,
+      contentType: 'decision',
+      content: decision.content,
+      metadata: {
+        ...(decision.number && { number: decision.number }),
+        status: decision.status,
+        confidence: decision.confidence,
+        context: decision.context,
+        telegramMessageId: decision.telegramMessageId,
+        telegramTopicId: decision.telegramTopicId
+      },
+      chatId: decision.chatId,
+      ...(decision.createdBy && { userId: decision.createdBy }),
+      createdAt: decision.extractedAt
+    }]);
+  },
+
+  async indexActionItem(item: ActionItem & { chatId: string }): Promise<void> {
+    await writeEntries(item.id, 'action_item', [{
+      contentId: item.id,
+      contentType: 'action_item',
+      content: `${item.title}\n${item.description}`,
+      metadata: {
+        number: item.number,
+        status: item.status,
+        priority: item.priority,
+        assignee: item.assignee,
+        context: item.title
+      },
+      chatId: item.chatId,
+      ...(item.createdBy && { userId: item.createdBy }),
+      createdAt: item.createdAt
+    }]);
+  },
+
+  async removeContent(contentId: string, contentType?: SearchResult['type']): Promise<void> {
+    try {
+      await searchIndexService.removeEntries(contentId, contentType);
+    } catch (error) {
+      logError(searchLogger, error as Error, {
+        operation: 'remove_search_entries',
+        contentId,
+        contentType
+      });
+    }
+  },
+
+  /**
+   * Embed entries that were stored while the embedding API was unavailable.
+   * Entries that fail are counted, retried after the others and given up on
+   * after MAX_EMBEDDING_ATTEMPTS, so they cannot hold up the rest.
+   */
+  async backfillEmbeddings(batchSize: number = 100): Promise<number> {
+    if (!openaiService.embedding.isEnabled()) {
+      return 0;
+    }
+
+    const pending = await searchIndexService.getEntriesWithoutEmbedding(batchSize, MAX_EMBEDDING_ATTEMPTS);
+    if (pending.length === 0) {
+      return 0;
+    }
+
+    let embeddings: Array<number[] | undefined>;
+    try {
+      embeddings = await openaiService.embedding.generateEmbeddings(pending.map(entry => entry.content));
+    } catch (error) {
+      logError(searchLogger, error as Error, { operation: 'backfill_embeddings', entryCount: pending.length });
+
+      // A model returning the wrong size is no fault of the entries
+      if (!openaiService.embedding.isEnabled()) {
+        return 0;
+      }
+
+      // One entry the provider rejects fails the whole batch; embed them one by one to find it
+      embeddings = [];
+      for (const entry of pending) {
+        embeddings.push(await openaiService.embedding.generateEmbedding(entry.content).catch(() => undefined));
+      }
+    }
+
+    let updated = 0;
+    let failed = 0;
+    for (const [index, entry] of pending.entries()) {
+      const embedding = embeddings[index];
+      if (!embedding) {
+        await searchIndexService.recordEmbeddingFailure(entry.id, entry.attempts + 1);
+        failed++;
+        continue;
+      }
+      await searchIndexService.updateEmbedding(entry.id, embedding);
+      updated++;
+    }
+
+    searchLogger.info({ updated, failed, pending: pending.length }, 'Search embeddings backfilled');
+    return updated;
+  }
+};
+
+// Hybrid search: semantic ranking when an embedding can be computed, full-text otherwise
+export const hybridSearchService = {
+  async search(chatId: string, query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+    const { limit = 20, types } = options;
+
+    let embedding = options.embedding;
+    if (embedding === undefined) {
+      embedding = null;
+      try {
+        if (openaiService.embedding.isEnabled()) {
+          embedding = await openaiService.embedding.generateEmbedding(query);
+        }
+      } catch (error) {
+        logError(searchLogger, error as Error, {
+          operation: 'query_embedding',
+          chatId
+        });
+      }
+    }
+
+    const results = await searchService.searchByContext(chatId, query, limit * 2, {
+      embedding,
+      ...(types && { types }),
+      ...(options.topicId !== undefined && { topicId: options.topicId })
+    });
+
+    // Long resources produce one row per chunk; keep the best-ranked chunk per record
+    const seen = new Set<string>();
+    const deduplicated = results.filter(result => {
+      const key = `${result.type}:${result.id}:${result.type === 'resource' ? '' : result.content}`;
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+
+    return deduplicated.slice(0, limit);
+  }
+};
+
+export default {
+  indexing: indexingService,
+  search: hybridSearchService,
+  chunkText
+};
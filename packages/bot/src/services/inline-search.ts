@@ -0,0 +1,117 @@
+import { Telegram } from 'telegraf';
+import { messageService } from '@/services/supabase';
+import { membershipManager } from '@/services/membership';
+import { hybridSearchService } from '@/services/indexing';
+import openaiService from '@/services/openai';
+import { telegramLogger, logError } from '@/utils/logger';
+import { SearchResult, User } from '@/types';
+
+/**
+ * Inline mode (@buddian <query>) searches every chat the user takes part in.
+ * Candidate chats are those the user is recorded in or has written in
+ * recently; each is searched only while the user is still a member, so
+ * leaving a chat takes its history out of the user's results.
+ */
+
+export interface InlineChat {
+  id: string;
+  title: string;
+  username?: string; // Public chats, for message links that work outside the chat
+}
+
+export interface InlineSearchResult extends SearchResult {
+  chat: InlineChat;
+}
+
+// Chats searched per query, most recently active first
+const MAX_CHATS = 10;
+const CHAT_LOOKBACK_MS = 180 * 24 * 60 * 60 * 1000;
+// Membership is checked again after this long, or as soon as a join or leave is recorded
+const ACCESS_CACHE_MS = 60 * 1000;
+const RESULTS_PER_CHAT = 10;
+const SEARCHED_TYPES: SearchResult['type'][] = ['message', 'resource', 'decision'];
+
+const accessCache: Map<number, { chats: InlineChat[]; expiresAt: number }> = new Map();
+
+// The chat's title and username, or null when the user is not a member (any more)
+async function accessibleChat(telegram: Telegram, chatId: string, telegramUserId: number): Promise<InlineChat | null> {
+  try {
+    if (!await membershipManager.isMember(telegram, chatId, telegramUserId)) {
+      return null;
+    }
+
+    const chat = await telegram.getChat(chatId);
+    const title = 'title' in chat ? chat.title : 'Private chat with Buddian';
+    return {
+      id: chatId,
+      title,
+      ...('username' in chat && chat.username && chat.type !== 'private' && { username: chat.username })
+    };
+  } catch (error) {
+    // The bot was removed from the chat, or the chat is gone
+    telegramLogger.debug({ chatId, error: (error as Error).message }, 'Chat not accessible for inline search');
+    return null;
+  }
+}
+
+export const inlineSearchManager = {
+  // Chats whose history the user may search, checked against chat membership
+  async getAccessibleChats(telegram: Telegram, user: User, telegramUserId: number): Promise<InlineChat[]> {
+    const cached = accessCache.get(telegramUserId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.chats;
+    }
+
+    const written = await messageService.getUserChatIds(user.id, Date.now() - CHAT_LOOKBACK_MS);
+    const recorded = await membershipManager.getChatIds(telegramUserId);
+    const chatIds = [...new Set([...written, ...recorded])].slice(0, MAX_CHATS);
+    const chats: InlineChat[] = [];
+    for (const chatId of chatIds) {
+      const chat = await accessibleChat(telegram, chatId, telegramUserId);
+      if (chat) {
+        chats.push(chat);
+      }
+    }
+
+    accessCache.set(telegramUserId, { chats, expiresAt: Date.now() + ACCESS_CACHE_MS });
+    return chats;
+  },
+
+  forgetAccess(telegramUserId: number): void {
+    accessCache.delete(telegramUserId);
+  },
+
+  // Best matches across the user's chats; one chat failing leaves the others' results
+  async search(telegram: Telegram, user: User, telegramUserId: number, query: string, limit: number = 20): Promise<InlineSearchResult[]> {
+    const chats = await inlineSearchManager.getAccessibleChats(telegram, user, telegramUserId);
+    if (chats.length === 0) {
+      return [];
+    }
+
+    // Embedded once and reused for every chat
+    let embedding: number[] | null = null;
+    try {
+      if (openaiService.embedding.isEnabled()) {
+        embedding = await openaiService.embedding.generateEmbedding(query);
+      }
+    } catch (error) {
+      logError(telegramLogger, error as Error, { operation: 'inline_query_embedding' });
+    }
+
+    const results: InlineSearchResult[] = [];
+    for (const chat of chats) {
+      try {
+        const chatResults = await hybridSearchService.search(chat.id, query, { limit: RESULTS_PER_CHAT, types: SEARCHED_TYPES, embedding });
+        results.push(...chatResults.map(result => ({ ...result, chat })));
+      } catch (error) {
+        logError(telegramLogger, error as Error, { operation: 'inline_chat_search', chatId: chat.id });
+      }
+    }
+
+    return results
+      .sort((a, b) => b.relevanceScore - a.relevanceScore || b.timestamp - a.timestamp)
+      .slice(0, limit);
+  }
+};
+
+export default inlineSearchManager;
@@ -0,0 +1,155 @@
+import { Telegram } from 'telegraf';
+import type { ChatMember, User as TelegramUser } from 'telegraf/typings/core/types/typegram';
+import { membershipService } from '@/services/supabase';
+import { telegramLogger, logError } from '@/utils/logger';
+import { ChatMembership, MembershipSource, MembershipStatus } from '@/types';
+
+/**
+ * Who is in each chat. Telegram reports joins and leaves as chat_member
+ * updates (only to bots that are admins) and as service messages; members
+ * who were there before the bot are recorded when they first write. Before
+ * anything from the chat is shown to a member elsewhere, a membership not
+ * recently confirmed by Telegram is checked with getChatMember.
+ */
+
+export type MembershipChange = 'joined' | 'left';
+
+const ACTIVE_STATUSES: MembershipStatus[] = ['creator', 'administrator', 'member', 'restricted'];
+// How long a stored status is trusted without asking Telegram, by what confirmed it.
+// chat_member updates, sent only to admin bots, report leaves too; service
+// messages can be hidden or deleted, and a message written says nothing of
+// leaving since, so those are checked every time.
+const MEMBERSHIP_TTL_MS: Record<MembershipSource, number> = {
+  update: 24 * 60 * 60 * 1000,
+  check: 5 * 60 * 1000,
+  service: 0,
+  message: 0
+};
+// Messages confirm a member at most this often, so busy chats do not write on every message
+const SEEN_INTERVAL_MS = 60 * 60 * 1000;
+
+const lastSeen: Map<string, number> = new Map();
+
+export function isActiveStatus(status: MembershipStatus): boolean {
+  return ACTIVE_STATUSES.includes(status);
+}
+
+// Restricted users keep that status after leaving; only is_member tells them apart
+export function toMembershipStatus(member: ChatMember): MembershipStatus {
+  return member.status === 'restricted' && !member.is_member ? 'left' : member.status;
+}
+
+// wasActive: whether the user was in the chat before this status, stored or not
+async function save(
+  existing: ChatMembership | null,
+  wasActive: boolean,
+  chatId: string,
+  user: TelegramUser,
+  status: MembershipStatus,
+  at: number,
+  source: MembershipSource
+): Promise<void> {
+  const active = isActiveStatus(status);
+  const joinedAt = active && !wasActive ? at : existing?.joinedAt;
+  const leftAt = !active && wasActive ? at : existing?.leftAt;
+
+  await membershipService.saveMember({
+    chatId,
+    telegramUserId: user.id,
+    status,
+    isBot: user.is_bot,
+    ...(joinedAt && { joinedAt }),
+    ...(leftAt && { leftAt }),
+    checkedAt: at,
+    source
+  });
+
+  if (active) {
+    lastSeen.set(`${chatId}:${user.id}`, at);
+  } else {
+    lastSeen.delete(`${chatId}:${user.id}`);
+  }
+}
+
+export const membershipManager = {
+  /**
+   * Record a join, leave or status change reported by Telegram. Returns the
+   * change in whether the user is in the chat, or null when there is none,
+   * such as a promotion or a join already recorded from the other source.
+   */
+  async recordChange(
+    chatId: string,
+    user: TelegramUser,
+    previous: MembershipStatus,
+    status: MembershipStatus,
+    source: Extract<MembershipSource, 'update' | 'service'>,
+    at: number = Date.now()
+  ): Promise<MembershipChange | null> {
+    const existing = await membershipService.getMember(chatId, user.id);
+    // Members from before the bot have no row; Telegram's previous status stands in for it
+    const wasActive = existing ? isActiveStatus(existing.status) : isActiveStatus(previous);
+    const active = isActiveStatus(status);
+
+    await save(existing, wasActive, chatId, user, status, at, source);
+
+    if (active === wasActive) {
+      return null;
+    }
+
+    telegramLogger.debug({ chatId, telegramUserId: user.id, previous, status }, 'Chat membership changed');
+    return active ? 'joined' : 'left';
+  },
+
+  // Someone writing in a chat is in it; recorded without counting as a join
+  async markSeen(chatId: string, user: TelegramUser, at: number = Date.now()): Promise<void> {
+    const key = `${chatId}:${user.id}`;
+    if (chatId === user.id.toString() || (lastSeen.get(key) ?? 0) > at - SEEN_INTERVAL_MS) {
+      return;
+    }
+
+    try {
+      const existing = await membershipService.getMember(chatId, user.id);
+      const wasActive = existing ? isActiveStatus(existing.status) : true;
+      // Writing proves nothing about leaving, so a stronger source is kept
+      const keep = wasActive && existing;
+      await save(existing, wasActive, chatId, user, keep ? existing.status : 'member', at, keep ? existing.source : 'message');
+    } catch (error) {
+      logError(telegramLogger, error as Error, { operation: 'mark_member_seen', chatId });
+    }
+  },
+
+  /**
+   * Whether the user is in the chat now: the stored status while its source
+   * is trusted, otherwise Telegram's answer, which is stored in turn. A
+   * private chat with the bot belongs to the user.
+   */
+  async isMember(telegram: Telegram, chatId: string, telegramUserId: number): Promise<boolean> {
+    if (chatId === telegramUserId.toString()) {
+      return true;
+    }
+
+    const now = Date.now();
+    const existing = await membershipService.getMember(chatId, telegramUserId);
+    if (existing && existing.checkedAt > now - MEMBERSHIP_TTL_MS[existing.source]) {
+      return isActiveStatus(existing.status);
+    }
+
+    try {
+      const member = await telegram.getChatMember(chatId, telegramUserId);
+      const status = toMembershipStatus(member);
+      await save(existing, existing ? isActiveStatus(existing.status) : isActiveStatus(status), chatId, member.user, status, now, 'check');
+      return isActiveStatus(status);
+    } catch (error) {
+      // The bot was removed from the chat, or the chat is gone
+      telegramLogger.debug({ chatId, telegramUserId, error: (error as Error).message }, 'Chat membership not available');
+      return false;
+    }
+  },
+
+  // Chats the user is recorded as being in, for cross-chat features to check with isMember
+  async getChatIds(telegramUserId: number, limit?: number): Promise<string[]> {
+    return membershipService.getMemberChatIds(telegramUserId, limit);
+  }
+};
+
+export default membershipManager;
@@ -1,46 +1,137 @@
-import OpenAI from 'openai';
-import { openaiConfig, visionConfig } from '@/config/env';
+import { aiConfig, visionConfig } from '@/config/env';
 import { openaiLogger, logError, logApiCall } from '@/utils/logger';
+import { createAIProvider, resolveModel, hasVisionModel, hasEmbeddingModel, ChatMessage, EMBEDDING_DIMENSIONS } from '@/services/ai-provider';
 import { 
   LanguageDetectionResult, 
   Decision, 
   ActionItem, 
+  AIOperation,
+  QATool,
+  QAToolTrace,
+  MessageIntent,
+  ThreadSummary,
   OpenAIError 
 } from '@/types';
 
-// Initialize Azure OpenAI client
-const openai = new OpenAI({
-  apiKey: openaiConfig.apiKey,
-  baseURL: `${openaiConfig.endpoint}/openai/deployments/${openaiConfig.deploymentName}`,
-  defaultQuery: { 'api-version': openaiConfig.apiVersion },
-  defaultHeaders: {
-    'api-key': openaiConfig.apiKey,
-  },
-});
-
-// Initialize Azure OpenAI Vision client if configured
-let openaiVision: OpenAI | null = null;
-if (openaiConfig.visionDeploymentName) {
-  openaiVision = new OpenAI({
-    apiKey: openaiConfig.apiKey,
-    baseURL: `${openaiConfig.endpoint}/openai/deployments/${openaiConfig.visionDeploymentName}`,
-    defaultQuery: { 'api-version': openaiConfig.apiVersion },
-    defaultHeaders: {
-      'api-key': openaiConfig.apiKey,
-    },
+// AI provider selected via AI_PROVIDER (Azure OpenAI, OpenAI, local server or fake)
+const provider = createAIProvider(aiConfig.provider);
+
+// Embedding input limits (text-embedding-ada-002 accepts ~8k tokens per input)
+const EMBEDDING_MAX_INPUT_CHARS = 8000;
+const EMBEDDING_BATCH_SIZE = 16;
+
+// Run a chat completion for an operation on the model routed to it
+async function complete(
+  operation: AIOperation,
+  messages: ChatMessage[],
+  options: { temperature?: number; maxTokens?: number } = {}
+): Promise<string> {
+  const response = await provider.chat({
+    operation,
+    model: resolveModel(operation),
+    messages,
+    ...options
   });
+  return response.content;
 }
 
-// Initialize Azure Vision client if configured (fallback)
-let visionClient: OpenAI | null = null;
-if (visionConfig) {
-  visionClient = new OpenAI({
-    apiKey: visionConfig.apiKey,
-    baseURL: visionConfig.endpoint,
-    defaultHeaders: {
-      'Ocp-Apim-Subscription-Key': visionConfig.apiKey,
-    },
-  });
+// Model calls in a plain tool-assisted answer; the last one offers no tools
+const DEFAULT_TOOL_STEPS = 4;
+// Tool calls honoured per model call; any beyond are answered as skipped
+const MAX_TOOL_CALLS_PER_STEP = 5;
+// Tool output fed back to the model is cut to this length
+const MAX_TOOL_OUTPUT_CHARS = 4000;
+
+export interface ToolLoopResult {
+  content: string;
+  trace: QAToolTrace[];
+  steps: number;
+}
+
+// Run a tool the model asked for; failures are reported back to the model
+async function runTool(tools: QATool[], name: string, rawArguments: string): Promise<{ output: string; error?: string }> {
+  const tool = tools.find(candidate => candidate.name === name);
+  if (!tool) {
+    return { output: `Unknown tool: ${name}`, error: 'unknown tool' };
+  }
+
+  try {
+    const args = rawArguments ? JSON.parse(rawArguments) : {};
+    const output = await tool.execute(args);
+    return { output: output.length > MAX_TOOL_OUTPUT_CHARS ? `${output.substring(0, MAX_TOOL_OUTPUT_CHARS)}…` : output };
+  } catch (error) {
+    return { output: `Tool ${name} failed: ${(error as Error).message}`, error: (error as Error).message };
+  }
+}
+
+/**
+ * Let the model call tools before answering. Every model call is a step;
+ * the last step offers no tools, so the model has to answer with what it has.
+ */
+async function runToolLoop(
+  operation: AIOperation,
+  messages: ChatMessage[],
+  tools: QATool[],
+  options: { maxSteps: number; temperature?: number; maxTokens?: number }
+): Promise<ToolLoopResult> {
+  const { maxSteps, ...completionOptions } = options;
+  const transcript = [...messages];
+  const trace: QAToolTrace[] = [];
+  const definitions = tools.map(tool => ({
+    type: 'function' as const,
+    function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+  }));
+
+  for (let step = 1; step <= maxSteps; step++) {
+    const finalStep = step === maxSteps;
+    const response = await provider.chat({
+      operation,
+      model: resolveModel(operation),
+      messages: transcript,
+      ...(!finalStep && { tools: definitions }),
+      ...completionOptions
+    });
+
+    if (finalStep || !response.toolCalls?.length) {
+      return { content: response.content, trace, steps: step };
+    }
+
+    transcript.push({
+      role: 'assistant',
+      content: response.content || null,
+      tool_calls: response.toolCalls.map(call => ({
+        id: call.id,
+        type: 'function' as const,
+        function: { name: call.name, arguments: call.arguments }
+      }))
+    });
+
+    for (const [index, call] of response.toolCalls.entries()) {
+      // Every call needs an answer, even the ones over the limit
+      if (index >= MAX_TOOL_CALLS_PER_STEP) {
+        transcript.push({ role: 'tool', tool_call_id: call.id, content: `Skipped: at most ${MAX_TOOL_CALLS_PER_STEP} tool calls per step` });
+        continue;
+      }
+
+      const startTime = Date.now();
+      const { output, error } = await runTool(tools, call.name, call.arguments);
+      const entry: QAToolTrace = {
+        step,
+        tool: call.name,
+        arguments: call.arguments.substring(0, 500),
+        durationMs: Date.now() - startTime,
+        outputChars: output.length,
+        ...(error && { error })
+      };
+      trace.push(entry);
+      openaiLogger.debug({ operation, ...entry }, 'Model called tool');
+
+      transcript.push({ role: 'tool', tool_call_id: call.id, content: output });
+    }
+  }
+
+  // maxSteps is at least 1, so the loop always returns
+  throw new OpenAIError('Tool loop ended without an answer', { operation, maxSteps });
 }
 
 // Helper function to execute OpenAI operations with error handling
@@ -57,9 +148,9 @@ async function executeOpenAIOperation<T>(
     
     logApiCall(
       openaiLogger,
-      'Azure OpenAI',
+      provider.name,
       'POST',
-      openaiConfig.endpoint,
+      provider.endpoint,
       200,
       duration,
       { operation: operationName, ...context }
@@ -70,10 +161,15 @@ async function executeOpenAIOperation<T>(
     const duration = Date.now() - startTime;
     logError(openaiLogger, error as Error, { 
       operation: operationName, 
+      provider: provider.name,
       duration,
       ...context 
     });
     
+    if (error instanceof OpenAIError) {
+      throw error;
+    }
+    
     if (error instanceof Error) {
       throw new OpenAIError(`OpenAI operation failed: ${error.message}`, { 
         operation: operationName,
@@ -91,34 +187,31 @@ export const languageService = {
   async detectLanguage(text: string): Promise<LanguageDetectionResult> {
     return executeOpenAIOperation(
       async () => {
-        const response = await openai.chat.completions.create({
-          model: openaiConfig.deploymentName,
-          messages: [
+        const content = await complete('detectLanguage', [
+          {
+            role: 'system',
+            content: `You are a language detection expert. Analyze the given text and return a JSON response with the detected language and confidence score.
+            
+            Response format:
             {
-              role: 'system',
-              content: `You are a language detection expert. Analyze the given text and return a JSON response with the detected language and confidence score.
-              
-              Response format:
-              {
-                "language": "language_code",
-                "confidence": 0.95,
-                "alternatives": [
-                  {"language": "alt_code", "confidence": 0.05}
-                ]
-              }
-              
-              Use ISO 639-1 language codes (en, es, fr, de, etc.).`
-            },
-            {
-              role: 'user',
-              content: text.substring(0, 1000) // Limit text length
+              "language": "language_code",
+              "confidence": 0.95,
+              "alternatives": [
+                {"language": "alt_code", "confidence": 0.05}
+              ]
             }
-          ],
+            
+            Use ISO 639-1 language codes (en, es, fr, de, etc.).`
+          },
+          {
+            role: 'user',
+            content: text.substring(0, 1000) // Limit text length
+          }
+        ], {
           temperature: 0.1,
-          max_tokens: 200
+          maxTokens: 200
         });
 
-        const content = response.choices[0]?.message?.content;
         if (!content) {
           throw new Error('No response from language detection');
         }
@@ -142,25 +235,23 @@ export const languageService = {
   async translateText(text: string, targetLanguage: string, sourceLanguage?: string): Promise<string> {
     return executeOpenAIOperation(
       async () => {
-        const response = await openai.chat.completions.create({
-          model: openaiConfig.deploymentName,
-          messages: [
-            {
-              role: 'system',
-              content: `You are a professional translator. Translate the given text to ${targetLanguage}. 
-              ${sourceLanguage ? `The source language is ${sourceLanguage}.` : ''}
-              Maintain the original tone and context. Return only the translated text.`
-            },
-            {
-              role: 'user',
-              content: text
-            }
-          ],
+        const response = await complete('translateText', [
+          {
+            role: 'system',
+            content: `You are a professional translator. Translate the given text to ${targetLanguage}. 
+            ${sourceLanguage ? `The source language is ${sourceLanguage}.` : ''}
+            Maintain the original tone and context. Return only the translated text.`
+          },
+          {
+            role: 'user',
+            content: text
+          }
+        ], {
           temperature: 0.3,
-          max_tokens: Math.min(text.length * 2, 4000)
+          maxTokens: Math.min(text.length * 2, 4000)
         });
 
-        return response.choices[0]?.message?.content || text;
+        return response || text;
       },
       'translateText',
       { targetLanguage, sourceLanguage, textLength: text.length }
@@ -168,6 +259,47 @@ export const languageService = {
   }
 };
 
+// Intent classification: whether a chat message wants an answer from the bot
+export const intentService = {
+  async classifyIntent(text: string, recentMessages: string[] = []): Promise<MessageIntent> {
+    return executeOpenAIOperation(
+      async () => {
+        const content = await complete('classifyIntent', [
+          {
+            role: 'system',
+            content: `You classify messages in a group chat that has an assistant bot with access to the chat history and shared documents.
+            Decide what the last message asks for:
+            - "question": a question the bot could answer from the chat history, documents or general knowledge
+            - "request": asks the bot to do something (summarize, look up, explain, remind)
+            - "chatter": anything else, including questions meant for other people in the chat, rhetorical questions, greetings and thanks
+            
+            Response format:
+            {"intent": "question", "confidence": 0.9}`
+          },
+          {
+            role: 'user',
+            content: `${recentMessages.length > 0 ? `Earlier messages:\n${recentMessages.join('\n')}\n\n` : ''}Message: ${text.substring(0, 1000)}`
+          }
+        ], {
+          temperature: 0,
+          maxTokens: 50
+        });
+
+        try {
+          const parsed = JSON.parse(content) as Partial<MessageIntent>;
+          const intent = ['question', 'request', 'chatter'].includes(parsed.intent as string) ? parsed.intent! : 'chatter';
+          const confidence = typeof parsed.confidence === 'number' ? Math.min(1, Math.max(0, parsed.confidence)) : 0.5;
+          return { intent, confidence };
+        } catch {
+          return { intent: 'chatter', confidence: 0 };
+        }
+      },
+      'classifyIntent',
+      { textLength: text.length }
+    );
+  }
+};
+
 // Decision extraction service
 export const decisionService = {
   async extractDecisions(messages: string[], context?: string): Promise<Decision[]> {
@@ -175,37 +307,34 @@ export const decisionService = {
       async () => {
         const conversationText = messages.join('\n\n');
         
-        const response = await openai.chat.completions.create({
-          model: openaiConfig.deploymentName,
-          messages: [
-            {
-              role: 'system',
-              content: `You are an expert at analyzing conversations and extracting decisions. 
-              Analyze the conversation and identify any decisions that were made.
-              
-              Return a JSON array of decisions with this format:
-              [
-                {
-                  "content": "The actual decision made",
-                  "confidence": 0.85,
-                  "context": "Brief context about the decision",
-                  "status": "pending"
-                }
-              ]
-              
-              Only include clear, actionable decisions. Confidence should be 0.0-1.0.
-              Status should always be "pending" for new extractions.`
-            },
-            {
-              role: 'user',
-              content: `${context ? `Context: ${context}\n\n` : ''}Conversation:\n${conversationText}`
-            }
-          ],
+        const content = await complete('extractDecisions', [
+          {
+            role: 'system',
+            content: `You are an expert at analyzing conversations and extracting decisions. 
+            Analyze the conversation and identify any decisions that were made.
+            
+            Return a JSON array of decisions with this format:
+            [
+              {
+                "content": "The actual decision made",
+                "confidence": 0.85,
+                "context": "Brief context about the decision",
+                "status": "pending"
+              }
+            ]
+            
+            Only include clear, actionable decisions. Confidence should be 0.0-1.0.
+            Status should always be "pending" for new extractions.`
+          },
+          {
+            role: 'user',
+            content: `${context ? `Context: ${context}\n\n` : ''}Conversation:\n${conversationText}`
+          }
+        ], {
           temperature: 0.2,
-          max_tokens: 1500
+          maxTokens: 1500
         });
 
-        const content = response.choices[0]?.message?.content;
         if (!content) {
           return [];
         }
@@ -225,6 +354,43 @@ export const decisionService = {
       'extractDecisions',
       { messageCount: messages.length, hasContext: !!context }
     );
+  },
+
+  /**
+   * Which earlier decisions a newly confirmed one replaces: changed, reversed
+   * or made obsolete. Returns their numbers.
+   */
+  async findSuperseded(decision: string, earlier: Array<{ number: number; content: string }>): Promise<number[]> {
+    return executeOpenAIOperation(
+      async () => {
+        const content = await complete('findSupersededDecisions', [
+          {
+            role: 'system',
+            content: `You maintain a group chat's decision log. Given a new decision and earlier decisions,
+            list the earlier decisions the new one replaces: it changes, reverses or makes them obsolete.
+            Decisions that are merely related, or that the new one adds to, are not replaced.
+            
+            Return a JSON array of the numbers of the replaced decisions, or [] when none are.
+            
+            Response format:
+            [3, 7]`
+          },
+          {
+            role: 'user',
+            content: `New decision: ${decision}\n\nEarlier decisions:\n${earlier.map(item => `#${item.number}: ${item.content}`).join('\n')}`
+          }
+        ], {
+          temperature: 0,
+          maxTokens: 100
+        });
+
+        const parsed = JSON.parse(content || '[]');
+        const numbers = new Set(earlier.map(item => item.number));
+        return Array.isArray(parsed) ? parsed.filter((value): value is number => typeof value === 'number' && numbers.has(value)) : [];
+      },
+      'findSupersededDecisions',
+      { earlierCount: earlier.length }
+    );
   }
 };
 
@@ -235,38 +401,35 @@ export const actionItemService = {
       async () => {
         const conversationText = messages.join('\n\n');
         
-        const response = await openai.chat.completions.create({
-          model: openaiConfig.deploymentName,
-          messages: [
-            {
-              role: 'system',
-              content: `You are an expert at analyzing conversations and extracting action items.
-              Analyze the conversation and identify any tasks, assignments, or action items.
-              
-              Return a JSON array of action items with this format:
-              [
-                {
-                  "title": "Brief title of the action item",
-                  "description": "Detailed description of what needs to be done",
-                  "assignee": "person assigned (if mentioned)",
-                  "priority": "low|medium|high",
-                  "status": "pending"
-                }
-              ]
-              
-              Only include clear, actionable items. Priority should be based on urgency/importance.
-              Status should always be "pending" for new extractions.`
-            },
-            {
-              role: 'user',
-              content: `${context ? `Context: ${context}\n\n` : ''}Conversation:\n${conversationText}`
-            }
-          ],
+        const content = await complete('extractActionItems', [
+          {
+            role: 'system',
+            content: `You are an expert at analyzing conversations and extracting action items.
+            Analyze the conversation and identify any tasks, assignments, or action items.
+            
+            Return a JSON array of action items with this format:
+            [
+              {
+                "title": "Brief title of the action item",
+                "description": "Detailed description of what needs to be done",
+                "assignee": "person assigned (if mentioned)",
+                "priority": "low|medium|high",
+                "status": "pending"
+              }
+            ]
+            
+            Only include clear, actionable items. Priority should be based on urgency/importance.
+            Status should always be "pending" for new extractions.`
+          },
+          {
+            role: 'user',
+            content: `${context ? `Context: ${context}\n\n` : ''}Conversation:\n${conversationText}`
+          }
+        ], {
           temperature: 0.2,
-          max_tokens: 2000
+          maxTokens: 2000
         });
 
-        const content = response.choices[0]?.message?.content;
         if (!content) {
           return [];
         }
@@ -298,48 +461,63 @@ export const qaService = {
     question: string,
     context: string[],
     conversationHistory?: string[],
-    language: string = 'en'
+    language: string = 'en',
+    tools: QATool[] = []
   ): Promise<string> {
     return executeOpenAIOperation(
       async () => {
         const contextText = context.join('\n\n');
         const historyText = conversationHistory?.join('\n\n') || '';
         
-        const response = await openai.chat.completions.create({
-          model: openaiConfig.deploymentName,
-          messages: [
-            {
-              role: 'system',
-              content: `You are Buddian, a helpful AI assistant with access to conversation history and context.
-              Answer questions based on the provided context and conversation history.
-              
-              Guidelines:
-              - Be helpful, accurate, and concise
-              - Use the context to provide specific, relevant answers
-              - If you don't have enough information, say so
-              - Respond in ${language} language
-              - Include relevant sources or references when possible
-              - Maintain a friendly, professional tone`
-            },
-            {
-              role: 'user',
-              content: `Context:\n${contextText}\n\n${historyText ? `Recent conversation:\n${historyText}\n\n` : ''}Question: ${question}`
-            }
-          ],
-          temperature: 0.7,
-          max_tokens: 2000
-        });
+        const messages: ChatMessage[] = [
+          {
+            role: 'system',
+            content: `You are Buddian, a helpful AI assistant with access to conversation history and context.
+            Answer questions based on the provided context and conversation history.
+            
+            Guidelines:
+            - Be helpful, accurate, and concise
+            - Use the context to provide specific, relevant answers
+            - If you don't have enough information, say so
+            - Respond in ${language} language
+            - Include relevant sources or references when possible
+            - Maintain a friendly, professional tone${tools.length > 0 ? `
+            - Call the available tools when the context does not cover the question` : ''}`
+          },
+          {
+            role: 'user',
+            content: `Context:\n${contextText}\n\n${historyText ? `Recent conversation:\n${historyText}\n\n` : ''}Question: ${question}`
+          }
+        ];
+        const options = { temperature: 0.7, maxTokens: 2000 };
+
+        const response = tools.length > 0
+          ? (await runToolLoop('answerQuestion', messages, tools, { ...options, maxSteps: DEFAULT_TOOL_STEPS })).content
+          : await complete('answerQuestion', messages, options);
 
-        return response.choices[0]?.message?.content || 'I apologize, but I could not generate a response to your question.';
+        return response || 'I apologize, but I could not generate a response to your question.';
       },
       'answerQuestion',
       { 
         language, 
         contextLength: context.length, 
         hasHistory: !!conversationHistory,
-        questionLength: question.length 
+        questionLength: question.length,
+        toolCount: tools.length
       }
     );
+  },
+
+  /**
+   * Run a prepared conversation through the tool loop, for callers that
+   * build their own prompt and tools (the QA agent)
+   */
+  async runAgent(messages: ChatMessage[], tools: QATool[], maxSteps: number): Promise<ToolLoopResult> {
+    return executeOpenAIOperation(
+      () => runToolLoop('answerQuestion', messages, tools, { maxSteps, temperature: 0.3, maxTokens: 2000 }),
+      'answerQuestionAgent',
+      { toolCount: tools.length, maxSteps }
+    );
   }
 };
 
@@ -353,32 +531,30 @@ export const summaryService = {
   ): Promise<string> {
     return executeOpenAIOperation(
       async () => {
-        const response = await openai.chat.completions.create({
-          model: openaiConfig.deploymentName,
-          messages: [
-            {
-              role: 'system',
-              content: `You are an expert at creating concise, informative summaries.
-              Create a summary of the provided ${type} content.
-              
-              Guidelines:
-              - Maximum ${maxLength} characters
-              - Capture key points and main themes
-              - Use ${language} language
-              - Be objective and factual
-              - Include important decisions, action items, or conclusions
-              - Structure the summary clearly`
-            },
-            {
-              role: 'user',
-              content: content.substring(0, 8000) // Limit input length
-            }
-          ],
+        const response = await complete('summarizeContent', [
+          {
+            role: 'system',
+            content: `You are an expert at creating concise, informative summaries.
+            Create a summary of the provided ${type} content.
+            
+            Guidelines:
+            - Maximum ${maxLength} characters
+            - Capture key points and main themes
+            - Use ${language} language
+            - Be objective and factual
+            - Include important decisions, action items, or conclusions
+            - Structure the summary clearly`
+          },
+          {
+            role: 'user',
+            content: content.substring(0, 8000) // Limit input length
+          }
+        ], {
           temperature: 0.3,
-          max_tokens: Math.min(maxLength / 2, 1000)
+          maxTokens: Math.min(maxLength / 2, 1000)
         });
 
-        return response.choices[0]?.message?.content || 'Summary could not be generated.';
+        return response || 'Summary could not be generated.';
       },
       'summarizeContent',
       { type, language, contentLength: content.length, maxLength }
@@ -388,32 +564,29 @@ export const summaryService = {
   async generateKeyPoints(content: string, maxPoints: number = 5): Promise<string[]> {
     return executeOpenAIOperation(
       async () => {
-        const response = await openai.chat.completions.create({
-          model: openaiConfig.deploymentName,
-          messages: [
-            {
-              role: 'system',
-              content: `Extract the ${maxPoints} most important key points from the content.
-              Return a JSON array of strings, each representing a key point.
-              
-              Format: ["Key point 1", "Key point 2", ...]
-              
-              Focus on:
-              - Main topics and themes
-              - Important decisions or conclusions
-              - Action items or next steps
-              - Critical information or insights`
-            },
-            {
-              role: 'user',
-              content: content.substring(0, 6000)
-            }
-          ],
+        const responseContent = await complete('generateKeyPoints', [
+          {
+            role: 'system',
+            content: `Extract the ${maxPoints} most important key points from the content.
+            Return a JSON array of strings, each representing a key point.
+            
+            Format: ["Key point 1", "Key point 2", ...]
+            
+            Focus on:
+            - Main topics and themes
+            - Important decisions or conclusions
+            - Action items or next steps
+            - Critical information or insights`
+          },
+          {
+            role: 'user',
+            content: content.substring(0, 6000)
+          }
+        ], {
           temperature: 0.2,
-          max_tokens: 800
+          maxTokens: 800
         });
 
-        const responseContent = response.choices[0]?.message?.content;
         if (!responseContent) {
           return [];
         }
@@ -432,60 +605,100 @@ export const summaryService = {
       'generateKeyPoints',
       { contentLength: content.length, maxPoints }
     );
+  },
+
+  // Topic, summary and tags of a conversation thread; earlier summary carries what older messages said
+  async summarizeThread(messages: string[], previousSummary: string | undefined, language: string = 'en'): Promise<ThreadSummary> {
+    return executeOpenAIOperation(
+      async () => {
+        const content = await complete('summarizeThread', [
+          {
+            role: 'system',
+            content: `You describe one conversation thread of a group chat.
+            Return a JSON object with:
+            - "topic": what the thread is about, at most 60 characters
+            - "summary": what was said, decided and left open, at most 600 characters
+            - "tags": up to 5 lowercase keywords
+            
+            Use ${language} language for the topic and summary.
+            
+            Response format:
+            {"topic": "Choosing a venue for the offsite", "summary": "...", "tags": ["offsite", "venue"]}`
+          },
+          {
+            role: 'user',
+            content: `${previousSummary ? `Summary so far:\n${previousSummary}\n\nLatest messages:\n` : 'Messages:\n'}${messages.join('\n').substring(0, 6000)}`
+          }
+        ], {
+          temperature: 0.2,
+          maxTokens: 500
+        });
+
+        const parsed = JSON.parse(content) as Partial<ThreadSummary>;
+        if (typeof parsed.topic !== 'string' || typeof parsed.summary !== 'string') {
+          throw new Error('Thread summary response is missing topic or summary');
+        }
+        return {
+          topic: parsed.topic.substring(0, 100),
+          summary: parsed.summary,
+          tags: Array.isArray(parsed.tags) ? parsed.tags.filter((tag): tag is string => typeof tag === 'string').slice(0, 5) : []
+        };
+      },
+      'summarizeThread',
+      { messageCount: messages.length, language }
+    );
   }
 };
 
 // Image analysis service
 export const visionService = {
   async analyzeImage(imageUrl: string, language: string = 'en'): Promise<string> {
-    // Use Azure OpenAI Vision if configured
-    if (openaiVision) {
+    // Use the vision-capable model of the configured provider
+    if (hasVisionModel()) {
       return executeOpenAIOperation(
         async () => {
-          const response = await openaiVision.chat.completions.create({
-            model: openaiConfig.visionDeploymentName!,
-            messages: [
-              {
-                role: 'system',
-                content: `You are an expert at analyzing images and providing detailed descriptions.
-                Analyze the image and provide a comprehensive description in ${language}.
-                
-                Include:
-                - What you see in the image
-                - Key objects, people, or elements
-                - Context or setting
-                - Any text visible in the image
-                - Overall mood or atmosphere`
-              },
-              {
-                role: 'user',
-                content: [
-                  {
-                    type: 'text',
-                    text: 'Please analyze this image:'
-                  },
-                  {
-                    type: 'image_url',
-                    image_url: {
-                      url: imageUrl
-                    }
+          const response = await complete('analyzeImage', [
+            {
+              role: 'system',
+              content: `You are an expert at analyzing images and providing detailed descriptions.
+              Analyze the image and provide a comprehensive description in ${language}.
+              
+              Include:
+              - What you see in the image
+              - Key objects, people, or elements
+              - Context or setting
+              - Any text visible in the image
+              - Overall mood or atmosphere`
+            },
+            {
+              role: 'user',
+              content: [
+                {
+                  type: 'text',
+                  text: 'Please analyze this image:'
+                },
+                {
+                  type: 'image_url',
+                  image_url: {
+                    url: imageUrl
                   }
-                ]
-              }
-            ],
+                }
+              ]
+            }
+          ], {
             temperature: 0.3,
-            max_tokens: 1000
+            maxTokens: 1000
           });
 
-          return response.choices[0]?.message?.content || 'Could not analyze the image.';
+          return response || 'Could not analyze the image.';
         },
         'analyzeImage',
-        { imageUrl: imageUrl.substring(0, 100), language, client: 'azure-openai-vision' }
+        { imageUrl: imageUrl.substring(0, 100), language, client: `${provider.name}-vision` }
       );
     }
 
     // Fallback to Azure Computer Vision if configured
-    if (visionClient) {
+    if (visionConfig) {
       return executeOpenAIOperation(
         async () => {
           // This would use Azure Computer Vision API
@@ -497,7 +710,66 @@ export const visionService = {
       );
     }
 
-    throw new OpenAIError('No vision service configured. Please set AZURE_OPENAI_VISION_DEPLOYMENT_NAME or AZURE_VISION_* environment variables.');
+    throw new OpenAIError('No vision service configured. Please set AI_VISION_MODEL (or AZURE_OPENAI_VISION_DEPLOYMENT_NAME) or AZURE_VISION_* environment variables.');
+  }
+};
+
+// Set once the embedding model returns vectors the search index cannot hold;
+// the model does not change while the bot runs, so it is not asked again
+let embeddingDimensionMismatch: number | undefined;
+
+// Embedding service
+export const embeddingService = {
+  /**
+   * Whether embeddings can be generated. Callers skip them and search
+   * full-text only when there is no model or it returns the wrong size.
+   */
+  isEnabled(): boolean {
+    return hasEmbeddingModel() && embeddingDimensionMismatch === undefined;
+  },
+
+  async generateEmbedding(text: string): Promise<number[]> {
+    const [embedding] = await this.generateEmbeddings([text]);
+    if (!embedding) {
+      throw new OpenAIError('No embedding returned', { textLength: text.length });
+    }
+    return embedding;
+  },
+
+  async generateEmbeddings(texts: string[]): Promise<number[][]> {
+    if (embeddingDimensionMismatch !== undefined) {
+      throw new OpenAIError(`Embeddings are off: the embedding model returns ${embeddingDimensionMismatch} dimensions; the search index needs ${EMBEDDING_DIMENSIONS}`);
+    }
+
+    const embeddings: number[][] = [];
+
+    for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+      const batch = texts
+        .slice(i, i + EMBEDDING_BATCH_SIZE)
+        .map(text => text.replace(/\s+/g, ' ').trim().substring(0, EMBEDDING_MAX_INPUT_CHARS));
+
+      const batchEmbeddings = await executeOpenAIOperation(
+        async () => {
+          return provider.embed(batch, resolveModel('embedding'));
+        },
+        'generateEmbeddings',
+        { batchSize: batch.length, model: resolveModel('embedding') }
+      );
+
+      // The search index stores vectors of one size; callers fall back to full-text search without one
+      const mismatched = batchEmbeddings.find(embedding => embedding.length !== EMBEDDING_DIMENSIONS);
+      if (mismatched) {
+        embeddingDimensionMismatch = mismatched.length;
+        throw new OpenAIError(`Embedding model returned ${mismatched.length} dimensions; the search index needs ${EMBEDDING_DIMENSIONS}`, {
+          model: resolveModel('embedding'),
+          dimensions: mismatched.length
+        });
+      }
+
+      embeddings.push(...batchEmbeddings);
+    }
+
+    return embeddings;
   }
 };
 
@@ -505,15 +777,13 @@ export const visionService = {
 export const healthService = {
   async checkConnection(): Promise<boolean> {
     try {
-      await openai.chat.completions.create({
-        model: openaiConfig.deploymentName,
-        messages: [{ role: 'user', content: 'ping' }],
-        max_tokens: 1,
+      await complete('healthCheck', [{ role: 'user', content: 'ping' }], {
+        maxTokens: 1,
         temperature: 0
       });
       return true;
     } catch (error) {
-      logError(openaiLogger, error as Error, { operation: 'healthCheck' });
+      logError(openaiLogger, error as Error, { operation: 'healthCheck', provider: provider.name });
       return false;
     }
   }
@@ -522,10 +792,12 @@ export const healthService = {
 // Export all services
 export default {
   language: languageService,
+  intent: intentService,
   decision: decisionService,
   actionItem: actionItemService,
   qa: qaService,
   summary: summaryService,
   vision: visionService,
+  embedding: embeddingService,
   health: healthService
 };
@@ -0,0 +1,344 @@
+import { Telegram } from 'telegraf';
+import { messageService, userService, actionItemService, decisionService, resourceService, threadService } from '@/services/supabase';
+import { hybridSearchService } from '@/services/indexing';
+import openaiService from '@/services/openai';
+import { ChatMessage } from '@/services/ai-provider';
+import { pluginManager } from '@/plugins/manager';
+import { qaConfig } from '@/config/env';
+import { openaiLogger } from '@/utils/logger';
+import { Message, Resource, QAAgentAnswer, QACitation, QATool, TopicScope } from '@/types';
+
+/**
+ * Question answering as a tool-calling agent: instead of one prompt stuffed
+ * with search results, the model searches the chat itself, step by step,
+ * and cites the stored messages and documents it used as [msg:<id>] and
+ * [doc:<id>]. Only ids that a tool actually returned count as citations.
+ */
+
+export interface QAAgentOptions {
+  chatId: string;
+  userId: string;
+  language: string;
+  telegram?: Telegram; // Needed for plugin commands
+  disabledPlugins?: string[]; // Turned off by the chat or the asking user
+  threadId?: string; // The conversation thread the question was asked in
+  topicId?: TopicScope; // Set in forums, where surrounding messages come from the same topic
+}
+
+// Recent messages shown up front, so follow-up questions have context
+const RECENT_MESSAGES = 8;
+const MAX_MESSAGE_CHARS = 500;
+const CITATION_PATTERN = /\s?\[(msg|doc):([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\]/gi;
+const ACTION_ITEM_STATUSES = ['pending', 'in_progress', 'completed', 'cancelled'] as const;
+
+function clamp(value: unknown, min: number, max: number, fallback: number): number {
+  const number = typeof value === 'number' ? Math.round(value) : Number.NaN;
+  return Number.isFinite(number) ? Math.min(max, Math.max(min, number)) : fallback;
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toISOString().substring(0, 16).replace('T', ' ');
+}
+
+/**
+ * Per-question state: the chat being searched, author names, and every
+ * message and document a tool has shown the model (the only ones it may cite)
+ */
+class AgentRun {
+  private authors: Map<string, string> = new Map();
+  readonly shown: Map<string, QACitation> = new Map();
+
+  constructor(private options: QAAgentOptions) {}
+
+  private async authorName(userId: string): Promise<string> {
+    let name = this.authors.get(userId);
+    if (!name) {
+      const user = await userService.getUserById(userId).catch(() => null);
+      name = user ? (user.username ? `@${user.username}` : user.firstName) : 'someone';
+      this.authors.set(userId, name);
+    }
+    return name;
+  }
+
+  // One line per message, with the id the model cites
+  async formatMessages(messages: Message[]): Promise<string> {
+    if (messages.length === 0) {
+      return 'No messages.';
+    }
+
+    const lines: string[] = [];
+    for (const message of messages) {
+      const author = await this.authorName(message.userId);
+      const content = message.content.length > MAX_MESSAGE_CHARS ? `${message.content.substring(0, MAX_MESSAGE_CHARS)}…` : message.content;
+
+      this.shown.set(`msg:${message.id}`, {
+        type: 'message',
+        id: message.id,
+        timestamp: message.timestamp,
+        author,
+        excerpt: message.content.replace(/\s+/g, ' ').substring(0, 120),
+        ...(message.metadata?.telegramMessageId && { telegramMessageId: message.metadata.telegramMessageId })
+      });
+      lines.push(`[msg:${message.id}] ${formatTime(message.timestamp)} ${author}: ${content}`);
+    }
+    return lines.join('\n');
+  }
+
+  // Heading line for a document, with the id the model cites
+  private async recordResource(resource: Resource): Promise<string> {
+    const author = await this.authorName(resource.userId);
+    const title = resource.metadata.title || resource.filename || resource.url || resource.type;
+
+    this.shown.set(`doc:${resource.id}`, {
+      type: 'resource',
+      id: resource.id,
+      timestamp: resource.extractedAt,
+      author,
+      excerpt: title,
+      ...(resource.metadata.telegramMessageId && { telegramMessageId: resource.metadata.telegramMessageId }),
+      ...(resource.url && { url: resource.url })
+    });
+    return `[doc:${resource.id}] ${formatTime(resource.extractedAt)} ${author} shared "${title}":`;
+  }
+
+  // Tools over this chat's data, plus commands and tools of the plugins the chat has not turned off
+  tools(disabledPlugins: string[]): QATool[] {
+    const { chatId } = this.options;
+
+    const tools: QATool[] = [
+      {
+        name: 'search_messages',
+        description: 'Search this chat\'s messages and recorded decisions by keywords and meaning',
+        parameters: {
+          type: 'object',
+          properties: {
+            query: { type: 'string', description: 'What to look for' },
+            limit: { type: 'integer', minimum: 1, maximum: 20, default: 8 },
+            ...(this.options.threadId && {
+              current_thread_only: { type: 'boolean', description: 'Only messages of the conversation thread the question was asked in', default: false }
+            })
+          },
+          required: ['query']
+        },
+        execute: async args => {
+          const results = await hybridSearchService.search(chatId, String(args['query'] || ''), {
+            limit: clamp(args['limit'], 1, 20, 8),
+            types: ['message', 'decision'],
+            topicId: this.options.topicId
+          });
+          if (results.length === 0) {
+            return 'No matching messages.';
+          }
+
+          // Decisions are shown as the message they came from, while retention has kept it
+          const threadId = args['current_thread_only'] === true ? this.options.threadId : undefined;
+          const messages: Message[] = [];
+          for (const result of results) {
+            const messageId = result.type === 'decision' ? (await decisionService.getDecision(result.id))?.messageId : result.id;
+            const message = messageId ? await messageService.getMessage(messageId) : null;
+            if (message && message.chatId === chatId && (!threadId || message.threadId === threadId) && !messages.some(existing => existing.id === message.id)) {
+              messages.push(message);
+            }
+          }
+          return messages.length > 0 || !threadId ? this.formatMessages(messages) : 'No matching messages in this thread.';
+        }
+      },
+      {
+        name: 'search_resources',
+        description: 'Search documents, links and media shared in this chat (extracted text and summaries)',
+        parameters: {
+          type: 'object',
+          properties: {
+            query: { type: 'string', description: 'What to look for' },
+            limit: { type: 'integer', minimum: 1, maximum: 10, default: 5 }
+          },
+          required: ['query']
+        },
+        execute: async args => {
+          const results = await hybridSearchService.search(chatId, String(args['query'] || ''), {
+            limit: clamp(args['limit'], 1, 10, 5),
+            types: ['resource'],
+            topicId: this.options.topicId
+          });
+          if (results.length === 0) {
+            return 'No matching documents.';
+          }
+
+          const sections: string[] = [];
+          for (const result of results) {
+            const resource = await resourceService.getResource(result.id);
+            if (resource && resource.chatId === chatId) {
+              sections.push(`${await this.recordResource(resource)}\n${result.content.substring(0, 800)}`);
+            }
+          }
+          return sections.length > 0 ? sections.join('\n\n') : 'No matching documents.';
+        }
+      },
+      {
+        name: 'get_thread',
+        description: 'Fetch the conversation around a message: the messages just before and after it',
+        parameters: {
+          type: 'object',
+          properties: {
+            message_id: { type: 'string', description: 'Id from a [msg:...] reference' },
+            before: { type: 'integer', minimum: 0, maximum: 20, default: 5 },
+            after: { type: 'integer', minimum: 0, maximum: 20, default: 5 }
+          },
+          required: ['message_id']
+        },
+        execute: async args => {
+          const message = await messageService.getMessage(String(args['message_id'] || '')).catch(() => null);
+          if (!message || message.chatId !== chatId) {
+            return 'Message not found in this chat.';
+          }
+
+          const before = clamp(args['before'], 0, 20, 5);
+          const after = clamp(args['after'], 0, 20, 5);
+          const topicId = this.options.topicId !== undefined ? message.metadata?.telegramTopicId ?? null : undefined;
+          const earlier = before > 0 ? await messageService.getMessages(chatId, before, message.timestamp, topicId) : [];
+          const later = after > 0 ? await messageService.getMessagesSince(chatId, message.timestamp + 1, after, undefined, topicId) : [];
+
+          return this.formatMessages([...earlier.reverse(), message, ...later]);
+        }
+      },
+      {
+        name: 'list_action_items',
+        description: 'Action items tracked in this chat, newest first, with the messages they came from',
+        parameters: {
+          type: 'object',
+          properties: {
+            status: { type: 'array', items: { type: 'string', enum: [...ACTION_ITEM_STATUSES] } }
+          }
+        },
+        execute: async args => {
+          const statuses = Array.isArray(args['status'])
+            ? args['status'].filter((status: unknown) => ACTION_ITEM_STATUSES.includes(status as typeof ACTION_ITEM_STATUSES[number]))
+            : [];
+          const items = await actionItemService.getActionItems(chatId, { ...(statuses.length > 0 && { statuses }), limit: 30 });
+          if (items.length === 0) {
+            return 'No action items.';
+          }
+
+          return items.map(item => [
+            `#${item.number} [${item.status}] ${item.title}`,
+            item.assignee && `assignee ${item.assignee}`,
+            item.dueDate && `due ${formatTime(item.dueDate)}`,
+            item.relatedMessages.length > 0 && `from ${item.relatedMessages.map(id => `[msg:${id}]`).join(' ')}`
+          ].filter(Boolean).join(', ')).join('\n');
+        }
+      }
+    ];
+
+    // MCP server tools are offered directly; other plugin commands go through one tool
+    const commands = pluginManager.getAvailableCommands(disabledPlugins).filter(({ command }) => command.category !== 'mcp');
+    if (this.options.telegram && commands.length > 0) {
+      const telegram = this.options.telegram;
+      tools.push({
+        name: 'run_plugin_command',
+        description: `Run a plugin command in this chat and read its reply. Available: ${commands.map(({ command }) => command.usage || `/${command.name}`).join('; ')}`,
+        parameters: {
+          type: 'object',
+          properties: {
+            command: { type: 'string', description: 'Command name without the slash' },
+            arguments: { type: 'string', description: 'Arguments as typed after the command' }
+          },
+          required: ['command']
+        },
+        execute: async args => {
+          const command = String(args['command'] || '').replace(/^\//, '');
+          if (!commands.some(available => available.command.name === command)) {
+            return `Unknown command: ${command}`;
+          }
+
+          const output = await pluginManager.runCommand(command, String(args['arguments'] || '').split(/\s+/).filter(Boolean), {
+            userId: this.options.userId,
+            chatId,
+            language: this.options.language,
+            telegram
+          });
+          return output ?? `Command ${command} is not available`;
+        }
+      });
+    }
+
+    return [...tools, ...pluginManager.getQATools(disabledPlugins)];
+  }
+
+  /**
+   * Replace [msg:id] and [doc:id] markers with [1], [2]... for ids the model
+   * was shown; markers for anything else are dropped
+   */
+  resolveCitations(content: string): { answer: string; citations: QACitation[] } {
+    const citations: QACitation[] = [];
+
+    const answer = content.replace(CITATION_PATTERN, (_marker, kind: string, id: string) => {
+      const citation = this.shown.get(`${kind.toLowerCase()}:${id.toLowerCase()}`);
+      if (!citation) {
+        return '';
+      }
+
+      let index = citations.indexOf(citation);
+      if (index === -1) {
+        citations.push(citation);
+        index = citations.length - 1;
+      }
+      return ` [${index + 1}]`;
+    });
+
+    return { answer: answer.trim(), citations };
+  }
+}
+
+export const qaAgentService = {
+  async answerQuestion(question: string, options: QAAgentOptions): Promise<QAAgentAnswer> {
+    const startTime = Date.now();
+    const run = new AgentRun(options);
+
+    // Questions asked in a thread see that thread first; the tools still reach the whole chat
+    const thread = options.threadId ? await threadService.getThread(options.threadId) : null;
+    const recent = thread
+      ? await threadService.getThreadMessages(thread.id, RECENT_MESSAGES)
+      : (await messageService.getMessages(options.chatId, RECENT_MESSAGES, undefined, options.topicId)).reverse();
+    const recentText = await run.formatMessages(recent);
+    const threadText = thread
+      ? `Current thread: ${thread.topic}${thread.summary ? `\nThread so far: ${thread.summary}` : ''}\nLatest messages in this thread:\n`
+      : 'Recent messages:\n';
+
+    const messages: ChatMessage[] = [
+      {
+        role: 'system',
+        content: `You are Buddian, an assistant that remembers this Telegram chat.
+        Answer the question from what is stored for this chat, using the tools to look things up.
+
+        Guidelines:
+        - Search before answering unless the recent messages already settle the question
+        - Questions about "this", "here" or "so far" refer to the current thread when there is one
+        - Follow up on promising results, e.g. with get_thread, rather than guessing
+        - After each statement that relies on a stored message or document, cite it as [msg:<id>] or [doc:<id>] using ids exactly as the tools return them
+        - Never invent ids; if nothing relevant is found, say so
+        - You have at most ${qaConfig.maxSteps} steps, so search efficiently
+        - Respond in ${options.language} language, concisely`
+      },
+      {
+        role: 'user',
+        content: `${threadText}${recentText}\n\nQuestion: ${question}`
+      }
+    ];
+
+    const result = await openaiService.qa.runAgent(messages, run.tools(options.disabledPlugins || []), qaConfig.maxSteps);
+    const { answer, citations } = run.resolveCitations(result.content);
+
+    openaiLogger.info({
+      chatId: options.chatId,
+      steps: result.steps,
+      toolCalls: result.trace.length,
+      citations: citations.map(citation => `${citation.type}:${citation.id}`),
+      trace: result.trace,
+      duration: Date.now() - startTime
+    }, 'QA agent answered');
+
+    return { answer, citations, trace: result.trace, steps: result.steps };
+  }
+};
+
+export default qaAgentService;
@@ -0,0 +1,163 @@
+import { Markup, Telegram, TelegramError } from 'telegraf';
+import { reminderService, userService } from '@/services/supabase';
+import { parseReminderTime } from '@/utils/time-parser';
+import { getNextRun } from '@/utils/cron';
+import { normalizeTimezone, formatZonedTime } from '@/utils/timezone';
+import { schedulerLogger, logError } from '@/utils/logger';
+import { Reminder, User, ValidationError } from '@/types';
+
+// Snooze choices offered under a delivered reminder, in minutes
+export const SNOOZE_OPTIONS: Array<{ label: string; minutes: number }> = [
+  { label: '10 min', minutes: 10 },
+  { label: '1 hour', minutes: 60 },
+  { label: 'Tomorrow', minutes: 24 * 60 }
+];
+
+// Callback data: rem:snooze:<id>:<minutes> or rem:cancel:<id>
+export const REMINDER_CALLBACK = /^rem:(snooze|cancel):([0-9a-f-]{36})(?::(\d+))?$/;
+
+export function reminderKeyboard(reminder: Reminder, delivered: boolean) {
+  const cancelLabel = reminder.recurrence ? '✖️ Stop repeating' : '✖️ Cancel';
+
+  if (!delivered) {
+    return Markup.inlineKeyboard([[Markup.button.callback(cancelLabel, `rem:cancel:${reminder.id}`)]]);
+  }
+
+  const rows = [
+    SNOOZE_OPTIONS.map(option =>
+      Markup.button.callback(`⏰ ${option.label}`, `rem:snooze:${reminder.id}:${option.minutes}`)
+    )
+  ];
+  if (reminder.recurrence) {
+    rows.push([Markup.button.callback(cancelLabel, `rem:cancel:${reminder.id}`)]);
+  }
+  return Markup.inlineKeyboard(rows);
+}
+
+export function describeReminderTime(reminder: Reminder): string {
+  const when = `${formatZonedTime(reminder.fireAt, reminder.timezone)} (${reminder.timezone})`;
+  return reminder.recurrence ? `${when}, repeating` : when;
+}
+
+// Delivery failures that will not go away by retrying
+function isPermanentDeliveryError(error: unknown): boolean {
+  return error instanceof TelegramError && (error.code === 403 || error.code === 400);
+}
+
+export const reminderManager = {
+  /**
+   * Create a reminder from free text such as "me in 2h to call mom"
+   */
+  async create(
+    chatId: string,
+    user: User,
+    input: string,
+    replyToMessageId?: number,
+    telegramTopicId?: number
+  ): Promise<Reminder> {
+    const timezone = normalizeTimezone(user.preferences.timezone);
+    const parsed = parseReminderTime(input, Date.now(), timezone);
+
+    if (!parsed) {
+      throw new ValidationError('I couldn\'t work out when to remind you', { input });
+    }
+    if (!parsed.text) {
+      throw new ValidationError('What should I remind you about?', { input });
+    }
+
+    return reminderService.createReminder({
+      chatId,
+      userId: user.id,
+      text: parsed.text,
+      fireAt: parsed.fireAt,
+      ...(parsed.recurrence && { recurrence: parsed.recurrence }),
+      timezone,
+      ...(replyToMessageId && { replyToMessageId }),
+      ...(telegramTopicId && { telegramTopicId })
+    });
+  },
+
+  /**
+   * Send every due reminder. Each one is claimed before sending so that
+   * concurrent bot instances never deliver the same reminder twice.
+   */
+  async deliverDue(telegram: Telegram, now: number = Date.now()): Promise<number> {
+    const due = await reminderService.getDueReminders(now);
+    let delivered = 0;
+
+    for (const reminder of due) {
+      try {
+        const nextFireAt = reminder.recurrence
+          ? getNextRun(reminder.recurrence, now, normalizeTimezone(reminder.timezone))
+          : null;
+
+        if (!await reminderService.claimReminder(reminder, nextFireAt, now)) {
+          continue;
+        }
+
+        const user = await userService.getUserById(reminder.userId);
+        const name = user?.username ? `@${user.username}` : user?.firstName || 'you';
+
+        await telegram.sendMessage(reminder.chatId, `⏰ Reminder for ${name}: ${reminder.text}`, {
+          ...(reminder.telegramTopicId && { message_thread_id: reminder.telegramTopicId }),
+          ...(reminder.replyToMessageId && {
+            reply_parameters: { message_id: reminder.replyToMessageId, allow_sending_without_reply: true }
+          }),
+          ...reminderKeyboard(reminder, true)
+        });
+        delivered++;
+      } catch (error) {
+        logError(schedulerLogger, error as Error, {
+          operation: 'deliver_reminder',
+          reminderId: reminder.id,
+          chatId: reminder.chatId
+        });
+
+        // The bot was removed from the chat or blocked; stop trying
+        if (isPermanentDeliveryError(error)) {
+          await reminderService.updateReminder(reminder.id, { status: 'cancelled' });
+        }
+      }
+    }
+
+    if (delivered > 0) {
+      schedulerLogger.info({ delivered, due: due.length }, 'Reminders delivered');
+    }
+    return delivered;
+  },
+
+  /**
+   * Fire the reminder again after a delay. Snoozing one occurrence of a
+   * repeating reminder creates a one-off copy and leaves the series alone.
+   */
+  async snooze(reminder: Reminder, minutes: number): Promise<Reminder> {
+    const fireAt = Date.now() + minutes * 60 * 1000;
+
+    if (reminder.recurrence) {
+      return reminderService.createReminder({
+        chatId: reminder.chatId,
+        userId: reminder.userId,
+        text: reminder.text,
+        fireAt,
+        timezone: reminder.timezone,
+        ...(reminder.replyToMessageId && { replyToMessageId: reminder.replyToMessageId }),
+        ...(reminder.telegramTopicId && { telegramTopicId: reminder.telegramTopicId })
+      });
+    }
+
+    return reminderService.updateReminder(reminder.id, {
+      status: 'pending',
+      fireAt,
+      snoozeCount: reminder.snoozeCount + 1
+    });
+  },
+
+  async cancel(reminder: Reminder): Promise<Reminder> {
+    if (reminder.status === 'cancelled') {
+      return reminder;
+    }
+    return reminderService.updateReminder(reminder.id, { status: 'cancelled' });
+  }
+};
+
+export default reminderManager;
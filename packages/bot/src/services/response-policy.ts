@@ -0,0 +1,115 @@
+import { messageService } from '@/services/supabase';
+import { chatSettingsManager } from '@/services/chat-settings';
+import openaiService from '@/services/openai';
+import { responsesConfig } from '@/config/env';
+import { telegramLogger, logError } from '@/utils/logger';
+import { getTopicScope } from '@/utils/telegram';
+import { BotContext, MessageIntent, TopicScope } from '@/types';
+
+/**
+ * Decides whether the bot answers a message that is not a command. Private
+ * chats, mentions, replies to the bot and trigger words address the bot; in
+ * "questions" mode the intent classifier may also pick up unaddressed
+ * questions. Addressed messages are answered unless they are chatter.
+ */
+
+export type ResponseReason = 'private' | 'mention' | 'reply' | 'trigger';
+
+export interface ResponseDecision {
+  respond: boolean;
+  addressedBy?: ResponseReason;
+  intent?: MessageIntent;
+  question: string; // The message without the bot mention
+}
+
+// Unaddressed messages shorter than this are not worth classifying
+const MIN_UNADDRESSED_LENGTH = 10;
+// Earlier messages given to the classifier, so it can tell who a question is for
+const CLASSIFIER_CONTEXT_MESSAGES = 3;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Whole-word, case-insensitive match that works for non-Latin scripts
+function containsWord(text: string, word: string): boolean {
+  return new RegExp(`(^|[^\\p{L}\\p{N}_])${escapeRegExp(word)}(?=$|[^\\p{L}\\p{N}_])`, 'iu').test(text);
+}
+
+function addressedBy(ctx: BotContext, content: string, triggerWords: string[]): ResponseReason | undefined {
+  if (ctx.chat?.type === 'private') {
+    return 'private';
+  }
+
+  const message = ctx.message;
+  if (message && 'reply_to_message' in message && message.reply_to_message?.from?.id === ctx.botInfo.id) {
+    return 'reply';
+  }
+  if (ctx.botInfo.username && containsWord(content, `@${ctx.botInfo.username}`)) {
+    return 'mention';
+  }
+  if (triggerWords.some(word => containsWord(content, word))) {
+    return 'trigger';
+  }
+  return undefined;
+}
+
+// The keyword check the classifier replaced, kept for when the AI call fails
+function guessIntent(content: string): MessageIntent {
+  const questionIndicators = ['?', 'what', 'how', 'why', 'when', 'where', 'who', 'which'];
+  const isQuestion = questionIndicators.some(indicator => content.toLowerCase().includes(indicator));
+  return { intent: isQuestion ? 'question' : 'chatter', confidence: 0.5 };
+}
+
+// In forums the context comes from the message's own topic
+async function classify(content: string, chatId: string, withContext: boolean, topicId?: TopicScope): Promise<MessageIntent> {
+  try {
+    // Newest first, and the newest is the message being classified
+    const recent = withContext ? await messageService.getMessages(chatId, CLASSIFIER_CONTEXT_MESSAGES + 1, undefined, topicId) : [];
+    const context = recent.slice(1).reverse().map(message => message.content.substring(0, 300));
+    return await openaiService.intent.classifyIntent(content, context);
+  } catch (error) {
+    logError(telegramLogger, error as Error, {
+      operation: 'intent_classification',
+      chatId
+    });
+    return guessIntent(content);
+  }
+}
+
+export const responsePolicy = {
+  async decide(ctx: BotContext, content: string, chatId: string): Promise<ResponseDecision> {
+    const settings = await chatSettingsManager.getSettings(chatId);
+    const reason = addressedBy(ctx, content, settings.triggerWords);
+
+    const question = ctx.botInfo.username
+      ? content.replace(new RegExp(`@${escapeRegExp(ctx.botInfo.username)}\\b`, 'gi'), '').trim()
+      : content.trim();
+
+    if (reason !== 'private' && settings.responseMode === 'off') {
+      return { respond: false, question };
+    }
+
+    if (!reason) {
+      if (settings.responseMode !== 'questions' || question.length < MIN_UNADDRESSED_LENGTH) {
+        return { respond: false, question };
+      }
+
+      const intent = await classify(question, chatId, true, getTopicScope(ctx));
+      return {
+        respond: intent.intent === 'question' && intent.confidence >= responsesConfig.minConfidence,
+        intent,
+        question
+      };
+    }
+
+    if (!question) {
+      return { respond: false, addressedBy: reason, question };
+    }
+
+    const intent = await classify(question, chatId, false);
+    return { respond: intent.intent !== 'chatter', addressedBy: reason, intent, question };
+  }
+};
+
+export default responsePolicy;
@@ -0,0 +1,142 @@
+import { messageService, retentionService, analyticsService } from '@/services/supabase';
+import { chatSettingsManager } from '@/services/chat-settings';
+import openaiService from '@/services/openai';
+import { retentionConfig } from '@/config/env';
+import { schedulerLogger, logError } from '@/utils/logger';
+import { RetentionKind, RetentionRule } from '@/types';
+
+/**
+ * Enforces each chat's retention policy. Messages are purged one UTC day at
+ * a time, and each day is summarized into history_summaries first, so
+ * /summary can still describe periods whose messages are gone. Resources
+ * and analytics events are deleted without a summary.
+ */
+
+export interface PurgeResult {
+  messages: number;
+  resources: number;
+  analytics: number;
+  summaries: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Messages read per purged day; busier days are summarized from their first messages
+const MESSAGES_PER_PERIOD = 2000;
+// The summarizer reads this much text per call; longer days are summarized in parts
+const SUMMARY_CHUNK_CHARS = 8000;
+const MAX_SUMMARY_CHUNKS = 4;
+
+/**
+ * Rows older than the returned timestamp break the rule, by age or by being
+ * beyond the newest maxCount rows; null when nothing does
+ */
+async function purgeCutoff(kind: RetentionKind, chatId: string, rule: RetentionRule, now: number): Promise<number | null> {
+  const cutoffs: number[] = [];
+
+  if (rule.maxAgeDays) {
+    cutoffs.push(now - rule.maxAgeDays * DAY_MS);
+  }
+  if (rule.maxCount) {
+    const newestPurged = await retentionService.getCountCutoff(kind, chatId, rule.maxCount);
+    if (newestPurged !== null) {
+      cutoffs.push(newestPurged + 1);
+    }
+  }
+
+  return cutoffs.length > 0 ? Math.max(...cutoffs) : null;
+}
+
+async function summarizePeriod(text: string, language: string): Promise<string> {
+  const chunks: string[] = [];
+  for (let start = 0; start < text.length && chunks.length < MAX_SUMMARY_CHUNKS; start += SUMMARY_CHUNK_CHARS) {
+    chunks.push(text.substring(start, start + SUMMARY_CHUNK_CHARS));
+  }
+
+  const parts: string[] = [];
+  for (const chunk of chunks) {
+    parts.push(await openaiService.summary.summarizeContent(chunk, 'conversation', language, 1000));
+  }
+  return parts.length === 1 ? parts[0]! : openaiService.summary.summarizeContent(parts.join('\n\n'), 'conversation', language, 1000);
+}
+
+// Summarize and delete messages older than `before`, oldest day first
+async function purgeMessages(chatId: string, before: number, language: string): Promise<{ messages: number; summaries: number }> {
+  let messages = 0;
+  let summaries = 0;
+
+  for (let period = 0; period < retentionConfig.maxPeriodsPerRun; period++) {
+    const oldest = await retentionService.getOldestMessageTimestamp(chatId, before);
+    if (oldest === null) {
+      break;
+    }
+
+    const to = Math.min(Math.floor(oldest / DAY_MS) * DAY_MS + DAY_MS, before);
+    const dayMessages = await messageService.getMessagesSince(chatId, oldest, MESSAGES_PER_PERIOD, to);
+    const text = dayMessages.map(message => message.content).filter(content => content.length > 0).join('\n\n');
+
+    // Stored before the purge: a failed summary leaves the messages for the next run
+    if (text.length > 0 && dayMessages.length > 0) {
+      await retentionService.storeSummary({
+        chatId,
+        periodStart: dayMessages[0]!.timestamp,
+        periodEnd: dayMessages[dayMessages.length - 1]!.timestamp,
+        messageCount: dayMessages.length,
+        summary: await summarizePeriod(text, language)
+      });
+      summaries++;
+    }
+
+    messages += await retentionService.purgeMessages(chatId, oldest, to);
+  }
+
+  return { messages, summaries };
+}
+
+export const retentionManager = {
+  async purgeChat(chatId: string, now: number = Date.now()): Promise<PurgeResult> {
+    const { retention, language } = await chatSettingsManager.getSettings(chatId);
+    const result: PurgeResult = { messages: 0, resources: 0, analytics: 0, summaries: 0 };
+
+    const messagesBefore = await purgeCutoff('messages', chatId, retention.messages, now);
+    if (messagesBefore !== null) {
+      const purged = await purgeMessages(chatId, messagesBefore, language || 'en');
+      result.messages = purged.messages;
+      result.summaries = purged.summaries;
+    }
+
+    const resourcesBefore = await purgeCutoff('resources', chatId, retention.resources, now);
+    if (resourcesBefore !== null) {
+      result.resources = await retentionService.purgeResources(chatId, resourcesBefore);
+    }
+
+    const analyticsBefore = await purgeCutoff('analytics', chatId, retention.analytics, now);
+    if (analyticsBefore !== null) {
+      result.analytics = await analyticsService.deleteChatEventsBefore(chatId, analyticsBefore);
+    }
+
+    return result;
+  },
+
+  // Run by the purge_history task; a failing chat does not stop the others
+  async purgeAll(now: number = Date.now()): Promise<PurgeResult> {
+    const totals: PurgeResult = { messages: 0, resources: 0, analytics: 0, summaries: 0 };
+    const chatIds = await retentionService.getChatIds();
+
+    for (const chatId of chatIds) {
+      try {
+        const result = await retentionManager.purgeChat(chatId, now);
+        totals.messages += result.messages;
+        totals.resources += result.resources;
+        totals.analytics += result.analytics;
+        totals.summaries += result.summaries;
+      } catch (error) {
+        logError(schedulerLogger, error as Error, { operation: 'purge_chat_history', chatId });
+      }
+    }
+
+    schedulerLogger.info({ chats: chatIds.length, ...totals }, 'Chat history purged');
+    return totals;
+  }
+};
+
+export default retentionManager;
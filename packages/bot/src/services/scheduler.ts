@@ -0,0 +1,296 @@
+import cron from 'node-cron';
+import { Telegram } from 'telegraf';
+import { scheduledTaskService, userService, analyticsService } from '@/services/supabase';
+import { indexingService } from '@/services/indexing';
+import { digestService, DigestFrequency } from '@/services/digests';
+import { reminderManager } from '@/services/reminders';
+import { chatSettingsManager } from '@/services/chat-settings';
+import { retentionManager } from '@/services/retention';
+import { schedulerConfig } from '@/config/env';
+import { getNextRun } from '@/utils/cron';
+import { normalizeTimezone } from '@/utils/timezone';
+import { schedulerLogger, logError } from '@/utils/logger';
+import { ScheduledTask, User, ChatSettings } from '@/types';
+
+export interface TaskContext {
+  telegram: Telegram;
+  now: number;
+}
+
+export type TaskHandler = (task: ScheduledTask, context: TaskContext) => Promise<void>;
+
+// Upper bound on tasks run per tick; the rest are picked up on the next one
+const MAX_TASKS_PER_TICK = 50;
+
+// Handlers that run in their own lane so a batch of slow digests never
+// holds up reminder delivery
+const PRIORITY_HANDLERS = ['deliver_reminders'];
+
+// How many background tasks (mostly digests) run at the same time
+const BACKGROUND_CONCURRENCY = 4;
+
+type Lane = 'priority' | 'background';
+
+const handlers: Map<string, TaskHandler> = new Map();
+
+let tickJob: cron.ScheduledTask | undefined;
+let telegram: Telegram | undefined;
+const busyLanes: Set<Lane> = new Set();
+
+export function registerTaskHandler(name: string, handler: TaskHandler): void {
+  handlers.set(name, handler);
+}
+
+// Built-in handlers; the maintenance and reminder tasks are seeded by the migrations
+registerTaskHandler('cleanup_analytics', async (task) => {
+  const daysToKeep = Number(task.parameters['days_to_keep']) || 30;
+  const deleted = await analyticsService.deleteEventsBefore(Date.now() - daysToKeep * 24 * 60 * 60 * 1000);
+  schedulerLogger.info({ deleted, daysToKeep }, 'Old analytics events removed');
+});
+
+registerTaskHandler('purge_history', async (_task, context) => {
+  await retentionManager.purgeAll(context.now);
+});
+
+registerTaskHandler('update_search_embeddings', async () => {
+  await indexingService.backfillEmbeddings();
+});
+
+registerTaskHandler('deliver_reminders', async (_task, context) => {
+  await reminderManager.deliverDue(context.telegram, context.now);
+});
+
+registerTaskHandler('summary_digest', async (task, context) => {
+  await digestService.sendSummaryDigest(context.telegram, task.parameters['userId'], task.parameters['frequency']);
+});
+
+registerTaskHandler('chat_digest', async (task, context) => {
+  const settings = await chatSettingsManager.getSettings(task.parameters['chatId']);
+  await digestService.sendChatDigest(context.telegram, settings.chatId, task.parameters['frequency'], settings.language || 'en');
+});
+
+registerTaskHandler('reminder_digest', async (task, context) => {
+  await digestService.sendReminderDigest(context.telegram, task.parameters['userId'], task.parameters['frequency']);
+});
+
+// Per-user digest jobs, one row per user and digest kind
+const USER_DIGESTS: Array<{ handler: string; preference: 'summaryFrequency' | 'reminderFrequency' }> = [
+  { handler: 'summary_digest', preference: 'summaryFrequency' },
+  { handler: 'reminder_digest', preference: 'reminderFrequency' }
+];
+
+function digestSchedule(frequency: DigestFrequency, hour: number = schedulerConfig.digestHour): string {
+  // Weekly digests go out on Monday morning
+  return frequency === 'daily'
+    ? `0 ${hour} * * *`
+    : `0 ${hour} * * 1`;
+}
+
+async function runTask(task: ScheduledTask, now: number): Promise<void> {
+  const handler = handlers.get(task.handler);
+
+  let nextRun: number;
+  try {
+    nextRun = getNextRun(task.schedule, now, normalizeTimezone(task.timezone));
+  } catch (error) {
+    logError(schedulerLogger, error as Error, { operation: 'next_run', task: task.name });
+    await scheduledTaskService.recordFailure(task, (error as Error).message);
+    await scheduledTaskService.deactivateTask(task.name);
+    return;
+  }
+
+  // Advance next_run before running so a crash mid-run cannot cause a
+  // second delivery; losing the claim means another instance has it
+  const claimed = await scheduledTaskService.claimTask(task, nextRun, now);
+  if (!claimed) {
+    schedulerLogger.debug({ task: task.name }, 'Task claimed by another instance');
+    return;
+  }
+
+  if (!handler || !telegram) {
+    schedulerLogger.warn({ task: task.name, handler: task.handler }, 'No handler registered for scheduled task');
+    await scheduledTaskService.recordFailure(task, `Unknown handler: ${task.handler}`);
+    return;
+  }
+
+  const startTime = Date.now();
+  try {
+    await handler(task, { telegram, now });
+    schedulerLogger.info({
+      task: task.name,
+      duration: Date.now() - startTime,
+      nextRun: new Date(nextRun).toISOString()
+    }, 'Scheduled task completed');
+  } catch (error) {
+    logError(schedulerLogger, error as Error, {
+      operation: 'scheduled_task',
+      task: task.name,
+      handler: task.handler
+    });
+    await scheduledTaskService.recordFailure(task, (error as Error).message);
+  }
+}
+
+async function runLane(lane: Lane, now: number): Promise<number> {
+  // A slow run (many digests) must not overlap with the next tick's run of the same lane
+  if (busyLanes.has(lane)) {
+    return 0;
+  }
+
+  busyLanes.add(lane);
+  try {
+    const tasks = await scheduledTaskService.getDueTasks(
+      now,
+      MAX_TASKS_PER_TICK,
+      lane === 'priority' ? { handlers: PRIORITY_HANDLERS } : { excludeHandlers: PRIORITY_HANDLERS }
+    );
+
+    const concurrency = lane === 'priority' ? 1 : BACKGROUND_CONCURRENCY;
+    let next = 0;
+    const workers = Array.from({ length: Math.min(concurrency, tasks.length) }, async () => {
+      while (next < tasks.length) {
+        const task = tasks[next++]!;
+        // Keep the other workers going if claiming or recording a task fails
+        await runTask(task, now).catch((error) => {
+          logError(schedulerLogger, error as Error, { operation: 'run_task', task: task.name });
+        });
+      }
+    });
+    await Promise.all(workers);
+
+    return tasks.length;
+  } catch (error) {
+    logError(schedulerLogger, error as Error, { operation: 'scheduler_tick', lane });
+    return 0;
+  } finally {
+    busyLanes.delete(lane);
+  }
+}
+
+export const schedulerService = {
+  /**
+   * Start polling scheduled_tasks once a minute. Due tasks missed while the
+   * bot was down run once on the first tick, not once per missed slot.
+   */
+  start(telegramClient: Telegram): void {
+    if (tickJob) {
+      return;
+    }
+
+    telegram = telegramClient;
+    tickJob = cron.schedule('* * * * *', () => {
+      void this.runDueTasks();
+    });
+
+    void this.runDueTasks();
+    schedulerLogger.info({ handlers: [...handlers.keys()] }, 'Scheduler started');
+  },
+
+  stop(): void {
+    tickJob?.stop();
+    tickJob = undefined;
+    schedulerLogger.info('Scheduler stopped');
+  },
+
+  async runDueTasks(now: number = Date.now()): Promise<number> {
+    const [priority, background] = await Promise.all([
+      runLane('priority', now),
+      runLane('background', now)
+    ]);
+    return priority + background;
+  },
+
+  /**
+   * Create, update or deactivate a user's digest jobs to match their
+   * preferences. Unchanged jobs keep their next_run.
+   */
+  async syncUserTasks(user: User): Promise<void> {
+    const timezone = normalizeTimezone(user.preferences.timezone);
+
+    for (const digest of USER_DIGESTS) {
+      const name = `${digest.handler}:${user.id}`;
+      const frequency = user.preferences[digest.preference];
+
+      if (frequency === 'never' || !user.preferences.notifications) {
+        const existing = await scheduledTaskService.getTask(name);
+        if (existing?.active) {
+          await scheduledTaskService.deactivateTask(name);
+        }
+        continue;
+      }
+
+      const schedule = digestSchedule(frequency);
+      const existing = await scheduledTaskService.getTask(name);
+      if (existing?.active && existing.schedule === schedule && existing.timezone === timezone) {
+        continue;
+      }
+
+      await scheduledTaskService.upsertTask({
+        name,
+        schedule,
+        handler: digest.handler,
+        parameters: { userId: user.id, frequency },
+        timezone,
+        nextRun: getNextRun(schedule, Date.now(), timezone)
+      });
+    }
+  },
+
+  /**
+   * Create, update or deactivate a chat's digest job to match its settings.
+   * Chat digests run in UTC.
+   */
+  async syncChatTasks(settings: ChatSettings): Promise<void> {
+    const name = `chat_digest:${settings.chatId}`;
+    const existing = await scheduledTaskService.getTask(name);
+
+    if (settings.digestFrequency === 'never') {
+      if (existing?.active) {
+        await scheduledTaskService.deactivateTask(name);
+      }
+      return;
+    }
+
+    const schedule = digestSchedule(settings.digestFrequency, settings.digestHour ?? schedulerConfig.digestHour);
+    if (existing?.active && existing.schedule === schedule) {
+      return;
+    }
+
+    await scheduledTaskService.upsertTask({
+      name,
+      schedule,
+      handler: 'chat_digest',
+      parameters: { chatId: settings.chatId, frequency: settings.digestFrequency },
+      timezone: 'UTC',
+      nextRun: getNextRun(schedule, Date.now(), 'UTC')
+    });
+  },
+
+  // Bring every user's digest jobs in line with their preferences
+  async syncAllUsers(pageSize: number = 500): Promise<number> {
+    let offset = 0;
+    let synced = 0;
+
+    for (;;) {
+      const users = await userService.listUsers(offset, pageSize);
+      for (const user of users) {
+        try {
+          await this.syncUserTasks(user);
+          synced++;
+        } catch (error) {
+          logError(schedulerLogger, error as Error, { operation: 'sync_user_tasks', userId: user.id });
+        }
+      }
+
+      if (users.length < pageSize) {
+        break;
+      }
+      offset += pageSize;
+    }
+
+    schedulerLogger.info({ synced }, 'User digest schedules synchronised');
+    return synced;
+  }
+};
+
+export default schedulerService;
@@ -6,9 +6,23 @@ import {
   User, 
   Resource, 
   Decision, 
+  DecisionStatusChange,
   ActionItem, 
+  ActionItemStatusChange,
   ConversationThread,
+  TopicScope,
   SearchResult,
+  SearchIndexEntry,
+  SearchOptions,
+  ScheduledTask,
+  Reminder,
+  ChatSettings,
+  RetentionKind,
+  HistorySummary,
+  DataRequestCounts,
+  ChatMembership,
+  MembershipStatus,
+  MembershipSource,
   DatabaseError 
 } from '@/types';
 
@@ -90,11 +104,21 @@ async function executeOperation<T>(
   }
 }
 
+// Whether a failed operation broke the named unique index; PostgREST errors
+// are plain objects, which executeOperation rethrows as they are
+export function isUniqueViolation(error: unknown, index: string): boolean {
+  const { code, message } = (error ?? {}) as { code?: unknown; message?: unknown };
+  return code === '23505' && typeof message === 'string' && message.includes(index);
+}
+
 // Helper function to convert timestamp to bigint
 function toBigInt(timestamp: number): number {
   return Math.floor(timestamp);
 }
 
+// Older versions beyond this are dropped from a message's edit history
+const MAX_EDIT_HISTORY = 20;
+
 // Message operations
 export const messageService = {
   async storeMessage(message: Omit<Message, 'id'>): Promise<string> {
@@ -150,7 +174,9 @@ export const messageService = {
           metadata: data.metadata,
           decisions: data.decisions || [],
           actionItems: data.action_items || [],
-          threadId: data.thread_id
+          threadId: data.thread_id,
+          ...(data.edited_at && { editedAt: data.edited_at }),
+          editHistory: data.edit_history || []
         };
       },
       'getMessage',
@@ -158,7 +184,44 @@ export const messageService = {
     );
   },
 
-  async getMessages(chatId: string, limit: number = 50, before?: number): Promise<Message[]> {
+  async getMessageByTelegramId(chatId: string, telegramMessageId: number): Promise<Message | null> {
+    return executeOperation(
+      async () => {
+        const { data, error } = await supabase
+          .from('messages')
+          .select('*')
+          .eq('chat_id', chatId)
+          .eq('metadata->>telegramMessageId', telegramMessageId.toString())
+          .order('timestamp', { ascending: true })
+          .limit(1);
+        
+        if (error) throw error;
+        
+        const row = data[0];
+        if (!row) return null;
+        
+        return {
+          id: row.id,
+          chatId: row.chat_id,
+          userId: row.user_id,
+          content: row.content,
+          timestamp: row.timestamp,
+          language: row.language,
+          messageType: row.message_type,
+          metadata: row.metadata,
+          decisions: row.decisions || [],
+          actionItems: row.action_items || [],
+          threadId: row.thread_id,
+          ...(row.edited_at && { editedAt: row.edited_at }),
+          editHistory: row.edit_history || []
+        };
+      },
+      'getMessageByTelegramId',
+      { chatId, telegramMessageId }
+    );
+  },
+
+  async getMessages(chatId: string, limit: number = 50, before?: number, topicId?: TopicScope): Promise<Message[]> {
     return executeOperation(
       async () => {
         let query = supabase
@@ -171,6 +234,12 @@ export const messageService = {
         if (before) {
           query = query.lt('timestamp', before);
         }
+
+        if (topicId !== undefined) {
+          query = topicId === null
+            ? query.is('metadata->>telegramTopicId', null)
+            : query.eq('metadata->>telegramTopicId', topicId.toString());
+        }
         
         const { data, error } = await query;
         
@@ -191,7 +260,7 @@ export const messageService = {
         }));
       },
       'getMessages',
-      { chatId, limit }
+      { chatId, limit, topicId }
     );
   },
 
@@ -224,6 +293,89 @@ export const messageService = {
     );
   },
 
+  async getChatParticipantIds(chatId: string, recentMessages: number = 500): Promise<string[]> {
+    return executeOperation(
+      async () => {
+        const { data, error } = await supabase
+          .from('messages')
+          .select('user_id')
+          .eq('chat_id', chatId)
+          .order('timestamp', { ascending: false })
+          .limit(recentMessages);
+        
+        if (error) throw error;
+        
+        return [...new Set(data.map(row => row.user_id).filter(Boolean))];
+      },
+      'getChatParticipantIds',
+      { chatId, recentMessages }
+    );
+  },
+
+  async getMessagesSince(chatId: string, since: number, limit: number = 200, until?: number, topicId?: TopicScope): Promise<Message[]> {
+    return executeOperation(
+      async () => {
+        let query = supabase
+          .from('messages')
+          .select('*')
+          .eq('chat_id', chatId)
+          .gte('timestamp', since)
+          .order('timestamp', { ascending: true })
+          .limit(limit);
+        
+        if (until) {
+          query = query.lt('timestamp', until);
+        }
+
+        if (topicId !== undefined) {
+          query = topicId === null
+            ? query.is('metadata->>telegramTopicId', null)
+            : query.eq('metadata->>telegramTopicId', topicId.toString());
+        }
+        
+        const { data, error } = await query;
+        
+        if (error) throw error;
+        
+        return data.map(row => ({
+          id: row.id,
+          chatId: row.chat_id,
+          userId: row.user_id,
+          content: row.content,
+          timestamp: row.timestamp,
+          language: row.language,
+          messageType: row.message_type,
+          metadata: row.metadata,
+          decisions: row.decisions || [],
+          actionItems: row.action_items || [],
+          threadId: row.thread_id
+        }));
+      },
+      'getMessagesSince',
+      { chatId, since, until, limit, topicId }
+    );
+  },
+
+  async getUserChatIds(userId: string, since: number): Promise<string[]> {
+    return executeOperation(
+      async () => {
+        const { data, error } = await supabase
+          .from('messages')
+          .select('chat_id')
+          .eq('user_id', userId)
+          .gte('timestamp', since)
+          .order('timestamp', { ascending: false })
+          .limit(1000);
+        
+        if (error) throw error;
+        
+        return [...new Set(data.map(row => row.chat_id))];
+      },
+      'getUserChatIds',
+      { userId, since }
+    );
+  },
+
   async getThreadContext(chatId: string, messageCount: number = 10): Promise<Message[]> {
     return executeOperation(
       async () => {
@@ -283,6 +435,45 @@ export const messageService = {
       'updateMessageActionItems',
       { messageId, actionItemsCount: actionItems.length }
     );
+  },
+
+  /**
+   * Replace a message's content, moving the current version into its edit history
+   */
+  async recordEdit(
+    message: Message,
+    edit: { content: string; language: string; editedAt: number }
+  ): Promise<Message> {
+    return executeOperation(
+      async () => {
+        const editHistory = [
+          ...(message.editHistory || []),
+          { content: message.content, language: message.language, replacedAt: toBigInt(edit.editedAt) }
+        ].slice(-MAX_EDIT_HISTORY);
+        
+        const { error } = await supabase
+          .from('messages')
+          .update({
+            content: edit.content,
+            language: edit.language,
+            edited_at: toBigInt(edit.editedAt),
+            edit_history: editHistory
+          })
+          .eq('id', message.id);
+        
+        if (error) throw error;
+        
+        return {
+          ...message,
+          content: edit.content,
+          language: edit.language,
+          editedAt: toBigInt(edit.editedAt),
+          editHistory
+        };
+      },
+      'recordMessageEdit',
+      { messageId: message.id }
+    );
   }
 };
 
@@ -377,6 +568,70 @@ export const userService = {
     );
   },
 
+  // Users among userIds whose username or first name is name, ignoring case.
+  // Compared here rather than with ilike, where * and _ would act as wildcards
+  async findUsersByName(name: string, userIds: string[]): Promise<User[]> {
+    return executeOperation(
+      async () => {
+        const needle = name.replace(/^@/, '').trim().toLowerCase();
+        if (!needle || userIds.length === 0) {
+          return [];
+        }
+        
+        const { data, error } = await supabase
+          .from('users')
+          .select('*')
+          .in('id', userIds);
+        
+        if (error) throw error;
+        
+        return data
+          .filter(row => row.username?.toLowerCase() === needle || row.first_name?.toLowerCase() === needle)
+          .map(row => ({
+            id: row.id,
+            telegramId: row.telegram_id,
+            firstName: row.first_name,
+            lastName: row.last_name,
+            username: row.username,
+            languageCode: row.language_code,
+            preferences: row.preferences,
+            createdAt: row.created_at,
+            lastActiveAt: row.last_active_at
+          }));
+      },
+      'findUsersByName',
+      { name, candidates: userIds.length }
+    );
+  },
+
+  async listUsers(offset: number = 0, limit: number = 500): Promise<User[]> {
+    return executeOperation(
+      async () => {
+        const { data, error } = await supabase
+          .from('users')
+          .select('*')
+          .order('created_at', { ascending: true })
+          .range(offset, offset + limit - 1);
+        
+        if (error) throw error;
+        
+        return data.map(row => ({
+          id: row.id,
+          telegramId: row.telegram_id,
+          firstName: row.first_name,
+          lastName: row.last_name,
+          username: row.username,
+          languageCode: row.language_code,
+          preferences: row.preferences,
+          createdAt: row.created_at,
+          lastActiveAt: row.last_active_at
+        }));
+      },
+      'listUsers',
+      { offset, limit }
+    );
+  },
+
   async updateUserPreferences(userId: string, preferences: Partial<User['preferences']>): Promise<void> {
     return executeOperation(
       async () => {
@@ -438,6 +693,128 @@ export const userService = {
   }
 };
 
+// Chat settings operations; chats without a row use the defaults from config
+export const chatSettingsService = {
+  async getSettings(chatId: string): Promise<ChatSettings | null> {
+    return executeOperation(
+      async () => {
+        const { data, error } = await supabase
+          .from('chat_settings')
+          .select('*')
+          .eq('chat_id', chatId)
+          .single();
+        
+        if (error) {
+          if (error.code === 'PGRST116') return null; // Not found
+          throw error;
+        }
+        
+        return {
+          chatId: data.chat_id,
+          responseMode: data.response_mode,
+          triggerWords: data.trigger_words || [],
+          language: data.language || null,
+          disabledFeatures: data.disabled_features || [],
+          disabledPlugins: data.disabled_plugins || [],
+          enabledPlugins: data.enabled_plugins || [],
+          retention: {
+            messages: { maxAgeDays: data.message_retention_days ?? null, maxCount: data.message_retention_count ?? null },
+            resources: { maxAgeDays: data.resource_retention_days ?? null, maxCount: data.resource_retention_count ?? null },
+            analytics: { maxAgeDays: data.analytics_retention_days ?? null, maxCount: data.analytics_retention_count ?? null }
+          },
+          digestFrequency: data.digest_frequency || 'never',
+          digestHour: data.digest_hour ?? null
+        };
+      },
+      'getChatSettings',
+      { chatId }
+    );
+  },
+
+  async saveSettings(settings: ChatSettings, updatedBy?: string): Promise<void> {
+    return executeOperation(
+      async () => {
+        const { error } = await supabase
+          .from('chat_settings')
+          .upsert({
+            chat_id: settings.chatId,
+            response_mode: settings.responseMode,
+            trigger_words: settings.triggerWords,
+            language: settings.language,
+            disabled_features: settings.disabledFeatures,
+            disabled_plugins: settings.disabledPlugins,
+            enabled_plugins: settings.enabledPlugins,
+            message_retention_days: settings.retention.messages.maxAgeDays,
+            message_retention_count: settings.retention.messages.maxCount,
+            resource_retention_days: settings.retention.resources.maxAgeDays,
+            resource_retention_count: settings.retention.resources.maxCount,
+            analytics_retention_days: settings.retention.analytics.maxAgeDays,
+            analytics_retention_count: settings.retention.analytics.maxCount,
+            digest_frequency: settings.digestFrequency,
+            digest_hour: settings.digestHour,
+            updated_by: updatedBy || null
+          }, { onConflict: 'chat_id' });
+        
+        if (error) throw error;
+      },
+      'saveChatSettings',
+      { chatId: settings.chatId }
+    );
+  },
+
+  // Users granted the admin role in a chat (Telegram admins are not listed)
+  async getAdminUserIds(chatId: string): Promise<string[]> {
+    return executeOperation(
+      async () => {
+        const { data, error } = await supabase
+          .from('chat_admins')
+          .select('user_id')
+          .eq('chat_id', chatId);
+        
+        if (error) throw error;
+        return (data || []).map(row => row.user_id as string);
+      },
+      'getChatAdmins',
+      { chatId }
+    );
+  },
+
+  async addAdmin(chatId: string, userId: string, grantedBy?: string): Promise<void> {
+    return executeOperation(
+      async () => {
+        const { error } = await supabase
+          .from('chat_admins')
+          .upsert({
+            chat_id: chatId,
+            user_id: userId,
+            granted_by: grantedBy || null,
+            created_at: toBigInt(Date.now())
+          }, { onConflict: 'chat_id,user_id', ignoreDuplicates: true });
+        
+        if (error) throw error;
+      },
+      'addChatAdmin',
+      { chatId, userId }
+    );
+  },
+
+  async removeAdmin(chatId: string, userId: string): Promise<void> {
+    return executeOperation(
+      async () => {
+        const { error } = await supabase
+          .from('chat_admins')
+          .delete()
+          .eq('chat_id', chatId)
+          .eq('user_id', userId);
+        
+        if (error) throw error;
+      },
+      'removeChatAdmin',
+      { chatId, userId }
+    );
+  }
+};
+
 // Resource operations
 export const resourceService = {
   async storeResource(resource: Omit<Resource, 'id'>): Promise<string> {
@@ -535,6 +912,57 @@ export const resourceService = {
     );
   },
 
+  // Resources extracted from one Telegram message, e.g. the links it contained
+  async getMessageResources(chatId: string, telegramMessageId: number, type?: Resource['type']): Promise<Resource[]> {
+    return executeOperation(
+      async () => {
+        let query = supabase
+          .from('resources')
+          .select('*')
+          .eq('chat_id', chatId)
+          .eq('metadata->>telegramMessageId', telegramMessageId.toString());
+        
+        if (type) {
+          query = query.eq('type', type);
+        }
+        
+        const { data, error } = await query;
+        
+        if (error) throw error;
+        
+        return data.map(row => ({
+          id: row.id,
+          type: row.type,
+          url: row.url,
+          filename: row.filename,
+          content: row.content,
+          summary: row.summary,
+          metadata: row.metadata,
+          extractedAt: row.extracted_at,
+          chatId: row.chat_id,
+          userId: row.user_id
+        }));
+      },
+      'getMessageResources',
+      { chatId, telegramMessageId, type }
+    );
+  },
+
+  async deleteResource(resourceId: string): Promise<void> {
+    return executeOperation(
+      async () => {
+        const { error } = await supabase
+          .from('resources')
+          .delete()
+          .eq('id', resourceId);
+        
+        if (error) throw error;
+      },
+      'deleteResource',
+      { resourceId }
+    );
+  },
+
   async searchResources(chatId: string, query: string, limit: number = 10): Promise<SearchResult[]> {
     return executeOperation(
       async () => {
@@ -580,237 +1008,1944 @@ export const resourceService = {
   }
 };
 
-// Thread operations
-export const threadService = {
-  async createThread(thread: Omit<ConversationThread, 'id' | 'createdAt'>): Promise<string> {
+// Action item operations
+interface ActionItemRow {
+  id: string;
+  chat_id: string;
+  item_number: number;
+  title: string;
+  description: string;
+  assignee: string | null;
+  assignee_user_id: string | null;
+  created_by: string | null;
+  priority: ActionItem['priority'];
+  status: ActionItem['status'];
+  due_date: number | null;
+  related_messages: string[] | null;
+  history: ActionItemStatusChange[] | null;
+  created_at: number;
+  modified_at: number;
+  completed_at: number | null;
+}
+
+function mapActionItemRow(row: ActionItemRow): ActionItem {
+  return {
+    id: row.id,
+    chatId: row.chat_id,
+    number: row.item_number,
+    title: row.title,
+    description: row.description,
+    assignee: row.assignee || undefined,
+    assigneeUserId: row.assignee_user_id || undefined,
+    createdBy: row.created_by || undefined,
+    dueDate: row.due_date || undefined,
+    priority: row.priority,
+    status: row.status,
+    createdAt: row.created_at,
+    updatedAt: row.modified_at,
+    completedAt: row.completed_at || undefined,
+    relatedMessages: row.related_messages || [],
+    history: row.history || []
+  };
+}
+
+export const actionItemService = {
+  async createActionItem(
+    item: Omit<ActionItem, 'id' | 'number'> & { chatId: string },
+    fingerprint: string
+  ): Promise<ActionItem> {
     return executeOperation(
       async () => {
-        const { data, error } = await supabase
-          .from('conversation_threads')
-          .insert({
-            chat_id: thread.chatId,
-            topic: thread.topic,
-            participants: thread.participants,
-            message_count: thread.messageCount,
-            last_activity: toBigInt(thread.lastActivity),
-            created_at: toBigInt(Date.now()),
-            summary: thread.summary || null,
-            tags: thread.tags
-          })
-          .select('id')
-          .single();
+        // item_number is allocated per chat; retry if another insert took the same number
+        for (let attempt = 0; attempt < 3; attempt++) {
+          const { data: last, error: lastError } = await supabase
+            .from('action_items')
+            .select('item_number')
+            .eq('chat_id', item.chatId)
+            .order('item_number', { ascending: false })
+            .limit(1);
+          
+          if (lastError) throw lastError;
+          
+          const { data, error } = await supabase
+            .from('action_items')
+            .insert({
+              chat_id: item.chatId,
+              item_number: (last?.[0]?.item_number || 0) + 1,
+              title: item.title,
+              description: item.description,
+              fingerprint,
+              assignee: item.assignee || null,
+              assignee_user_id: item.assigneeUserId || null,
+              created_by: item.createdBy || null,
+              priority: item.priority,
+              status: item.status,
+              due_date: item.dueDate ? toBigInt(item.dueDate) : null,
+              related_messages: item.relatedMessages,
+              history: item.history || [],
+              created_at: toBigInt(item.createdAt),
+              modified_at: toBigInt(item.updatedAt)
+            })
+            .select('*')
+            .single();
+          
+          if (!error) {
+            return mapActionItemRow(data);
+          }
+          
+          // 23505: unique violation on (chat_id, item_number)
+          if (error.code !== '23505' || !error.message.includes('item_number')) {
+            throw error;
+          }
+        }
         
-        if (error) throw error;
-        return data.id;
+        throw new DatabaseError('Could not allocate an action item number', { chatId: item.chatId });
+      },
+      'createActionItem',
+      { chatId: item.chatId }
+    );
+  },
+
+  async getActionItem(itemId: string): Promise<ActionItem | null> {
+    return executeOperation(
+      async () => {
+        const { data, error } = await supabase
+          .from('action_items')
+          .select('*')
+          .eq('id', itemId)
+          .single();
+        
+        if (error) {
+          if (error.code === 'PGRST116') return null; // Not found
+          throw error;
+        }
+        
+        return mapActionItemRow(data);
+      },
+      'getActionItem',
+      { itemId }
+    );
+  },
+
+  async getActionItemByNumber(chatId: string, itemNumber: number): Promise<ActionItem | null> {
+    return executeOperation(
+      async () => {
+        const { data, error } = await supabase
+          .from('action_items')
+          .select('*')
+          .eq('chat_id', chatId)
+          .eq('item_number', itemNumber)
+          .single();
+        
+        if (error) {
+          if (error.code === 'PGRST116') return null; // Not found
+          throw error;
+        }
+        
+        return mapActionItemRow(data);
+      },
+      'getActionItemByNumber',
+      { chatId, itemNumber }
+    );
+  },
+
+  // The open item with the same fingerprint as this one, which keeps it from being reopened
+  async getOpenDuplicate(item: ActionItem): Promise<ActionItem | null> {
+    return executeOperation(
+      async () => {
+        const { data: own, error: ownError } = await supabase
+          .from('action_items')
+          .select('fingerprint')
+          .eq('id', item.id)
+          .single();
+        
+        if (ownError) throw ownError;
+        
+        const { data, error } = await supabase
+          .from('action_items')
+          .select('*')
+          .eq('chat_id', item.chatId)
+          .eq('fingerprint', own.fingerprint)
+          .in('status', ['pending', 'in_progress'])
+          .neq('id', item.id)
+          .limit(1);
+        
+        if (error) throw error;
+        
+        return data[0] ? mapActionItemRow(data[0]) : null;
+      },
+      'getOpenActionItemDuplicate',
+      { itemId: item.id }
+    );
+  },
+
+  async getActionItems(
+    chatId: string,
+    options: { statuses?: ActionItem['status'][]; assigneeUserId?: string; limit?: number } = {}
+  ): Promise<ActionItem[]> {
+    const { statuses, assigneeUserId, limit = 50 } = options;
+    
+    return executeOperation(
+      async () => {
+        let query = supabase
+          .from('action_items')
+          .select('*')
+          .eq('chat_id', chatId)
+          .order('created_at', { ascending: false })
+          .limit(limit);
+        
+        if (statuses && statuses.length > 0) {
+          query = query.in('status', statuses);
+        }
+        
+        if (assigneeUserId) {
+          query = query.eq('assignee_user_id', assigneeUserId);
+        }
+        
+        const { data, error } = await query;
+        
+        if (error) throw error;
+        
+        return data.map(mapActionItemRow);
+      },
+      'getActionItems',
+      { chatId, statuses: statuses?.join(','), limit }
+    );
+  },
+
+  async getAssignedActionItems(
+    assigneeUserId: string,
+    statuses: ActionItem['status'][],
+    limit: number = 50
+  ): Promise<ActionItem[]> {
+    return executeOperation(
+      async () => {
+        const { data, error } = await supabase
+          .from('action_items')
+          .select('*')
+          .eq('assignee_user_id', assigneeUserId)
+          .in('status', statuses)
+          .order('created_at', { ascending: false })
+          .limit(limit);
+        
+        if (error) throw error;
+        
+        return data.map(mapActionItemRow);
+      },
+      'getAssignedActionItems',
+      { assigneeUserId, statuses: statuses.join(','), limit }
+    );
+  },
+
+  async updateActionItem(
+    itemId: string,
+    updates: Partial<Pick<ActionItem,
+      'title' | 'description' | 'assignee' | 'assigneeUserId' | 'priority' | 'status' |
+      'dueDate' | 'completedAt' | 'relatedMessages' | 'history'
+    >>
+  ): Promise<ActionItem> {
+    return executeOperation(
+      async () => {
+        const row: Record<string, any> = { modified_at: toBigInt(Date.now()) };
+        
+        if (updates.title !== undefined) row['title'] = updates.title;
+        if (updates.description !== undefined) row['description'] = updates.description;
+        if (updates.assignee !== undefined) row['assignee'] = updates.assignee || null;
+        if (updates.assigneeUserId !== undefined) row['assignee_user_id'] = updates.assigneeUserId || null;
+        if (updates.priority !== undefined) row['priority'] = updates.priority;
+        if (updates.status !== undefined) row['status'] = updates.status;
+        if (updates.dueDate !== undefined) row['due_date'] = updates.dueDate ? toBigInt(updates.dueDate) : null;
+        if (updates.completedAt !== undefined) row['completed_at'] = updates.completedAt ? toBigInt(updates.completedAt) : null;
+        if (updates.relatedMessages !== undefined) row['related_messages'] = updates.relatedMessages;
+        if (updates.history !== undefined) row['history'] = updates.history;
+        
+        const { data, error } = await supabase
+          .from('action_items')
+          .update(row)
+          .eq('id', itemId)
+          .select('*')
+          .single();
+        
+        if (error) throw error;
+        
+        return mapActionItemRow(data);
+      },
+      'updateActionItem',
+      { itemId, fields: Object.keys(updates).join(',') }
+    );
+  }
+};
+
+// Decision log operations
+interface DecisionRow {
+  id: string;
+  chat_id: string;
+  decision_number: number;
+  content: string;
+  context: string;
+  confidence: number;
+  status: Decision['status'];
+  message_id: string | null;
+  related_messages: string[] | null;
+  created_by: string | null;
+  decided_by: string | null;
+  decided_at: number | null;
+  superseded_by: string | null;
+  telegram_message_id: number | string | null;
+  telegram_topic_id: number | string | null;
+  history: DecisionStatusChange[] | null;
+  created_at: number;
+}
+
+function mapDecisionRow(row: DecisionRow): Decision {
+  return {
+    id: row.id,
+    chatId: row.chat_id,
+    number: row.decision_number,
+    content: row.content,
+    context: row.context,
+    confidence: row.confidence,
+    status: row.status,
+    extractedAt: row.created_at,
+    relatedMessages: row.related_messages || [],
+    messageId: row.message_id || undefined,
+    createdBy: row.created_by || undefined,
+    decidedBy: row.decided_by || undefined,
+    decidedAt: row.decided_at || undefined,
+    supersededBy: row.superseded_by || undefined,
+    telegramMessageId: row.telegram_message_id ? Number(row.telegram_message_id) : undefined,
+    telegramTopicId: row.telegram_topic_id ? Number(row.telegram_topic_id) : undefined,
+    history: row.history || []
+  };
+}
+
+export const decisionService = {
+  async createDecision(
+    decision: Omit<Decision, 'id' | 'number'> & { chatId: string },
+    fingerprint: string
+  ): Promise<Decision> {
+    return executeOperation(
+      async () => {
+        // decision_number is allocated per chat; retry if another insert took the same number
+        for (let attempt = 0; attempt < 3; attempt++) {
+          const { data: last, error: lastError } = await supabase
+            .from('decisions')
+            .select('decision_number')
+            .eq('chat_id', decision.chatId)
+            .order('decision_number', { ascending: false })
+            .limit(1);
+          
+          if (lastError) throw lastError;
+          
+          const now = toBigInt(Date.now());
+          const { data, error } = await supabase
+            .from('decisions')
+            .insert({
+              chat_id: decision.chatId,
+              decision_number: (last?.[0]?.decision_number || 0) + 1,
+              content: decision.content,
+              context: decision.context,
+              fingerprint,
+              confidence: decision.confidence,
+              status: decision.status,
+              message_id: decision.messageId || null,
+              related_messages: decision.relatedMessages,
+              created_by: decision.createdBy || null,
+              decided_by: decision.decidedBy || null,
+              decided_at: decision.decidedAt ? toBigInt(decision.decidedAt) : null,
+              telegram_message_id: decision.telegramMessageId || null,
+              telegram_topic_id: decision.telegramTopicId || null,
+              history: decision.history || [],
+              created_at: toBigInt(decision.extractedAt),
+              modified_at: now
+            })
+            .select('*')
+            .single();
+          
+          if (!error) {
+            return mapDecisionRow(data);
+          }
+          
+          // 23505: unique violation on (chat_id, decision_number)
+          if (error.code !== '23505' || !error.message.includes('decision_number')) {
+            throw error;
+          }
+        }
+        
+        throw new DatabaseError('Could not allocate a decision number', { chatId: decision.chatId });
+      },
+      'createDecision',
+      { chatId: decision.chatId }
+    );
+  },
+
+  async getDecision(decisionId: string): Promise<Decision | null> {
+    return executeOperation(
+      async () => {
+        const { data, error } = await supabase
+          .from('decisions')
+          .select('*')
+          .eq('id', decisionId)
+          .single();
+        
+        if (error) {
+          if (error.code === 'PGRST116') return null; // Not found
+          throw error;
+        }
+        
+        return mapDecisionRow(data);
+      },
+      'getDecision',
+      { decisionId }
+    );
+  },
+
+  async getDecisionByNumber(chatId: string, decisionNumber: number): Promise<Decision | null> {
+    return executeOperation(
+      async () => {
+        const { data, error } = await supabase
+          .from('decisions')
+          .select('*')
+          .eq('chat_id', chatId)
+          .eq('decision_number', decisionNumber)
+          .single();
+        
+        if (error) {
+          if (error.code === 'PGRST116') return null; // Not found
+          throw error;
+        }
+        
+        return mapDecisionRow(data);
+      },
+      'getDecisionByNumber',
+      { chatId, decisionNumber }
+    );
+  },
+
+  // Newest first; topicId limits the list to one forum topic (null: General)
+  async getDecisions(
+    chatId: string,
+    options: { statuses?: Decision['status'][]; since?: number; topicId?: TopicScope; supersededBy?: string; limit?: number } = {}
+  ): Promise<Decision[]> {
+    const { statuses, since, topicId, supersededBy, limit = 50 } = options;
+    
+    return executeOperation(
+      async () => {
+        let query = supabase
+          .from('decisions')
+          .select('*')
+          .eq('chat_id', chatId)
+          .order('created_at', { ascending: false })
+          .limit(limit);
+        
+        if (statuses && statuses.length > 0) {
+          query = query.in('status', statuses);
+        }
+        
+        if (since) {
+          query = query.gte('created_at', toBigInt(since));
+        }
+        
+        if (supersededBy) {
+          query = query.eq('superseded_by', supersededBy);
+        }
+        
+        if (topicId !== undefined) {
+          query = topicId === null ? query.is('telegram_topic_id', null) : query.eq('telegram_topic_id', topicId);
+        }
+        
+        const { data, error } = await query;
+        
+        if (error) throw error;
+        
+        return data.map(mapDecisionRow);
+      },
+      'getDecisions',
+      { chatId, statuses: statuses?.join(','), limit }
+    );
+  },
+
+
+  // The pending or confirmed decision worded like this one, which keeps it from being confirmed again
+  async getOpenDuplicate(decision: Decision): Promise<Decision | null> {
+    return executeOperation(
+      async () => {
+        const { data: own, error: ownError } = await supabase
+          .from('decisions')
+          .select('chat_id, fingerprint')
+          .eq('id', decision.id)
+          .single();
+        
+        if (ownError) throw ownError;
+        
+        const { data, error } = await supabase
+          .from('decisions')
+          .select('*')
+          .eq('chat_id', own.chat_id)
+          .eq('fingerprint', own.fingerprint)
+          .in('status', ['pending', 'confirmed'])
+          .neq('id', decision.id)
+          .limit(1);
+        
+        if (error) throw error;
+        
+        return data[0] ? mapDecisionRow(data[0]) : null;
+      },
+      'getOpenDecisionDuplicate',
+      { decisionId: decision.id }
+    );
+  },
+
+  async updateDecision(
+    decisionId: string,
+    updates: Partial<Pick<Decision,
+      'content' | 'context' | 'confidence' | 'status' | 'relatedMessages' |
+      'decidedBy' | 'decidedAt' | 'supersededBy' | 'history'
+    >>
+  ): Promise<Decision> {
+    return executeOperation(
+      async () => {
+        const row: Record<string, any> = { modified_at: toBigInt(Date.now()) };
+        
+        if (updates.content !== undefined) row['content'] = updates.content;
+        if (updates.context !== undefined) row['context'] = updates.context;
+        if (updates.confidence !== undefined) row['confidence'] = updates.confidence;
+        if (updates.status !== undefined) row['status'] = updates.status;
+        if (updates.relatedMessages !== undefined) row['related_messages'] = updates.relatedMessages;
+        if (updates.decidedBy !== undefined) row['decided_by'] = updates.decidedBy || null;
+        if (updates.decidedAt !== undefined) row['decided_at'] = updates.decidedAt ? toBigInt(updates.decidedAt) : null;
+        if (updates.supersededBy !== undefined) row['superseded_by'] = updates.supersededBy || null;
+        if (updates.history !== undefined) row['history'] = updates.history;
+        
+        const { data, error } = await supabase
+          .from('decisions')
+          .update(row)
+          .eq('id', decisionId)
+          .select('*')
+          .single();
+        
+        if (error) throw error;
+        
+        return mapDecisionRow(data);
+      },
+      'updateDecision',
+      { decisionId, fields: Object.keys(updates).join(',') }
+    );
+  }
+};
+
+// pgvector columns come back as text such as "[0.1,0.2]"
+function parseEmbedding(value: unknown): number[] | undefined {
+  if (Array.isArray(value)) return value as number[];
+  if (typeof value === 'string') return JSON.parse(value) as number[];
+  return undefined;
+}
+
+interface ThreadRow {
+  id: string;
+  chat_id: string;
+  topic: string;
+  participants: string[];
+  message_count: number;
+  last_activity: number;
+  created_at: number;
+  summary: string | null;
+  tags: string[];
+  embedding: number[] | string | null; // pgvector arrives as its text form
+  telegram_topic_id: number | string | null;
+}
+
+function mapThreadRow(row: ThreadRow): ConversationThread {
+  const embedding = parseEmbedding(row.embedding);
+  return {
+    id: row.id,
+    chatId: row.chat_id,
+    topic: row.topic,
+    participants: row.participants,
+    messageCount: row.message_count,
+    lastActivity: row.last_activity,
+    createdAt: row.created_at,
+    summary: row.summary ?? undefined,
+    tags: row.tags,
+    ...(embedding && { embedding }),
+    ...(row.telegram_topic_id && { telegramTopicId: Number(row.telegram_topic_id) })
+  };
+}
+
+// Thread operations
+export const threadService = {
+  async createThread(thread: Omit<ConversationThread, 'id' | 'createdAt'>): Promise<ConversationThread> {
+    return executeOperation(
+      async () => {
+        const { data, error } = await supabase
+          .from('conversation_threads')
+          .insert({
+            chat_id: thread.chatId,
+            topic: thread.topic,
+            participants: thread.participants,
+            message_count: thread.messageCount,
+            last_activity: toBigInt(thread.lastActivity),
+            created_at: toBigInt(Date.now()),
+            summary: thread.summary || null,
+            tags: thread.tags,
+            embedding: thread.embedding || null,
+            telegram_topic_id: thread.telegramTopicId || null
+          })
+          .select('*')
+          .single();
+        
+        if (error) throw error;
+        return mapThreadRow(data);
       },
       'createThread',
       { chatId: thread.chatId, topic: thread.topic }
     );
   },
 
-  async getThread(threadId: string): Promise<ConversationThread | null> {
+  async getThread(threadId: string): Promise<ConversationThread | null> {
+    return executeOperation(
+      async () => {
+        const { data, error } = await supabase
+          .from('conversation_threads')
+          .select('*')
+          .eq('id', threadId)
+          .single();
+        
+        if (error) {
+          if (error.code === 'PGRST116') return null; // Not found
+          throw error;
+        }
+        
+        return mapThreadRow(data);
+      },
+      'getThread',
+      { threadId }
+    );
+  },
+
+  /**
+   * Most recently active first; `since` leaves out threads quiet since
+   * before then, `withoutTopics` the threads that stand for forum topics
+   */
+  async getActiveThreads(
+    chatId: string,
+    limit: number = 10,
+    options: { since?: number; withoutTopics?: boolean } = {}
+  ): Promise<ConversationThread[]> {
+    return executeOperation(
+      async () => {
+        let query = supabase
+          .from('conversation_threads')
+          .select('*')
+          .eq('chat_id', chatId)
+          .order('last_activity', { ascending: false })
+          .limit(limit);
+        
+        if (options.since) {
+          query = query.gte('last_activity', options.since);
+        }
+        if (options.withoutTopics) {
+          query = query.is('telegram_topic_id', null);
+        }
+        
+        const { data, error } = await query;
+        
+        if (error) throw error;
+        
+        return data.map(mapThreadRow);
+      },
+      'getActiveThreads',
+      { chatId, limit, ...options }
+    );
+  },
+
+  async getTopicThread(chatId: string, topicId: number): Promise<ConversationThread | null> {
+    return executeOperation(
+      async () => {
+        const { data, error } = await supabase
+          .from('conversation_threads')
+          .select('*')
+          .eq('chat_id', chatId)
+          .eq('telegram_topic_id', topicId)
+          .single();
+        
+        if (error) {
+          if (error.code === 'PGRST116') return null; // Not found
+          throw error;
+        }
+        
+        return mapThreadRow(data);
+      },
+      'getTopicThread',
+      { chatId, topicId }
+    );
+  },
+
+  // The newest messages of a thread, oldest first
+  async getThreadMessages(threadId: string, limit: number = 50): Promise<Message[]> {
+    return executeOperation(
+      async () => {
+        const { data, error } = await supabase
+          .from('messages')
+          .select('*')
+          .eq('thread_id', threadId)
+          .order('timestamp', { ascending: false })
+          .limit(limit);
+        
+        if (error) throw error;
+        
+        return data.map(row => ({
+          id: row.id,
+          chatId: row.chat_id,
+          userId: row.user_id,
+          content: row.content,
+          timestamp: row.timestamp,
+          language: row.language,
+          messageType: row.message_type,
+          metadata: row.metadata,
+          decisions: row.decisions || [],
+          actionItems: row.action_items || [],
+          threadId: row.thread_id
+        })).reverse(); // Return in chronological order
+      },
+      'getThreadMessages',
+      { threadId, limit }
+    );
+  },
+
+  async updateThreadActivity(
+    threadId: string,
+    activity: Pick<ConversationThread, 'lastActivity' | 'messageCount' | 'participants' | 'embedding'>
+  ): Promise<void> {
+    return executeOperation(
+      async () => {
+        const { error } = await supabase
+          .from('conversation_threads')
+          .update({ 
+            last_activity: toBigInt(activity.lastActivity),
+            message_count: activity.messageCount,
+            participants: activity.participants,
+            ...(activity.embedding && { embedding: activity.embedding })
+          })
+          .eq('id', threadId);
+        
+        if (error) throw error;
+      },
+      'updateThreadActivity',
+      { threadId, messageCount: activity.messageCount }
+    );
+  },
+
+  async updateThreadSummary(threadId: string, summary: Pick<ConversationThread, 'topic' | 'tags'> & { summary: string }): Promise<void> {
+    return executeOperation(
+      async () => {
+        const { error } = await supabase
+          .from('conversation_threads')
+          .update({ summary: summary.summary, topic: summary.topic, tags: summary.tags })
+          .eq('id', threadId);
+        
+        if (error) throw error;
+      },
+      'updateThreadSummary',
+      { threadId }
+    );
+  }
+};
+
+// Search operations
+
+// Rows returned by hybrid_search()
+interface HybridSearchRow {
+  id: string;
+  content_id: string;
+  content_type: SearchResult['type'];
+  content: string;
+  metadata: { context?: string; telegramMessageId?: number | string } | null;
+  chat_id: string;
+  user_id: string | null;
+  created_at: number;
+  score: number | string;
+}
+
+export const searchService = {
+  async searchByKeywords(
+    chatId: string, 
+    keywords: string[], 
+    limit: number = 20
+  ): Promise<SearchResult[]> {
+    return executeOperation(
+      async () => {
+        const searchQuery = keywords.join(' | ');
+        const { data, error } = await supabase
+          .from('messages')
+          .select('*')
+          .eq('chat_id', chatId)
+          .textSearch('content', searchQuery)
+          .order('timestamp', { ascending: false })
+          .limit(limit);
+        
+        if (error) throw error;
+        
+        return data.map(row => ({
+          id: row.id,
+          type: 'message' as const,
+          content: row.content,
+          relevanceScore: 1.0,
+          context: row.content.substring(0, 200),
+          timestamp: row.timestamp,
+          chatId: row.chat_id,
+          userId: row.user_id
+        }));
+      },
+      'searchByKeywords',
+      { chatId, keywordsCount: keywords.length }
+    );
+  },
+
+  async searchByContext(
+    chatId: string, 
+    context: string, 
+    limit: number = 20,
+    options: Omit<SearchOptions, 'limit'> = {}
+  ): Promise<SearchResult[]> {
+    return executeOperation(
+      async () => {
+        const { data, error } = await supabase.rpc('hybrid_search', {
+          query_text: context,
+          query_embedding: options.embedding || null,
+          match_chat_id: chatId,
+          match_count: limit,
+          content_types: options.types && options.types.length > 0 ? options.types : null,
+          topic_scoped: options.topicId !== undefined,
+          match_topic_id: options.topicId ?? null
+        });
+        
+        if (error) throw error;
+        
+        return ((data || []) as HybridSearchRow[]).map(row => ({
+          id: row.content_id,
+          type: row.content_type,
+          content: row.content,
+          relevanceScore: Number(row.score) || 0,
+          context: row.metadata?.context || row.content.substring(0, 200),
+          timestamp: row.created_at,
+          chatId: row.chat_id,
+          userId: row.user_id || '',
+          ...(row.metadata?.telegramMessageId && { telegramMessageId: Number(row.metadata.telegramMessageId) })
+        }));
+      },
+      'searchByContext',
+      { 
+        chatId, 
+        context: context.substring(0, 100), 
+        semantic: !!options.embedding,
+        types: options.types?.join(','),
+        topicId: options.topicId
+      }
+    );
+  },
+
+  async getRelatedContent(
+    messageId: string, 
+    limit: number = 10
+  ): Promise<SearchResult[]> {
+    return executeOperation(
+      async () => {
+        // First get the message content to find related content
+        const { data: message, error: messageError } = await supabase
+          .from('messages')
+          .select('content, chat_id')
+          .eq('id', messageId)
+          .single();
+        
+        if (messageError) throw messageError;
+        
+        // Search for similar content in the same chat
+        const { data, error } = await supabase
+          .from('messages')
+          .select('*')
+          .eq('chat_id', message.chat_id)
+          .neq('id', messageId)
+          .textSearch('content', message.content.split(' ').slice(0, 5).join(' '))
+          .order('timestamp', { ascending: false })
+          .limit(limit);
+        
+        if (error) throw error;
+        
+        return data.map(row => ({
+          id: row.id,
+          type: 'message' as const,
+          content: row.content,
+          relevanceScore: 1.0,
+          context: row.content.substring(0, 200),
+          timestamp: row.timestamp,
+          chatId: row.chat_id,
+          userId: row.user_id
+        }));
+      },
+      'getRelatedContent',
+      { messageId, limit }
+    );
+  }
+};
+
+// Search index operations (embeddings for semantic search)
+export const searchIndexService = {
+  async replaceEntries(
+    contentId: string,
+    contentType: SearchResult['type'],
+    entries: SearchIndexEntry[]
+  ): Promise<void> {
+    return executeOperation(
+      async () => {
+        const { error: deleteError } = await supabase
+          .from('search_index')
+          .delete()
+          .eq('content_id', contentId)
+          .eq('content_type', contentType);
+        
+        if (deleteError) throw deleteError;
+        
+        if (entries.length === 0) {
+          return;
+        }
+        
+        const { error } = await supabase
+          .from('search_index')
+          .insert(entries.map(entry => ({
+            content_id: entry.contentId,
+            content_type: entry.contentType,
+            content: entry.content,
+            embedding: entry.embedding || null,
+            metadata: entry.metadata || {},
+            chat_id: entry.chatId,
+            user_id: entry.userId || null,
+            created_at: toBigInt(entry.createdAt)
+          })));
+        
+        if (error) throw error;
+      },
+      'replaceSearchEntries',
+      { contentId, contentType, entryCount: entries.length }
+    );
+  },
+
+  async removeEntries(contentId: string, contentType?: SearchResult['type']): Promise<void> {
+    return executeOperation(
+      async () => {
+        let query = supabase
+          .from('search_index')
+          .delete()
+          .eq('content_id', contentId);
+        
+        if (contentType) {
+          query = query.eq('content_type', contentType);
+        }
+        
+        const { error } = await query;
+        
+        if (error) throw error;
+      },
+      'removeSearchEntries',
+      { contentId, contentType }
+    );
+  },
+
+  // Entries without an embedding, those that failed least often first
+  async getEntriesWithoutEmbedding(
+    limit: number = 100,
+    maxAttempts: number = Number.MAX_SAFE_INTEGER
+  ): Promise<Array<{ id: string; content: string; attempts: number }>> {
+    return executeOperation(
+      async () => {
+        const { data, error } = await supabase
+          .from('search_index')
+          .select('id, content, embedding_attempts')
+          .is('embedding', null)
+          .lt('embedding_attempts', maxAttempts)
+          .order('embedding_attempts', { ascending: true })
+          .order('created_at', { ascending: true })
+          .limit(limit);
+        
+        if (error) throw error;
+        
+        return data.map(row => ({ id: row.id, content: row.content, attempts: row.embedding_attempts }));
+      },
+      'getEntriesWithoutEmbedding',
+      { limit, maxAttempts }
+    );
+  },
+
+  async recordEmbeddingFailure(entryId: string, attempts: number): Promise<void> {
+    return executeOperation(
+      async () => {
+        const { error } = await supabase
+          .from('search_index')
+          .update({ embedding_attempts: attempts })
+          .eq('id', entryId);
+        
+        if (error) throw error;
+      },
+      'recordSearchEmbeddingFailure',
+      { entryId, attempts }
+    );
+  },
+
+  async updateEmbedding(entryId: string, embedding: number[]): Promise<void> {
+    return executeOperation(
+      async () => {
+        const { error } = await supabase
+          .from('search_index')
+          .update({ embedding })
+          .eq('id', entryId);
+        
+        if (error) throw error;
+      },
+      'updateSearchEmbedding',
+      { entryId }
+    );
+  }
+};
+
+// Scheduled task operations
+interface ScheduledTaskRow {
+  id: string;
+  name: string;
+  schedule: string;
+  handler: string;
+  parameters: Record<string, any> | null;
+  active: boolean;
+  timezone: string | null;
+  last_run: number | null;
+  next_run: number | null;
+  run_count: number;
+  failure_count: number;
+  created_at: number;
+}
+
+function mapScheduledTaskRow(row: ScheduledTaskRow): ScheduledTask {
+  return {
+    id: row.id,
+    name: row.name,
+    schedule: row.schedule,
+    handler: row.handler,
+    parameters: row.parameters || {},
+    active: row.active,
+    timezone: row.timezone || 'UTC',
+    lastRun: row.last_run || undefined,
+    nextRun: row.next_run || undefined,
+    runCount: row.run_count,
+    failureCount: row.failure_count,
+    createdAt: row.created_at
+  };
+}
+
+export const scheduledTaskService = {
+  /**
+   * Active tasks whose next_run has passed, oldest first. `handlers` keeps
+   * only those handlers, `excludeHandlers` leaves them out.
+   */
+  async getDueTasks(
+    now: number,
+    limit: number = 50,
+    filter: { handlers?: string[]; excludeHandlers?: string[] } = {}
+  ): Promise<ScheduledTask[]> {
+    return executeOperation(
+      async () => {
+        let query = supabase
+          .from('scheduled_tasks')
+          .select('*')
+          .eq('active', true)
+          .lte('next_run', now);
+
+        if (filter.handlers) {
+          query = query.in('handler', filter.handlers);
+        }
+        if (filter.excludeHandlers?.length) {
+          query = query.not('handler', 'in', `(${filter.excludeHandlers.join(',')})`);
+        }
+
+        const { data, error } = await query
+          .order('next_run', { ascending: true })
+          .limit(limit);
+        
+        if (error) throw error;
+        
+        return data.map(mapScheduledTaskRow);
+      },
+      'getDueTasks',
+      { limit }
+    );
+  },
+
+  /**
+   * Move a due task to its next run. The update only applies while next_run
+   * still holds the value this instance read, so when several instances see
+   * the same due task exactly one of them wins the claim.
+   */
+  async claimTask(task: ScheduledTask, nextRun: number, now: number): Promise<boolean> {
+    return executeOperation(
+      async () => {
+        const { data, error } = await supabase
+          .from('scheduled_tasks')
+          .update({
+            next_run: toBigInt(nextRun),
+            last_run: toBigInt(now),
+            run_count: task.runCount + 1
+          })
+          .eq('id', task.id)
+          .eq('next_run', task.nextRun)
+          .select('id');
+        
+        if (error) throw error;
+        
+        return data.length > 0;
+      },
+      'claimTask',
+      { taskId: task.id, name: task.name }
+    );
+  },
+
+  async recordFailure(task: ScheduledTask, message: string): Promise<void> {
+    return executeOperation(
+      async () => {
+        const { error } = await supabase
+          .from('scheduled_tasks')
+          .update({
+            failure_count: task.failureCount + 1,
+            last_error: message.substring(0, 1000)
+          })
+          .eq('id', task.id);
+        
+        if (error) throw error;
+      },
+      'recordTaskFailure',
+      { taskId: task.id, name: task.name }
+    );
+  },
+
+  async getTask(name: string): Promise<ScheduledTask | null> {
+    return executeOperation(
+      async () => {
+        const { data, error } = await supabase
+          .from('scheduled_tasks')
+          .select('*')
+          .eq('name', name)
+          .single();
+        
+        if (error) {
+          if (error.code === 'PGRST116') return null; // Not found
+          throw error;
+        }
+        
+        return mapScheduledTaskRow(data);
+      },
+      'getTask',
+      { name }
+    );
+  },
+
+  async upsertTask(
+    task: Pick<ScheduledTask, 'name' | 'schedule' | 'handler' | 'parameters' | 'timezone'> & { nextRun: number }
+  ): Promise<void> {
+    return executeOperation(
+      async () => {
+        const { error } = await supabase
+          .from('scheduled_tasks')
+          .upsert({
+            name: task.name,
+            schedule: task.schedule,
+            handler: task.handler,
+            parameters: task.parameters,
+            timezone: task.timezone,
+            active: true,
+            next_run: toBigInt(task.nextRun),
+            created_at: toBigInt(Date.now())
+          }, { onConflict: 'name' });
+        
+        if (error) throw error;
+      },
+      'upsertTask',
+      { name: task.name }
+    );
+  },
+
+  async deactivateTask(name: string): Promise<void> {
+    return executeOperation(
+      async () => {
+        const { error } = await supabase
+          .from('scheduled_tasks')
+          .update({ active: false })
+          .eq('name', name);
+        
+        if (error) throw error;
+      },
+      'deactivateTask',
+      { name }
+    );
+  }
+};
+
+// Reminder operations
+interface ReminderRow {
+  id: string;
+  chat_id: string;
+  user_id: string;
+  text: string;
+  fire_at: number;
+  recurrence: string | null;
+  timezone: string | null;
+  status: Reminder['status'];
+  reply_to_message_id: number | null;
+  telegram_topic_id: number | string | null;
+  snooze_count: number;
+  last_sent_at: number | null;
+  created_at: number;
+}
+
+function mapReminderRow(row: ReminderRow): Reminder {
+  return {
+    id: row.id,
+    chatId: row.chat_id,
+    userId: row.user_id,
+    text: row.text,
+    fireAt: row.fire_at,
+    recurrence: row.recurrence || undefined,
+    timezone: row.timezone || 'UTC',
+    status: row.status,
+    replyToMessageId: row.reply_to_message_id || undefined,
+    telegramTopicId: row.telegram_topic_id ? Number(row.telegram_topic_id) : undefined,
+    snoozeCount: row.snooze_count,
+    lastSentAt: row.last_sent_at || undefined,
+    createdAt: row.created_at
+  };
+}
+
+export const reminderService = {
+  async createReminder(reminder: Omit<Reminder, 'id' | 'status' | 'snoozeCount' | 'createdAt'>): Promise<Reminder> {
+    return executeOperation(
+      async () => {
+        const { data, error } = await supabase
+          .from('reminders')
+          .insert({
+            chat_id: reminder.chatId,
+            user_id: reminder.userId,
+            text: reminder.text,
+            fire_at: toBigInt(reminder.fireAt),
+            recurrence: reminder.recurrence || null,
+            timezone: reminder.timezone,
+            reply_to_message_id: reminder.replyToMessageId || null,
+            telegram_topic_id: reminder.telegramTopicId || null,
+            created_at: toBigInt(Date.now())
+          })
+          .select('*')
+          .single();
+        
+        if (error) throw error;
+        
+        return mapReminderRow(data);
+      },
+      'createReminder',
+      { chatId: reminder.chatId, userId: reminder.userId }
+    );
+  },
+
+  async getReminder(reminderId: string): Promise<Reminder | null> {
+    return executeOperation(
+      async () => {
+        const { data, error } = await supabase
+          .from('reminders')
+          .select('*')
+          .eq('id', reminderId)
+          .single();
+        
+        if (error) {
+          if (error.code === 'PGRST116') return null; // Not found
+          throw error;
+        }
+        
+        return mapReminderRow(data);
+      },
+      'getReminder',
+      { reminderId }
+    );
+  },
+
+  async getPendingReminders(chatId: string, userId: string, limit: number = 20): Promise<Reminder[]> {
+    return executeOperation(
+      async () => {
+        const { data, error } = await supabase
+          .from('reminders')
+          .select('*')
+          .eq('chat_id', chatId)
+          .eq('user_id', userId)
+          .eq('status', 'pending')
+          .order('fire_at', { ascending: true })
+          .limit(limit);
+        
+        if (error) throw error;
+        
+        return data.map(mapReminderRow);
+      },
+      'getPendingReminders',
+      { chatId, userId }
+    );
+  },
+
+  async getDueReminders(now: number, limit: number = 100): Promise<Reminder[]> {
+    return executeOperation(
+      async () => {
+        const { data, error } = await supabase
+          .from('reminders')
+          .select('*')
+          .eq('status', 'pending')
+          .lte('fire_at', toBigInt(now))
+          .order('fire_at', { ascending: true })
+          .limit(limit);
+        
+        if (error) throw error;
+        
+        return data.map(mapReminderRow);
+      },
+      'getDueReminders',
+      { limit }
+    );
+  },
+
+  /**
+   * Mark a due reminder as sent, or move a repeating one to its next time.
+   * Conditional on the fire_at that was read, like scheduledTaskService.claimTask.
+   */
+  async claimReminder(reminder: Reminder, nextFireAt: number | null, now: number): Promise<boolean> {
+    return executeOperation(
+      async () => {
+        const { data, error } = await supabase
+          .from('reminders')
+          .update({
+            ...(nextFireAt ? { fire_at: toBigInt(nextFireAt) } : { status: 'sent' }),
+            last_sent_at: toBigInt(now)
+          })
+          .eq('id', reminder.id)
+          .eq('status', 'pending')
+          .eq('fire_at', reminder.fireAt)
+          .select('id');
+        
+        if (error) throw error;
+        
+        return data.length > 0;
+      },
+      'claimReminder',
+      { reminderId: reminder.id }
+    );
+  },
+
+  async updateReminder(
+    reminderId: string,
+    updates: Partial<Pick<Reminder, 'status' | 'fireAt' | 'snoozeCount'>>
+  ): Promise<Reminder> {
+    return executeOperation(
+      async () => {
+        const row: Record<string, any> = {};
+        
+        if (updates.status !== undefined) row['status'] = updates.status;
+        if (updates.fireAt !== undefined) row['fire_at'] = toBigInt(updates.fireAt);
+        if (updates.snoozeCount !== undefined) row['snooze_count'] = updates.snoozeCount;
+        
+        const { data, error } = await supabase
+          .from('reminders')
+          .update(row)
+          .eq('id', reminderId)
+          .select('*')
+          .single();
+        
+        if (error) throw error;
+        
+        return mapReminderRow(data);
+      },
+      'updateReminder',
+      { reminderId, fields: Object.keys(updates).join(',') }
+    );
+  }
+};
+
+// Plugin registry, per-chat permission grants and plugin storage.
+// Plugin rows are keyed by the plugin's metadata id, stored in name.
+export const pluginService = {
+  /**
+   * Create or refresh a plugin's row, keeping its grants; returns the row id
+   */
+  async registerPlugin(plugin: { pluginId: string; version: string; description: string; author: string }): Promise<string> {
+    return executeOperation(
+      async () => {
+        const { data: existing, error: selectError } = await supabase
+          .from('plugins')
+          .select('id')
+          .eq('name', plugin.pluginId)
+          .single();
+        
+        if (selectError && selectError.code !== 'PGRST116') throw selectError; // Not found is fine
+        
+        const fields = {
+          version: plugin.version,
+          description: plugin.description,
+          author: plugin.author,
+          active: true
+        };
+        
+        if (existing) {
+          const { error } = await supabase.from('plugins').update(fields).eq('id', existing.id);
+          if (error) throw error;
+          return existing.id as string;
+        }
+        
+        const { data, error } = await supabase
+          .from('plugins')
+          .insert({ name: plugin.pluginId, ...fields, installed_at: toBigInt(Date.now()) })
+          .select('id')
+          .single();
+        
+        if (error) throw error;
+        return data.id as string;
+      },
+      'registerPlugin',
+      { pluginId: plugin.pluginId }
+    );
+  },
+
+  async getPermissionGrants(pluginId: string, chatId: string): Promise<string[]> {
+    return executeOperation(
+      async () => {
+        const { data, error } = await supabase
+          .from('plugins')
+          .select('permission_grants')
+          .eq('name', pluginId)
+          .single();
+        
+        if (error) {
+          if (error.code === 'PGRST116') return []; // Not registered
+          throw error;
+        }
+        return data.permission_grants?.[chatId] || [];
+      },
+      'getPluginPermissionGrants',
+      { pluginId, chatId }
+    );
+  },
+
+  async setPermissionGrants(pluginId: string, chatId: string, permissions: string[]): Promise<void> {
+    return executeOperation(
+      async () => {
+        const { data, error: selectError } = await supabase
+          .from('plugins')
+          .select('permission_grants')
+          .eq('name', pluginId)
+          .single();
+        
+        if (selectError) throw selectError;
+        
+        const grants: Record<string, string[]> = { ...(data.permission_grants || {}) };
+        if (permissions.length > 0) {
+          grants[chatId] = permissions;
+        } else {
+          delete grants[chatId];
+        }
+        
+        const { error } = await supabase
+          .from('plugins')
+          .update({ permission_grants: grants })
+          .eq('name', pluginId);
+        
+        if (error) throw error;
+      },
+      'setPluginPermissionGrants',
+      { pluginId, chatId, permissions: permissions.length }
+    );
+  },
+
+  async getStorageValue(pluginRowId: string, chatId: string, key: string): Promise<unknown> {
+    return executeOperation(
+      async () => {
+        const { data, error } = await supabase
+          .from('plugin_storage')
+          .select('value')
+          .eq('plugin_id', pluginRowId)
+          .eq('chat_id', chatId)
+          .eq('key', key)
+          .single();
+        
+        if (error) {
+          if (error.code === 'PGRST116') return undefined; // Not found
+          throw error;
+        }
+        return data.value;
+      },
+      'getPluginStorageValue',
+      { pluginRowId, chatId, key }
+    );
+  },
+
+  async setStorageValue(pluginRowId: string, chatId: string, key: string, value: unknown): Promise<void> {
+    return executeOperation(
+      async () => {
+        const { error } = await supabase
+          .from('plugin_storage')
+          .upsert({ plugin_id: pluginRowId, chat_id: chatId, key, value }, { onConflict: 'plugin_id,chat_id,key' });
+        
+        if (error) throw error;
+      },
+      'setPluginStorageValue',
+      { pluginRowId, chatId, key }
+    );
+  },
+
+  async deleteStorageValue(pluginRowId: string, chatId: string, key: string): Promise<void> {
+    return executeOperation(
+      async () => {
+        const { error } = await supabase
+          .from('plugin_storage')
+          .delete()
+          .eq('plugin_id', pluginRowId)
+          .eq('chat_id', chatId)
+          .eq('key', key);
+        
+        if (error) throw error;
+      },
+      'deletePluginStorageValue',
+      { pluginRowId, chatId, key }
+    );
+  }
+};
+
+// Analytics operations
+export const analyticsService = {
+  async deleteChatEventsBefore(chatId: string, timestamp: number): Promise<number> {
+    return executeOperation(
+      async () => {
+        const { count, error } = await supabase
+          .from('analytics')
+          .delete({ count: 'exact' })
+          .eq('chat_id', chatId)
+          .lt('timestamp', toBigInt(timestamp));
+        
+        if (error) throw error;
+        
+        return count || 0;
+      },
+      'deleteChatEventsBefore',
+      { chatId, timestamp }
+    );
+  },
+
+  async deleteEventsBefore(timestamp: number): Promise<number> {
+    return executeOperation(
+      async () => {
+        const { count, error } = await supabase
+          .from('analytics')
+          .delete({ count: 'exact' })
+          .lt('timestamp', toBigInt(timestamp));
+        
+        if (error) throw error;
+        
+        return count || 0;
+      },
+      'deleteEventsBefore',
+      { timestamp }
+    );
+  }
+};
+
+// Everything stored about one user, for /mydata
+export const userDataService = {
+  async getMessages(userId: string, offset: number = 0, limit: number = 1000): Promise<Message[]> {
     return executeOperation(
       async () => {
         const { data, error } = await supabase
-          .from('conversation_threads')
+          .from('messages')
           .select('*')
-          .eq('id', threadId)
-          .single();
+          .eq('user_id', userId)
+          .order('timestamp', { ascending: true })
+          .range(offset, offset + limit - 1);
         
-        if (error) {
-          if (error.code === 'PGRST116') return null; // Not found
-          throw error;
-        }
+        if (error) throw error;
         
-        return {
-          id: data.id,
-          chatId: data.chat_id,
-          topic: data.topic,
-          participants: data.participants,
-          messageCount: data.message_count,
-          lastActivity: data.last_activity,
-          createdAt: data.created_at,
-          summary: data.summary,
-          tags: data.tags
-        };
+        return data.map(row => ({
+          id: row.id,
+          chatId: row.chat_id,
+          userId: row.user_id,
+          content: row.content,
+          timestamp: row.timestamp,
+          language: row.language,
+          messageType: row.message_type,
+          metadata: row.metadata,
+          decisions: row.decisions || [],
+          actionItems: row.action_items || [],
+          threadId: row.thread_id,
+          ...(row.edited_at && { editedAt: row.edited_at }),
+          editHistory: row.edit_history || []
+        }));
       },
-      'getThread',
-      { threadId }
+      'getUserMessages',
+      { userId, offset, limit }
     );
   },
 
-  async getActiveThreads(chatId: string, limit: number = 10): Promise<ConversationThread[]> {
+  async getResources(userId: string, offset: number = 0, limit: number = 500): Promise<Resource[]> {
     return executeOperation(
       async () => {
         const { data, error } = await supabase
-          .from('conversation_threads')
+          .from('resources')
           .select('*')
-          .eq('chat_id', chatId)
-          .order('last_activity', { ascending: false })
-          .limit(limit);
+          .eq('user_id', userId)
+          .order('extracted_at', { ascending: true })
+          .range(offset, offset + limit - 1);
         
         if (error) throw error;
         
         return data.map(row => ({
           id: row.id,
-          chatId: row.chat_id,
-          topic: row.topic,
-          participants: row.participants,
-          messageCount: row.message_count,
-          lastActivity: row.last_activity,
-          createdAt: row.created_at,
+          type: row.type,
+          url: row.url,
+          filename: row.filename,
+          content: row.content,
           summary: row.summary,
-          tags: row.tags
+          metadata: row.metadata,
+          extractedAt: row.extracted_at,
+          chatId: row.chat_id,
+          userId: row.user_id
         }));
       },
-      'getActiveThreads',
-      { chatId, limit }
+      'getUserResources',
+      { userId, offset, limit }
     );
   },
 
-  async updateThreadActivity(threadId: string): Promise<void> {
+  // Items the user created or is assigned to
+  async getActionItems(userId: string): Promise<ActionItem[]> {
     return executeOperation(
       async () => {
-        const { error } = await supabase
-          .from('conversation_threads')
-          .update({ 
-            last_activity: toBigInt(Date.now()),
-            message_count: supabase.raw('message_count + 1')
-          })
-          .eq('id', threadId);
+        const { data, error } = await supabase
+          .from('action_items')
+          .select('*')
+          .or(`created_by.eq.${userId},assignee_user_id.eq.${userId}`)
+          .order('created_at', { ascending: true });
         
         if (error) throw error;
+        
+        return data.map(mapActionItemRow);
       },
-      'updateThreadActivity',
-      { threadId }
+      'getUserActionItems',
+      { userId }
+    );
+  },
+
+  async getReminders(userId: string): Promise<Reminder[]> {
+    return executeOperation(
+      async () => {
+        const { data, error } = await supabase
+          .from('reminders')
+          .select('*')
+          .eq('user_id', userId)
+          .order('created_at', { ascending: true });
+        
+        if (error) throw error;
+        
+        return data.map(mapReminderRow);
+      },
+      'getUserReminders',
+      { userId }
     );
   },
 
-  async updateThreadSummary(threadId: string, summary: string): Promise<void> {
+  async recordRequest(userId: string, requestType: 'export' | 'delete', counts: DataRequestCounts): Promise<void> {
     return executeOperation(
       async () => {
         const { error } = await supabase
-          .from('conversation_threads')
-          .update({ summary })
-          .eq('id', threadId);
+          .from('data_requests')
+          .insert({
+            user_id: userId,
+            request_type: requestType,
+            counts,
+            created_at: toBigInt(Date.now())
+          });
         
         if (error) throw error;
       },
-      'updateThreadSummary',
-      { threadId }
+      'recordDataRequest',
+      { userId, requestType }
+    );
+  },
+
+  // Deletes or anonymises the user's data in one transaction and records the request
+  async deleteUserData(userId: string): Promise<DataRequestCounts> {
+    return executeOperation(
+      async () => {
+        const { data, error } = await supabase.rpc('delete_user_data', {
+          target_user_id: userId,
+          requested_at: toBigInt(Date.now())
+        });
+        
+        if (error) throw error;
+        
+        return (data || {}) as DataRequestCounts;
+      },
+      'deleteUserData',
+      { userId }
     );
   }
 };
 
-// Search operations
-export const searchService = {
-  async searchByKeywords(
-    chatId: string, 
-    keywords: string[], 
-    limit: number = 20
-  ): Promise<SearchResult[]> {
+// Table and timestamp column each retention kind is counted and aged by
+const RETENTION_TABLES: Record<RetentionKind, { table: string; column: string }> = {
+  messages: { table: 'messages', column: 'timestamp' },
+  resources: { table: 'resources', column: 'extracted_at' },
+  analytics: { table: 'analytics', column: 'timestamp' }
+};
+
+// Rows returned by retention_chat_ids()
+interface RetentionChatRow {
+  chat_id: string;
+}
+
+// A row holding only the selected timestamp column, keyed by the column's name
+type TimestampRow = Record<string, number>;
+
+// Retention enforcement: what to purge, the purge itself, and summaries of purged history
+export const retentionService = {
+  async getChatIds(): Promise<string[]> {
+    return executeOperation(
+      async () => {
+        const { data, error } = await supabase.rpc('retention_chat_ids');
+        
+        if (error) throw error;
+        
+        return ((data || []) as RetentionChatRow[]).map(row => row.chat_id);
+      },
+      'getRetentionChatIds'
+    );
+  },
+
+  // Timestamp of the newest row beyond the first `keep`, or null when the chat has no more rows than that
+  async getCountCutoff(kind: RetentionKind, chatId: string, keep: number): Promise<number | null> {
+    const { table, column } = RETENTION_TABLES[kind];
     return executeOperation(
       async () => {
-        const searchQuery = keywords.join(' | ');
         const { data, error } = await supabase
-          .from('messages')
-          .select('*')
+          .from(table)
+          .select(column)
           .eq('chat_id', chatId)
-          .textSearch('content', searchQuery)
-          .order('timestamp', { ascending: false })
-          .limit(limit);
+          .order(column, { ascending: false })
+          .range(keep, keep);
         
         if (error) throw error;
         
-        return data.map(row => ({
-          id: row.id,
-          type: 'message' as const,
-          content: row.content,
-          relevanceScore: 1.0,
-          context: row.content.substring(0, 200),
-          timestamp: row.timestamp,
-          chatId: row.chat_id,
-          userId: row.user_id
-        }));
+        const row = data[0] as unknown as TimestampRow | undefined;
+        return row?.[column] ?? null;
       },
-      'searchByKeywords',
-      { chatId, keywordsCount: keywords.length }
+      'getRetentionCountCutoff',
+      { kind, chatId, keep }
     );
   },
 
-  async searchByContext(
-    chatId: string, 
-    context: string, 
-    limit: number = 20
-  ): Promise<SearchResult[]> {
+  async getOldestMessageTimestamp(chatId: string, before: number): Promise<number | null> {
     return executeOperation(
       async () => {
         const { data, error } = await supabase
           .from('messages')
-          .select('*')
+          .select('timestamp')
           .eq('chat_id', chatId)
-          .textSearch('content', context)
-          .order('timestamp', { ascending: false })
-          .limit(limit);
+          .lt('timestamp', toBigInt(before))
+          .order('timestamp', { ascending: true })
+          .limit(1);
         
         if (error) throw error;
         
-        return data.map(row => ({
-          id: row.id,
-          type: 'message' as const,
-          content: row.content,
-          relevanceScore: 1.0,
-          context: row.content.substring(0, 200),
-          timestamp: row.timestamp,
-          chatId: row.chat_id,
-          userId: row.user_id
-        }));
+        return data[0]?.timestamp ?? null;
       },
-      'searchByContext',
-      { chatId, context: context.substring(0, 100) }
+      'getOldestMessageTimestamp',
+      { chatId, before }
     );
   },
 
-  async getRelatedContent(
-    messageId: string, 
-    limit: number = 10
-  ): Promise<SearchResult[]> {
+  // Deletes messages in [from, to) and their index entries; returns the number of messages
+  async purgeMessages(chatId: string, from: number, to: number): Promise<number> {
     return executeOperation(
       async () => {
-        // First get the message content to find related content
-        const { data: message, error: messageError } = await supabase
-          .from('messages')
-          .select('content, chat_id')
-          .eq('id', messageId)
+        const { data, error } = await supabase.rpc('purge_messages', {
+          match_chat_id: chatId,
+          from_ts: toBigInt(from),
+          to_ts: toBigInt(to)
+        });
+        
+        if (error) throw error;
+        
+        return data || 0;
+      },
+      'purgeMessages',
+      { chatId, from, to }
+    );
+  },
+
+  async purgeResources(chatId: string, before: number): Promise<number> {
+    return executeOperation(
+      async () => {
+        const { data, error } = await supabase.rpc('purge_resources', {
+          match_chat_id: chatId,
+          before_ts: toBigInt(before)
+        });
+        
+        if (error) throw error;
+        
+        return data || 0;
+      },
+      'purgeResources',
+      { chatId, before }
+    );
+  },
+
+  async storeSummary(summary: Omit<HistorySummary, 'id' | 'createdAt'>): Promise<string> {
+    return executeOperation(
+      async () => {
+        const { data, error } = await supabase
+          .from('history_summaries')
+          .insert({
+            chat_id: summary.chatId,
+            period_start: toBigInt(summary.periodStart),
+            period_end: toBigInt(summary.periodEnd),
+            message_count: summary.messageCount,
+            summary: summary.summary,
+            created_at: toBigInt(Date.now())
+          })
+          .select('id')
           .single();
         
-        if (messageError) throw messageError;
+        if (error) throw error;
         
-        // Search for similar content in the same chat
+        return data.id;
+      },
+      'storeHistorySummary',
+      { chatId: summary.chatId }
+    );
+  },
+
+  // Summaries of purged periods overlapping [from, to), oldest first
+  async getSummaries(chatId: string, from: number, to: number): Promise<HistorySummary[]> {
+    return executeOperation(
+      async () => {
         const { data, error } = await supabase
-          .from('messages')
+          .from('history_summaries')
           .select('*')
-          .eq('chat_id', message.chat_id)
-          .neq('id', messageId)
-          .textSearch('content', message.content.split(' ').slice(0, 5).join(' '))
-          .order('timestamp', { ascending: false })
-          .limit(limit);
+          .eq('chat_id', chatId)
+          .lt('period_start', toBigInt(to))
+          .gte('period_end', toBigInt(from))
+          .order('period_start', { ascending: true });
         
         if (error) throw error;
         
         return data.map(row => ({
           id: row.id,
-          type: 'message' as const,
-          content: row.content,
-          relevanceScore: 1.0,
-          context: row.content.substring(0, 200),
-          timestamp: row.timestamp,
           chatId: row.chat_id,
-          userId: row.user_id
+          periodStart: row.period_start,
+          periodEnd: row.period_end,
+          messageCount: row.message_count,
+          summary: row.summary,
+          createdAt: row.created_at
         }));
       },
-      'getRelatedContent',
-      { messageId, limit }
+      'getHistorySummaries',
+      { chatId, from, to }
+    );
+  }
+};
+
+// Chat membership operations
+interface MembershipRow {
+  chat_id: string;
+  telegram_user_id: number | string; // BIGINT
+  status: MembershipStatus;
+  is_bot: boolean;
+  joined_at: number | null;
+  left_at: number | null;
+  checked_at: number;
+  source: MembershipSource;
+}
+
+function mapMembershipRow(row: MembershipRow): ChatMembership {
+  return {
+    chatId: row.chat_id,
+    telegramUserId: Number(row.telegram_user_id),
+    status: row.status,
+    isBot: row.is_bot,
+    ...(row.joined_at && { joinedAt: row.joined_at }),
+    ...(row.left_at && { leftAt: row.left_at }),
+    checkedAt: row.checked_at,
+    source: row.source
+  };
+}
+
+export const membershipService = {
+  async getMember(chatId: string, telegramUserId: number): Promise<ChatMembership | null> {
+    return executeOperation(
+      async () => {
+        const { data, error } = await supabase
+          .from('chat_members')
+          .select('*')
+          .eq('chat_id', chatId)
+          .eq('telegram_user_id', telegramUserId)
+          .single();
+        
+        if (error) {
+          if (error.code === 'PGRST116') return null; // Not found
+          throw error;
+        }
+        
+        return mapMembershipRow(data);
+      },
+      'getChatMember',
+      { chatId, telegramUserId }
+    );
+  },
+
+  async saveMember(membership: ChatMembership): Promise<void> {
+    return executeOperation(
+      async () => {
+        const { error } = await supabase
+          .from('chat_members')
+          .upsert({
+            chat_id: membership.chatId,
+            telegram_user_id: membership.telegramUserId,
+            status: membership.status,
+            is_bot: membership.isBot,
+            joined_at: membership.joinedAt ? toBigInt(membership.joinedAt) : null,
+            left_at: membership.leftAt ? toBigInt(membership.leftAt) : null,
+            checked_at: toBigInt(membership.checkedAt),
+            source: membership.source
+          }, { onConflict: 'chat_id,telegram_user_id' });
+        
+        if (error) throw error;
+      },
+      'saveChatMember',
+      { chatId: membership.chatId, telegramUserId: membership.telegramUserId, status: membership.status }
+    );
+  },
+
+  // Chats the user is recorded as being in, most recently confirmed first
+  async getMemberChatIds(telegramUserId: number, limit: number = 50): Promise<string[]> {
+    return executeOperation(
+      async () => {
+        const { data, error } = await supabase
+          .from('chat_members')
+          .select('chat_id')
+          .eq('telegram_user_id', telegramUserId)
+          .not('status', 'in', '(left,kicked)')
+          .order('checked_at', { ascending: false })
+          .limit(limit);
+        
+        if (error) throw error;
+        
+        return (data || []).map(row => row.chat_id as string);
+      },
+      'getMemberChatIds',
+      { telegramUserId }
     );
   }
 };
@@ -940,8 +3075,14 @@ export default {
   message: messageService,
   user: userService,
   resource: resourceService,
+  actionItem: actionItemService,
   thread: threadService,
   search: searchService,
+  searchIndex: searchIndexService,
+  scheduledTask: scheduledTaskService,
+  reminder: reminderService,
+  plugin: pluginService,
+  analytics: analyticsService,
   health: healthService,
   subscription: subscriptionService,
   cleanup
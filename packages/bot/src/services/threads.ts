@@ -0,0 +1,221 @@
+import { messageService, threadService } from '@/services/supabase';
+import { isIndexableContent } from '@/services/indexing';
+import { chatSettingsManager } from '@/services/chat-settings';
+import openaiService from '@/services/openai';
+import { threadsConfig } from '@/config/env';
+import { telegramLogger, logError } from '@/utils/logger';
+import { ConversationThread, Message, TopicScope } from '@/types';
+
+/**
+ * Topic segmentation: every stored message joins a conversation thread. A
+ * reply joins the thread of the message it answers; otherwise a message
+ * joins the active thread it is closest to in meaning, short messages
+ * continue the latest thread, and anything else starts a new one. Threads
+ * whose last message is older than THREAD_GAP_MINUTES take only replies.
+ * In forums each topic is one thread; only General is segmented.
+ */
+
+export interface ThreadAssignment {
+  thread: ConversationThread;
+  embedding?: number[]; // The message's, reused for the search index
+  reason: 'topic' | 'reply' | 'similar' | 'latest' | 'new';
+}
+
+export interface AssignOptions {
+  replyToTelegramMessageId?: number;
+  topicName?: string; // Of the forum topic the message was posted in, when known
+}
+
+// Active threads compared with each new message
+const MAX_CANDIDATES = 5;
+// Shorter messages ("ok", "sounds good") say too little to compare by meaning
+const MIN_TOPICAL_LENGTH = 40;
+// Messages weighed in a thread's running embedding, so it follows the conversation as it drifts
+const EMBEDDING_WINDOW = 20;
+// The first summary comes early, so new threads get a real topic soon
+const FIRST_SUMMARY_AT = 3;
+// Messages handed to the summarizer along with the previous summary
+const SUMMARY_MESSAGES = 30;
+const TOPIC_LENGTH = 60;
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let index = 0; index < Math.min(a.length, b.length); index++) {
+    dot += a[index]! * b[index]!;
+    normA += a[index]! * a[index]!;
+    normB += b[index]! * b[index]!;
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// Running mean over the last EMBEDDING_WINDOW messages
+function blendEmbedding(current: number[] | undefined, added: number[], messageCount: number): number[] {
+  if (!current || current.length !== added.length) {
+    return added;
+  }
+  const weight = 1 / Math.min(messageCount, EMBEDDING_WINDOW);
+  return current.map((value, index) => value + (added[index]! - value) * weight);
+}
+
+// Until the first summary, a thread is named after its opening message
+function provisionalTopic(content: string): string {
+  const text = content.replace(/\s+/g, ' ').trim();
+  return text.length > TOPIC_LENGTH ? `${text.substring(0, TOPIC_LENGTH - 1)}…` : text || 'Conversation';
+}
+
+async function embed(content: string): Promise<number[] | undefined> {
+  if (content.trim().length < MIN_TOPICAL_LENGTH || !isIndexableContent(content) || !openaiService.embedding.isEnabled()) {
+    return undefined;
+  }
+
+  try {
+    return await openaiService.embedding.generateEmbedding(content);
+  } catch (error) {
+    // Without an embedding the message continues the latest thread and is embedded again when indexed
+    logError(telegramLogger, error as Error, { operation: 'thread_embedding' });
+    return undefined;
+  }
+}
+
+async function threadOfReply(chatId: string, replyToTelegramMessageId: number): Promise<ConversationThread | null> {
+  const parent = await messageService.getMessageByTelegramId(chatId, replyToTelegramMessageId);
+  return parent?.threadId ? threadService.getThread(parent.threadId) : null;
+}
+
+// The thread standing for a forum topic, created with the topic's first stored message
+async function topicThread(message: Omit<Message, 'id'>, topicId: number, topicName?: string): Promise<ConversationThread> {
+  const existing = await threadService.getTopicThread(message.chatId, topicId);
+  if (existing) {
+    return existing;
+  }
+
+  return threadService.createThread({
+    chatId: message.chatId,
+    topic: topicName || `Topic ${topicId}`,
+    participants: [],
+    messageCount: 0,
+    lastActivity: message.timestamp,
+    tags: [],
+    telegramTopicId: topicId
+  });
+}
+
+async function refreshSummary(thread: ConversationThread, language: string): Promise<void> {
+  const messages = await threadService.getThreadMessages(thread.id, SUMMARY_MESSAGES);
+  const lines = messages.map(message => message.content).filter(content => content.length > 0);
+  if (lines.length === 0) {
+    return;
+  }
+
+  const summary = await openaiService.summary.summarizeThread(lines, thread.summary, language);
+  // Forum topics keep the name members gave them
+  if (thread.telegramTopicId) {
+    summary.topic = thread.topic;
+  }
+  await threadService.updateThreadSummary(thread.id, summary);
+  telegramLogger.debug({ threadId: thread.id, topic: summary.topic, tags: summary.tags }, 'Thread summary refreshed');
+}
+
+export const threadManager = {
+  /**
+   * Choose the thread for a message about to be stored, creating one when
+   * none fits; null when that fails, so the message is stored without one
+   */
+  async assignMessage(message: Omit<Message, 'id'>, options: AssignOptions = {}): Promise<ThreadAssignment | null> {
+    const { replyToTelegramMessageId, topicName } = options;
+    try {
+      const embedding = await embed(message.content);
+
+      const topicId = message.metadata?.telegramTopicId;
+      if (topicId) {
+        return { thread: await topicThread(message, topicId, topicName), ...(embedding && { embedding }), reason: 'topic' };
+      }
+
+      if (replyToTelegramMessageId) {
+        const thread = await threadOfReply(message.chatId, replyToTelegramMessageId);
+        if (thread) {
+          return { thread, ...(embedding && { embedding }), reason: 'reply' };
+        }
+      }
+
+      const candidates = await threadService.getActiveThreads(message.chatId, MAX_CANDIDATES, {
+        since: message.timestamp - threadsConfig.gapMs,
+        withoutTopics: true
+      });
+      const latest = candidates[0];
+      const comparable = embedding ? candidates.filter(thread => thread.embedding) : [];
+
+      if (embedding && comparable.length > 0) {
+        const scored = comparable
+          .map(thread => ({ thread, similarity: cosineSimilarity(embedding, thread.embedding!) }))
+          .sort((a, b) => b.similarity - a.similarity);
+        const best = scored[0]!;
+        if (best.similarity >= threadsConfig.similarity) {
+          return { thread: best.thread, embedding, reason: 'similar' };
+        }
+      } else if (latest) {
+        return { thread: latest, ...(embedding && { embedding }), reason: 'latest' };
+      }
+
+      const thread = await threadService.createThread({
+        chatId: message.chatId,
+        topic: provisionalTopic(message.content),
+        participants: [],
+        messageCount: 0,
+        lastActivity: message.timestamp,
+        tags: [],
+        ...(embedding && { embedding })
+      });
+      return { thread, ...(embedding && { embedding }), reason: 'new' };
+    } catch (error) {
+      logError(telegramLogger, error as Error, { operation: 'assign_thread', chatId: message.chatId });
+      return null;
+    }
+  },
+
+  // Count the stored message into its thread, refreshing the summary as the thread grows
+  async recordMessage(assignment: ThreadAssignment, message: Omit<Message, 'id'>): Promise<void> {
+    const { thread, embedding } = assignment;
+    const messageCount = thread.messageCount + 1;
+
+    try {
+      await threadService.updateThreadActivity(thread.id, {
+        lastActivity: Math.max(thread.lastActivity, message.timestamp),
+        messageCount,
+        participants: thread.participants.includes(message.userId) ? thread.participants : [...thread.participants, message.userId],
+        ...(embedding && { embedding: blendEmbedding(thread.embedding, embedding, messageCount) })
+      });
+
+      if (messageCount === FIRST_SUMMARY_AT || messageCount % threadsConfig.summaryInterval === 0) {
+        const { language } = await chatSettingsManager.getSettings(message.chatId);
+        await refreshSummary(thread, language || message.language);
+      }
+
+      telegramLogger.debug({ threadId: thread.id, reason: assignment.reason, messageCount }, 'Message added to thread');
+    } catch (error) {
+      logError(telegramLogger, error as Error, { operation: 'record_thread_message', threadId: thread.id });
+    }
+  },
+
+  /**
+   * The thread a command or question is about: its forum topic's, that of
+   * the message it replies to, or else the most recently active one
+   */
+  async getCurrentThread(chatId: string, replyToTelegramMessageId?: number, topicId?: TopicScope): Promise<ConversationThread | null> {
+    if (topicId) {
+      return threadService.getTopicThread(chatId, topicId);
+    }
+    if (replyToTelegramMessageId) {
+      const thread = await threadOfReply(chatId, replyToTelegramMessageId);
+      if (thread) {
+        return thread;
+      }
+    }
+    const [latest] = await threadService.getActiveThreads(chatId, 1, { withoutTopics: topicId === null });
+    return latest || null;
+  }
+};
+
+export default threadManager;
@@ -0,0 +1,160 @@
+import OpenAI, { toFile } from 'openai';
+import { aiConfig, openaiConfig, transcriptionConfig } from '@/config/env';
+import { getLanguageCode } from '@/utils/language';
+import { openaiLogger, logError, logApiCall } from '@/utils/logger';
+import { TranscriptionProviderName, TranscriptionResult, TranscriptionError } from '@/types';
+
+export interface TranscriptionRequest {
+  audio: Buffer;
+  fileName: string;
+  mimeType?: string;
+  language?: string; // Hint; most providers detect the language themselves
+}
+
+export interface SpeechToTextProvider {
+  readonly name: TranscriptionProviderName;
+  readonly model: string;
+  transcribe(request: TranscriptionRequest): Promise<TranscriptionResult>;
+}
+
+/**
+ * Any server implementing the OpenAI /audio/transcriptions endpoint:
+ * OpenAI and Azure Whisper, faster-whisper-server, whisper.cpp's server...
+ */
+export class WhisperCompatibleProvider implements SpeechToTextProvider {
+  constructor(
+    readonly name: TranscriptionProviderName,
+    readonly model: string,
+    private client: OpenAI
+  ) {}
+
+  async transcribe(request: TranscriptionRequest): Promise<TranscriptionResult> {
+    const file = await toFile(request.audio, request.fileName, {
+      ...(request.mimeType && { type: request.mimeType })
+    });
+
+    // verbose_json includes the detected language and duration
+    const response = await this.client.audio.transcriptions.create({
+      file,
+      model: this.model,
+      response_format: 'verbose_json',
+      ...(request.language && { language: request.language })
+    });
+
+    const language = response.language ? getLanguageCode(response.language) : undefined;
+
+    return {
+      text: response.text.trim(),
+      ...(language && { language }),
+      ...(response.duration !== undefined && { duration: Number(response.duration) })
+    };
+  }
+}
+
+/**
+ * Deterministic stand-in for tests and offline development
+ */
+export class FakeSpeechToTextProvider implements SpeechToTextProvider {
+  readonly name = 'fake' as const;
+  readonly model = 'fake-transcription';
+
+  async transcribe(request: TranscriptionRequest): Promise<TranscriptionResult> {
+    return {
+      text: `[fake transcript of ${request.fileName}, ${request.audio.length} bytes]`,
+      language: request.language || 'en'
+    };
+  }
+}
+
+// Build the provider selected in config/env.ts; null when transcription is disabled
+export function createTranscriptionProvider(
+  provider: TranscriptionProviderName = transcriptionConfig.provider
+): SpeechToTextProvider | null {
+  const { model, baseUrl, apiKey } = transcriptionConfig;
+
+  switch (provider) {
+    case 'none':
+      return null;
+
+    case 'azure': {
+      if (!openaiConfig) {
+        throw new TranscriptionError('Azure transcription is selected but AZURE_OPENAI_ENDPOINT/AZURE_OPENAI_KEY are not set');
+      }
+      // Azure addresses Whisper by deployment, like chat models
+      const key = apiKey || openaiConfig.apiKey;
+      return new WhisperCompatibleProvider('azure', model, new OpenAI({
+        apiKey: key,
+        baseURL: `${baseUrl || openaiConfig.endpoint}/openai/deployments/${model}`,
+        defaultQuery: { 'api-version': openaiConfig.apiVersion },
+        defaultHeaders: { 'api-key': key }
+      }));
+    }
+
+    case 'openai': {
+      const key = apiKey || aiConfig.openai?.apiKey;
+      if (!key) {
+        throw new TranscriptionError('OpenAI transcription is selected but no API key is set');
+      }
+      return new WhisperCompatibleProvider('openai', model, new OpenAI({
+        apiKey: key,
+        baseURL: baseUrl || aiConfig.openai?.baseUrl || 'https://api.openai.com/v1'
+      }));
+    }
+
+    case 'local':
+      return new WhisperCompatibleProvider('local', model, new OpenAI({
+        // Local servers usually ignore the key, but the SDK requires one
+        apiKey: apiKey || 'not-needed',
+        baseURL: baseUrl || 'http://localhost:8000/v1'
+      }));
+
+    case 'fake':
+      return new FakeSpeechToTextProvider();
+
+    default:
+      throw new TranscriptionError(`Unknown transcription provider: ${provider}`);
+  }
+}
+
+const provider = createTranscriptionProvider();
+
+export const transcriptionService = {
+  // Recordings longer than TRANSCRIPTION_MAX_DURATION are left untranscribed
+  canTranscribe(duration?: number): boolean {
+    return provider !== null && (duration === undefined || duration <= transcriptionConfig.maxDuration);
+  },
+
+  async transcribe(request: TranscriptionRequest): Promise<TranscriptionResult & { provider: TranscriptionProviderName; model: string }> {
+    if (!provider) {
+      throw new TranscriptionError('Transcription is disabled');
+    }
+
+    const startTime = Date.now();
+    try {
+      const result = await provider.transcribe(request);
+
+      logApiCall(openaiLogger, provider.name, 'POST', '/audio/transcriptions', 200, Date.now() - startTime, {
+        model: provider.model,
+        size: request.audio.length,
+        language: result.language,
+        transcriptLength: result.text.length
+      });
+
+      return { ...result, provider: provider.name, model: provider.model };
+    } catch (error) {
+      logError(openaiLogger, error as Error, {
+        operation: 'transcribe',
+        provider: provider.name,
+        model: provider.model,
+        fileName: request.fileName,
+        duration: Date.now() - startTime
+      });
+
+      throw error instanceof TranscriptionError
+        ? error
+        : new TranscriptionError(`Transcription failed: ${(error as Error).message}`, { provider: provider.name });
+    }
+  }
+};
+
+export default transcriptionService;
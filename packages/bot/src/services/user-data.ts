@@ -0,0 +1,165 @@
+import { Telegram } from 'telegraf';
+import { userDataService } from '@/services/supabase';
+import { membershipManager } from '@/services/membership';
+import { telegramLogger } from '@/utils/logger';
+import { ActionItem, DataRequestCounts, Decision, Message, Reminder, Resource, User } from '@/types';
+
+/**
+ * /mydata: a user's own copy of what Buddian stores about them, and the
+ * removal of it. Exports read page by page, so large histories are complete;
+ * deletion runs in the database as one transaction (delete_user_data).
+ * What the user wrote is always theirs to export; action items others
+ * created are exported only from chats the user is still in.
+ */
+
+export interface UserDataExport {
+  json: string;
+  markdown: string;
+  counts: DataRequestCounts;
+}
+
+const MESSAGE_PAGE_SIZE = 1000;
+const RESOURCE_PAGE_SIZE = 200;
+
+// Archives outlive the user's timezone setting, so times are in UTC with the year
+function time(timestamp: number): string {
+  return `${new Date(timestamp).toISOString().substring(0, 16).replace('T', ' ')} UTC`;
+}
+
+// Items the user created, and those assigned to them in chats they have not left
+async function ownActionItems(telegram: Telegram, user: User, items: ActionItem[]): Promise<ActionItem[]> {
+  const membership: Map<string, boolean> = new Map();
+  const kept: ActionItem[] = [];
+
+  for (const item of items) {
+    if (item.createdBy === user.id || !item.chatId) {
+      kept.push(item);
+      continue;
+    }
+    if (!membership.has(item.chatId)) {
+      membership.set(item.chatId, await membershipManager.isMember(telegram, item.chatId, user.telegramId));
+    }
+    if (membership.get(item.chatId)) {
+      kept.push(item);
+    }
+  }
+
+  return kept;
+}
+
+async function readAll<T>(read: (offset: number, limit: number) => Promise<T[]>, pageSize: number): Promise<T[]> {
+  const rows: T[] = [];
+  for (let offset = 0; ; offset += pageSize) {
+    const page = await read(offset, pageSize);
+    rows.push(...page);
+    if (page.length < pageSize) {
+      return rows;
+    }
+  }
+}
+
+function renderMarkdown(
+  user: User,
+  data: { messages: Message[]; decisions: Decision[]; resources: Resource[]; actionItems: ActionItem[]; reminders: Reminder[] },
+  exportedAt: number
+): string {
+  const lines: string[] = [
+    '# Buddian data export',
+    '',
+    `Exported ${time(exportedAt)} for ${user.firstName}${user.lastName ? ` ${user.lastName}` : ''}${user.username ? ` (@${user.username})` : ''}, Telegram id ${user.telegramId}.`,
+    'The JSON file next to this one contains the same data in full.',
+    '',
+    '## Profile',
+    '',
+    `- Member since: ${time(user.createdAt)}`,
+    `- Last active: ${time(user.lastActiveAt)}`,
+    ...Object.entries(user.preferences).map(([key, value]) => `- ${key}: ${Array.isArray(value) ? value.join(', ') || 'all' : value}`),
+    '',
+    `## Messages (${data.messages.length})`
+  ];
+
+  const byChat = new Map<string, Message[]>();
+  for (const message of data.messages) {
+    byChat.set(message.chatId, [...(byChat.get(message.chatId) || []), message]);
+  }
+  for (const [chatId, messages] of byChat) {
+    lines.push('', `### Chat ${chatId}`, '');
+    for (const message of messages) {
+      const edited = message.editedAt ? ' (edited)' : '';
+      lines.push(`- ${time(message.timestamp)}${edited}: ${message.content.replace(/\s*\n\s*/g, ' ')}`);
+    }
+  }
+
+  lines.push('', `## Decisions (${data.decisions.length})`, '');
+  for (const decision of data.decisions) {
+    lines.push(`- ${time(decision.extractedAt)}: ${decision.content}`);
+  }
+
+  lines.push('', `## Files and links (${data.resources.length})`);
+  for (const resource of data.resources) {
+    lines.push(
+      '',
+      `### ${resource.metadata.title || resource.filename || resource.url || resource.type}`,
+      '',
+      `- Shared: ${time(resource.extractedAt)} in chat ${resource.chatId}`,
+      `- Type: ${resource.type}`,
+      ...(resource.url ? [`- URL: ${resource.url}`] : []),
+      '',
+      resource.summary
+    );
+  }
+
+  lines.push('', `## Action items (${data.actionItems.length})`, '');
+  for (const item of data.actionItems) {
+    const due = item.dueDate ? `, due ${time(item.dueDate)}` : '';
+    lines.push(`- #${item.number} [${item.status}] ${item.title} (chat ${item.chatId}${due})`);
+  }
+
+  lines.push('', `## Reminders (${data.reminders.length})`, '');
+  for (const reminder of data.reminders) {
+    const repeats = reminder.recurrence ? `, repeats ${reminder.recurrence}` : '';
+    lines.push(`- ${time(reminder.fireAt)} [${reminder.status}${repeats}]: ${reminder.text}`);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+export const userDataManager = {
+  // Everything stored about the user, as JSON and as readable Markdown
+  async exportData(telegram: Telegram, user: User): Promise<UserDataExport> {
+    const exportedAt = Date.now();
+
+    const messages = await readAll((offset, limit) => userDataService.getMessages(user.id, offset, limit), MESSAGE_PAGE_SIZE);
+    const resources = await readAll((offset, limit) => userDataService.getResources(user.id, offset, limit), RESOURCE_PAGE_SIZE);
+    const actionItems = await ownActionItems(telegram, user, await userDataService.getActionItems(user.id));
+    const reminders = await userDataService.getReminders(user.id);
+    const decisions = messages.flatMap(message => message.decisions || []);
+
+    const data = { messages, decisions, resources, actionItems, reminders };
+    const counts: DataRequestCounts = {
+      messages: messages.length,
+      decisions: decisions.length,
+      resources: resources.length,
+      action_items: actionItems.length,
+      reminders: reminders.length
+    };
+
+    await userDataService.recordRequest(user.id, 'export', counts);
+    telegramLogger.info({ userId: user.id, counts }, 'User data exported');
+
+    return {
+      json: JSON.stringify({ exportedAt: new Date(exportedAt).toISOString(), user, ...data }, null, 2),
+      markdown: renderMarkdown(user, data, exportedAt),
+      counts
+    };
+  },
+
+  // Remove the user's data and account; returns the rows affected per table
+  async deleteData(user: User): Promise<DataRequestCounts> {
+    const counts = await userDataService.deleteUserData(user.id);
+    telegramLogger.info({ userId: user.id, counts }, 'User data deleted');
+    return counts;
+  }
+};
+
+export default userDataManager;
@@ -13,6 +13,15 @@ export interface Message {
   decisions?: Decision[];
   actionItems?: ActionItem[];
   threadId?: string;
+  editedAt?: number;
+  editHistory?: MessageEdit[];
+}
+
+// Earlier version of an edited message
+export interface MessageEdit {
+  content: string;
+  language: string;
+  replacedAt: number;
 }
 
 export interface User {
@@ -36,14 +45,109 @@ export interface UserPreferences {
   pluginsEnabled: string[];
 }
 
+// When the bot answers messages that are not commands; private chats are always addressed
+export const RESPONSE_MODES = ['addressed', 'questions', 'off'] as const;
+
+export type ResponseMode = typeof RESPONSE_MODES[number];
+
+// Message processing chat admins can turn off
+export const CHAT_FEATURES = ['extraction', 'documents', 'links', 'transcription', 'threads', 'welcome', 'confirmations'] as const;
+
+export type ChatFeature = typeof CHAT_FEATURES[number];
+
+// Stored history a chat's retention policy applies to, each with its own limits
+export const RETENTION_KINDS = ['messages', 'resources', 'analytics'] as const;
+
+export type RetentionKind = typeof RETENTION_KINDS[number];
+
+export interface RetentionRule {
+  maxAgeDays: number | null; // Null keeps rows regardless of age
+  maxCount: number | null; // Newest rows kept per chat; null keeps any number
+}
+
+export type RetentionPolicy = Record<RetentionKind, RetentionRule>;
+
+export interface ChatSettings {
+  chatId: string;
+  responseMode: ResponseMode;
+  triggerWords: string[]; // Lowercase words that address the bot like a mention
+  language: string | null; // Replies in this chat; null follows each message's language
+  disabledFeatures: ChatFeature[];
+  disabledPlugins: string[]; // Plugin ids
+  enabledPlugins: string[]; // Plugins that start off (MCP servers) and an admin turned on
+  retention: RetentionPolicy;
+  digestFrequency: 'never' | 'daily' | 'weekly'; // Summary posted to the chat
+  digestHour: number | null; // UTC; null uses DIGEST_HOUR
+}
+
+// Owners are the chat's Telegram creator; admins are its Telegram admins and members granted the role
+export type ChatRole = 'owner' | 'admin' | 'member';
+
+// Telegram's member statuses; restricted users who left are stored as 'left'
+export type MembershipStatus = 'creator' | 'administrator' | 'member' | 'restricted' | 'left' | 'kicked';
+
+// What last confirmed a membership: a chat_member update, a join or leave
+// service message, a message the user wrote, or getChatMember
+export type MembershipSource = 'update' | 'service' | 'message' | 'check';
+
+// Who is in a chat, as last reported by Telegram or seen writing in it
+export interface ChatMembership {
+  chatId: string;
+  telegramUserId: number;
+  status: MembershipStatus;
+  isBot: boolean;
+  joinedAt?: number;
+  leftAt?: number;
+  checkedAt: number; // Last confirmed by an update, a message or getChatMember
+  source: MembershipSource;
+}
+
+// Summary of a stretch of messages deleted by the retention policy, so /summary still covers it
+export interface HistorySummary {
+  id: string;
+  chatId: string;
+  periodStart: number; // First and last purged message in the period
+  periodEnd: number;
+  messageCount: number;
+  summary: string;
+  createdAt: number;
+}
+
+// Rows exported or affected per table by a /mydata request
+export type DataRequestCounts = Record<string, number>;
+
+// What a message asks of the bot, from the intent classifier
+export interface MessageIntent {
+  intent: 'question' | 'request' | 'chatter';
+  confidence: number;
+}
+
 export interface Decision {
   id: string;
   content: string;
   confidence: number;
   context: string;
   extractedAt: number;
-  status: 'pending' | 'confirmed' | 'rejected';
+  status: 'pending' | 'confirmed' | 'rejected' | 'superseded';
   relatedMessages: string[];
+  // Set once the decision is recorded in the decisions table
+  chatId?: string;
+  number?: number;
+  messageId?: string; // The message it was extracted with; unset once retention purged it
+  createdBy?: string;
+  decidedBy?: string; // Who confirmed or rejected it; unset when confirmed by confidence
+  decidedAt?: number;
+  supersededBy?: string; // The decision that replaced it
+  telegramMessageId?: number;
+  telegramTopicId?: number;
+  history?: DecisionStatusChange[];
+}
+
+export interface DecisionStatusChange {
+  from: Decision['status'];
+  to: Decision['status'];
+  by?: string;
+  at: number;
 }
 
 export interface ActionItem {
@@ -57,6 +161,20 @@ export interface ActionItem {
   createdAt: number;
   updatedAt: number;
   relatedMessages: string[];
+  // Set once the item is tracked in the action_items table
+  chatId?: string;
+  number?: number;
+  assigneeUserId?: string;
+  createdBy?: string;
+  completedAt?: number;
+  history?: ActionItemStatusChange[];
+}
+
+export interface ActionItemStatusChange {
+  from: ActionItem['status'];
+  to: ActionItem['status'];
+  by?: string;
+  at: number;
 }
 
 export interface Resource {
@@ -77,9 +195,25 @@ export interface FileMetadata {
   fileName?: string;
   mimeType?: string;
   fileSize?: number;
+  duration?: number; // Seconds, for voice and video
+  transcription?: TranscriptionInfo;
   telegramMessageId?: number;
   telegramUserId?: number;
   telegramChatId?: number;
+  telegramTopicId?: number; // Forum topic (message_thread_id) the message was posted in
+}
+
+// Forum topic a query is limited to: a topic id, null for a forum's General
+// topic, undefined for the whole chat
+export type TopicScope = number | null | undefined;
+
+// How a voice or video message's content was produced
+export interface TranscriptionInfo {
+  provider: TranscriptionProviderName;
+  model: string;
+  text: string; // Kept apart from the caption so caption edits can rebuild the content
+  language?: string;
+  duration?: number;
 }
 
 export interface ResourceMetadata {
@@ -91,6 +225,8 @@ export interface ResourceMetadata {
   language?: string;
   title?: string;
   author?: string;
+  telegramMessageId?: number; // Message the file or link was shared in
+  telegramTopicId?: number;
 }
 
 export interface ConversationThread {
@@ -103,6 +239,46 @@ export interface ConversationThread {
   createdAt: number;
   summary?: string;
   tags: string[];
+  embedding?: number[]; // Running mean of its messages' embeddings, for matching new messages
+  telegramTopicId?: number; // Set for the thread that stands for a forum topic
+}
+
+// Rolling description of a thread, refreshed as it grows
+export interface ThreadSummary {
+  topic: string;
+  summary: string;
+  tags: string[];
+}
+
+export interface Reminder {
+  id: string;
+  chatId: string;
+  userId: string;
+  text: string;
+  fireAt: number;
+  recurrence?: string; // Cron expression
+  timezone: string;
+  status: 'pending' | 'sent' | 'cancelled';
+  replyToMessageId?: number;
+  telegramTopicId?: number; // Forum topic it was set in and is delivered to
+  snoozeCount: number;
+  lastSentAt?: number;
+  createdAt: number;
+}
+
+export interface ScheduledTask {
+  id: string;
+  name: string;
+  schedule: string; // Cron expression
+  handler: string;
+  parameters: Record<string, any>;
+  active: boolean;
+  timezone: string;
+  lastRun?: number;
+  nextRun?: number;
+  runCount: number;
+  failureCount: number;
+  createdAt: number;
 }
 
 export interface Plugin {
@@ -169,6 +345,49 @@ export interface OpenAIResponse {
   };
   model: string;
   finishReason: string;
+  toolCalls?: AIToolCall[]; // Present when the model asks for tools instead of answering
+}
+
+export interface AIToolCall {
+  id: string;
+  name: string;
+  arguments: string; // JSON, as produced by the model
+}
+
+// A function the question-answering model may call, e.g. an external MCP tool
+export interface QATool {
+  name: string; // Letters, digits, _ and -; unique among the tools offered
+  description: string;
+  parameters: Record<string, any>; // JSON Schema of the arguments
+  execute(args: Record<string, any>): Promise<string>;
+}
+
+// One tool call made while answering, for the debug trace
+export interface QAToolTrace {
+  step: number;
+  tool: string;
+  arguments: string;
+  durationMs: number;
+  outputChars: number;
+  error?: string;
+}
+
+// A stored message or document an answer relies on
+export interface QACitation {
+  type: 'message' | 'resource';
+  id: string;
+  timestamp: number;
+  author: string;
+  excerpt: string;
+  telegramMessageId?: number; // The Telegram message it came from, for deep links
+  url?: string; // Shared link, for URL resources
+}
+
+export interface QAAgentAnswer {
+  answer: string; // Citations appear as [1], [2]... in the order of citations
+  citations: QACitation[];
+  trace: QAToolTrace[];
+  steps: number;
 }
 
 export interface LanguageDetectionResult {
@@ -196,6 +415,67 @@ export interface SearchResult {
   timestamp: number;
   chatId: string;
   userId: string;
+  telegramMessageId?: number;
+}
+
+export interface SearchIndexEntry {
+  contentId: string;
+  contentType: SearchResult['type'];
+  content: string;
+  embedding?: number[] | null;
+  metadata?: Record<string, any>;
+  chatId: string;
+  userId?: string;
+  createdAt: number;
+}
+
+export interface SearchOptions {
+  limit?: number;
+  types?: SearchResult['type'][];
+  embedding?: number[] | null;
+  topicId?: TopicScope; // Action items match in every topic
+}
+
+// AI provider types
+export type AIProviderName = 'azure' | 'openai' | 'local' | 'fake';
+
+export type TranscriptionProviderName = AIProviderName | 'none';
+
+export interface TranscriptionResult {
+  text: string;
+  language?: string; // ISO 639-1 code
+  duration?: number; // Seconds
+}
+
+export const AI_OPERATIONS = [
+  'detectLanguage',
+  'translateText',
+  'extractDecisions',
+  'extractActionItems',
+  'answerQuestion',
+  'summarizeContent',
+  'generateKeyPoints',
+  'analyzeImage',
+  'embedding',
+  'healthCheck',
+  'classifyIntent',
+  'summarizeThread',
+  'findSupersededDecisions',
+] as const;
+
+export type AIOperation = typeof AI_OPERATIONS[number];
+
+// What another Buddian instance may ask this one for over A2A
+export const A2A_CAPABILITIES = ['summary', 'decisions', 'search'] as const;
+
+export type A2ACapability = typeof A2A_CAPABILITIES[number];
+
+// A trusted peer agent from A2A_PEERS
+export interface A2APeerConfig {
+  url?: string; // Its /a2a endpoint; only needed to send requests to it
+  publicKey: string; // Base64 DER (SPKI) Ed25519 key its requests are signed with
+  chats: string[] | '*'; // Our chats it may read
+  capabilities: A2ACapability[]; // Our capabilities it may use
 }
 
 // Configuration types
@@ -210,33 +490,112 @@ export interface BotConfig {
     anonKey: string;
     serviceRoleKey: string;
   };
-  openai: {
+  ai: {
+    provider: AIProviderName;
+    defaultModel: string;
+    embeddingModel?: string; // Unset turns semantic search off
+    visionModel?: string;
+    modelRoutes: Partial<Record<AIOperation, string>>;
+    openai?: {
+      apiKey: string;
+      baseUrl?: string;
+      organization?: string;
+    };
+    local: {
+      baseUrl: string;
+      apiKey?: string;
+    };
+  };
+  openai?: {
     endpoint: string;
     apiKey: string;
     apiVersion: string;
     deploymentName: string;
+    embeddingDeploymentName: string;
     visionDeploymentName?: string;
   };
   vision?: {
     endpoint: string;
     apiKey: string;
   };
+  transcription: {
+    provider: TranscriptionProviderName;
+    model: string;
+    baseUrl?: string;
+    apiKey?: string;
+    maxDuration: number; // Seconds; longer recordings are not transcribed
+  };
   app: {
     port: number;
     logLevel: string;
+    logDestination: 'stdout' | 'stderr';
     nodeEnv: string;
     maxConversationHistory: number;
     cacheTtl: number;
   };
+  retention: RetentionPolicy & {
+    maxPeriodsPerRun: number; // Days of messages summarized and purged per chat and purge run
+  }; // Defaults for chats without chat_settings
+  responses: {
+    defaultMode: ResponseMode; // For chats without chat_settings
+    triggerWords: string[];
+    minConfidence: number; // Classifier confidence needed to answer an unaddressed message
+  };
+  threads: {
+    gapMs: number; // Quiet time after which a thread no longer takes unrelated messages
+    similarity: number; // Cosine similarity needed to join an active thread by meaning
+    summaryInterval: number; // Messages between refreshes of a thread's summary and tags
+  };
+  decisions: {
+    confirmThreshold: number; // Extraction confidence from which decisions are confirmed without asking
+  };
+  qa: {
+    agent: boolean; // Answer with the tool-calling agent
+    maxSteps: number; // Model calls per question, the last one without tools
+  };
   plugins: {
     enabled: boolean;
     timeout: number;
     directory: string;
+    settings: Record<string, Record<string, unknown>>; // Keyed by plugin id
+    isolation: 'worker' | 'none'; // 'worker' runs each directory plugin in its own worker thread
+    memoryLimitMb: number;
+    maxCrashes: number;
+    quarantineMs: number;
   };
   rateLimit: {
     windowMs: number;
     maxRequests: number;
   };
+  scheduler: {
+    enabled: boolean;
+    digestHour: number;
+  };
+  mcp: {
+    enabled: boolean;
+    access: Map<string, string[] | '*'>; // Client token -> readable chat ids
+    stdioToken?: string;
+    servers: Record<string, McpServerConfig>; // External MCP servers, keyed by id
+    clientTimeout: number;
+  };
+  a2a: {
+    enabled: boolean;
+    agentId: string;
+    agentName: string;
+    privateKey?: string; // Base64 DER (PKCS#8) Ed25519 key
+    peers: Record<string, A2APeerConfig>; // Keyed by agent id
+    timeout: number;
+  };
+}
+
+// An external MCP server spawned over stdio as a plugin source
+export interface McpServerConfig {
+  command: string;
+  args: string[];
+  env: Record<string, string>; // Added to PATH, HOME and the few other variables servers inherit
+  cwd?: string;
+  commands: boolean; // Map its tools to Telegram commands
+  qa: boolean; // Offer its tools to question answering
 }
 
 // Error types
@@ -273,6 +632,20 @@ export class OpenAIError extends BuddianError {
   }
 }
 
+export class TranscriptionError extends BuddianError {
+  constructor(message: string, context?: Record<string, any>) {
+    super(message, 'TRANSCRIPTION_ERROR', 500, context);
+    this.name = 'TranscriptionError';
+  }
+}
+
+export class AccessDeniedError extends BuddianError {
+  constructor(message: string, context?: Record<string, any>) {
+    super(message, 'ACCESS_DENIED', 403, context);
+    this.name = 'AccessDeniedError';
+  }
+}
+
 // Utility types
 export type DeepPartial<T> = {
   [P in keyof T]?: T[P] extends object ? DeepPartial<T[P]> : T[P];
@@ -0,0 +1,139 @@
+import { getZonedTime } from '@/utils/timezone';
+
+/**
+ * Minimal five-field cron support (minute hour day-of-month month day-of-week)
+ * for computing when a persisted scheduled task is next due. node-cron runs
+ * jobs but cannot tell when an expression fires next.
+ */
+
+interface CronFields {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  // Standard cron: when both day fields are restricted, either may match
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+// Upper bound on the search, enough for any expression that fires at least yearly
+const MAX_SEARCH_MS = 366 * 24 * 60 * MINUTE_MS;
+
+function parseField(field: string, min: number, max: number): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range = '', stepText] = part.split('/');
+    const step = stepText ? parseInt(stepText, 10) : 1;
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step in cron field "${field}"`);
+    }
+
+    let start = min;
+    let end = max;
+    if (range !== '*') {
+      const [fromText = '', toText] = range.split('-');
+      start = parseInt(fromText, 10);
+      end = toText !== undefined ? parseInt(toText, 10) : (stepText ? max : start);
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw new Error(`Invalid cron field "${field}"`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+export function parseCron(expression: string): CronFields {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression "${expression}" must have five fields`);
+  }
+
+  const [minute = '', hour = '', day = '', month = '', weekday = ''] = fields;
+  const weekdays = parseField(weekday, 0, 7);
+
+  // 7 is an alias for Sunday
+  if (weekdays.delete(7)) {
+    weekdays.add(0);
+  }
+
+  return {
+    minutes: parseField(minute, 0, 59),
+    hours: parseField(hour, 0, 23),
+    days: parseField(day, 1, 31),
+    months: parseField(month, 1, 12),
+    weekdays,
+    dayOfMonthRestricted: day !== '*',
+    dayOfWeekRestricted: weekday !== '*'
+  };
+}
+
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function matchesDay(fields: CronFields, day: number, weekday: number): boolean {
+  const dayMatch = fields.days.has(day);
+  const weekdayMatch = fields.weekdays.has(weekday);
+
+  if (fields.dayOfMonthRestricted && fields.dayOfWeekRestricted) {
+    return dayMatch || weekdayMatch;
+  }
+  return dayMatch && weekdayMatch;
+}
+
+/**
+ * Next instant after `from` at which the expression fires, evaluated on the
+ * wall clock of the given timezone
+ */
+export function getNextRun(expression: string, from: number = Date.now(), timezone: string = 'UTC'): number {
+  const fields = parseCron(expression);
+  let candidate = Math.floor(from / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+  const limit = from + MAX_SEARCH_MS;
+
+  while (candidate <= limit) {
+    const time = getZonedTime(candidate, timezone);
+
+    // Skip ahead in coarse steps; day jumps stop an hour short of midnight
+    // so a DST shift cannot carry the search past a match
+    if (!fields.months.has(time.month) || !matchesDay(fields, time.day, time.weekday)) {
+      const untilMidnight = (24 - time.hour) * 60 - time.minute;
+      candidate += (untilMidnight > 60 ? untilMidnight - 60 : untilMidnight) * MINUTE_MS;
+      continue;
+    }
+
+    if (!fields.hours.has(time.hour)) {
+      candidate += (60 - time.minute) * MINUTE_MS;
+      continue;
+    }
+
+    if (!fields.minutes.has(time.minute)) {
+      candidate += MINUTE_MS;
+      continue;
+    }
+
+    return candidate;
+  }
+
+  throw new Error(`Cron expression "${expression}" does not fire within a year`);
+}
+
+export default {
+  parseCron,
+  isValidCron,
+  getNextRun
+};
@@ -3,6 +3,8 @@
  * Handles escaping and truncation to prevent API errors
  */
 
+import { ActionItem, Decision, QACitation } from '@/types';
+
 // Telegram message limits
 const TELEGRAM_MAX_MESSAGE_LENGTH = 4096;
 const TELEGRAM_MAX_CAPTION_LENGTH = 1024;
@@ -107,6 +109,40 @@ export function formatSummary(
   });
 }
 
+/**
+ * Format an action item as one line: priority, status, number, title, assignee
+ */
+export function formatActionItem(item: ActionItem): string {
+  const priorityEmoji = item.priority === 'high' ? '🔴' : item.priority === 'medium' ? '🟡' : '🟢';
+  const statusEmoji = {
+    pending: '⏸️',
+    in_progress: '⏳',
+    completed: '✅',
+    cancelled: '✖️'
+  }[item.status];
+
+  const number = item.number ? `${escapeMarkdown(`#${item.number}`)} ` : '';
+  const title = formatSafeMarkdown(item.title, { maxLength: 100 });
+  const assignee = item.assignee ? ` \\(${escapeMarkdown(item.assignee)}\\)` : '';
+
+  return `${priorityEmoji} ${statusEmoji} ${number}*${title}*${assignee}`;
+}
+
+/**
+ * Format a logged decision as one line: status, number, content
+ */
+export function formatDecision(decision: Decision): string {
+  const statusEmoji = {
+    pending: '🤔',
+    confirmed: '✅',
+    rejected: '✖️',
+    superseded: '♻️'
+  }[decision.status];
+
+  const number = decision.number ? `${escapeMarkdown(`#${decision.number}`)} ` : '';
+  return `${statusEmoji} ${number}${formatSafeMarkdown(decision.content, { maxLength: 200 })}`;
+}
+
 /**
  * Format a list of items with safe markdown
  */
@@ -295,3 +331,71 @@ export function formatWarning(message: string): string {
 export function formatInfo(message: string): string {
   return `ℹ️ ${formatSafeMarkdown(message, { maxLength: 500 })}`;
 }
+
+// The parts of a Telegram chat that message links depend on
+export interface LinkableChat {
+  id: number | string;
+  username?: string;
+}
+
+/**
+ * Link to a message in a Telegram chat. Only supergroups and channels have
+ * message links (t.me/c/... opens for members); private chats and basic
+ * groups get null, and replying to the message is the only way to point at it.
+ */
+export function telegramMessageLink(chat: LinkableChat, telegramMessageId: number): string | null {
+  const id = chat.id.toString();
+  if (!id.startsWith('-100')) {
+    return null;
+  }
+
+  // Public groups and channels also have links that work for non-members
+  return chat.username
+    ? `https://t.me/${chat.username}/${telegramMessageId}`
+    : `https://t.me/c/${id.substring(4)}/${telegramMessageId}`;
+}
+
+// Where a citation points: the Telegram message it came from, else the shared link
+function citationLink(citation: QACitation, chat: LinkableChat): string | null {
+  const messageLink = citation.telegramMessageId ? telegramMessageLink(chat, citation.telegramMessageId) : null;
+  return messageLink || citation.url || null;
+}
+
+/**
+ * Format an answer containing [n] citation markers for MarkdownV2: each
+ * marker links to its source where possible and the sources are listed
+ * underneath, numbered the same way
+ */
+export function formatCitedAnswer(
+  answer: string,
+  citations: QACitation[],
+  chat: LinkableChat,
+  maxLength: number = 3000
+): string {
+  const links = citations.map(citation => citationLink(citation, chat));
+  const marker = (number: number): string => {
+    const link = links[number - 1];
+    return link ? formatUrl(link, `[${number}]`) : escapeMarkdown(`[${number}]`);
+  };
+
+  const body = escapeMarkdown(truncateText(answer, maxLength))
+    .replace(/\\\[(\d+)\\\]/g, (text, number: string) => (Number(number) <= citations.length ? marker(Number(number)) : text));
+  if (citations.length === 0) {
+    return body;
+  }
+
+  const sources = citations.map((citation, index) => {
+    const date = new Date(citation.timestamp).toLocaleDateString();
+    return `${marker(index + 1)} ${escapeMarkdown(`${date} ${citation.author}: ${truncateText(citation.excerpt, 100)}`)}`;
+  });
+  return `${body}\n\n📎 *Sources*\n${sources.join('\n')}`;
+}
+
+/**
+ * Message a cited answer should reply to: the first cited Telegram message,
+ * but only in chats without message links, where the reply is the deep link
+ */
+export function citationReplyTarget(citations: QACitation[], chat: LinkableChat): number | undefined {
+  const first = citations.find(citation => citation.telegramMessageId)?.telegramMessageId;
+  return first && !telegramMessageLink(chat, first) ? first : undefined;
+}
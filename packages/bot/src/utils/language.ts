@@ -410,6 +410,19 @@ export function getLanguageName(languageCode: string): string {
   return LANGUAGE_NAMES[languageCode.toLowerCase()] || languageCode.toUpperCase();
 }
 
+/**
+ * Get language code from a code or an English name ("german" -> "de")
+ */
+export function getLanguageCode(language: string): string | undefined {
+  const normalized = language.trim().toLowerCase();
+  if (normalized in LANGUAGE_NAMES) {
+    return normalized;
+  }
+  
+  const entry = Object.entries(LANGUAGE_NAMES).find(([, name]) => name.toLowerCase() === normalized);
+  return entry?.[0];
+}
+
 /**
  * Check if a language is supported
  */
@@ -460,6 +473,7 @@ export default {
   translateText,
   formatMultilingualResponse,
   getLanguageName,
+  getLanguageCode,
   isLanguageSupported,
   getSupportedLanguages,
   clearLanguageCaches,
@@ -12,6 +12,7 @@ const loggerConfig = {
         translateTime: 'HH:MM:ss Z',
         ignore: 'pid,hostname',
         singleLine: true,
+        destination: appConfig.logDestination === 'stderr' ? 2 : 1,
       },
     },
   }),
@@ -25,8 +26,10 @@ const loggerConfig = {
   }),
 };
 
-// Create the main logger instance
-export const logger = pino(loggerConfig);
+// Create the main logger instance; a transport writes to its own destination
+export const logger = 'transport' in loggerConfig || appConfig.logDestination === 'stdout'
+  ? pino(loggerConfig)
+  : pino(loggerConfig, pino.destination(2));
 
 // Create child loggers for different components
 export const createChildLogger = (component: string) => {
@@ -40,6 +43,10 @@ export const openaiLogger = createChildLogger('openai');
 export const telegramLogger = createChildLogger('telegram');
 export const pluginLogger = createChildLogger('plugin');
 export const contentLogger = createChildLogger('content');
+export const searchLogger = createChildLogger('search');
+export const schedulerLogger = createChildLogger('scheduler');
+export const mcpLogger = createChildLogger('mcp');
+export const a2aLogger = createChildLogger('a2a');
 
 // Request correlation ID generator
 let requestIdCounter = 0;
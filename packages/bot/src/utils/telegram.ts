@@ -0,0 +1,37 @@
+import { Message } from 'telegraf/typings/core/types/typegram';
+import { BotContext, TopicScope } from '@/types';
+
+/**
+ * Forum topic helpers. In supergroups with topics every message outside
+ * General carries the topic's message_thread_id and, unless it answers a
+ * specific message, "replies" to the message that created the topic.
+ */
+
+// The topic a message was posted in; undefined for General and chats without topics
+export function getTopicId(message: Message | undefined): number | undefined {
+  return message && 'is_topic_message' in message && message.is_topic_message ? message.message_thread_id : undefined;
+}
+
+// Name of the topic, carried by the topic's creation message every topic message replies to
+export function getTopicName(message: Message | undefined): string | undefined {
+  const root = message && 'reply_to_message' in message ? message.reply_to_message : undefined;
+  return root && 'forum_topic_created' in root ? root.forum_topic_created.name : undefined;
+}
+
+// The message this one answers, not counting the implicit reply to its topic's creation message
+export function getReplyToMessageId(message: Message | undefined): number | undefined {
+  const replyTo = message && 'reply_to_message' in message ? message.reply_to_message : undefined;
+  if (!replyTo || replyTo.message_id === getTopicId(message)) {
+    return undefined;
+  }
+  return replyTo.message_id;
+}
+
+// Commands in a forum cover the topic they were sent in; elsewhere the whole chat
+export function getTopicScope(ctx: BotContext): TopicScope {
+  const chat = ctx.chat;
+  if (!chat || !('is_forum' in chat) || !chat.is_forum) {
+    return undefined;
+  }
+  return getTopicId(ctx.message ?? ctx.editedMessage) ?? null;
+}
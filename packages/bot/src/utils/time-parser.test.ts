@@ -0,0 +1,72 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseReminderTime } from '@/utils/time-parser';
+import { ValidationError } from '@/types';
+
+// Tuesday 2026-03-10, 12:00 UTC
+const NOW = Date.UTC(2026, 2, 10, 12, 0);
+
+function parse(input: string, timezone?: string) {
+  return parseReminderTime(input, NOW, timezone);
+}
+
+describe('parseReminderTime', () => {
+  it('reads relative delays', () => {
+    assert.deepEqual(parse('me in 30 minutes to check the oven'), {
+      fireAt: NOW + 30 * 60 * 1000,
+      text: 'check the oven'
+    });
+    assert.equal(parse('in 1 hour and 30 minutes stand up')?.fireAt, NOW + 90 * 60 * 1000);
+    assert.equal(parse('in half an hour stretch')?.fireAt, NOW + 30 * 60 * 1000);
+  });
+
+  it('combines a delay in days with a time of day', () => {
+    assert.deepEqual(parse('me in 2 days at 10am to call mom'), {
+      fireAt: Date.UTC(2026, 2, 12, 10, 0),
+      text: 'call mom'
+    });
+    assert.equal(parse('in 1 week in the morning review the budget')?.fireAt, Date.UTC(2026, 2, 17, 9, 0));
+    assert.equal(parse('in 1 day at 7:30 pm water the plants', 'Europe/Berlin')?.fireAt, Date.UTC(2026, 2, 11, 18, 30));
+  });
+
+  it('rejects a delay in hours with a time of day', () => {
+    assert.throws(() => parse('in 2 hours at 10am call mom'), ValidationError);
+  });
+
+  it('reads days and clock times', () => {
+    assert.deepEqual(parse('tomorrow 9am send the report'), {
+      fireAt: Date.UTC(2026, 2, 11, 9, 0),
+      text: 'send the report'
+    });
+    assert.equal(parse('on friday at 17:30 wrap up')?.fireAt, Date.UTC(2026, 2, 13, 17, 30));
+    assert.equal(parse('next tuesday plan the sprint')?.fireAt, Date.UTC(2026, 2, 17, 9, 0));
+    assert.equal(parse('2026-11-03 14:00 renew the domain')?.fireAt, Date.UTC(2026, 10, 3, 14, 0));
+  });
+
+  it('reads times on the wall clock of the timezone', () => {
+    assert.equal(parse('tomorrow 9am send the report', 'Europe/Berlin')?.fireAt, Date.UTC(2026, 2, 11, 8, 0));
+    assert.equal(parse('tomorrow 9am send the report', 'America/New_York')?.fireAt, Date.UTC(2026, 2, 11, 13, 0));
+  });
+
+  it('moves a bare time that has passed to tomorrow', () => {
+    assert.equal(parse('at 9 stretch')?.fireAt, Date.UTC(2026, 2, 11, 9, 0));
+    assert.equal(parse('at 15:00 stretch')?.fireAt, Date.UTC(2026, 2, 10, 15, 0));
+  });
+
+  it('explains a time that has already passed', () => {
+    assert.throws(() => parse('today at 9 stretch'), { message: 'That time has already passed today' });
+    assert.throws(() => parse('2026-01-01 10:00 renew the domain'), { message: 'That date has already passed' });
+  });
+
+  it('turns repeating reminders into cron expressions', () => {
+    const weekly = parse('every monday at 10 plan the week');
+    assert.equal(weekly?.recurrence, '0 10 * * 1');
+    assert.equal(weekly?.fireAt, Date.UTC(2026, 2, 16, 10, 0));
+    assert.equal(weekly?.text, 'plan the week');
+    assert.equal(parse('every weekday at 8:15 standup')?.recurrence, '15 8 * * 1-5');
+  });
+
+  it('returns null without a time expression', () => {
+    assert.equal(parse('buy milk'), null);
+  });
+});
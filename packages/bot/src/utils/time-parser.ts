@@ -0,0 +1,246 @@
+import { getZonedTime, zonedTimeToUtc } from '@/utils/timezone';
+import { getNextRun } from '@/utils/cron';
+import { ValidationError } from '@/types';
+
+/**
+ * Natural-language reminder times: "in 30 minutes", "tomorrow 9am",
+ * "on friday at 17:30", "every monday at 10", "2026-11-03 14:00".
+ * Times are read on the wall clock of the user's timezone.
+ */
+
+export interface ParsedTime {
+  fireAt: number;
+  recurrence?: string; // Cron expression for repeating reminders
+  text: string; // Input with the time expression removed
+}
+
+interface TimeOfDay {
+  hour: number;
+  minute: number;
+}
+
+// Hour used when only a day is given ("tomorrow", "on friday")
+const DEFAULT_HOUR = 9;
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const UNIT_MS: Record<string, number> = {
+  s: 1000, sec: 1000, secs: 1000, second: 1000, seconds: 1000,
+  m: MINUTE_MS, min: MINUTE_MS, mins: MINUTE_MS, minute: MINUTE_MS, minutes: MINUTE_MS,
+  h: 60 * MINUTE_MS, hr: 60 * MINUTE_MS, hrs: 60 * MINUTE_MS, hour: 60 * MINUTE_MS, hours: 60 * MINUTE_MS,
+  d: 24 * 60 * MINUTE_MS, day: 24 * 60 * MINUTE_MS, days: 24 * 60 * MINUTE_MS,
+  w: 7 * 24 * 60 * MINUTE_MS, week: 7 * 24 * 60 * MINUTE_MS, weeks: 7 * 24 * 60 * MINUTE_MS
+};
+
+const WEEKDAY_NAMES: Record<string, number> = {
+  sun: 0, sunday: 0, mon: 1, monday: 1, tue: 2, tues: 2, tuesday: 2, wed: 3, wednesday: 3,
+  thu: 4, thur: 4, thurs: 4, thursday: 4, fri: 5, friday: 5, sat: 6, saturday: 6
+};
+
+const NAMED_TIMES: Record<string, TimeOfDay> = {
+  noon: { hour: 12, minute: 0 },
+  midnight: { hour: 0, minute: 0 },
+  morning: { hour: 9, minute: 0 },
+  afternoon: { hour: 15, minute: 0 },
+  evening: { hour: 18, minute: 0 },
+  tonight: { hour: 20, minute: 0 }
+};
+
+const WEEKDAY_PATTERN = 'sun(?:day)?|mon(?:day)?|tue(?:s(?:day)?)?|wed(?:nesday)?|thu(?:r(?:s(?:day)?)?)?|fri(?:day)?|sat(?:urday)?';
+
+const RELATIVE = /\bin\s+((?:(?:\d+(?:\.\d+)?|\ban?\b|\bhalf an\b)\s*[a-z]+\s*(?:and\s+)?)+)/i;
+const RELATIVE_PART = /(\d+(?:\.\d+)?|\ban?\b|\bhalf an\b)\s*([a-z]+)/gi;
+const EVERY = new RegExp(`\\bevery\\s+(day|morning|evening|weekday|week|hour|${WEEKDAY_PATTERN})\\b`, 'i');
+const DATE = /\b(?:on\s+)?(\d{4})-(\d{2})-(\d{2})\b/i;
+const DAY = new RegExp(`\\b(day after tomorrow|tomorrow|today|tonight|(?:on\\s+)?(?:next\\s+)?(?:${WEEKDAY_PATTERN}))\\b`, 'i');
+const CLOCK_TIME = /\b(?:at\s+(\d{1,2})(?::(\d{2}))?\s*(am|pm)?|(\d{1,2}):(\d{2})\s*(am|pm)?|(\d{1,2})\s*(am|pm))(?![\w:])/i;
+const NAMED_TIME = /\b(?:at\s+|in\s+the\s+)?(noon|midnight|morning|afternoon|evening)\b/i;
+
+function removeMatch(text: string, match: RegExpExecArray | null): string {
+  if (!match) {
+    return text;
+  }
+  return text.substring(0, match.index) + ' ' + text.substring(match.index + match[0].length);
+}
+
+function parseDuration(expression: string): number | null {
+  let total = 0;
+  for (const part of expression.matchAll(RELATIVE_PART)) {
+    const [, amountText = '', unitText = ''] = part;
+    const unit = UNIT_MS[unitText.toLowerCase()];
+    if (!unit) {
+      return null;
+    }
+    const amount = /^half an$/i.test(amountText) ? 0.5 : /^an?$/i.test(amountText) ? 1 : parseFloat(amountText);
+    total += amount * unit;
+  }
+  return total > 0 ? total : null;
+}
+
+function parseClockTime(match: RegExpExecArray): TimeOfDay | null {
+  const hourText = match[1] || match[4] || match[7];
+  const minuteText = match[2] || match[5];
+  const meridiem = (match[3] || match[6] || match[8])?.toLowerCase();
+
+  let hour = parseInt(hourText || '', 10);
+  const minute = minuteText ? parseInt(minuteText, 10) : 0;
+
+  if (meridiem) {
+    if (hour < 1 || hour > 12) {
+      return null;
+    }
+    hour = hour % 12 + (meridiem === 'pm' ? 12 : 0);
+  }
+
+  if (!Number.isInteger(hour) || hour > 23 || minute > 59) {
+    return null;
+  }
+  return { hour, minute };
+}
+
+// Clean up what is left once the time expression is removed: "me to call mom" -> "call mom"
+function cleanText(text: string): string {
+  return text
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^me\b\s*/i, '')
+    .replace(/^(?:to|that|about)\b\s*/i, '')
+    .replace(/\s+(?:to|at|on)$/i, '')
+    .replace(/^[,:;-]\s*/, '')
+    .trim();
+}
+
+function addDays(date: { year: number; month: number; day: number }, days: number) {
+  const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth() + 1, day: shifted.getUTCDate() };
+}
+
+/**
+ * Parse a reminder request. Returns null when no time expression is found;
+ * throws a ValidationError for one that cannot be used, such as a time
+ * earlier today.
+ */
+export function parseReminderTime(input: string, now: number = Date.now(), timezone: string = 'UTC'): ParsedTime | null {
+  let text = ` ${input} `;
+
+  // Relative times: "in 2h", "in 1 hour and 30 minutes", "in half an hour".
+  // Whole days may be followed by a time of day: "in 2 days at 10am"
+  let relativeDays: number | undefined;
+  const relative = RELATIVE.exec(text);
+  if (relative?.[1]) {
+    const duration = parseDuration(relative[1]);
+    if (duration) {
+      const rest = removeMatch(text, relative);
+      const wholeDays = duration % DAY_MS === 0;
+      if (!CLOCK_TIME.test(rest) && !(wholeDays && NAMED_TIME.test(rest))) {
+        return { fireAt: now + duration, text: cleanText(rest) };
+      }
+      if (!wholeDays) {
+        throw new ValidationError('Give either a delay or a time of day, not both', { input });
+      }
+      relativeDays = duration / DAY_MS;
+      text = rest;
+    }
+  }
+
+  const every = relativeDays === undefined ? EVERY.exec(text) : null;
+  text = removeMatch(text, every);
+  const date = every || relativeDays !== undefined ? null : DATE.exec(text);
+  text = removeMatch(text, date);
+  const day = every || date || relativeDays !== undefined ? null : DAY.exec(text);
+  text = removeMatch(text, day);
+  const clock = CLOCK_TIME.exec(text);
+  text = removeMatch(text, clock);
+  const named = clock ? null : NAMED_TIME.exec(text);
+  text = removeMatch(text, named);
+
+  let timeOfDay: TimeOfDay | null = null;
+  if (clock) {
+    timeOfDay = parseClockTime(clock);
+    if (!timeOfDay) {
+      return null;
+    }
+  } else if (named?.[1]) {
+    timeOfDay = NAMED_TIMES[named[1].toLowerCase()] || null;
+  }
+
+  const dayWord = day?.[1]?.toLowerCase().replace(/^on\s+/, '');
+  if (dayWord === 'tonight' && !timeOfDay) {
+    timeOfDay = NAMED_TIMES['tonight'] || null;
+  }
+
+  if (!every && !date && !day && !timeOfDay && relativeDays === undefined) {
+    return null;
+  }
+
+  const zonedNow = getZonedTime(now, timezone);
+  const hour = timeOfDay?.hour ?? DEFAULT_HOUR;
+  const minute = timeOfDay?.minute ?? 0;
+
+  // Repeating reminders become cron expressions evaluated in the user's timezone
+  if (every?.[1]) {
+    const unit = every[1].toLowerCase();
+    let recurrence: string;
+
+    if (unit === 'hour') {
+      recurrence = `${timeOfDay?.minute ?? zonedNow.minute} * * * *`;
+    } else if (unit === 'day') {
+      recurrence = `${minute} ${hour} * * *`;
+    } else if (unit === 'morning' || unit === 'evening') {
+      const named = timeOfDay || NAMED_TIMES[unit] || { hour, minute };
+      recurrence = `${named.minute} ${named.hour} * * *`;
+    } else if (unit === 'weekday') {
+      recurrence = `${minute} ${hour} * * 1-5`;
+    } else if (unit === 'week') {
+      recurrence = `${minute} ${hour} * * ${zonedNow.weekday}`;
+    } else {
+      recurrence = `${minute} ${hour} * * ${WEEKDAY_NAMES[unit] ?? zonedNow.weekday}`;
+    }
+
+    return { fireAt: getNextRun(recurrence, now, timezone), recurrence, text: cleanText(text) };
+  }
+
+  let target = { year: zonedNow.year, month: zonedNow.month, day: zonedNow.day };
+
+  if (relativeDays !== undefined) {
+    target = addDays(target, relativeDays);
+  } else if (date) {
+    target = { year: parseInt(date[1] || '', 10), month: parseInt(date[2] || '', 10), day: parseInt(date[3] || '', 10) };
+  } else if (dayWord === 'tomorrow') {
+    target = addDays(target, 1);
+  } else if (dayWord === 'day after tomorrow') {
+    target = addDays(target, 2);
+  } else if (dayWord && dayWord !== 'today' && dayWord !== 'tonight') {
+    const explicitNext = dayWord.startsWith('next ');
+    const weekday = WEEKDAY_NAMES[dayWord.replace(/^next\s+/, '')] ?? zonedNow.weekday;
+    let offset = (weekday - zonedNow.weekday + 7) % 7;
+
+    // "friday" on a Friday means today if the time is still ahead, otherwise next week
+    const laterToday = hour > zonedNow.hour || (hour === zonedNow.hour && minute > zonedNow.minute);
+    if (offset === 0 && (explicitNext || !laterToday)) {
+      offset = 7;
+    }
+    target = addDays(target, offset);
+  }
+
+  let fireAt = zonedTimeToUtc({ ...target, hour, minute }, timezone);
+
+  // A bare time that has already passed today means tomorrow
+  if (fireAt <= now && !date && !dayWord && relativeDays === undefined) {
+    fireAt = zonedTimeToUtc({ ...addDays(target, 1), hour, minute }, timezone);
+  }
+
+  if (!Number.isFinite(fireAt)) {
+    return null;
+  }
+  if (fireAt <= now) {
+    throw new ValidationError(date ? 'That date has already passed' : 'That time has already passed today', { input });
+  }
+
+  return { fireAt, text: cleanText(text) };
+}
+
+export default {
+  parseReminderTime
+};
@@ -0,0 +1,121 @@
+/**
+ * Timezone helpers built on Intl, so IANA zone names such as
+ * "Europe/Berlin" work without a timezone database dependency
+ */
+
+export interface ZonedTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // 0 = Sunday
+}
+
+const WEEKDAYS: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+// Formatters are expensive to create and are reused per zone
+const formatters: Map<string, Intl.DateTimeFormat> = new Map();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short'
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Check whether a string is a timezone Intl understands
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    getFormatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Fall back to UTC for missing or unknown timezones
+ */
+export function normalizeTimezone(timezone?: string): string {
+  return timezone && isValidTimezone(timezone) ? timezone : 'UTC';
+}
+
+/**
+ * Wall-clock time of an instant in the given timezone
+ */
+export function getZonedTime(timestamp: number, timezone: string): ZonedTime {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timezone).formatToParts(new Date(timestamp))) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    year: parseInt(parts['year'] || '0', 10),
+    month: parseInt(parts['month'] || '0', 10),
+    day: parseInt(parts['day'] || '0', 10),
+    hour: parseInt(parts['hour'] || '0', 10),
+    minute: parseInt(parts['minute'] || '0', 10),
+    weekday: WEEKDAYS[parts['weekday'] || 'Sun'] ?? 0
+  };
+}
+
+/**
+ * Offset of the timezone from UTC at the given instant, in milliseconds
+ */
+export function getTimezoneOffset(timestamp: number, timezone: string): number {
+  const zoned = getZonedTime(timestamp, timezone);
+  const asUtc = Date.UTC(zoned.year, zoned.month - 1, zoned.day, zoned.hour, zoned.minute);
+  return asUtc - Math.floor(timestamp / 60000) * 60000;
+}
+
+/**
+ * Instant at which the wall clock in the timezone shows the given time
+ */
+export function zonedTimeToUtc(
+  time: Pick<ZonedTime, 'year' | 'month' | 'day' | 'hour' | 'minute'>,
+  timezone: string
+): number {
+  const wallClock = Date.UTC(time.year, time.month - 1, time.day, time.hour, time.minute);
+
+  // The offset at the wall-clock instant is a close guess; a second pass
+  // corrects it when a DST change falls in between
+  const guess = wallClock - getTimezoneOffset(wallClock, timezone);
+  return wallClock - getTimezoneOffset(guess, timezone);
+}
+
+/**
+ * Short human-readable time in the timezone, e.g. "Tue 20 Oct, 09:00"
+ */
+export function formatZonedTime(timestamp: number, timezone: string): string {
+  return new Date(timestamp).toLocaleString('en-GB', {
+    timeZone: timezone,
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+}
+
+export default {
+  isValidTimezone,
+  normalizeTimezone,
+  getZonedTime,
+  getTimezoneOffset,
+  zonedTimeToUtc,
+  formatZonedTime
+};
@@ -124,7 +124,7 @@ export class WeatherPlugin implements BuddianPlugin {
     console.log(`[WeatherPlugin] Activating plugin for user ${context.userId}`);
     
     // Get API key from settings
-    this.apiKey = this.config.settings.apiKey as string;
+    this.apiKey = this.config.settings['apiKey'] as string;
     
     if (!this.apiKey) {
       throw new PluginExecutionError(
@@ -280,7 +280,7 @@ export class WeatherPlugin implements BuddianPlugin {
 
   private async getCurrentWeather(
     parameters: Record<string, any>,
-    context: PluginContext
+    _context: PluginContext
   ): Promise<PluginResult> {
     const { city, units = 'metric' } = parameters;
     
@@ -313,7 +313,7 @@ export class WeatherPlugin implements BuddianPlugin {
             appid: this.apiKey,
             units
           },
-          timeout: this.config.timeout
+          ...(this.config.timeout && { timeout: this.config.timeout })
         }
       );
 
@@ -364,7 +364,7 @@ export class WeatherPlugin implements BuddianPlugin {
 
   private async getWeatherForecast(
     parameters: Record<string, any>,
-    context: PluginContext
+    _context: PluginContext
   ): Promise<PluginResult> {
     const { city, days = 3 } = parameters;
     
@@ -396,7 +396,7 @@ export class WeatherPlugin implements BuddianPlugin {
             appid: this.apiKey,
             units: 'metric'
           },
-          timeout: this.config.timeout
+          ...(this.config.timeout && { timeout: this.config.timeout })
         }
       );
 
@@ -485,7 +485,7 @@ export class WeatherPlugin implements BuddianPlugin {
     const cached = this.cache.get(key);
     if (!cached) return null;
 
-    const cacheTimeout = this.config.settings.cacheTimeout as number;
+    const cacheTimeout = this.config.settings['cacheTimeout'] as number;
     if (Date.now() - cached.timestamp > cacheTimeout) {
       this.cache.delete(key);
       return null;
@@ -502,7 +502,7 @@ export class WeatherPlugin implements BuddianPlugin {
   }
 
   private cleanupCache(): void {
-    const cacheTimeout = this.config.settings.cacheTimeout as number;
+    const cacheTimeout = this.config.settings['cacheTimeout'] as number;
     const now = Date.now();
 
     for (const [key, cached] of this.cache.entries()) {
@@ -514,7 +514,7 @@ export class WeatherPlugin implements BuddianPlugin {
 
   private checkRateLimit(): boolean {
     const now = Date.now();
-    const maxRequests = this.config.settings.maxRequestsPerHour as number;
+    const maxRequests = this.config.settings['maxRequestsPerHour'] as number;
 
     // Reset counter every hour
     if (now - this.lastHourReset > 3600000) {
@@ -0,0 +1,3 @@
+// Public surface of @buddian/plugins: the plugin contract and the bundled demo
+export * from './interface';
+export { WeatherPlugin } from './demo';
@@ -53,6 +53,65 @@ export const PluginMetadataSchema = z.object({
   minBuddianVersion: z.string().optional()
 });
 
+// Capabilities a plugin can declare in config.permissions. A declared
+// permission only takes effect in a chat once an admin has granted it there.
+export const PLUGIN_PERMISSIONS = {
+  'messages.send': 'Send messages to the chat',
+  'messages.read': 'Read recent chat history',
+  'resources.read': 'Read documents and links shared in the chat',
+  'network.http': 'Make HTTP requests',
+  'storage.read': 'Read data it has stored for the chat',
+  'storage.write': 'Store data for the chat'
+} as const;
+
+export type PluginPermission = keyof typeof PLUGIN_PERMISSIONS;
+
+export interface PluginChatMessage {
+  userId: string;
+  content: string;
+  timestamp: number;
+  language: string;
+  messageType: string;
+}
+
+export interface PluginResource {
+  id: string;
+  type: string;
+  title: string;
+  summary: string;
+  url?: string;
+}
+
+export interface PluginHttpRequest {
+  url: string;
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  headers?: Record<string, string>;
+  params?: Record<string, string | number | boolean>;
+  body?: unknown;
+  timeout?: number; // in milliseconds
+}
+
+export interface PluginHttpResponse {
+  status: number;
+  headers: Record<string, string>;
+  data: any;
+}
+
+// Restricted host API handed to plugins; every call is checked against the
+// permissions granted to the plugin in the current chat
+export interface PluginAPI {
+  getPermissions(): Promise<PluginPermission[]>;
+  sendMessage(text: string): Promise<void>;
+  getChatHistory(limit?: number): Promise<PluginChatMessage[]>;
+  getResources(limit?: number): Promise<PluginResource[]>;
+  http(request: PluginHttpRequest): Promise<PluginHttpResponse>;
+  storage: {
+    get<T = any>(key: string): Promise<T | undefined>;
+    set(key: string, value: unknown): Promise<void>;
+    delete(key: string): Promise<void>;
+  };
+}
+
 // Plugin context for execution
 export interface PluginContext {
   userId: string;
@@ -61,6 +120,7 @@ export interface PluginContext {
   language: string;
   timestamp: number;
   metadata: Record<string, any>;
+  api?: PluginAPI; // Absent for lifecycle calls that are not tied to a chat
 }
 
 // Plugin execution result
@@ -75,6 +135,7 @@ export interface PluginResult {
 // Plugin event types
 export type PluginEventType = 
   | 'message_received'
+  | 'message_edited'
   | 'file_uploaded'
   | 'command_executed'
   | 'user_joined'
@@ -196,10 +257,10 @@ export interface PluginManager {
     averageExecutionTime: number;
   }>;
   
-  // Security and permissions
-  checkPermission(pluginId: string, permission: string): boolean;
-  grantPermission(pluginId: string, permission: string): Promise<void>;
-  revokePermission(pluginId: string, permission: string): Promise<void>;
+  // Security and permissions, granted per chat
+  checkPermission(pluginId: string, chatId: string, permission: PluginPermission): Promise<boolean>;
+  grantPermission(pluginId: string, chatId: string, permission: PluginPermission): Promise<void>;
+  revokePermission(pluginId: string, chatId: string, permission: PluginPermission): Promise<void>;
 }
 
 // MCP (Model Context Protocol) compatibility
@@ -227,7 +288,7 @@ export interface MCPServer {
   resources: MCPResource[];
   
   // Tool execution
-  callTool(name: string, arguments: Record<string, any>): Promise<any>;
+  callTool(name: string, args: Record<string, any>): Promise<any>;
   
   // Resource access
   readResource(uri: string): Promise<string>;
@@ -303,6 +364,13 @@ export class PluginTimeoutError extends PluginError {
   }
 }
 
+export class PluginPermissionError extends PluginError {
+  constructor(message: string, pluginId: string, public permission: string, context?: Record<string, any>) {
+    super(message, pluginId, 'PERMISSION_DENIED', { permission, ...context });
+    this.name = 'PluginPermissionError';
+  }
+}
+
 // Utility types
 export type PluginParameter = z.infer<typeof PluginParameterSchema>;
 export type PluginCommand = z.infer<typeof PluginCommandSchema>;